@@ -1,4 +1,35 @@
 self.addEventListener('notificationclick', (event) => {
-  event.notification.close()
-  event.waitUntil(clients.openWindow('/'))
+  const { notification } = event
+  notification.close()
+  const { url = '/', snoozeMinutes } = notification.data ?? {}
+
+  if (event.action === 'snooze') {
+    // Timers don't survive in a service worker, so an open tab re-schedules it
+    event.waitUntil(
+      clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+        for (const client of windows) {
+          client.postMessage({
+            type: 'snooze-notification',
+            title: notification.title,
+            body: notification.body,
+            tag: notification.tag,
+            url,
+            minutes: snoozeMinutes,
+          })
+        }
+      })
+    )
+    return
+  }
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Bring an open tab forward rather than opening another copy of the app.
+      // It routes to the page itself so a running timer isn't lost to a reload.
+      const existing = windows.find((client) => 'focus' in client)
+      if (!existing) return clients.openWindow(url)
+      existing.postMessage({ type: 'open-notification', url })
+      return existing.focus()
+    })
+  )
 })
@@ -220,7 +220,7 @@ export default function AuthPage() {
             Just browsing? Try as a Guest
           </span>
           <span className="block text-[11px] text-star-white/25 group-hover:text-star-white/35 mt-0.5 transition-colors duration-200">
-            Explore everything without an account (no data saved)
+            Explore without an account (data stays on this device)
           </span>
         </motion.button>
 
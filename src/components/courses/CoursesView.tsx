@@ -0,0 +1,328 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { addDays, format, parseISO, startOfDay } from 'date-fns'
+import { BookOpen, CalendarClock, Clock, Plus, Trash2 } from 'lucide-react'
+import { useCourses } from '../../hooks/useCourses'
+import { useSubjects } from '../../hooks/useSubjects'
+import { useCalendars } from '../../hooks/useCalendars'
+import { useAssignments } from '../../hooks/useAssignments'
+import { useEvents } from '../../hooks/useEvents'
+import { useFocusSessions } from '../../hooks/useFocusSessions'
+import { useRecurrenceExceptions } from '../../hooks/useRecurrenceExceptions'
+import { SUBJECT_COLORS } from '../../lib/colors'
+import { courseFocusSeconds, upcomingAssignments, upcomingLectures } from '../../lib/courses'
+import { formatDuration } from '../../lib/format'
+import { createdRange } from '../../lib/tableRanges'
+import type { Course } from '../../types/database'
+
+const ASSIGNMENT_DAYS = 60
+const LECTURE_DAYS = 14
+
+function ColorPicker({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex gap-1.5 flex-wrap">
+      {SUBJECT_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          className="w-5 h-5 rounded-full transition-all"
+          style={{
+            backgroundColor: color,
+            outline: value === color ? '2px solid white' : 'none',
+            outlineOffset: 1,
+          }}
+        />
+      ))}
+    </div>
+  )
+}
+
+function LinkChip({ label, color, linked, onToggle }: {
+  label: string
+  color: string
+  linked: boolean
+  onToggle: () => void
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors ${linked
+        ? 'bg-gold/10 text-gold border border-gold/30'
+        : 'bg-glass border border-glass-border text-star-white/60 hover:text-star-white/90'
+        }`}
+    >
+      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+      {label}
+    </button>
+  )
+}
+
+function CourseDetail({ course }: { course: Course }) {
+  const navigate = useNavigate()
+  const { renameCourse, setCourseColor, deleteCourse, setSubjectCourse, setCalendarCourse } = useCourses()
+  const { subjects } = useSubjects()
+  const { calendars } = useCalendars()
+  const { assignments } = useAssignments()
+  const { exceptions } = useRecurrenceExceptions()
+  const [name, setName] = useState(course.name)
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const lectureRange = useMemo(() => {
+    const from = startOfDay(parseISO(today))
+    return { from: from.toISOString(), to: addDays(from, LECTURE_DAYS).toISOString() }
+  }, [today])
+  const { events } = useEvents(lectureRange)
+
+  const linkedSubjectIds = useMemo(
+    () => new Set(subjects.filter(s => s.course_id === course.id).map(s => s.id)),
+    [subjects, course.id]
+  )
+  const linkedCalendarIds = useMemo(
+    () => new Set(calendars.filter(c => c.course_id === course.id).map(c => c.id)),
+    [calendars, course.id]
+  )
+
+  // Only the sessions since its earliest subject was created can be filed under it
+  const focusRange = useMemo(
+    () => createdRange(
+      subjects.filter(s => linkedSubjectIds.has(s.id)),
+      addDays(parseISO(today), 1).toISOString()
+    ),
+    [subjects, linkedSubjectIds, today]
+  )
+  const { sessions } = useFocusSessions(focusRange)
+  const focusSeconds = useMemo(() => courseFocusSeconds(sessions, linkedSubjectIds), [sessions, linkedSubjectIds])
+  const dueSoon = useMemo(
+    () => upcomingAssignments(
+      assignments, exceptions, course.id, today, format(addDays(parseISO(today), ASSIGNMENT_DAYS), 'yyyy-MM-dd')
+    ),
+    [assignments, exceptions, course.id, today]
+  )
+  const lectures = useMemo(
+    () => upcomingLectures(
+      events, exceptions, linkedCalendarIds, new Date(lectureRange.from), new Date(lectureRange.to)
+    ),
+    [events, exceptions, linkedCalendarIds, lectureRange]
+  )
+
+  const commitName = () => {
+    if (name.trim() && name.trim() !== course.name) void renameCourse(course.id, name)
+    else setName(course.name)
+  }
+
+  const handleDelete = async () => {
+    await deleteCourse(course.id)
+    navigate('/courses', { replace: true })
+  }
+
+  const activeSubjects = subjects.filter(s => !s.archived || s.course_id === course.id)
+
+  return (
+    <div className="flex flex-col gap-5 flex-1 min-w-0">
+      <div className="glass-panel p-5 flex flex-col gap-3">
+        <div className="flex items-center gap-3">
+          <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: course.color }} />
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+            className="flex-1 bg-transparent text-xl font-semibold text-star-white focus:outline-none border-b border-transparent focus:border-stardust/40"
+          />
+          <button
+            type="button"
+            onClick={handleDelete}
+            title="Delete course"
+            className="p-1.5 rounded hover:bg-red-500/20 text-star-white/40 hover:text-red-400 transition-colors"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+        <ColorPicker value={course.color} onChange={color => void setCourseColor(course.id, color)} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="glass-panel p-4 text-center">
+          <div className="text-2xl font-semibold text-star-white">{formatDuration(focusSeconds)}</div>
+          <div className="text-xs text-star-white/50 mt-1">Total focus time</div>
+        </div>
+        <div className="glass-panel p-4 text-center">
+          <div className="text-2xl font-semibold text-star-white">{dueSoon.length}</div>
+          <div className="text-xs text-star-white/50 mt-1">Due in the next {ASSIGNMENT_DAYS} days</div>
+        </div>
+        <div className="glass-panel p-4 text-center">
+          <div className="text-2xl font-semibold text-star-white">{lectures.length}</div>
+          <div className="text-xs text-star-white/50 mt-1">Lectures in the next {LECTURE_DAYS} days</div>
+        </div>
+      </div>
+
+      <div className="glass-panel p-5 flex flex-col gap-4">
+        <div>
+          <h2 className="text-sm font-medium text-star-white/80 mb-2">Focus subjects</h2>
+          {activeSubjects.length === 0 ? (
+            <p className="text-xs text-star-white/40">No subjects yet. Add one in Focus.</p>
+          ) : (
+            <div className="flex gap-2 flex-wrap">
+              {activeSubjects.map(subject => (
+                <LinkChip
+                  key={subject.id}
+                  label={subject.name}
+                  color={subject.color}
+                  linked={subject.course_id === course.id}
+                  onToggle={() => void setSubjectCourse(subject.id, subject.course_id === course.id ? null : course.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+        <div>
+          <h2 className="text-sm font-medium text-star-white/80 mb-2">Lecture calendars</h2>
+          {calendars.length === 0 ? (
+            <p className="text-xs text-star-white/40">No calendars yet. Add one in Events.</p>
+          ) : (
+            <div className="flex gap-2 flex-wrap">
+              {calendars.map(calendar => (
+                <LinkChip
+                  key={calendar.id}
+                  label={calendar.name}
+                  color={calendar.color}
+                  linked={calendar.course_id === course.id}
+                  onToggle={() => void setCalendarCourse(calendar.id, calendar.course_id === course.id ? null : course.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="glass-panel p-5">
+          <h2 className="text-sm font-medium text-star-white/80 mb-3 flex items-center gap-2">
+            <BookOpen size={14} className="text-stardust" />
+            Upcoming assignments
+          </h2>
+          {dueSoon.length === 0 ? (
+            <p className="text-xs text-star-white/40">Nothing due.</p>
+          ) : (
+            <ul className="flex flex-col gap-1.5">
+              {dueSoon.map(occ => (
+                <li key={`${occ.data.id}-${occ.occurrenceDate}`} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-star-white/80 truncate">{occ.data.title}</span>
+                  <span className="text-xs text-star-white/50 shrink-0">
+                    {format(parseISO(occ.occurrenceDate), 'EEE, MMM d')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="glass-panel p-5">
+          <h2 className="text-sm font-medium text-star-white/80 mb-3 flex items-center gap-2">
+            <CalendarClock size={14} className="text-stardust" />
+            Scheduled lectures
+          </h2>
+          {linkedCalendarIds.size === 0 ? (
+            <p className="text-xs text-star-white/40">Link a calendar to see lectures here.</p>
+          ) : lectures.length === 0 ? (
+            <p className="text-xs text-star-white/40">No lectures in the next {LECTURE_DAYS} days.</p>
+          ) : (
+            <ul className="flex flex-col gap-1.5">
+              {lectures.map(lecture => (
+                <li key={`${lecture.id}-${lecture.start_time}`} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-star-white/80 truncate">{lecture.title}</span>
+                  <span className="text-xs text-star-white/50 shrink-0 flex items-center gap-1">
+                    <Clock size={11} />
+                    {lecture.all_day
+                      ? format(parseISO(lecture.start_time), 'EEE, MMM d')
+                      : format(parseISO(lecture.start_time), 'EEE, MMM d · h:mm a')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function CoursesView() {
+  const { courseId } = useParams()
+  const navigate = useNavigate()
+  const { courses, loading, createCourse } = useCourses()
+  const [newName, setNewName] = useState('')
+  const [newColor, setNewColor] = useState(SUBJECT_COLORS[0])
+
+  const selected = courses.find(course => course.id === courseId) ?? null
+
+  // Open the first course when none (or a deleted one) is in the URL
+  useEffect(() => {
+    if (!loading && !selected && courses.length > 0) navigate(`/courses/${courses[0].id}`, { replace: true })
+  }, [loading, selected, courses, navigate])
+
+  const handleAdd = async () => {
+    const course = await createCourse(newName, newColor)
+    if (!course) return
+    setNewName('')
+    setNewColor(SUBJECT_COLORS[0])
+    navigate(`/courses/${course.id}`)
+  }
+
+  return (
+    <div className="flex gap-6 h-full">
+      <div className="glass-panel p-4 w-64 shrink-0 flex flex-col gap-3 overflow-y-auto">
+        <h1 className="text-lg font-semibold text-star-white">Courses</h1>
+        <div className="flex flex-col gap-1">
+          {!loading && courses.length === 0 && (
+            <p className="text-xs text-star-white/40">No courses yet. Add one to link its assignments, focus time and lectures.</p>
+          )}
+          {courses.map(course => (
+            <button
+              key={course.id}
+              type="button"
+              onClick={() => navigate(`/courses/${course.id}`)}
+              className={`flex items-center gap-2 text-left text-sm py-1.5 px-2 rounded-lg transition-all ${course.id === selected?.id
+                ? 'bg-glass-hover text-star-white'
+                : 'text-star-white/60 hover:bg-glass-hover hover:text-star-white/90'
+                }`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: course.color }} />
+              <span className="truncate">{course.name}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col gap-2 pt-3 border-t border-glass-border">
+          <input
+            type="text"
+            placeholder="Course name"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleAdd()}
+            className="px-3 py-1.5 rounded-lg bg-glass border border-glass-border text-star-white placeholder-star-white/30 focus:outline-none focus:border-stardust/50 text-sm transition-all focus:shadow-[0_0_10px_rgba(196,160,255,0.1)]"
+          />
+          <ColorPicker value={newColor} onChange={setNewColor} />
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!newName.trim()}
+            className="w-full py-1.5 rounded-lg bg-gold text-midnight font-medium text-xs hover:bg-gold/90 transition-all duration-200 hover:scale-[1.03] active:scale-[0.98] flex items-center justify-center gap-1 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Plus size={12} />
+            Add Course
+          </button>
+        </div>
+      </div>
+
+      {selected ? (
+        <CourseDetail key={selected.id} course={selected} />
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-sm text-star-white/40">
+          {loading ? 'Loading courses…' : 'Pick or add a course.'}
+        </div>
+      )}
+    </div>
+  )
+}
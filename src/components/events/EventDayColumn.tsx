@@ -1,8 +1,11 @@
-import React, { memo } from 'react'
-import { format, parseISO } from 'date-fns'
+import React, { memo, useMemo } from 'react'
+import { format } from 'date-fns'
 import { Repeat } from 'lucide-react'
 
+import { layoutOverlaps } from '../../lib/eventLayout'
+import type { LayoutSlot } from '../../lib/eventLayout'
 import type { VirtualOccurrence } from '../../lib/recurrence'
+import { toZonedDate } from '../../lib/timezone'
 import type { CalendarEvent } from '../../types/database'
 
 interface EventDayColumnProps {
@@ -17,6 +20,7 @@ interface EventDayColumnProps {
     eventDragPreviewHeight: number
     eventDragPreviewColor: string | null
     isDraggingEvent: boolean
+    draggingEventKey: string | null
 
     onDayMouseDown: (day: Date, e: React.MouseEvent<HTMLDivElement>) => void
     onDayMouseMove: (e: React.MouseEvent<HTMLDivElement>) => void
@@ -25,6 +29,21 @@ interface EventDayColumnProps {
 
     getEventPosition: (event: CalendarEvent) => { top: number; height: number }
     getCalendarColor: (calendarId: string) => string
+    timeZone: string
+}
+
+const PREVIEW_KEY = '__drag-preview__'
+const FULL_WIDTH: LayoutSlot = { lane: 0, lanes: 1, left: 0, width: 1 }
+
+function occurrenceKey(occurrence: VirtualOccurrence<CalendarEvent>) {
+    return `${occurrence.data.id}-${occurrence.occurrenceDate}`
+}
+
+function slotStyle(slot: LayoutSlot): React.CSSProperties {
+    return {
+        left: `calc(${slot.left * 100}% + 2px)`,
+        width: `calc(${slot.width * 100}% - 4px)`,
+    }
 }
 
 function EventDayColumnComponent({
@@ -37,13 +56,29 @@ function EventDayColumnComponent({
     eventDragPreviewHeight,
     eventDragPreviewColor,
     isDraggingEvent,
+    draggingEventKey,
     onDayMouseDown,
     onDayMouseMove,
     onEventClick,
     onEventMouseDown,
     getEventPosition,
-    getCalendarColor
+    getCalendarColor,
+    timeZone,
 }: EventDayColumnProps) {
+    // While an event is dragged, its preview takes its place in the packing
+    const layout = useMemo(() => {
+        const items = occurrences
+            .filter(({ occurrence }) => occurrenceKey(occurrence) !== draggingEventKey)
+            .map(({ occurrence, adjustedEvent }) => {
+                const pos = getEventPosition(adjustedEvent)
+                return { id: occurrenceKey(occurrence), start: pos.top, end: pos.top + pos.height }
+            })
+        if (eventDragPreviewTop !== null) {
+            items.push({ id: PREVIEW_KEY, start: eventDragPreviewTop, end: eventDragPreviewTop + eventDragPreviewHeight })
+        }
+        return layoutOverlaps(items)
+    }, [occurrences, draggingEventKey, eventDragPreviewTop, eventDragPreviewHeight, getEventPosition])
+
     return (
         <div
             className={`relative border-l border-glass-border/30 select-none [content-visibility:auto] [contain-intrinsic-size:auto_1440px] ${isDraggingEvent ? '' : 'cursor-pointer'}`}
@@ -82,8 +117,9 @@ function EventDayColumnComponent({
             {/* Event drag preview */}
             {eventDragPreviewTop !== null && eventDragPreviewColor && (
                 <div
-                    className="absolute left-0.5 right-0.5 rounded-lg px-2 py-1 text-xs text-white overflow-hidden pointer-events-none z-30 opacity-60"
+                    className="absolute rounded-lg px-2 py-1 text-xs text-white overflow-hidden pointer-events-none z-30 opacity-60"
                     style={{
+                        ...slotStyle(layout.get(PREVIEW_KEY) ?? FULL_WIDTH),
                         top: eventDragPreviewTop,
                         height: eventDragPreviewHeight,
                         backgroundColor: eventDragPreviewColor,
@@ -93,19 +129,22 @@ function EventDayColumnComponent({
             )}
 
             {occurrences.map(({ occurrence, adjustedEvent }) => {
+                const key = occurrenceKey(occurrence)
                 const pos = getEventPosition(adjustedEvent)
                 const isRec = !!occurrence.data.recurrence
+                const isDragged = key === draggingEventKey
                 const calendarColor = getCalendarColor(adjustedEvent.calendar_id)
                 return (
                     <div
-                        key={`${occurrence.data.id}-${occurrence.occurrenceDate}`}
+                        key={key}
                         data-event
-                        className="absolute left-0.5 right-0.5 rounded-lg px-2 py-1 text-xs text-white overflow-hidden cursor-grab transition-transform z-10 hover:scale-[1.02] hover:shadow-lg active:cursor-grabbing"
+                        className="absolute rounded-lg px-2 py-1 text-xs text-white overflow-hidden cursor-grab transition-transform z-10 hover:scale-[1.02] hover:shadow-lg active:cursor-grabbing"
                         style={{
+                            ...slotStyle(layout.get(key) ?? FULL_WIDTH),
                             top: pos.top,
                             height: pos.height,
                             backgroundColor: calendarColor,
-                            opacity: 0.9,
+                            opacity: isDragged ? 0.4 : 0.9,
                             boxShadow: `0 2px 8px ${calendarColor}33`,
                         }}
                         onMouseDown={e => onEventMouseDown(occurrence, adjustedEvent, e)}
@@ -116,7 +155,7 @@ function EventDayColumnComponent({
                             {isRec && <Repeat size={10} className="shrink-0 opacity-70" />}
                         </div>
                         <div className="text-[11px] font-light truncate">
-                            {format(parseISO(adjustedEvent.start_time), 'h:mm a')} - {format(parseISO(adjustedEvent.end_time), 'h:mm a')}
+                            {format(toZonedDate(adjustedEvent.start_time, timeZone), 'h:mm a')} - {format(toZonedDate(adjustedEvent.end_time, timeZone), 'h:mm a')}
                         </div>
                     </div>
                 )
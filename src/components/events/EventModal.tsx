@@ -1,18 +1,26 @@
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ChevronDown, Check, X } from 'lucide-react'
+import { addDays, format, parseISO } from 'date-fns'
+import { Bell, ChevronDown, Check, X } from 'lucide-react'
 
 import type { CalendarEvent, Calendar, CalendarEventInsert } from '../../types/database'
 import type { VirtualOccurrence, Recurrence } from '../../lib/recurrence'
-import { RECURRENCE_OPTIONS } from '../../lib/recurrence'
+import { RECURRENCE_OPTIONS, describeRecurrence, hasRecurrenceEnd } from '../../lib/recurrence'
+import { allDayToISO } from '../../lib/allDay'
+import { fromZonedDate, listTimeZones } from '../../lib/timezone'
+import { REMINDER_OPTIONS, normalizeReminders } from '../../lib/reminders'
+import { requestNotificationPermission } from '../../lib/notifications'
 import { useRecurrenceExceptions } from '../../hooks/useRecurrenceExceptions'
 import EventDateTimePicker from '../ui/EventDateTimePicker'
 import DatePicker from '../ui/DatePicker'
 import RecurrenceDialog from '../ui/RecurrenceDialog'
+import RecurrenceBuilder from '../ui/RecurrenceBuilder'
 
 const MemoEventDateTimePicker = memo(EventDateTimePicker)
 const MemoDatePicker = memo(DatePicker)
 
+const TIME_ZONES = listTimeZones()
+
 const CalendarSelectRow = memo(function CalendarSelectRow({
     calendars,
     selectedId,
@@ -105,7 +113,7 @@ const RecurrenceSelectRow = memo(function RecurrenceSelectRow({
                 className="w-full flex items-center justify-between px-3 py-2 rounded-lg bg-glass border border-glass-border text-star-white focus:outline-none focus:border-stardust/50 text-sm cursor-pointer transition-colors hover:bg-glass-hover hover:border-stardust/30"
             >
                 <span className="truncate">
-                    {RECURRENCE_OPTIONS.find(opt => opt.value === value)?.label}
+                    {describeRecurrence(value)}
                 </span>
                 <ChevronDown
                     size={14}
@@ -124,7 +132,7 @@ const RecurrenceSelectRow = memo(function RecurrenceSelectRow({
                         <button
                             key={opt.value}
                             type="button"
-                            onClick={() => onChange(opt.value as Recurrence)}
+                            onClick={() => onChange(opt.value)}
                             className={`w-full text-left px-3 py-1.5 text-sm flex items-center gap-2 transition-colors ${opt.value === value
                                 ? 'text-gold bg-gold/10'
                                 : 'text-star-white/70 hover:bg-cosmic-purple/20 hover:text-star-white'
@@ -154,6 +162,9 @@ interface EventModalProps {
         calendar_id: string
         start_time: string
         end_time: string
+        all_day: boolean
+        time_zone: string
+        reminders: number[]
         recurrence: Recurrence
         recurrence_until: string
     }
@@ -181,6 +192,7 @@ export default function EventModal({
     const [isCalendarOpen, setIsCalendarOpen] = useState(false)
     const [isRecurrenceOpen, setIsRecurrenceOpen] = useState(false)
     const [recurrenceDialog, setRecurrenceDialog] = useState<{ action: 'edit' | 'delete' } | null>(null)
+    const [showRecurrenceBuilder, setShowRecurrenceBuilder] = useState(false)
 
     const calendarRef = useRef<HTMLDivElement>(null)
     const recurrenceRef = useRef<HTMLDivElement>(null)
@@ -192,6 +204,7 @@ export default function EventModal({
             setIsCalendarOpen(false)
             setIsRecurrenceOpen(false)
             setRecurrenceDialog(null)
+            setShowRecurrenceBuilder(false)
         }
     }, [isOpen, defaultFormState])
 
@@ -227,44 +240,82 @@ export default function EventModal({
         (value: string) => setForm(f => ({ ...f, end_time: value })),
         []
     )
+    const handleAllDayChange = useCallback((allDay: boolean) => {
+        setForm(f => {
+            if (allDay) return { ...f, all_day: true }
+            // Back to a timed event: an hour on the first day
+            const date = f.start_time.slice(0, 10)
+            return { ...f, all_day: false, start_time: `${date}T09:00`, end_time: `${date}T10:00` }
+        })
+    }, [])
+    const handleTimeZoneChange = useCallback(
+        (value: string) => setForm(f => ({ ...f, time_zone: value })),
+        []
+    )
+    const handleReminderToggle = useCallback((minutes: number) => {
+        // Ask up front so the reminder can actually be delivered
+        void requestNotificationPermission()
+        setForm(f => {
+            const enabled = f.reminders.includes(minutes)
+            const reminders = enabled ? f.reminders.filter(m => m !== minutes) : [...f.reminders, minutes]
+            return { ...f, reminders: normalizeReminders(reminders) }
+        })
+    }, [])
     const handleCalendarSelect = useCallback((calendarId: string) => {
         setForm(f => ({ ...f, calendar_id: calendarId }))
         setIsCalendarOpen(false)
     }, [])
     const handleRecurrenceChange = useCallback((value: Recurrence) => {
-        setForm(f => ({ ...f, recurrence: value }))
+        if (value === 'custom') setShowRecurrenceBuilder(true)
+        else setForm(f => ({ ...f, recurrence: value }))
         setIsRecurrenceOpen(false)
     }, [])
+    const handleCustomRecurrenceSave = useCallback((value: Recurrence) => {
+        setForm(f => ({ ...f, recurrence: value }))
+        setShowRecurrenceBuilder(false)
+    }, [])
     const handleRecurrenceUntilChange = useCallback(
         (value: string) => setForm(f => ({ ...f, recurrence_until: value })),
         []
     )
 
     const buildPayload = () => {
-        const startDt = new Date(form.start_time)
-        const endDt = new Date(form.end_time)
+        // The form holds an inclusive end date for all-day events; storage is exclusive.
+        // Timed events are entered as wall-clock times in the event's zone.
+        const startISO = form.all_day
+            ? allDayToISO(form.start_time.slice(0, 10))
+            : fromZonedDate(parseISO(form.start_time), form.time_zone).toISOString()
+        const endISO = form.all_day
+            ? allDayToISO(format(addDays(parseISO(form.end_time.slice(0, 10)), 1), 'yyyy-MM-dd'))
+            : fromZonedDate(parseISO(form.end_time), form.time_zone).toISOString()
         return {
             title: form.title,
             description: form.description || null,
             calendar_id: form.calendar_id,
-            start_time: startDt.toISOString(),
-            end_time: endDt.toISOString(),
+            start_time: startISO,
+            end_time: endISO,
+            all_day: form.all_day,
+            time_zone: form.all_day ? null : form.time_zone,
+            reminders: form.reminders.length > 0 ? form.reminders : null,
             recurrence: form.recurrence === 'once' ? null : form.recurrence,
-            recurrence_until: form.recurrence === 'once' ? null : form.recurrence_until,
+            recurrence_until: form.recurrence === 'once' ? null : form.recurrence_until || null,
         }
     }
 
     const handleSave = async () => {
         if (!form.title || !form.calendar_id) return
 
-        const startDt = new Date(form.start_time)
-        const endDt = new Date(form.end_time)
-        if (endDt <= startDt) {
+        if (form.all_day) {
+            if (form.end_time.slice(0, 10) < form.start_time.slice(0, 10)) {
+                setError('End date must be on or after start date.')
+                return
+            }
+        } else if (form.end_time <= form.start_time) {
             setError('End time must be after start time.')
             return
         }
 
-        if (form.recurrence !== 'once' && !form.recurrence_until) {
+        if (form.recurrence !== 'once' && !form.recurrence_until && !hasRecurrenceEnd(form.recurrence)) {
             setError('Please select an end date for recurring events.')
             return
         }
@@ -387,12 +438,63 @@ export default function EventModal({
                                     />
                                 </div>
 
-                                <MemoEventDateTimePicker
-                                    startTime={form.start_time}
-                                    endTime={form.end_time}
-                                    onStartTimeChange={handleStartTimeChange}
-                                    onEndTimeChange={handleEndTimeChange}
-                                />
+                                <div className="flex flex-col gap-2">
+                                    <label className="flex items-center gap-2 text-sm text-star-white/70 cursor-pointer w-fit">
+                                        <input
+                                            type="checkbox"
+                                            checked={form.all_day}
+                                            onChange={e => handleAllDayChange(e.target.checked)}
+                                            className="w-3.5 h-3.5 rounded accent-gold"
+                                        />
+                                        All day
+                                    </label>
+                                    <MemoEventDateTimePicker
+                                        startTime={form.start_time}
+                                        endTime={form.end_time}
+                                        onStartTimeChange={handleStartTimeChange}
+                                        onEndTimeChange={handleEndTimeChange}
+                                        allDay={form.all_day}
+                                    />
+                                    {!form.all_day && (
+                                        <select
+                                            value={form.time_zone}
+                                            onChange={e => handleTimeZoneChange(e.target.value)}
+                                            className="px-3 py-1.5 rounded-lg bg-glass border border-glass-border text-star-white/80 focus:outline-none focus:border-stardust/50 text-xs transition-all cursor-pointer"
+                                        >
+                                            {(TIME_ZONES.includes(form.time_zone) ? TIME_ZONES : [form.time_zone, ...TIME_ZONES]).map(zone => (
+                                                <option key={zone} value={zone} className="bg-void">
+                                                    {zone.replace(/_/g, ' ')}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <label className="text-xs text-star-white/50 mb-1.5 flex items-center gap-1.5">
+                                        <Bell size={12} />
+                                        Reminders
+                                        {form.all_day && <span className="text-star-white/30">· before 9:00 AM on the day</span>}
+                                    </label>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {REMINDER_OPTIONS.map(option => {
+                                            const active = form.reminders.includes(option.value)
+                                            return (
+                                                <button
+                                                    key={option.value}
+                                                    type="button"
+                                                    onClick={() => handleReminderToggle(option.value)}
+                                                    className={`px-2.5 py-1 rounded-lg border text-xs transition-colors ${active
+                                                        ? 'bg-gold/15 border-gold/40 text-gold'
+                                                        : 'bg-glass border-glass-border text-star-white/50 hover:bg-glass-hover hover:text-star-white/80'
+                                                    }`}
+                                                >
+                                                    {option.label}
+                                                </button>
+                                            )
+                                        })}
+                                    </div>
+                                </div>
 
                                 <div className="relative" ref={recurrenceRef}>
                                     <RecurrenceSelectRow
@@ -403,7 +505,7 @@ export default function EventModal({
                                     />
                                 </div>
 
-                                {form.recurrence !== 'once' && (
+                                {form.recurrence !== 'once' && !hasRecurrenceEnd(form.recurrence) && (
                                     <div>
                                         <label className="text-xs text-star-white/50 mb-1.5 block">Repeat until</label>
                                         <MemoDatePicker
@@ -446,6 +548,15 @@ export default function EventModal({
                     onCancel={() => setRecurrenceDialog(null)}
                 />
             )}
+
+            {showRecurrenceBuilder && (
+                <RecurrenceBuilder
+                    initialValue={form.recurrence}
+                    startDate={form.start_time.slice(0, 10)}
+                    onSave={handleCustomRecurrenceSave}
+                    onCancel={() => setShowRecurrenceBuilder(false)}
+                />
+            )}
         </>
     )
 }
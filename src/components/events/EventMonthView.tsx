@@ -0,0 +1,143 @@
+import React, { memo } from 'react'
+import { format, isSameMonth } from 'date-fns'
+import { Repeat } from 'lucide-react'
+
+import type { VirtualOccurrence } from '../../lib/recurrence'
+import { toZonedDate } from '../../lib/timezone'
+import type { CalendarEvent } from '../../types/database'
+
+type DayOccurrence = { occurrence: VirtualOccurrence<CalendarEvent>; adjustedEvent: CalendarEvent }
+
+const MAX_CHIPS = 3
+const DAY_HEADERS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+interface EventMonthCellProps {
+    day: Date
+    currentMonth: Date
+    isToday: boolean
+    occurrences: DayOccurrence[]
+    onDayNumberClick: (day: Date) => void
+    onDayDoubleClick: (day: Date) => void
+    onEventClick: (occurrence: VirtualOccurrence<CalendarEvent>, adjustedEvent: CalendarEvent, e: React.MouseEvent) => void
+    getCalendarColor: (calendarId: string) => string
+    timeZone: string
+}
+
+const EventMonthCell = memo(function EventMonthCell({
+    day,
+    currentMonth,
+    isToday,
+    occurrences,
+    onDayNumberClick,
+    onDayDoubleClick,
+    onEventClick,
+    getCalendarColor,
+    timeZone,
+}: EventMonthCellProps) {
+    return (
+        <div
+            className={`bg-void/50 p-1.5 min-h-[90px] cursor-pointer transition-colors hover:bg-white/[0.02] [content-visibility:auto] [contain-intrinsic-size:auto_90px] ${isSameMonth(day, currentMonth) ? '' : 'opacity-40'}`}
+            onDoubleClick={() => onDayDoubleClick(day)}
+        >
+            <button
+                type="button"
+                onClick={() => onDayNumberClick(day)}
+                className={`text-xs mb-1 ${isToday
+                    ? 'w-5 h-5 rounded-full bg-gold text-midnight flex items-center justify-center font-bold'
+                    : 'text-star-white/60 hover:text-star-white'
+                    }`}
+                style={isToday ? { boxShadow: '0 0 8px rgba(245, 224, 80, 0.4)' } : undefined}
+            >
+                {format(day, 'd')}
+            </button>
+
+            <div className="flex flex-col gap-0.5">
+                {occurrences.slice(0, MAX_CHIPS).map(({ occurrence, adjustedEvent }) => {
+                    const color = getCalendarColor(adjustedEvent.calendar_id)
+                    return (
+                        <div
+                            key={`${occurrence.data.id}-${occurrence.occurrenceDate}`}
+                            className="text-[11px] px-1 py-0.5 rounded text-white flex items-center gap-1.5 hover:brightness-125"
+                            style={{ backgroundColor: color + '30' }}
+                            onClick={e => onEventClick(occurrence, adjustedEvent, e)}
+                            onDoubleClick={e => e.stopPropagation()}
+                        >
+                            <div className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                            {!adjustedEvent.all_day && (
+                                <span className="text-star-white/50 shrink-0">
+                                    {format(toZonedDate(adjustedEvent.start_time, timeZone), 'h:mma').toLowerCase()}
+                                </span>
+                            )}
+                            <span className="flex-1 truncate">{adjustedEvent.title}</span>
+                            {occurrence.data.recurrence && <Repeat size={8} className="shrink-0 opacity-50" />}
+                        </div>
+                    )
+                })}
+                {occurrences.length > MAX_CHIPS && (
+                    <button
+                        type="button"
+                        onClick={() => onDayNumberClick(day)}
+                        className="text-[10px] text-star-white/40 hover:text-star-white/70 px-1 text-left"
+                    >
+                        +{occurrences.length - MAX_CHIPS} more
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+})
+
+interface EventMonthViewProps {
+    days: Date[]
+    currentMonth: Date
+    todayDate: string
+    getOccurrencesForDay: (day: Date) => DayOccurrence[]
+    onDayNumberClick: (day: Date) => void
+    onDayDoubleClick: (day: Date) => void
+    onEventClick: (occurrence: VirtualOccurrence<CalendarEvent>, adjustedEvent: CalendarEvent, e: React.MouseEvent) => void
+    getCalendarColor: (calendarId: string) => string
+    timeZone: string
+}
+
+export default function EventMonthView({
+    days,
+    currentMonth,
+    todayDate,
+    getOccurrencesForDay,
+    onDayNumberClick,
+    onDayDoubleClick,
+    onEventClick,
+    getCalendarColor,
+    timeZone,
+}: EventMonthViewProps) {
+    return (
+        <div className="flex-1 p-4 flex flex-col min-h-0 overflow-y-auto">
+            <div className="grid grid-cols-7 mb-1">
+                {DAY_HEADERS.map(day => (
+                    <div key={day} className="text-center text-xs text-star-white/50 py-1 font-medium">
+                        {day}
+                    </div>
+                ))}
+            </div>
+            <div className="grid grid-cols-7 flex-1 gap-px bg-glass-border/30 rounded-lg overflow-hidden">
+                {days.map(day => {
+                    const dateStr = format(day, 'yyyy-MM-dd')
+                    return (
+                        <EventMonthCell
+                            key={dateStr}
+                            day={day}
+                            currentMonth={currentMonth}
+                            isToday={dateStr === todayDate}
+                            occurrences={getOccurrencesForDay(day)}
+                            onDayNumberClick={onDayNumberClick}
+                            onDayDoubleClick={onDayDoubleClick}
+                            onEventClick={onEventClick}
+                            getCalendarColor={getCalendarColor}
+                            timeZone={timeZone}
+                        />
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -1,40 +1,95 @@
 import { useState, useMemo, useRef, useEffect, useCallback, useDeferredValue, lazy, Suspense } from 'react'
 import {
-  format, startOfWeek, addDays, addWeeks, subWeeks,
-  parseISO, differenceInMinutes, isSameDay, getHours, getMinutes,
+  format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfDay, addDays, addWeeks, addMonths,
+  eachDayOfInterval, parseISO, isValid, differenceInMinutes, differenceInCalendarDays, isSameDay, getHours, getMinutes,
 } from 'date-fns'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ChevronLeft, ChevronRight, Plus, Eye, EyeOff, X, Trash2 } from 'lucide-react'
+import { useSearchParams } from 'react-router-dom'
+import { ChevronLeft, ChevronRight, Plus, Eye, EyeOff, X, Trash2, Upload, Download } from 'lucide-react'
 import { useCalendars } from '../../hooks/useCalendars'
 import { useEvents } from '../../hooks/useEvents'
 import { useRecurrenceExceptions } from '../../hooks/useRecurrenceExceptions'
+import { useUserSettings } from '../../hooks/useUserSettings'
 import { expandItems } from '../../lib/recurrence'
 import type { Recurrence, VirtualOccurrence } from '../../lib/recurrence'
 import { SUBJECT_COLORS } from '../../lib/colors'
+import { normalizeReminders } from '../../lib/reminders'
+import { getEventDateSpan, getEventDates, getMaxEventSpanDays, getOccurrenceTimes, isBannerEvent } from '../../lib/allDay'
+import { layoutOverlaps } from '../../lib/eventLayout'
+import { fromZonedDate, getLocalTimeZone, getZonedDateKey, isValidTimeZone, listTimeZones, toZonedDate } from '../../lib/timezone'
+import { loadJSON, saveJSON } from '../../lib/storage'
 import type { CalendarEvent } from '../../types/database'
 import { EventDayColumn } from './EventDayColumn'
+import EventMonthView from './EventMonthView'
 import EventModal from './EventModal'
+import IcsImportModal from './IcsImportModal'
+import IcsExportModal from './IcsExportModal'
 
 const HOUR_HEIGHT = 60
 const HOURS = Array.from({ length: 24 }, (_, i) => i)
 const HOUR_LABELS = HOURS.map(hour => hour === 0 ? '' : format(new Date(2000, 0, 1, hour), 'h a'))
 const TimeInsightsChart = lazy(() => import('../charts/TimeInsightsChart'))
 
+type EventsViewMode = 'day' | '3day' | 'week' | 'month'
+
+const VIEW_MODES: { value: EventsViewMode; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: '3day', label: '3 Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+]
+const VIEW_STORAGE_KEY = 'muffin-events-view'
+const TIME_ZONES = listTimeZones()
+
+function toViewMode(value: string | null | undefined): EventsViewMode | null {
+  return VIEW_MODES.some(m => m.value === value) ? value as EventsViewMode : null
+}
+
+function toAnchorDate(value: string | null | undefined): Date {
+  const parsed = value ? parseISO(value) : null
+  return parsed && isValid(parsed) ? startOfDay(parsed) : startOfDay(new Date())
+}
+
+function shiftAnchor(anchor: Date, view: EventsViewMode, direction: 1 | -1): Date {
+  switch (view) {
+    case 'day': return addDays(anchor, direction)
+    case '3day': return addDays(anchor, 3 * direction)
+    case 'week': return addWeeks(anchor, direction)
+    case 'month': return addMonths(anchor, direction)
+  }
+}
+
 export default function EventsView() {
   const { calendars, createCalendar, toggleVisibility, deleteCalendar } = useCalendars()
-  const { events, createEvent, updateEvent, deleteEvent } = useEvents()
-  const { exceptions } = useRecurrenceExceptions()
+  const { exceptions, createException } = useRecurrenceExceptions()
+  // Everything on the grid is shown in the user's display zone
+  const { settings, displayTimeZone, updateSettings } = useUserSettings()
+
+  // View and anchor date live in the URL (?view=week&date=2026-02-02); the last
+  // choice is also kept in localStorage so a bare /events restores it.
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [storedView] = useState(() =>
+    loadJSON<{ view?: string; date?: string } | null>(VIEW_STORAGE_KEY, null)
+  )
+  const viewMode = toViewMode(searchParams.get('view')) ?? toViewMode(storedView?.view) ?? 'week'
+  const anchorParam = searchParams.get('date') ?? storedView?.date
+  const anchorDate = useMemo(() => toAnchorDate(anchorParam), [anchorParam])
+  const anchorKey = format(anchorDate, 'yyyy-MM-dd')
 
-  // Defer heavy inputs so clicks/page navigation can commit before recurrence
-  // expansion recomputes (helps INP on ARM/Snapdragon).
-  const deferredEvents = useDeferredValue(events)
-  const deferredExceptions = useDeferredValue(exceptions)
+  const setView = useCallback((view: EventsViewMode, date: Date) => {
+    const next = { view, date: format(date, 'yyyy-MM-dd') }
+    saveJSON(VIEW_STORAGE_KEY, next)
+    setSearchParams(next, { replace: true })
+  }, [setSearchParams])
 
-  const [currentWeekStart, setCurrentWeekStart] = useState(() =>
-    startOfWeek(new Date(), { weekStartsOn: 1 })
-  )
+  useEffect(() => {
+    if (searchParams.get('view') === viewMode && searchParams.get('date') === anchorKey) return
+    setSearchParams({ view: viewMode, date: anchorKey }, { replace: true })
+  }, [searchParams, viewMode, anchorKey, setSearchParams])
   const [showEventModal, setShowEventModal] = useState(false)
   const [showCalendarModal, setShowCalendarModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
+  const [exportCalendarId, setExportCalendarId] = useState<string | null>(null)
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null)
   const [editingOccurrence, setEditingOccurrence] = useState<VirtualOccurrence<CalendarEvent> | null>(null)
 
@@ -44,6 +99,9 @@ export default function EventsView() {
     calendar_id: '',
     start_time: '',
     end_time: '',
+    all_day: false,
+    time_zone: '',
+    reminders: [] as number[],
     recurrence: 'once' as Recurrence,
     recurrence_until: '',
   })
@@ -77,18 +135,49 @@ export default function EventsView() {
   const gridRef = useRef<HTMLDivElement>(null)
   const columnsRef = useRef<HTMLDivElement>(null)
 
-  // Scroll to 8am on mount
+  const isMonthView = viewMode === 'month'
+
+  // Scroll to 8am whenever the time grid mounts
   useEffect(() => {
     if (gridRef.current) {
       gridRef.current.scrollTop = 8 * HOUR_HEIGHT
     }
-  }, [])
+  }, [isMonthView])
+
+  // Columns of the time grid (day / 3-day / week)
+  const columnDays = useMemo(() => {
+    if (viewMode === 'day') return [anchorDate]
+    if (viewMode === '3day') return Array.from({ length: 3 }, (_, i) => addDays(anchorDate, i))
+    const weekStart = startOfWeek(anchorDate, { weekStartsOn: 1 })
+    return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+  }, [viewMode, anchorDate])
+
+  const monthDays = useMemo(() => {
+    if (!isMonthView) return []
+    return eachDayOfInterval({
+      start: startOfWeek(startOfMonth(anchorDate), { weekStartsOn: 1 }),
+      end: endOfWeek(endOfMonth(anchorDate), { weekStartsOn: 1 }),
+    })
+  }, [isMonthView, anchorDate])
+  const rangeDays = isMonthView ? monthDays : columnDays
+
+  // Load events around the visible days, with a day of slack on each side
+  // for time zone offsets; multi-day events that started earlier still overlap
+  const firstDay = rangeDays[0].getTime()
+  const lastDay = rangeDays[rangeDays.length - 1].getTime()
+  const eventRange = useMemo(() => ({
+    from: addDays(firstDay, -1).toISOString(),
+    to: addDays(lastDay, 2).toISOString(),
+  }), [firstDay, lastDay])
+  const { events, createEvent, updateEvent, deleteEvent } = useEvents(eventRange)
 
-  const weekDays = useMemo(
-    () => Array.from({ length: 7 }, (_, i) => addDays(currentWeekStart, i)),
-    [currentWeekStart]
-  )
-  const todayDate = useMemo(() => format(now, 'yyyy-MM-dd'), [now])
+  // Defer heavy inputs so clicks/page navigation can commit before recurrence
+  // expansion recomputes (helps INP on ARM/Snapdragon).
+  const deferredEvents = useDeferredValue(events)
+  const deferredExceptions = useDeferredValue(exceptions)
+
+  const zonedNow = useMemo(() => toZonedDate(now, displayTimeZone), [now, displayTimeZone])
+  const todayDate = useMemo(() => format(zonedNow, 'yyyy-MM-dd'), [zonedNow])
 
   const visibleCalendarIds = useMemo(
     () => new Set(calendars.filter(c => c.visible).map(c => c.id)),
@@ -100,46 +189,47 @@ export default function EventsView() {
     [deferredEvents, visibleCalendarIds]
   )
 
-  // Expand recurring events for the current week view
-  const weekStart = format(weekDays[0], 'yyyy-MM-dd')
-  const weekEnd = format(addDays(weekDays[6], 1), 'yyyy-MM-dd')
+  // Expand recurring events for the visible range, reaching back far enough
+  // to catch multi-day events that started before it
+  const maxSpanDays = useMemo(() => getMaxEventSpanDays(visibleEvents), [visibleEvents])
+  const rangeStart = format(addDays(rangeDays[0], -maxSpanDays), 'yyyy-MM-dd')
+  const rangeEnd = format(addDays(rangeDays[rangeDays.length - 1], 1), 'yyyy-MM-dd')
 
   const expandedEvents = useMemo(
-    () => expandItems(visibleEvents, 'start_time', weekStart, weekEnd, deferredExceptions),
-    [visibleEvents, weekStart, weekEnd, deferredExceptions]
+    () => expandItems(
+      visibleEvents, 'start_time', rangeStart, rangeEnd, deferredExceptions,
+      event => event.all_day ? null : event.time_zone
+    ),
+    [visibleEvents, rangeStart, rangeEnd, deferredExceptions]
   )
 
-  // Pre-computed Map for O(1) day lookups
+  // Pre-computed Map for O(1) day lookups; multi-day events appear on every day they cover
   const eventsByDay = useMemo(() => {
     const map = new Map<string, { occurrence: VirtualOccurrence<CalendarEvent>; adjustedEvent: CalendarEvent }[]>()
     for (const occ of expandedEvents) {
-      const dateStr = occ.occurrenceDate
       const event = occ.data
-      let adjustedEvent: CalendarEvent
-      if (!occ.isVirtual) {
-        adjustedEvent = event
-      } else {
-        const origStart = parseISO(event.start_time)
-        const origEnd = parseISO(event.end_time)
-        const occDate = parseISO(occ.occurrenceDate)
-        const newStart = new Date(occDate)
-        newStart.setHours(origStart.getHours(), origStart.getMinutes(), origStart.getSeconds())
-        const newEnd = new Date(occDate)
-        newEnd.setHours(origEnd.getHours(), origEnd.getMinutes(), origEnd.getSeconds())
-        if (newEnd <= newStart) newEnd.setDate(newEnd.getDate() + 1)
-        adjustedEvent = {
-          ...event,
-          start_time: newStart.toISOString(),
-          end_time: newEnd.toISOString(),
-        }
-      }
+      const adjustedEvent = occ.isVirtual
+        ? { ...event, ...getOccurrenceTimes(event, occ.occurrenceDate) }
+        : event
       const entry = { occurrence: occ, adjustedEvent }
-      const existing = map.get(dateStr)
-      if (existing) existing.push(entry)
-      else map.set(dateStr, [entry])
+      const dates = isBannerEvent(adjustedEvent)
+        ? getEventDates(adjustedEvent, displayTimeZone)
+        : [getZonedDateKey(adjustedEvent.start_time, displayTimeZone)]
+      for (const dateStr of dates) {
+        const existing = map.get(dateStr)
+        if (existing) existing.push(entry)
+        else map.set(dateStr, [entry])
+      }
+    }
+    // All-day and multi-day events first, then by start time
+    for (const entries of map.values()) {
+      entries.sort((a, b) =>
+        Number(isBannerEvent(b.adjustedEvent)) - Number(isBannerEvent(a.adjustedEvent)) ||
+        a.adjustedEvent.start_time.localeCompare(b.adjustedEvent.start_time)
+      )
     }
     return map
-  }, [expandedEvents])
+  }, [expandedEvents, displayTimeZone])
 
   // Calendar color lookup map
   const calendarColorMap = useMemo(
@@ -147,14 +237,14 @@ export default function EventsView() {
     [calendars]
   )
 
-  // Only events in the current week for insights
-  const weekInsightEvents = useMemo(() => {
-    return expandedEvents.map(occ => occ.data)
+  // Only events in the visible range for insights
+  const rangeInsightEvents = useMemo(() => {
+    return expandedEvents.map(occ => occ.data).filter(event => !event.all_day)
   }, [expandedEvents])
 
   const timeInsights = useMemo(() => {
     const calHours: Record<string, number> = {}
-    weekInsightEvents.forEach(event => {
+    rangeInsightEvents.forEach(event => {
       const mins = differenceInMinutes(parseISO(event.end_time), parseISO(event.start_time))
       calHours[event.calendar_id] = (calHours[event.calendar_id] || 0) + mins / 60
     })
@@ -165,26 +255,49 @@ export default function EventsView() {
         value: Math.round(calHours[c.id] * 10) / 10,
         color: c.color,
       }))
-  }, [weekInsightEvents, calendars])
+  }, [rangeInsightEvents, calendars])
 
   const getOccurrencesForDay = useCallback((day: Date) => {
     return eventsByDay.get(format(day, 'yyyy-MM-dd')) || []
   }, [eventsByDay])
   const occurrencesByDay = useMemo(
-    () => weekDays.map(day => getOccurrencesForDay(day)),
-    [weekDays, getOccurrencesForDay]
+    () => columnDays.map(day => getOccurrencesForDay(day).filter(({ adjustedEvent }) => !isBannerEvent(adjustedEvent))),
+    [columnDays, getOccurrencesForDay]
   )
 
+  // All-day banner: each all-day or multi-day event spans its columns, packed into rows
+  const bannerItems = useMemo(() => {
+    const firstDate = format(columnDays[0], 'yyyy-MM-dd')
+    const lastDate = format(columnDays[columnDays.length - 1], 'yyyy-MM-dd')
+    const seen = new Set<string>()
+    const items: { key: string; occurrence: VirtualOccurrence<CalendarEvent>; adjustedEvent: CalendarEvent; startCol: number; endCol: number }[] = []
+    for (const day of columnDays) {
+      for (const { occurrence, adjustedEvent } of getOccurrencesForDay(day)) {
+        if (!isBannerEvent(adjustedEvent)) continue
+        const key = `${occurrence.data.id}-${occurrence.occurrenceDate}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        const { startDate, endDate } = getEventDateSpan(adjustedEvent, displayTimeZone)
+        const startCol = startDate < firstDate ? 0 : differenceInCalendarDays(parseISO(startDate), columnDays[0])
+        const endCol = endDate > lastDate ? columnDays.length : differenceInCalendarDays(parseISO(endDate), columnDays[0]) + 1
+        items.push({ key, occurrence, adjustedEvent, startCol, endCol })
+      }
+    }
+    const rows = layoutOverlaps(items.map(item => ({ id: item.key, start: item.startCol, end: item.endCol })))
+    return items.map(item => ({ ...item, row: rows.get(item.key)?.lane ?? 0 }))
+  }, [columnDays, getOccurrencesForDay, displayTimeZone])
+  const bannerRowCount = Math.max(1, ...bannerItems.map(item => item.row + 1))
+
   const getEventPosition = useCallback((event: CalendarEvent) => {
-    const start = parseISO(event.start_time)
+    const start = toZonedDate(event.start_time, displayTimeZone)
     const end = parseISO(event.end_time)
     const topMinutes = getHours(start) * 60 + getMinutes(start)
-    const durationMinutes = differenceInMinutes(end, start)
+    const durationMinutes = differenceInMinutes(end, parseISO(event.start_time))
     return {
       top: (topMinutes / 60) * HOUR_HEIGHT,
       height: Math.max((durationMinutes / 60) * HOUR_HEIGHT, 20),
     }
-  }, [])
+  }, [displayTimeZone])
 
   const getCalendarColor = useCallback((calendarId: string) =>
     calendarColorMap.get(calendarId) || '#4F9CF7', [calendarColorMap])
@@ -211,6 +324,24 @@ export default function EventsView() {
     setDragEndHour(hour)
   }, [isDragging, getHourFromMouseEvent])
 
+  const openNewEventModal = useCallback((startDate: Date, endDate: Date, allDay = false) => {
+    setModalDefaultState({
+      title: '',
+      description: '',
+      calendar_id: calendars[0]?.id || '',
+      start_time: format(startDate, "yyyy-MM-dd'T'HH:mm"),
+      end_time: format(endDate, "yyyy-MM-dd'T'HH:mm"),
+      all_day: allDay,
+      time_zone: displayTimeZone,
+      reminders: [],
+      recurrence: 'once',
+      recurrence_until: '',
+    })
+    setEditingEvent(null)
+    setEditingOccurrence(null)
+    setShowEventModal(true)
+  }, [calendars, displayTimeZone])
+
   const finishDrag = useCallback(() => {
     if (!isDragging || !dragDay) return
     setIsDragging(false)
@@ -225,36 +356,47 @@ export default function EventsView() {
     const endDate = new Date(dragDay)
     endDate.setHours(endH, 0, 0, 0)
 
-    setModalDefaultState({
-      title: '',
-      description: '',
-      calendar_id: calendars[0]?.id || '',
-      start_time: format(startDate, "yyyy-MM-dd'T'HH:mm"),
-      end_time: format(endDate, "yyyy-MM-dd'T'HH:mm"),
-      recurrence: 'once',
-      recurrence_until: '',
-    })
-    setEditingEvent(null)
-    setEditingOccurrence(null)
-    setShowEventModal(true)
+    openNewEventModal(startDate, endDate)
     setDragDay(null)
-  }, [isDragging, dragDay, dragStartHour, dragEndHour, calendars])
+  }, [isDragging, dragDay, dragStartHour, dragEndHour, openNewEventModal])
+
+  // Month view: double-click a day to create a 9–10am event on it
+  const handleMonthDayDoubleClick = useCallback((day: Date) => {
+    const startDate = new Date(day)
+    startDate.setHours(9, 0, 0, 0)
+    const endDate = new Date(day)
+    endDate.setHours(10, 0, 0, 0)
+    openNewEventModal(startDate, endDate)
+  }, [openNewEventModal])
+
+  const handleMonthDayClick = useCallback((day: Date) => setView('day', day), [setView])
+
+  // All-day banner: double-click a column to create an all-day event on it
+  const handleBannerDoubleClick = useCallback((day: Date) => {
+    openNewEventModal(day, day, true)
+  }, [openNewEventModal])
 
   const openEventModal = useCallback((occurrence: VirtualOccurrence<CalendarEvent>, adjustedEvent: CalendarEvent) => {
     setEditingEvent(occurrence.data)
     setEditingOccurrence(occurrence)
     const rec = occurrence.data.recurrence
+    // All-day events edit their inclusive date span; timed ones are edited in their own zone
+    const span = adjustedEvent.all_day ? getEventDateSpan(adjustedEvent) : null
+    const eventZone = isValidTimeZone(adjustedEvent.time_zone) ? adjustedEvent.time_zone : displayTimeZone
     setModalDefaultState({
       title: adjustedEvent.title,
       description: adjustedEvent.description || '',
       calendar_id: adjustedEvent.calendar_id,
-      start_time: format(parseISO(adjustedEvent.start_time), "yyyy-MM-dd'T'HH:mm"),
-      end_time: format(parseISO(adjustedEvent.end_time), "yyyy-MM-dd'T'HH:mm"),
-      recurrence: (rec || 'once') as Recurrence,
+      start_time: span ? `${span.startDate}T00:00` : format(toZonedDate(adjustedEvent.start_time, eventZone), "yyyy-MM-dd'T'HH:mm"),
+      end_time: span ? `${span.endDate}T00:00` : format(toZonedDate(adjustedEvent.end_time, eventZone), "yyyy-MM-dd'T'HH:mm"),
+      all_day: !!adjustedEvent.all_day,
+      time_zone: eventZone,
+      reminders: normalizeReminders(adjustedEvent.reminders),
+      recurrence: rec || 'once',
       recurrence_until: occurrence.data.recurrence_until || '',
     })
     setShowEventModal(true)
-  }, [])
+  }, [displayTimeZone])
 
   const handleEventClick = useCallback((occurrence: VirtualOccurrence<CalendarEvent>, adjustedEvent: CalendarEvent, e: React.MouseEvent) => {
     e.stopPropagation()
@@ -271,9 +413,9 @@ export default function EventsView() {
     const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
     const clickOffsetMinutes = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60
     const durationMinutes = differenceInMinutes(parseISO(adjustedEvent.end_time), parseISO(adjustedEvent.start_time))
-    const eventStart = parseISO(adjustedEvent.start_time)
+    const eventStart = toZonedDate(adjustedEvent.start_time, displayTimeZone)
     const startMinutes = getHours(eventStart) * 60 + getMinutes(eventStart)
-    const dayIdx = weekDays.findIndex(d => format(d, 'yyyy-MM-dd') === format(eventStart, 'yyyy-MM-dd'))
+    const dayIdx = columnDays.findIndex(d => format(d, 'yyyy-MM-dd') === format(eventStart, 'yyyy-MM-dd'))
 
     eventDragMovedRef.current = false
     setDraggingEventOcc(occurrence)
@@ -285,9 +427,14 @@ export default function EventsView() {
       durationMinutes,
       color: getCalendarColor(adjustedEvent.calendar_id),
     })
-  }, [weekDays, getCalendarColor])
+  }, [columnDays, displayTimeZone, getCalendarColor])
+
+  const draggingEventKey = draggingEventOcc
+    ? `${draggingEventOcc.data.id}-${draggingEventOcc.occurrenceDate}`
+    : null
 
   // Global mousemove for event dragging
+  const columnCount = columnDays.length
   useEffect(() => {
     if (!draggingEventOcc || !draggingEventAdj) return
     const handleGlobalMouseMove = (e: MouseEvent) => {
@@ -296,8 +443,8 @@ export default function EventsView() {
 
       eventDragMovedRef.current = true
       const containerRect = container.getBoundingClientRect()
-      const colWidth = containerRect.width / 7
-      const dayIdx = Math.max(0, Math.min(6, Math.floor((e.clientX - containerRect.left) / colWidth)))
+      const colWidth = containerRect.width / columnCount
+      const dayIdx = Math.max(0, Math.min(columnCount - 1, Math.floor((e.clientX - containerRect.left) / colWidth)))
       // getBoundingClientRect already accounts for scroll, so no scrollTop needed
       const yInGrid = e.clientY - containerRect.top
       const totalMinutes = (yInGrid / HOUR_HEIGHT) * 60
@@ -323,14 +470,14 @@ export default function EventsView() {
       }
       latestPreviewRef.current = null
     }
-  }, [draggingEventOcc, draggingEventAdj, dragEventOffsetMinutes, getCalendarColor])
+  }, [draggingEventOcc, draggingEventAdj, dragEventOffsetMinutes, columnCount, getCalendarColor])
 
   // Global mouseup — commit drag-to-create OR event drag
   useEffect(() => {
     const handleMouseUp = () => {
       if (isDragging) finishDrag()
       if (draggingEventOcc && draggingEventAdj && eventDragPreview && eventDragMovedRef.current) {
-        const targetDay = weekDays[eventDragPreview.dayIdx]
+        const targetDay = columnDays[eventDragPreview.dayIdx]
         const startH = Math.floor(eventDragPreview.topMinutes / 60)
         const startM = eventDragPreview.topMinutes % 60
         const endMinutes = eventDragPreview.topMinutes + eventDragPreview.durationMinutes
@@ -341,8 +488,8 @@ export default function EventsView() {
         const newEnd = new Date(targetDay)
         newEnd.setHours(endH, endM, 0, 0)
         updateEvent(draggingEventOcc.data.id, {
-          start_time: newStart.toISOString(),
-          end_time: newEnd.toISOString(),
+          start_time: fromZonedDate(newStart, displayTimeZone).toISOString(),
+          end_time: fromZonedDate(newEnd, displayTimeZone).toISOString(),
         })
       }
       if (draggingEventOcc) {
@@ -358,7 +505,7 @@ export default function EventsView() {
     }
     window.addEventListener('mouseup', handleMouseUp)
     return () => window.removeEventListener('mouseup', handleMouseUp)
-  }, [isDragging, finishDrag, draggingEventOcc, draggingEventAdj, eventDragPreview, weekDays, updateEvent])
+  }, [isDragging, finishDrag, draggingEventOcc, draggingEventAdj, eventDragPreview, columnDays, displayTimeZone, updateEvent])
 
   const handleSaveCalendar = async () => {
     if (!calendarForm.name) return
@@ -374,45 +521,74 @@ export default function EventsView() {
     const maxH = Math.max(dragStartHour, dragEndHour)
     const top = minH * HOUR_HEIGHT
     const height = Math.max((maxH - minH) * HOUR_HEIGHT, 10)
-    const dayIndex = weekDays.findIndex(d => isSameDay(d, dragDay))
+    const dayIndex = columnDays.findIndex(d => isSameDay(d, dragDay))
     return { top, height, dayIndex }
-  }, [isDragging, dragDay, dragStartHour, dragEndHour, weekDays])
+  }, [isDragging, dragDay, dragStartHour, dragEndHour, columnDays])
 
   // Current time position
   const currentTimePosition = useMemo(() => {
-    const todayIndex = weekDays.findIndex(d => isSameDay(d, now))
+    const todayIndex = columnDays.findIndex(d => isSameDay(d, zonedNow))
     if (todayIndex === -1) return null
-    const minutes = getHours(now) * 60 + getMinutes(now)
+    const minutes = getHours(zonedNow) * 60 + getMinutes(zonedNow)
     return { top: (minutes / 60) * HOUR_HEIGHT, dayIndex: todayIndex }
-  }, [weekDays, now])
+  }, [columnDays, zonedNow])
   const totalInsightHours = useMemo(
     () => timeInsights.reduce((sum, item) => sum + item.value, 0),
     [timeInsights]
   )
 
+  const rangeLabel = useMemo(() => {
+    if (viewMode === 'month') return format(anchorDate, 'MMMM yyyy')
+    if (viewMode === 'day') return format(anchorDate, 'EEEE, MMM d, yyyy')
+    return `${format(columnDays[0], 'MMM d')} – ${format(columnDays[columnDays.length - 1], 'MMM d, yyyy')}`
+  }, [viewMode, anchorDate, columnDays])
+
   return (
     <div className="flex flex-col h-full gap-4">
-      {/* Week navigation */}
+      {/* View switcher and range navigation */}
       <div className="flex items-center justify-between">
-        <h1 className="text-xl font-semibold text-star-white">Events</h1>
+        <div className="flex items-center gap-4">
+          <h1 className="text-xl font-semibold text-star-white">Events</h1>
+          <div className="relative flex p-0.5 rounded-xl bg-glass/80 border border-glass-border">
+            {VIEW_MODES.map(opt => (
+              <button
+                key={opt.value}
+                onClick={() => setView(opt.value, anchorDate)}
+                className={`relative min-w-[64px] py-2.5 rounded-[10px] text-xs font-semibold tracking-wide text-center transition-colors duration-200 cursor-pointer ${viewMode === opt.value
+                  ? 'text-midnight'
+                  : 'text-star-white/50 hover:text-star-white/80'
+                  }`}
+              >
+                {viewMode === opt.value && (
+                  <motion.div
+                    layoutId="events-view-pill"
+                    className="gold-btn absolute inset-0 rounded-[10px] border-none"
+                    transition={{ type: 'spring', stiffness: 400, damping: 28 }}
+                  />
+                )}
+                <span className="relative z-10">{opt.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
         <div className="flex items-center gap-3">
           <button
-            onClick={() => setCurrentWeekStart(subWeeks(currentWeekStart, 1))}
+            onClick={() => setView(viewMode, shiftAnchor(anchorDate, viewMode, -1))}
             className="p-1.5 rounded-lg hover:bg-cosmic-purple/30 text-star-white/70 hover:text-star-white transition-all duration-200 hover:scale-[1.1] active:scale-95"
           >
             <ChevronLeft size={20} />
           </button>
           <span className="text-star-white/80 text-sm font-medium min-w-[200px] text-center">
-            {format(weekDays[0], 'MMM d')} – {format(weekDays[6], 'MMM d, yyyy')}
+            {rangeLabel}
           </span>
           <button
-            onClick={() => setCurrentWeekStart(addWeeks(currentWeekStart, 1))}
+            onClick={() => setView(viewMode, shiftAnchor(anchorDate, viewMode, 1))}
             className="p-1.5 rounded-lg hover:bg-cosmic-purple/30 text-star-white/70 hover:text-star-white transition-all duration-200 hover:scale-[1.1] active:scale-95"
           >
             <ChevronRight size={20} />
           </button>
           <button
-            onClick={() => setCurrentWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+            onClick={() => setView(viewMode, zonedNow)}
             className="gold-btn min-w-[80px] py-2.5 rounded-xl text-midnight font-semibold text-sm tracking-wide border-none text-center cursor-pointer hover:scale-[1.015] hover:-translate-y-px active:scale-[0.985] transition-transform duration-200"
           >
             Today
@@ -425,12 +601,21 @@ export default function EventsView() {
         <div className="w-44 shrink-0 glass-panel p-4 flex flex-col gap-2">
           <div className="flex items-center justify-between mb-3">
             <h3 className="text-sm font-medium text-star-white/80">Calendars</h3>
-            <button
-              onClick={() => setShowCalendarModal(true)}
-              className="p-1 rounded hover:bg-glass-hover text-star-white/50 hover:text-gold transition-colors"
-            >
-              <Plus size={14} />
-            </button>
+            <div className="flex items-center gap-0.5">
+              <button
+                onClick={() => setShowImportModal(true)}
+                title="Import .ics"
+                className="p-1 rounded hover:bg-glass-hover text-star-white/50 hover:text-gold transition-colors"
+              >
+                <Upload size={14} />
+              </button>
+              <button
+                onClick={() => setShowCalendarModal(true)}
+                className="p-1 rounded hover:bg-glass-hover text-star-white/50 hover:text-gold transition-colors"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
           </div>
           {calendars.length === 0 && (
             <p className="text-xs text-star-white/40">
@@ -455,6 +640,13 @@ export default function EventsView() {
                   {cal.name}
                 </span>
               </button>
+              <button
+                onClick={() => setExportCalendarId(cal.id)}
+                title="Export .ics"
+                className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-glass-hover text-star-white/30 hover:text-gold transition-all"
+              >
+                <Download size={12} />
+              </button>
               <button
                 onClick={() => deleteCalendar(cal.id)}
                 className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-glass-hover text-star-white/30 hover:text-red-400 transition-all"
@@ -463,85 +655,157 @@ export default function EventsView() {
               </button>
             </div>
           ))}
-        </div>
 
-        {/* Weekly grid */}
-        <div className="flex-1 flex flex-col min-w-0 glass-panel overflow-hidden">
-          {/* Day headers */}
-          <div
-            className="grid shrink-0 border-b border-glass-border"
-            style={{ gridTemplateColumns: '50px repeat(7, 1fr)' }}
-          >
-            <div />
-            {weekDays.map(day => (
-              <div
-                key={day.toISOString()}
-                className="py-2 px-1 text-center border-l border-glass-border"
-              >
-                <div className="text-xs text-star-white/50">{format(day, 'EEE')}</div>
-                <div
-                  className={`text-sm font-medium ${format(day, 'yyyy-MM-dd') === todayDate ? 'text-gold gold-glow' : 'text-star-white/80'
-                    }`}
-                >
-                  {format(day, 'd')}
-                </div>
-              </div>
-            ))}
+          <div className="mt-auto pt-3 border-t border-glass-border">
+            <label className="text-xs text-star-white/50 mb-1.5 block">Time zone</label>
+            <select
+              value={settings.display_time_zone ?? ''}
+              onChange={e => updateSettings({ display_time_zone: e.target.value || null })}
+              className="w-full px-2 py-1.5 rounded-lg bg-glass border border-glass-border text-star-white/80 focus:outline-none focus:border-stardust/50 text-xs transition-all cursor-pointer"
+            >
+              <option value="" className="bg-void">Device ({getLocalTimeZone().replace(/_/g, ' ')})</option>
+              {TIME_ZONES.map(zone => (
+                <option key={zone} value={zone} className="bg-void">
+                  {zone.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
           </div>
+        </div>
 
-          {/* Scrollable grid body */}
-          <div className="flex-1 overflow-y-auto" ref={gridRef}>
-            <div className="relative" style={{ height: 24 * HOUR_HEIGHT }}>
-              {/* Hour lines and labels */}
-              {HOURS.map(hour => (
+        {isMonthView ? (
+          <div className="flex-1 flex flex-col min-w-0 glass-panel overflow-hidden">
+            <EventMonthView
+              days={monthDays}
+              currentMonth={anchorDate}
+              todayDate={todayDate}
+              getOccurrencesForDay={getOccurrencesForDay}
+              onDayNumberClick={handleMonthDayClick}
+              onDayDoubleClick={handleMonthDayDoubleClick}
+              onEventClick={handleEventClick}
+              getCalendarColor={getCalendarColor}
+              timeZone={displayTimeZone}
+            />
+          </div>
+        ) : (
+          /* Time grid */
+          <div className="flex-1 flex flex-col min-w-0 glass-panel overflow-hidden">
+            {/* Day headers */}
+            <div
+              className="grid shrink-0 border-b border-glass-border"
+              style={{ gridTemplateColumns: `50px repeat(${columnCount}, 1fr)` }}
+            >
+              <div />
+              {columnDays.map(day => (
                 <div
-                  key={hour}
-                  className="absolute left-0 right-0 flex"
-                  style={{ top: hour * HOUR_HEIGHT }}
+                  key={day.toISOString()}
+                  className="py-2 px-1 text-center border-l border-glass-border"
                 >
-                  <div className="w-[50px] shrink-0 text-[10px] text-star-white/40 text-right pr-2 -translate-y-1/2">
-                    {HOUR_LABELS[hour]}
+                  <div className="text-xs text-star-white/50">{format(day, 'EEE')}</div>
+                  <div
+                    className={`text-sm font-medium ${format(day, 'yyyy-MM-dd') === todayDate ? 'text-gold gold-glow' : 'text-star-white/80'
+                      }`}
+                  >
+                    {format(day, 'd')}
                   </div>
-                  <div className="flex-1 border-t border-glass-border/50" />
                 </div>
               ))}
+            </div>
 
-              {/* Day columns with events */}
+            {/* All-day banner */}
+            <div
+              className="grid shrink-0 border-b border-glass-border"
+              style={{
+                gridTemplateColumns: `50px repeat(${columnCount}, 1fr)`,
+                gridTemplateRows: `repeat(${bannerRowCount}, 22px)`,
+              }}
+            >
               <div
-                ref={columnsRef}
-                className={`absolute top-0 bottom-0 left-[50px] right-0 grid grid-cols-7 ${draggingEventOcc ? 'cursor-grabbing' : ''}`}
+                className="text-[10px] text-star-white/40 text-right pr-2 pt-1"
+                style={{ gridColumn: 1, gridRow: '1 / -1' }}
               >
-                {weekDays.map((day, dayIdx) => (
-                  <EventDayColumn
-                    key={day.toISOString()}
-                    day={day}
-                    occurrences={occurrencesByDay[dayIdx]}
-                    currentTimeTop={currentTimePosition?.dayIndex === dayIdx ? currentTimePosition.top : null}
-                    dragPreviewTop={dragPreview?.dayIndex === dayIdx ? dragPreview.top : null}
-                    dragPreviewHeight={dragPreview?.dayIndex === dayIdx ? dragPreview.height : 0}
-                    eventDragPreviewTop={eventDragPreview?.dayIdx === dayIdx ? (eventDragPreview.topMinutes / 60) * HOUR_HEIGHT : null}
-                    eventDragPreviewHeight={eventDragPreview?.dayIdx === dayIdx ? Math.max((eventDragPreview.durationMinutes / 60) * HOUR_HEIGHT, 20) : 0}
-                    eventDragPreviewColor={eventDragPreview?.dayIdx === dayIdx ? eventDragPreview.color : null}
-                    isDraggingEvent={!!draggingEventOcc}
-                    onDayMouseDown={handleDayMouseDown}
-                    onDayMouseMove={handleDayMouseMove}
-                    onEventClick={handleEventClick}
-                    onEventMouseDown={handleEventMouseDown}
-                    getEventPosition={getEventPosition}
-                    getCalendarColor={getCalendarColor}
-                  />
+                all-day
+              </div>
+              {columnDays.map((day, dayIdx) => (
+                <div
+                  key={day.toISOString()}
+                  className="border-l border-glass-border/30"
+                  style={{ gridColumn: dayIdx + 2, gridRow: '1 / -1' }}
+                  onDoubleClick={() => handleBannerDoubleClick(day)}
+                />
+              ))}
+              {bannerItems.map(({ key, occurrence, adjustedEvent, startCol, endCol, row }) => {
+                const color = getCalendarColor(adjustedEvent.calendar_id)
+                return (
+                  <div
+                    key={key}
+                    className="mx-0.5 my-px px-2 rounded text-[11px] leading-5 text-white truncate cursor-pointer hover:brightness-125 z-10"
+                    style={{ gridColumn: `${startCol + 2} / ${endCol + 2}`, gridRow: row + 1, backgroundColor: color, opacity: 0.9 }}
+                    onClick={e => handleEventClick(occurrence, adjustedEvent, e)}
+                  >
+                    {adjustedEvent.title}
+                  </div>
+                )
+              })}
+            </div>
+
+            {/* Scrollable grid body */}
+            <div className="flex-1 overflow-y-auto" ref={gridRef}>
+              <div className="relative" style={{ height: 24 * HOUR_HEIGHT }}>
+                {/* Hour lines and labels */}
+                {HOURS.map(hour => (
+                  <div
+                    key={hour}
+                    className="absolute left-0 right-0 flex"
+                    style={{ top: hour * HOUR_HEIGHT }}
+                  >
+                    <div className="w-[50px] shrink-0 text-[10px] text-star-white/40 text-right pr-2 -translate-y-1/2">
+                      {HOUR_LABELS[hour]}
+                    </div>
+                    <div className="flex-1 border-t border-glass-border/50" />
+                  </div>
                 ))}
+
+                {/* Day columns with events */}
+                <div
+                  ref={columnsRef}
+                  className={`absolute top-0 bottom-0 left-[50px] right-0 grid ${draggingEventOcc ? 'cursor-grabbing' : ''}`}
+                  style={{ gridTemplateColumns: `repeat(${columnCount}, 1fr)` }}
+                >
+                  {columnDays.map((day, dayIdx) => (
+                    <EventDayColumn
+                      key={day.toISOString()}
+                      day={day}
+                      occurrences={occurrencesByDay[dayIdx]}
+                      currentTimeTop={currentTimePosition?.dayIndex === dayIdx ? currentTimePosition.top : null}
+                      dragPreviewTop={dragPreview?.dayIndex === dayIdx ? dragPreview.top : null}
+                      dragPreviewHeight={dragPreview?.dayIndex === dayIdx ? dragPreview.height : 0}
+                      eventDragPreviewTop={eventDragPreview?.dayIdx === dayIdx ? (eventDragPreview.topMinutes / 60) * HOUR_HEIGHT : null}
+                      eventDragPreviewHeight={eventDragPreview?.dayIdx === dayIdx ? Math.max((eventDragPreview.durationMinutes / 60) * HOUR_HEIGHT, 20) : 0}
+                      eventDragPreviewColor={eventDragPreview?.dayIdx === dayIdx ? eventDragPreview.color : null}
+                      isDraggingEvent={!!draggingEventOcc}
+                      draggingEventKey={draggingEventKey}
+                      onDayMouseDown={handleDayMouseDown}
+                      onDayMouseMove={handleDayMouseMove}
+                      onEventClick={handleEventClick}
+                      onEventMouseDown={handleEventMouseDown}
+                      getEventPosition={getEventPosition}
+                      getCalendarColor={getCalendarColor}
+                      timeZone={displayTimeZone}
+                    />
+                  ))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Time Insights */}
         <div className="w-52 shrink-0 glass-panel p-4 flex flex-col gap-3">
           <h3 className="text-sm font-medium text-star-white/80">Time Insights</h3>
           {timeInsights.length === 0 ? (
             <p className="text-xs text-star-white/40">
-              Add events to visible calendars to see weekly time insights.
+              Add events to visible calendars to see time insights for this range.
             </p>
           ) : (
             <>
@@ -584,6 +848,28 @@ export default function EventsView() {
         deleteEvent={deleteEvent}
       />
 
+      {/* .ics Import Modal */}
+      <IcsImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        calendars={calendars}
+        createEvent={createEvent}
+        updateEvent={updateEvent}
+        createException={createException}
+      />
+
+      {/* .ics Export Modal */}
+      <AnimatePresence>
+        {exportCalendarId && (
+          <IcsExportModal
+            onClose={() => setExportCalendarId(null)}
+            calendars={calendars}
+            initialCalendarId={exportCalendarId}
+            exceptions={exceptions}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Calendar Modal */}
       <AnimatePresence>
         {showCalendarModal && (
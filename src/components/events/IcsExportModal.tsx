@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { format } from 'date-fns'
+import { Check, X } from 'lucide-react'
+
+import type { Calendar, RecurrenceException } from '../../types/database'
+import { useEvents } from '../../hooks/useEvents'
+import { useTodos } from '../../hooks/useTodos'
+import { useAssignments } from '../../hooks/useAssignments'
+import { serializeIcs } from '../../lib/icsExport'
+import type { TaskExportFormat } from '../../lib/icsExport'
+import { downloadFile, toFileSlug } from '../../lib/download'
+
+interface IcsExportModalProps {
+    onClose: () => void
+    calendars: Calendar[]
+    initialCalendarId: string
+    exceptions: RecurrenceException[]
+}
+
+export default function IcsExportModal({
+    onClose,
+    calendars,
+    initialCalendarId,
+    exceptions,
+}: IcsExportModalProps) {
+    const { events, loading: eventsLoading } = useEvents()
+    const { todos } = useTodos()
+    const { assignments } = useAssignments()
+
+    const [calendarId, setCalendarId] = useState(initialCalendarId)
+    const [includeAssignments, setIncludeAssignments] = useState(false)
+    const [includeTodos, setIncludeTodos] = useState(false)
+    const [taskFormat, setTaskFormat] = useState<TaskExportFormat>('vtodo')
+
+    const calendar = calendars.find(c => c.id === calendarId)
+    const calendarEvents = events.filter(e => e.calendar_id === calendarId)
+
+    const handleExport = () => {
+        if (!calendar) return
+        const ics = serializeIcs({
+            calendar,
+            events: calendarEvents,
+            exceptions,
+            todos: includeTodos ? todos : [],
+            assignments: includeAssignments ? assignments : [],
+            taskFormat,
+        })
+        downloadFile(`${toFileSlug(calendar.name)}-${format(new Date(), 'yyyy-MM-dd')}.ics`, ics, 'text/calendar;charset=utf-8')
+        onClose()
+    }
+
+    const checkboxRow = (label: string, checked: boolean, onChange: (value: boolean) => void) => (
+        <label className="flex items-center gap-2 text-sm text-star-white/70 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={checked}
+                onChange={e => onChange(e.target.checked)}
+                className="w-3.5 h-3.5 rounded accent-gold"
+            />
+            {label}
+        </label>
+    )
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50"
+            onClick={onClose}
+        >
+            <motion.div
+                className="glass-panel p-6 w-full max-w-sm cosmic-glow"
+                style={{ background: '#060B18' }}
+                onClick={e => e.stopPropagation()}
+                initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                transition={{ duration: 0.2 }}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium text-star-white">Export .ics</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded hover:bg-glass-hover text-star-white/50"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex flex-col gap-3">
+                    <div>
+                        <label className="text-xs text-star-white/50 mb-1.5 block">Calendar</label>
+                        <div className="flex flex-wrap gap-1.5">
+                            {calendars.map(cal => (
+                                <button
+                                    key={cal.id}
+                                    onClick={() => setCalendarId(cal.id)}
+                                    className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors ${cal.id === calendarId
+                                        ? 'bg-gold/10 text-gold border border-gold/30'
+                                        : 'bg-glass border border-glass-border text-star-white/60 hover:text-star-white'
+                                        }`}
+                                >
+                                    {cal.id === calendarId && <Check size={10} />}
+                                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: cal.color }} />
+                                    {cal.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        {checkboxRow('Include assignments', includeAssignments, setIncludeAssignments)}
+                        {checkboxRow('Include todos', includeTodos, setIncludeTodos)}
+                    </div>
+
+                    {(includeAssignments || includeTodos) && (
+                        <div>
+                            <label className="text-xs text-star-white/50 mb-1.5 block">Export tasks as</label>
+                            <div className="flex p-0.5 rounded-lg bg-glass/80 border border-glass-border">
+                                {([['vtodo', 'Tasks (VTODO)'], ['all-day', 'All-day events']] as const).map(([value, label]) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setTaskFormat(value)}
+                                        className={`flex-1 py-1.5 rounded-md text-xs transition-colors ${taskFormat === value
+                                            ? 'bg-gold text-midnight font-medium'
+                                            : 'text-star-white/50 hover:text-star-white/80'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <p className="text-xs text-star-white/40">
+                        {eventsLoading
+                            ? 'Loading events…'
+                            : `${calendarEvents.length} event${calendarEvents.length === 1 ? '' : 's'} in this calendar`}
+                    </p>
+
+                    <button
+                        onClick={handleExport}
+                        disabled={!calendar || eventsLoading}
+                        className="w-full py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 mt-1 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98] disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        Download .ics
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
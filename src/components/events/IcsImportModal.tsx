@@ -0,0 +1,216 @@
+import { useMemo, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { format, parseISO } from 'date-fns'
+import { Check, FileUp, Repeat, X } from 'lucide-react'
+
+import type { Calendar, CalendarEvent, CalendarEventInsert, RecurrenceException, RecurrenceExceptionInsert } from '../../types/database'
+import { buildIcsImport, parseIcs, IcsParseError } from '../../lib/icsImport'
+import type { IcsEvent } from '../../lib/icsImport'
+import { describeRecurrence } from '../../lib/recurrence'
+import { useEvents } from '../../hooks/useEvents'
+
+interface IcsImportModalProps {
+    isOpen: boolean
+    onClose: () => void
+    calendars: Calendar[]
+    createEvent: (event: CalendarEventInsert) => Promise<CalendarEvent>
+    updateEvent: (id: string, updates: Partial<CalendarEventInsert>) => Promise<CalendarEvent>
+    createException: (exception: RecurrenceExceptionInsert) => Promise<RecurrenceException | null>
+}
+
+export default function IcsImportModal({
+    isOpen,
+    onClose,
+    calendars,
+    createEvent,
+    updateEvent,
+    createException,
+}: IcsImportModalProps) {
+    // Matching imported UIDs needs every event, not just the visible range
+    const { events, loading: eventsLoading } = useEvents(isOpen ? undefined : null)
+    const [fileName, setFileName] = useState('')
+    const [parsed, setParsed] = useState<IcsEvent[] | null>(null)
+    const [calendarId, setCalendarId] = useState('')
+    const [error, setError] = useState('')
+    const [importing, setImporting] = useState(false)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const selectedCalendarId = calendarId || calendars[0]?.id || ''
+
+    const plan = useMemo(
+        () => (parsed && selectedCalendarId ? buildIcsImport(parsed, events, selectedCalendarId) : []),
+        [parsed, events, selectedCalendarId]
+    )
+    const newCount = plan.filter(item => item.event && !item.existingId).length
+    const updateCount = plan.length - newCount
+
+    const reset = () => {
+        setFileName('')
+        setParsed(null)
+        setError('')
+        setImporting(false)
+        if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+
+    const handleClose = () => {
+        reset()
+        onClose()
+    }
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return
+        setError('')
+        setFileName(file.name)
+        try {
+            const result = parseIcs(await file.text())
+            if (result.length === 0) setError('No events found in this file.')
+            setParsed(result)
+        } catch (err) {
+            setParsed(null)
+            setError(err instanceof IcsParseError ? err.message : 'Could not read this file.')
+        }
+    }
+
+    const handleImport = async () => {
+        if (!selectedCalendarId || plan.length === 0) return
+        setImporting(true)
+        setError('')
+        try {
+            for (const item of plan) {
+                let parentId = item.existingId
+                if (item.event) {
+                    const row = item.existingId
+                        ? await updateEvent(item.existingId, item.event)
+                        : await createEvent(item.event)
+                    parentId = row.id
+                }
+                if (!parentId) continue
+                for (const exception of item.exceptions) {
+                    await createException({ ...exception, parent_id: parentId })
+                }
+            }
+            handleClose()
+        } catch (err) {
+            console.error('Failed to import events:', err)
+            setError('Import failed partway through. Importing the file again will pick up where it left off.')
+            setImporting(false)
+        }
+    }
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <div
+                    className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50"
+                    onClick={handleClose}
+                >
+                    <motion.div
+                        className="glass-panel p-6 w-full max-w-lg cosmic-glow"
+                        style={{ background: '#060B18' }}
+                        onClick={e => e.stopPropagation()}
+                        initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                    >
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-medium text-star-white">Import .ics</h3>
+                            <button
+                                onClick={handleClose}
+                                className="p-1 rounded hover:bg-glass-hover text-star-white/50"
+                            >
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        <div className="flex flex-col gap-3">
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".ics,text/calendar"
+                                className="hidden"
+                                onChange={e => handleFile(e.target.files?.[0])}
+                            />
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="flex items-center justify-center gap-2 px-3 py-3 rounded-lg bg-glass border border-dashed border-glass-border text-star-white/70 hover:text-star-white hover:border-stardust/50 text-sm transition-colors"
+                            >
+                                <FileUp size={16} />
+                                {fileName || 'Choose an .ics file'}
+                            </button>
+
+                            {calendars.length === 0 ? (
+                                <p className="text-xs text-star-white/40">Create a calendar first to import into.</p>
+                            ) : (
+                                <div>
+                                    <label className="text-xs text-star-white/50 mb-1.5 block">Import into</label>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {calendars.map(cal => (
+                                            <button
+                                                key={cal.id}
+                                                onClick={() => setCalendarId(cal.id)}
+                                                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors ${cal.id === selectedCalendarId
+                                                    ? 'bg-gold/10 text-gold border border-gold/30'
+                                                    : 'bg-glass border border-glass-border text-star-white/60 hover:text-star-white'
+                                                    }`}
+                                            >
+                                                {cal.id === selectedCalendarId && <Check size={10} />}
+                                                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: cal.color }} />
+                                                {cal.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {plan.length > 0 && (
+                                <>
+                                    <p className="text-xs text-star-white/50">
+                                        {newCount} new, {updateCount} already imported (will be updated)
+                                    </p>
+                                    <div className="max-h-[260px] overflow-y-auto flex flex-col gap-1 pr-1">
+                                        {plan.map(item => {
+                                            const source = item.event
+                                            return (
+                                                <div
+                                                    key={`${item.uid}-${item.existingId ?? 'new'}-${source ? 'event' : 'exceptions'}`}
+                                                    className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-glass text-xs"
+                                                >
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="text-star-white/90 truncate flex items-center gap-1">
+                                                            {source?.title ?? events.find(e => e.id === item.existingId)?.title}
+                                                            {source?.recurrence && <Repeat size={10} className="shrink-0 opacity-60" />}
+                                                        </div>
+                                                        <div className="text-star-white/40 truncate">
+                                                            {source
+                                                                ? `${format(parseISO(source.start_time), 'EEE MMM d, yyyy h:mm a')}${source.recurrence ? ` · ${describeRecurrence(source.recurrence)}` : ''}`
+                                                                : 'Changes to existing series'}
+                                                            {item.exceptions.length > 0 && ` · ${item.exceptions.length} exception${item.exceptions.length === 1 ? '' : 's'}`}
+                                                        </div>
+                                                    </div>
+                                                    <span className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] ${item.existingId ? 'bg-stardust/10 text-stardust' : 'bg-gold/10 text-gold'}`}>
+                                                        {item.existingId ? 'Update' : 'New'}
+                                                    </span>
+                                                </div>
+                                            )
+                                        })}
+                                    </div>
+                                </>
+                            )}
+
+                            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                            <button
+                                onClick={handleImport}
+                                disabled={importing || eventsLoading || plan.length === 0 || !selectedCalendarId}
+                                className="w-full py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 mt-1 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98] disabled:opacity-40 disabled:pointer-events-none"
+                            >
+                                {importing ? 'Importing…' : `Import ${plan.length || ''} event${plan.length === 1 ? '' : 's'}`}
+                            </button>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    )
+}
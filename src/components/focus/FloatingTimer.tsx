@@ -4,6 +4,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Pause, Play, Square, Timer } from 'lucide-react'
 import { useFocusTimer, useFocusTimerElapsed, usePauseElapsed, usePomodoroDisplay } from '../../hooks/useFocusTimer'
 import { formatTime } from '../../lib/format'
+import type { TimerPreset } from '../../types/database'
 
 const FloatingTimerTime = memo(function FloatingTimerTime() {
   const elapsed = useFocusTimerElapsed()
@@ -48,8 +49,12 @@ const FloatingTimerShell = memo(function FloatingTimerShell({
   pomodoroWaiting,
   pomodoroCycle,
   pomodoroCycles,
+  timerPresets,
+  activePresetId,
+  setActivePreset,
   handleStartBreak,
   handleStartNextFocus,
+  inOtherTab,
 }: {
   isVisible: boolean
   timerState: 'idle' | 'running' | 'paused'
@@ -62,8 +67,12 @@ const FloatingTimerShell = memo(function FloatingTimerShell({
   pomodoroWaiting: string
   pomodoroCycle: number
   pomodoroCycles: number
+  timerPresets: TimerPreset[]
+  activePresetId: string | null
+  setActivePreset: (id: string | null) => void
   handleStartBreak: () => void
   handleStartNextFocus: () => void
+  inOtherTab: boolean
 }) {
   const isPomodoro = timerMode === 'pomodoro'
 
@@ -88,13 +97,35 @@ const FloatingTimerShell = memo(function FloatingTimerShell({
             />
           )}
 
+          {/* The session runs in another tab; the controls are sent there */}
+          {inOtherTab && (
+            <span className="text-[10px] text-star-white/40 uppercase tracking-wider" title="Running in another tab">
+              Other tab
+            </span>
+          )}
+
           {/* Pomodoro phase badge */}
-          {isPomodoro && pomodoroCycles > 0 && (
+          {isPomodoro && pomodoroCycles > 1 && (
             <div className="flex items-center gap-1.5 text-[10px] text-star-white/40 uppercase tracking-wider">
               <span className="font-mono">{pomodoroCycle}/{pomodoroCycles}</span>
             </div>
           )}
 
+          {/* Preset for the next run; the current one keeps its sequence */}
+          {isPomodoro && timerPresets.length > 0 && (
+            <select
+              value={activePresetId ?? ''}
+              onChange={e => setActivePreset(e.target.value || null)}
+              className="max-w-24 bg-transparent border-none text-[10px] text-star-white/40 hover:text-star-white/70 uppercase tracking-wider outline-none cursor-pointer"
+              title="Preset for the next session"
+            >
+              <option value="" className="bg-void">Classic</option>
+              {timerPresets.map(preset => (
+                <option key={preset.id} value={preset.id} className="bg-void">{preset.name}</option>
+              ))}
+            </select>
+          )}
+
           {/* Timer display */}
           <button
             onClick={onOpenFocus}
@@ -169,8 +200,12 @@ export default function FloatingTimer() {
     pomodoroWaiting,
     pomodoroCycle,
     pomodoroCycles,
+    timerPresets,
+    activePresetId,
+    setActivePreset,
     handleStartBreak,
     handleStartNextFocus,
+    inOtherTab,
   } = useFocusTimer()
   const location = useLocation()
   const navigate = useNavigate()
@@ -193,8 +228,12 @@ export default function FloatingTimer() {
         pomodoroWaiting={pomodoroWaiting}
         pomodoroCycle={pomodoroCycle}
         pomodoroCycles={pomodoroCycles}
+        timerPresets={timerPresets}
+        activePresetId={activePresetId}
+        setActivePreset={setActivePreset}
         handleStartBreak={handleStartBreak}
         handleStartNextFocus={handleStartNextFocus}
+        inOtherTab={inOtherTab}
       />
       <AnimatePresence>
         {isVisible && timerState === 'paused' && (
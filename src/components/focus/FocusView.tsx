@@ -1,5 +1,5 @@
 import { memo, useEffect, useMemo, useRef, useState } from 'react'
-import { addMinutes, format, parseISO } from 'date-fns'
+import { addMinutes, addMonths, format, parseISO, startOfMonth } from 'date-fns'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Plus, X, Trash2, Star, Pencil, Settings, ChevronDown, ChevronUp, Archive, ArchiveRestore, Keyboard } from 'lucide-react'
 import { useFocusTimer, useFocusTimerElapsed, usePauseElapsed, usePomodoroDisplay, type PomodoroPhase, type PomodoroWaiting, type PacingSettings } from '../../hooks/useFocusTimer'
@@ -7,8 +7,12 @@ import type { TimerMode } from '../../hooks/useUserSettings'
 import { useSubjects } from '../../hooks/useSubjects'
 import { useFocusSessions } from '../../hooks/useFocusSessions'
 import { useVirtualizedList } from '../../hooks/useVirtualizedList'
+import { useTimerPresets } from '../../hooks/useTimerPresets'
 import { SUBJECT_COLORS } from '../../lib/colors'
 import { formatTime } from '../../lib/format'
+import {
+  PRESET_TEMPLATES, describePhases, presetAutoStart, presetPhases, type AutoStart, type TimerPhase,
+} from '../../lib/timerPresets'
 import EventDateTimePicker from '../ui/EventDateTimePicker'
 import SessionEditDialog from './SessionEditDialog'
 import SubjectEditDialog from './SubjectEditDialog'
@@ -27,6 +31,8 @@ const WAITING_LABELS: Record<string, string> = {
   focus: 'Break Complete!',
 }
 
+const GRACE_PERIODS = [0, 5, 10, 15, 30, 60]
+
 function getDisplaySeconds(args: {
   isPomodoro: boolean
   isActive: boolean
@@ -151,7 +157,7 @@ const TimerDisplay = memo(function TimerDisplay({
       {/* Cycle indicator for pomodoro */}
       {isPomodoro && isActive && (
         <div className="text-center mb-3">
-          {pomodoroCycles > 0 && (
+          {pomodoroCycles > 1 && (
             <span className="text-lg font-mono text-stardust/70 tracking-wide">
               {pomodoroCycle}/{pomodoroCycles}
             </span>
@@ -256,12 +262,16 @@ function PomodoroSettingsPanel({
   longBreakMinutes,
   cycles,
   onChange,
+  autoStart,
+  onAutoStartChange,
 }: {
   focusMinutes: number
   shortBreakMinutes: number
   longBreakMinutes: number
   cycles: number
   onChange: (s: { focusMinutes: number; shortBreakMinutes: number; longBreakMinutes: number; cycles: number }) => void
+  autoStart: AutoStart
+  onAutoStartChange: (a: AutoStart) => void
 }) {
   const [open, setOpen] = useState(false)
 
@@ -331,6 +341,7 @@ function PomodoroSettingsPanel({
                 )
               })}
             </div>
+            <AutoStartFields value={autoStart} onChange={onAutoStartChange} />
           </motion.div>
         )}
       </AnimatePresence>
@@ -338,6 +349,217 @@ function PomodoroSettingsPanel({
   )
 }
 
+function AutoStartFields({ value, onChange }: { value: AutoStart; onChange: (a: AutoStart) => void }) {
+  return (
+    <div className="mt-3 flex flex-col gap-1.5">
+      <label className="flex items-center gap-2 text-xs text-star-white/50 cursor-pointer w-fit">
+        <input
+          type="checkbox"
+          checked={value.breaks}
+          onChange={e => onChange({ ...value, breaks: e.target.checked })}
+          className="w-3.5 h-3.5 rounded accent-gold"
+        />
+        Auto-start breaks
+      </label>
+      <label className="flex items-center gap-2 text-xs text-star-white/50 cursor-pointer w-fit">
+        <input
+          type="checkbox"
+          checked={value.focus}
+          onChange={e => onChange({ ...value, focus: e.target.checked })}
+          className="w-3.5 h-3.5 rounded accent-gold"
+        />
+        Auto-start next focus
+      </label>
+      {(value.breaks || value.focus) && (
+        <div className="flex items-center justify-between gap-2">
+          <label className="text-[10px] text-star-white/30 uppercase tracking-wider">Grace period</label>
+          <select
+            value={value.delaySeconds}
+            onChange={e => onChange({ ...value, delaySeconds: Number(e.target.value) })}
+            className="px-2 py-1 rounded bg-glass border border-glass-border text-xs text-star-white/70 outline-none cursor-pointer"
+          >
+            {GRACE_PERIODS.map(seconds => (
+              <option key={seconds} value={seconds} className="bg-void">{seconds === 0 ? 'None' : `${seconds}s`}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Counts down to a phase starting by itself, with a way to wait for the user instead. */
+const AutoStartCountdown = memo(function AutoStartCountdown({ at, onCancel }: { at: number; onCancel: () => void }) {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return (
+    <p className="text-center mt-4 text-xs text-star-white/45">
+      Continuing in <span className="font-mono">{Math.max(0, Math.ceil((at - now) / 1000))}s</span>
+      <button
+        onClick={onCancel}
+        className="ml-2 text-star-white/30 hover:text-star-white/70 underline transition-colors"
+      >
+        Cancel
+      </button>
+    </p>
+  )
+})
+
+function TimerPresetPicker({ activePresetId, onSelect }: { activePresetId: string | null; onSelect: (id: string | null) => void }) {
+  const { presets, createPreset, updatePreset, setPresetAutoStart, deletePreset } = useTimerPresets()
+  const [adding, setAdding] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const activePreset = presets.find(preset => preset.id === activePresetId) ?? null
+  const phases = activePreset ? presetPhases(activePreset) : []
+
+  const handleAdd = async (name: string, templatePhases: TimerPhase[]) => {
+    setAdding(false)
+    const preset = await createPreset(name, templatePhases)
+    onSelect(preset.id)
+    setEditing(true)
+  }
+
+  const handleDelete = async () => {
+    if (!activePreset) return
+    onSelect(null)
+    setEditing(false)
+    await deletePreset(activePreset.id)
+  }
+
+  const updatePhases = (next: TimerPhase[]) => {
+    if (activePreset) void updatePreset(activePreset.id, { phases: next })
+  }
+
+  const chipClass = (active: boolean) => `px-2.5 py-1 rounded-md text-xs font-medium transition-all duration-200 ${
+    active ? 'bg-gold text-midnight' : 'bg-glass border border-glass-border text-star-white/50 hover:text-star-white/80'
+  }`
+
+  return (
+    <div className="mb-4 w-full max-w-xs flex flex-col items-center gap-2">
+      <div className="flex flex-wrap items-center justify-center gap-1.5">
+        <button onClick={() => onSelect(null)} className={chipClass(!activePreset)}>
+          Classic
+        </button>
+        {presets.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onSelect(preset.id)}
+            className={chipClass(preset.id === activePreset?.id)}
+            title={describePhases(presetPhases(preset))}
+          >
+            {preset.name}
+          </button>
+        ))}
+        <button
+          onClick={() => setAdding(!adding)}
+          className="p-1 rounded-md text-star-white/40 hover:text-star-white/70 hover:bg-glass-hover transition-all"
+          title="New preset"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {adding && (
+        <div className="flex flex-wrap items-center justify-center gap-1.5">
+          {PRESET_TEMPLATES.map(template => (
+            <button
+              key={template.name}
+              onClick={() => void handleAdd(template.name, template.phases)}
+              className="px-2 py-1 rounded-md text-[11px] text-star-white/60 bg-glass border border-glass-border hover:bg-glass-hover transition-all"
+              title={describePhases(template.phases)}
+            >
+              {template.name}
+            </button>
+          ))}
+          <button
+            onClick={() => void handleAdd('New preset', [{ type: 'focus', minutes: 25 }, { type: 'short_break', minutes: 5 }])}
+            className="px-2 py-1 rounded-md text-[11px] text-star-white/60 bg-glass border border-glass-border hover:bg-glass-hover transition-all"
+          >
+            Blank
+          </button>
+        </div>
+      )}
+
+      {activePreset && (
+        <div className="flex items-center gap-2 text-xs text-star-white/40">
+          <span className="font-mono">{describePhases(phases)}</span>
+          <button
+            onClick={() => setEditing(!editing)}
+            className="p-1 rounded text-star-white/40 hover:text-star-white/70 transition-colors"
+            title="Edit preset"
+          >
+            <Pencil size={12} />
+          </button>
+          <button
+            onClick={() => void handleDelete()}
+            className="p-1 rounded text-star-white/40 hover:text-red-400 transition-colors"
+            title="Delete preset"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      )}
+
+      {activePreset && editing && (
+        <div className="w-full flex flex-col gap-1.5">
+          <input
+            key={activePreset.id}
+            defaultValue={activePreset.name}
+            onBlur={e => {
+              const name = e.target.value.trim()
+              if (name && name !== activePreset.name) void updatePreset(activePreset.id, { name })
+            }}
+            onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur() }}
+            className="w-full px-2 py-1.5 rounded bg-glass border border-glass-border text-sm text-star-white/80 outline-none focus:border-stardust/50"
+          />
+          {phases.map((phase, index) => (
+            <div key={index} className="flex items-center gap-1.5">
+              <select
+                value={phase.type}
+                onChange={e => updatePhases(phases.map((p, i) => i === index ? { ...p, type: e.target.value as TimerPhase['type'] } : p))}
+                className="flex-1 px-2 py-1 rounded bg-glass border border-glass-border text-xs text-star-white/70 outline-none cursor-pointer"
+              >
+                {Object.entries(PHASE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type} className="bg-void">{label}</option>
+                ))}
+              </select>
+              <EditableNumber
+                value={phase.minutes}
+                min={1}
+                suffix="m"
+                onChange={minutes => updatePhases(phases.map((p, i) => i === index ? { ...p, minutes } : p))}
+              />
+              <button
+                onClick={() => updatePhases(phases.filter((_, i) => i !== index))}
+                disabled={phases.length === 1}
+                className="p-1 rounded text-star-white/30 hover:text-red-400 disabled:opacity-30 disabled:hover:text-star-white/30 transition-colors"
+                title="Remove phase"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updatePhases([...phases, { type: phases[phases.length - 1]?.type === 'focus' ? 'short_break' : 'focus', minutes: 25 }])}
+            className="flex items-center justify-center gap-1 py-1 rounded text-xs text-star-white/40 hover:text-star-white/70 hover:bg-glass-hover transition-all"
+          >
+            <Plus size={12} />
+            Add phase
+          </button>
+          <AutoStartFields
+            value={presetAutoStart(activePreset)}
+            onChange={autoStart => void setPresetAutoStart(activePreset.id, autoStart)}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
 function formatKeyLabel(code: string): string {
   if (code === 'Space') return 'Space'
   if (code.startsWith('Key')) return code.slice(3)
@@ -446,6 +668,12 @@ export default function FocusView() {
     setTimerMode,
     pomodoroSettings,
     setPomodoroSettings,
+    pomodoroAutoStart,
+    setPomodoroAutoStart,
+    activePresetId,
+    setActivePreset,
+    pomodoroAutoStartAt,
+    cancelAutoStart,
     pomodoroPhase,
     pomodoroWaiting,
     pomodoroCycle,
@@ -460,9 +688,21 @@ export default function FocusView() {
     handleStartPacer,
     handleStopPacer,
     handleAdvanceQuestion,
+    linkedTask,
+    setLinkedTask,
   } = useFocusTimer()
   const { subjects, createSubject, updateSubject, deleteSubject } = useSubjects()
-  const { sessions, deleteSession, createManualSession, updateSession } = useFocusSessions()
+  // Recent Sessions starts at last month and reaches back a month per "Load earlier"
+  const [historyMonths, setHistoryMonths] = useState(2)
+  const sessionRange = useMemo(() => {
+    const thisMonth = startOfMonth(new Date())
+    return {
+      from: addMonths(thisMonth, 1 - historyMonths).toISOString(),
+      to: addMonths(thisMonth, 2).toISOString(),
+    }
+  }, [historyMonths])
+  const { sessions, loading: sessionsLoading, deleteSession, createManualSession, updateSession } =
+    useFocusSessions(sessionRange)
 
   const [showAddSubject, setShowAddSubject] = useState(false)
   const [subjectView, setSubjectView] = useState<'active' | 'archived'>('active')
@@ -765,12 +1005,17 @@ export default function FocusView() {
 
         {/* Pomodoro settings — only when idle and pomodoro selected */}
         {!isActive && timerMode === 'pomodoro' && (
+          <TimerPresetPicker activePresetId={activePresetId} onSelect={setActivePreset} />
+        )}
+        {!isActive && timerMode === 'pomodoro' && !activePresetId && (
           <PomodoroSettingsPanel
             focusMinutes={pomodoroSettings.focusMinutes}
             shortBreakMinutes={pomodoroSettings.shortBreakMinutes}
             longBreakMinutes={pomodoroSettings.longBreakMinutes}
             cycles={pomodoroSettings.cycles}
             onChange={setPomodoroSettings}
+            autoStart={pomodoroAutoStart}
+            onAutoStartChange={setPomodoroAutoStart}
           />
         )}
 
@@ -780,7 +1025,7 @@ export default function FocusView() {
         )}
 
         {selectedSubject ? (
-          <div className="flex items-center gap-2.5 mb-6">
+          <div className={`flex items-center gap-2.5 ${linkedTask ? 'mb-2' : 'mb-6'}`}>
             <div
               className="w-2.5 h-2.5 rounded-full"
               style={{ backgroundColor: selectedSubject.color }}
@@ -788,7 +1033,22 @@ export default function FocusView() {
             <span className="text-star-white/70 text-sm font-medium tracking-wide uppercase">{selectedSubject.name}</span>
           </div>
         ) : (
-          <p className="text-star-white/30 mb-6 text-sm">Select a subject to begin</p>
+          <p className={`text-star-white/30 text-sm ${linkedTask ? 'mb-2' : 'mb-6'}`}>Select a subject to begin</p>
+        )}
+
+        {linkedTask && (
+          <div className="flex items-center gap-1.5 mb-6 text-star-white/50 text-sm">
+            <span className="truncate max-w-xs">{linkedTask.title}</span>
+            {!isActive && (
+              <button
+                onClick={() => setLinkedTask(null)}
+                className="text-star-white/30 hover:text-star-white/70 transition-colors"
+                title="Unlink task"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
         )}
 
         <TimerDisplay
@@ -941,6 +1201,9 @@ export default function FocusView() {
             )}
           </AnimatePresence>
         </div>
+        {pomodoroWaiting !== 'none' && pomodoroAutoStartAt !== null && (
+          <AutoStartCountdown at={pomodoroAutoStartAt} onCancel={cancelAutoStart} />
+        )}
         </div>
         <div className="flex items-center justify-center">
           <TimerCat mood={catMood} />
@@ -1049,10 +1312,17 @@ export default function FocusView() {
               </div>
             </div>
           )}
-          {completedSessions.length === 0 && (
-            <p className="text-xs text-star-white/40">No completed sessions yet.</p>
+          {completedSessions.length === 0 && !sessionsLoading && (
+            <p className="text-xs text-star-white/40">No completed sessions in this period.</p>
           )}
         </div>
+        <button
+          onClick={() => setHistoryMonths(prev => prev + 1)}
+          disabled={sessionsLoading}
+          className="mt-2 text-[11px] text-star-white/40 hover:text-gold transition-colors disabled:opacity-40"
+        >
+          {sessionsLoading ? 'Loading…' : `Load earlier (since ${format(parseISO(sessionRange.from), 'MMM yyyy')})`}
+        </button>
       </div>
 
       {editingSession && (
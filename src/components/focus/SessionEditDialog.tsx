@@ -1,6 +1,8 @@
 import { useState } from 'react'
 import { format, parseISO } from 'date-fns'
 import EventDateTimePicker from '../ui/EventDateTimePicker'
+import SessionTimeline from './SessionTimeline'
+import { useFocusSessionSegments } from '../../hooks/useFocusSessionSegments'
 import type { FocusSession, Subject } from '../../types/database'
 
 interface SessionEditDialogProps {
@@ -34,6 +36,11 @@ export default function SessionEditDialog({
         ).toISOString()
       )
 
+  const sessionStart = parseISO(session.start_time).getTime()
+  const sessionEnd = new Date(initialEnd).getTime()
+  const { segments } = useFocusSessionSegments({ from: session.start_time, to: new Date(sessionEnd).toISOString() })
+  const sessionSegments = segments.filter(segment => segment.session_id === session.id)
+
   const [subjectId, setSubjectId] = useState(session.subject_id)
   const [startTime, setStartTime] = useState(initialStart)
   const [endTime, setEndTime] = useState(initialEnd)
@@ -98,6 +105,11 @@ export default function SessionEditDialog({
             onEndTimeChange={setEndTime}
             layout="stacked"
           />
+
+          <div className="text-xs text-star-white/60">
+            <p className="mb-1.5">Timeline</p>
+            <SessionTimeline segments={sessionSegments} start={sessionStart} end={sessionEnd} />
+          </div>
         </div>
 
         {error && <p className="text-xs text-red-400 mt-3">{error}</p>}
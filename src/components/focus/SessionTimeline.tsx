@@ -0,0 +1,50 @@
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { SEGMENT_COLORS } from '../../lib/colors'
+import { formatDuration } from '../../lib/format'
+import { SEGMENT_KINDS, SEGMENT_LABELS, segmentTotals, timelineSpans } from '../../lib/sessionSegments'
+import type { FocusSessionSegment } from '../../types/database'
+
+interface SessionTimelineProps {
+  segments: FocusSessionSegment[]
+  start: number
+  end: number
+}
+
+export default function SessionTimeline({ segments, start, end }: SessionTimelineProps) {
+  // A segment still going is drawn up to when the dialog opened
+  const [now] = useState(() => Date.now())
+  const spans = useMemo(() => timelineSpans(segments, start, end, now), [segments, start, end, now])
+  const totals = useMemo(() => segmentTotals(segments, now), [segments, now])
+
+  if (spans.length === 0) {
+    return <p className="text-xs text-star-white/40">No timeline was recorded for this session.</p>
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="relative h-3 rounded bg-glass overflow-hidden">
+        {spans.map(span => (
+          <div
+            key={span.id}
+            className="absolute inset-y-0"
+            style={{ left: `${span.left}%`, width: `${span.width}%`, backgroundColor: SEGMENT_COLORS[span.kind] }}
+            title={SEGMENT_LABELS[span.kind]}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-star-white/35 font-mono">
+        <span>{format(start, 'HH:mm')}</span>
+        <span>{format(end, 'HH:mm')}</span>
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {SEGMENT_KINDS.filter(kind => totals[kind] > 0).map(kind => (
+          <span key={kind} className="flex items-center gap-1.5 text-xs text-star-white/60">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SEGMENT_COLORS[kind] }} />
+            {SEGMENT_LABELS[kind]} {formatDuration(totals[kind])}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
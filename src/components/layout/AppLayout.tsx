@@ -1,13 +1,41 @@
-import { lazy, Suspense } from 'react'
-import { Outlet } from 'react-router-dom'
+import { lazy, Suspense, useEffect } from 'react'
+import { Outlet, useNavigate } from 'react-router-dom'
 import Sidebar from './Sidebar'
+import GuestMigrationModal from './GuestMigrationModal'
+import { useEventReminders } from '../../hooks/useEventReminders'
+import { useTaskReminders } from '../../hooks/useTaskReminders'
+import { useStudyPlanScheduler } from '../../hooks/useStudyPlanScheduler'
+import { onNotificationOpen } from '../../lib/notifications'
 
 const FloatingTimer = lazy(() => import('../focus/FloatingTimer'))
 
+// Kept in its own component so reminder data updates don't re-render the layout
+function ReminderScheduler() {
+  useEventReminders()
+  useTaskReminders()
+  return null
+}
+
+// Opens the page of a notification clicked while the app was already open
+function NotificationLinks() {
+  const navigate = useNavigate()
+  useEffect(() => onNotificationOpen(url => navigate(url)), [navigate])
+  return null
+}
+
+function StudyPlanScheduler() {
+  useStudyPlanScheduler()
+  return null
+}
+
 export default function AppLayout() {
   return (
     <div className="flex h-screen bg-void overflow-hidden">
       <Sidebar />
+      <ReminderScheduler />
+      <NotificationLinks />
+      <StudyPlanScheduler />
+      <GuestMigrationModal />
       <Suspense fallback={null}>
         <FloatingTimer />
       </Suspense>
@@ -0,0 +1,184 @@
+import { useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import { format, parseISO } from 'date-fns'
+import { Download, FileUp, X } from 'lucide-react'
+
+import { useBackup } from '../../hooks/useBackup'
+import { BackupError, backupUserData, parseBackup, type Backup, type RestoreMode } from '../../lib/backup'
+import { describeUserData } from '../../lib/userData'
+
+interface BackupModalProps {
+    onClose: () => void
+}
+
+const RESTORE_MODES: { value: RestoreMode; label: string; hint: string }[] = [
+    { value: 'merge', label: 'Merge', hint: 'Add what is missing and keep everything you have now.' },
+    { value: 'replace', label: 'Replace', hint: 'Delete your current data and settings, then restore the backup.' },
+]
+
+export default function BackupModal({ onClose }: BackupModalProps) {
+    const { exportBackup, restoreBackup } = useBackup()
+    const [exporting, setExporting] = useState(false)
+    const [fileName, setFileName] = useState('')
+    const [backup, setBackup] = useState<Backup | null>(null)
+    const [mode, setMode] = useState<RestoreMode>('merge')
+    const [restoring, setRestoring] = useState(false)
+    const [error, setError] = useState('')
+    const [message, setMessage] = useState('')
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const handleExport = async () => {
+        setExporting(true)
+        setError('')
+        try {
+            await exportBackup()
+        } catch (err) {
+            console.error('Failed to export backup:', err)
+            setError('Could not create the backup.')
+        }
+        setExporting(false)
+    }
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+        setFileName(file.name)
+        setError('')
+        setMessage('')
+        setBackup(null)
+        try {
+            setBackup(parseBackup(await file.text()))
+        } catch (err) {
+            setError(err instanceof BackupError ? err.message : 'Could not read this file.')
+        }
+    }
+
+    const handleRestore = async () => {
+        if (!backup) return
+        setRestoring(true)
+        setError('')
+        try {
+            await restoreBackup(backup, mode)
+            setBackup(null)
+            setFileName('')
+            setMessage('Backup restored.')
+        } catch (err) {
+            console.error('Failed to restore backup:', err)
+            setError('Restoring failed partway. Check your data before trying again.')
+        }
+        setRestoring(false)
+    }
+
+    const summary = backup ? describeUserData(backupUserData(backup)) : []
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50"
+            onClick={() => !restoring && onClose()}
+        >
+            <motion.div
+                className="glass-panel p-6 w-full max-w-sm cosmic-glow"
+                style={{ background: '#060B18' }}
+                onClick={e => e.stopPropagation()}
+                initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                transition={{ duration: 0.2 }}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium text-star-white">Backup &amp; restore</h3>
+                    <button
+                        onClick={onClose}
+                        disabled={restoring}
+                        className="p-1 rounded hover:bg-glass-hover text-star-white/50"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex flex-col gap-4">
+                    <div>
+                        <p className="text-xs text-star-white/50 mb-2">
+                            Download everything — calendars, events, tasks, subjects, sessions and preferences — as a JSON file.
+                        </p>
+                        <button
+                            onClick={handleExport}
+                            disabled={exporting || restoring}
+                            className="w-full py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 flex items-center justify-center gap-2 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98] disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            <Download size={16} />
+                            {exporting ? 'Preparing…' : 'Download backup'}
+                        </button>
+                    </div>
+
+                    <div className="border-t border-glass-border pt-4 flex flex-col gap-3">
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={handleFile}
+                            className="hidden"
+                        />
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={restoring}
+                            className="w-full py-2 rounded-lg bg-glass border border-glass-border text-star-white/80 text-sm hover:bg-glass-hover transition-colors flex items-center justify-center gap-2"
+                        >
+                            <FileUp size={16} />
+                            {fileName || 'Choose a backup to restore'}
+                        </button>
+
+                        {backup && (
+                            <>
+                                <div className="px-3 py-2 rounded-lg bg-glass border border-glass-border">
+                                    <p className="text-xs text-star-white/50 mb-1">
+                                        Made {format(parseISO(backup.exportedAt), 'MMM d, yyyy h:mm a')}
+                                    </p>
+                                    {summary.length > 0 ? (
+                                        <ul className="flex flex-col gap-0.5">
+                                            {summary.map(line => (
+                                                <li key={line} className="text-xs text-star-white/70">{line}</li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        <p className="text-xs text-star-white/70">No rows, preferences only</p>
+                                    )}
+                                </div>
+
+                                <div className="flex gap-2">
+                                    {RESTORE_MODES.map(option => (
+                                        <button
+                                            key={option.value}
+                                            onClick={() => setMode(option.value)}
+                                            className={`flex-1 px-3 py-1.5 rounded-lg text-xs transition-colors ${mode === option.value
+                                                ? 'bg-gold/10 text-gold border border-gold/30'
+                                                : 'bg-glass border border-glass-border text-star-white/60'
+                                                }`}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className={`text-xs ${mode === 'replace' ? 'text-red-400/90' : 'text-star-white/50'}`}>
+                                    {RESTORE_MODES.find(option => option.value === mode)?.hint}
+                                </p>
+
+                                <button
+                                    onClick={handleRestore}
+                                    disabled={restoring}
+                                    className="w-full py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98] disabled:opacity-40 disabled:pointer-events-none"
+                                >
+                                    {restoring ? 'Restoring…' : mode === 'replace' ? 'Replace my data' : 'Merge into my data'}
+                                </button>
+                            </>
+                        )}
+
+                        {error && <p className="text-red-400 text-sm">{error}</p>}
+                        {message && <p className="text-emerald-400/90 text-sm">{message}</p>}
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
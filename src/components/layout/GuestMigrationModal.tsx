@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import { AnimatePresence, motion } from 'framer-motion'
+import { CloudUpload, X } from 'lucide-react'
+
+import { useGuestMigration } from '../../hooks/useGuestMigration'
+import { describeUserData } from '../../lib/userData'
+
+/** Offers to upload data saved in guest mode on this device to the signed-in account. */
+export default function GuestMigrationModal() {
+    const { guestData, state, migrate, discard } = useGuestMigration()
+    const [dismissed, setDismissed] = useState(false)
+    const [confirmDiscard, setConfirmDiscard] = useState(false)
+
+    const isOpen = !!guestData && !dismissed
+    const uploading = state === 'uploading'
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <div
+                    className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50"
+                    onClick={() => !uploading && setDismissed(true)}
+                >
+                    <motion.div
+                        className="glass-panel p-6 w-full max-w-sm cosmic-glow"
+                        style={{ background: '#060B18' }}
+                        onClick={e => e.stopPropagation()}
+                        initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                        transition={{ duration: 0.2 }}
+                    >
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-medium text-star-white">Bring your guest data?</h3>
+                            <button
+                                onClick={() => setDismissed(true)}
+                                disabled={uploading}
+                                className="p-1 rounded hover:bg-glass-hover text-star-white/50"
+                            >
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        <div className="flex flex-col gap-4">
+                            <p className="text-sm text-star-white/60">
+                                This device has data from guest mode. Upload it to your account to keep it everywhere you sign in.
+                            </p>
+                            <ul className="flex flex-col gap-1 px-3 py-2 rounded-lg bg-glass border border-glass-border">
+                                {describeUserData(guestData).map(line => (
+                                    <li key={line} className="text-xs text-star-white/70">{line}</li>
+                                ))}
+                            </ul>
+
+                            {state === 'error' && (
+                                <p className="text-red-400 text-sm">Something went wrong. Your guest data is still on this device.</p>
+                            )}
+
+                            <button
+                                onClick={migrate}
+                                disabled={uploading}
+                                className="w-full py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 flex items-center justify-center gap-2 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98] disabled:opacity-40 disabled:pointer-events-none"
+                            >
+                                <CloudUpload size={16} />
+                                {uploading ? 'Uploading…' : 'Upload to my account'}
+                            </button>
+
+                            <div className="flex items-center justify-between">
+                                <button
+                                    onClick={() => setDismissed(true)}
+                                    disabled={uploading}
+                                    className="text-xs text-star-white/50 hover:text-star-white/80 transition-colors"
+                                >
+                                    Not now
+                                </button>
+                                <button
+                                    onClick={() => confirmDiscard ? discard() : setConfirmDiscard(true)}
+                                    disabled={uploading}
+                                    className="text-xs text-star-white/40 hover:text-red-400 transition-colors"
+                                >
+                                    {confirmDiscard ? 'Delete it for good?' : 'Discard guest data'}
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    )
+}
@@ -1,19 +1,58 @@
-import { startTransition } from 'react'
+import { startTransition, useState } from 'react'
+import { createPortal } from 'react-dom'
 import { useLocation, useNavigate } from 'react-router-dom'
-import { Calendar, Timer, BarChart3, ListTodo, LogOut } from 'lucide-react'
+import { AnimatePresence } from 'framer-motion'
+import {
+  Calendar, Timer, BarChart3, ListTodo, GraduationCap, LogOut, Cloud, CloudOff, RefreshCw, AlertTriangle, DatabaseBackup,
+} from 'lucide-react'
 import { useAuth } from '../../hooks/useAuth'
+import { useSyncStatus } from '../../hooks/useSyncStatus'
+import { acknowledgeSyncErrors } from '../../lib/syncQueue'
+import BackupModal from './BackupModal'
 
 const navItems = [
   { to: '/events', icon: Calendar, label: 'Events' },
   { to: '/focus', icon: Timer, label: 'Focus' },
   { to: '/stats', icon: BarChart3, label: 'Stats' },
   { to: '/tasks', icon: ListTodo, label: 'Tasks' },
+  { to: '/courses', icon: GraduationCap, label: 'Courses' },
 ]
 
+function SyncIndicator() {
+  const { state, pending, lastError } = useSyncStatus()
+  const plural = pending === 1 ? '' : 's'
+  const { Icon, label, className } = {
+    synced: { Icon: Cloud, label: 'All changes saved', className: 'text-star-white/30' },
+    syncing: { Icon: RefreshCw, label: `Saving ${pending} change${plural}…`, className: 'text-stardust animate-spin' },
+    offline: {
+      Icon: CloudOff,
+      label: pending > 0 ? `Offline · ${pending} change${plural} will sync when you reconnect` : 'Offline',
+      className: 'text-gold/70',
+    },
+    error: {
+      Icon: AlertTriangle,
+      label: lastError ?? `Couldn't reach the server · ${pending} change${plural} waiting`,
+      className: 'text-nova-pink',
+    },
+  }[state]
+
+  return (
+    <button
+      type="button"
+      onClick={state === 'error' ? acknowledgeSyncErrors : undefined}
+      title={state === 'error' ? `${label} (click to dismiss)` : label}
+      className="w-10 h-8 mb-1 rounded-lg flex items-center justify-center bg-transparent border-none p-0 cursor-default"
+    >
+      <Icon size={16} className={className} />
+    </button>
+  )
+}
+
 export default function Sidebar() {
   const { signOut, isGuest } = useAuth()
   const location = useLocation()
   const navigate = useNavigate()
+  const [showBackup, setShowBackup] = useState(false)
 
   return (
     <aside className="w-16 h-screen bg-void/80 backdrop-blur-xl border-r border-glass-border flex flex-col items-center py-4 shrink-0 relative z-20"
@@ -23,7 +62,7 @@ export default function Sidebar() {
     >
       <nav className="flex flex-col gap-2 flex-1 pt-2">
         {navItems.map(({ to, icon: Icon, label }) => {
-          const isActive = location.pathname === to
+          const isActive = location.pathname === to || location.pathname.startsWith(`${to}/`)
           return (
             <div
               key={to}
@@ -65,10 +104,20 @@ export default function Sidebar() {
         })}
       </nav>
 
-      {isGuest && (
+      <button
+        type="button"
+        onClick={() => setShowBackup(true)}
+        title="Backup & Restore"
+        className="w-10 h-10 mb-1 rounded-lg flex items-center justify-center text-star-white/50 hover:text-stardust hover:bg-glass-hover transition-[color,background-color,transform] bg-transparent border-none cursor-pointer hover:scale-[1.1] active:scale-95 duration-200"
+      >
+        <DatabaseBackup size={18} />
+      </button>
+      {isGuest ? (
         <div className="mb-1 flex flex-col items-center gap-1">
           <span className="text-[9px] font-medium tracking-widest text-stardust/50 uppercase">Guest</span>
         </div>
+      ) : (
+        <SyncIndicator />
       )}
       <button
         onClick={signOut}
@@ -77,6 +126,14 @@ export default function Sidebar() {
       >
         <LogOut size={20} />
       </button>
+
+      {/* Portaled: the sidebar's backdrop blur would otherwise contain the fixed overlay */}
+      {createPortal(
+        <AnimatePresence>
+          {showBackup && <BackupModal onClose={() => setShowBackup(false)} />}
+        </AnimatePresence>,
+        document.body
+      )}
     </aside>
   )
 }
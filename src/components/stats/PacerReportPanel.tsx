@@ -0,0 +1,72 @@
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { formatSeconds } from '../../lib/format'
+import { pacerReport } from '../../lib/pacer'
+import type { PacerRun } from '../../types/database'
+
+interface PacerReportPanelProps {
+  runs: PacerRun[]
+}
+
+/** Question pacer timing for the runs of the period; nothing until a question has been timed. */
+export default function PacerReportPanel({ runs }: PacerReportPanelProps) {
+  const report = useMemo(() => pacerReport(runs), [runs])
+  if (report.questionCount === 0) return null
+
+  const maxSeconds = Math.max(1, ...report.trend.flatMap(run => [run.averageSeconds, run.targetSeconds]))
+
+  return (
+    <div className="glass-panel p-5">
+      <h3 className="text-sm font-medium text-star-white/80 mb-4">Question Pacer</h3>
+
+      <div className="grid grid-cols-4 gap-4 mb-5">
+        {[
+          { label: 'Questions', value: String(report.questionCount) },
+          { label: 'Avg / Question', value: formatSeconds(report.averageSeconds) },
+          { label: 'Ran Out of Time', value: String(report.overtimeCount) },
+          { label: 'Used Rollover', value: String(report.rolloverCount) },
+        ].map(card => (
+          <div key={card.label} className="text-center">
+            <div className="text-lg font-bold text-gold">{card.value}</div>
+            <div className="text-[10px] text-star-white/50 mt-0.5">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-xs font-medium text-star-white/60 mb-2">Pace per Run</h4>
+          <div className="h-28 flex items-end gap-1">
+            {report.trend.map(run => (
+              <div key={run.runId} className="relative flex-1 h-full flex items-end">
+                <div
+                  className={`w-full rounded-[2px] ${run.averageSeconds > run.targetSeconds ? 'bg-red-400/70' : 'bg-stardust/70'}`}
+                  style={{ height: `${Math.max(4, (run.averageSeconds / maxSeconds) * 100)}%` }}
+                  title={`${format(run.start, 'MMM d, HH:mm')} - ${formatSeconds(run.averageSeconds)} per question (target ${formatSeconds(run.targetSeconds)})`}
+                />
+                <div
+                  className="absolute inset-x-0 border-t border-dashed border-gold/60"
+                  style={{ bottom: `${(run.targetSeconds / maxSeconds) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-star-white/40 mt-2">Average time per question; the dashed line is the target.</p>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-medium text-star-white/60 mb-2">Slowest Questions</h4>
+          <div className="flex flex-col gap-1.5">
+            {report.slowest.map(question => (
+              <div key={`${question.runId}-${question.question}`} className="flex items-center gap-2 text-sm">
+                <span className="text-star-white/80 flex-1 truncate">Question {question.question}</span>
+                <span className="text-star-white/40 text-xs">{format(question.start, 'MMM d')}</span>
+                <span className="text-star-white/60 w-16 text-right">{formatSeconds(question.seconds)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,25 @@
 import { useState, useMemo, useRef, useCallback, useEffect, lazy, Suspense } from 'react'
 import {
-  format, startOfWeek, endOfWeek, startOfDay, endOfDay, startOfMonth, endOfMonth, eachDayOfInterval, parseISO, isWithinInterval, addDays, addWeeks, addMonths, isSameMonth, isSameYear,
+  format, startOfWeek, endOfWeek, startOfDay, endOfDay, startOfMonth, endOfMonth, eachDayOfInterval, parseISO, isWithinInterval, addDays, addWeeks, addMonths, addMilliseconds, isSameMonth, isSameYear,
 } from 'date-fns'
 import { motion } from 'framer-motion'
-import { ChevronDown, ChevronLeft, ChevronRight, Trash2, Pencil } from 'lucide-react'
+import { ChevronDown, ChevronLeft, ChevronRight, Trash2, Pencil, Download } from 'lucide-react'
 import { useSubjects } from '../../hooks/useSubjects'
 import { useFocusSessions } from '../../hooks/useFocusSessions'
+import { useFocusSessionSegments } from '../../hooks/useFocusSessionSegments'
+import { usePacerRuns } from '../../hooks/usePacerRuns'
+import { useTodos } from '../../hooks/useTodos'
+import { useAssignments } from '../../hooks/useAssignments'
 import { useClickOutside } from '../../hooks/useClickOutside'
 import { useVirtualizedList } from '../../hooks/useVirtualizedList'
 import { formatDuration } from '../../lib/format'
-import { getHeatColor } from '../../lib/colors'
+import { dailyMinutesCsv, hourlyMinutesCsv, sessionsCsv, subjectTotalsCsv } from '../../lib/csvExport'
+import { downloadFile } from '../../lib/download'
+import { getHeatColor, SEGMENT_COLORS } from '../../lib/colors'
+import { SEGMENT_KINDS, SEGMENT_LABELS, segmentTotals } from '../../lib/sessionSegments'
+import { focusSecondsByTask, taskKey } from '../../lib/taskFocus'
 import SessionEditDialog from '../focus/SessionEditDialog'
+import PacerReportPanel from './PacerReportPanel'
 import type { FocusSession } from '../../types/database'
 
 type TimePeriod = 'daily' | 'weekly' | 'monthly'
@@ -18,7 +27,6 @@ const StudyBreakdownChart = lazy(() => import('../charts/StudyBreakdownChart'))
 
 export default function StatsView() {
   const { subjects } = useSubjects()
-  const { sessions, updateSession, deleteSession } = useFocusSessions()
 
   const [filterSubjectId, setFilterSubjectId] = useState<string | null>(null)
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('monthly')
@@ -31,6 +39,11 @@ export default function StatsView() {
   const closeSubjectFilter = useCallback(() => setIsSubjectFilterOpen(false), [])
   useClickOutside(subjectFilterRef, closeSubjectFilter, isSubjectFilterOpen)
 
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const exportMenuRef = useRef<HTMLDivElement>(null)
+  const closeExportMenu = useCallback(() => setIsExportOpen(false), [])
+  useClickOutside(exportMenuRef, closeExportMenu, isExportOpen)
+
   useEffect(() => {
     setPeriodOffset(0)
   }, [timePeriod])
@@ -72,6 +85,13 @@ export default function StatsView() {
     }
   }, [timePeriod, periodAnchorDate])
 
+  // Only the sessions of the period on screen are loaded
+  const sessionRange = useMemo(() => ({
+    from: periodInterval.start.toISOString(),
+    to: addMilliseconds(periodInterval.end, 1).toISOString(),
+  }), [periodInterval])
+  const { sessions, updateSession, deleteSession } = useFocusSessions(sessionRange)
+
   const periodLabel = useMemo(() => {
     if (timePeriod === 'daily') {
       return format(periodInterval.start, 'EEEE, MMM d, yyyy')
@@ -121,6 +141,41 @@ export default function StatsView() {
     [subjectStats]
   )
 
+  const { todos } = useTodos()
+  const { assignments } = useAssignments()
+
+  // Tasks that have since been deleted are left out
+  const taskStats = useMemo(() => {
+    const titles = new Map<string, string>([
+      ...todos.map(t => [taskKey('todo', t.id), t.title] as const),
+      ...assignments.map(a => [taskKey('assignment', a.id), a.title] as const),
+    ])
+    return [...focusSecondsByTask(filteredByPeriod)]
+      .flatMap(([key, seconds]) => {
+        const title = titles.get(key)
+        return title === undefined ? [] : [{ key, title, seconds }]
+      })
+      .sort((a, b) => b.seconds - a.seconds)
+  }, [filteredByPeriod, todos, assignments])
+
+  // Sessions logged by hand or before segments were recorded have none
+  const { segments } = useFocusSessionSegments(sessionRange)
+  const [openedAt] = useState(() => Date.now())
+  const segmentStats = useMemo(() => {
+    const ids = new Set(filteredByPeriod.map(s => s.id))
+    const totals = segmentTotals(segments.filter(segment => ids.has(segment.session_id)), openedAt)
+    const total = SEGMENT_KINDS.reduce((sum, kind) => sum + totals[kind], 0)
+    return SEGMENT_KINDS
+      .filter(kind => totals[kind] > 0)
+      .map(kind => ({ kind, seconds: totals[kind], pct: Math.round((totals[kind] / total) * 100) }))
+  }, [segments, filteredByPeriod, openedAt])
+
+  const { runs: pacerRuns } = usePacerRuns(sessionRange)
+  const periodPacerRuns = useMemo(() => {
+    const ids = new Set(filteredByPeriod.map(s => s.id))
+    return pacerRuns.filter(run => ids.has(run.session_id))
+  }, [pacerRuns, filteredByPeriod])
+
   const dailyMinutes = useMemo(() => {
     const map: Record<string, number> = {}
     filteredByPeriod.forEach(s => {
@@ -203,6 +258,30 @@ export default function StatsView() {
     totalHeight: sessionLogTotalHeight,
   } = useVirtualizedList({ itemCount: filteredSessions.length, itemHeight: 44, overscan: 8 })
 
+  const exportOptions = [
+    {
+      label: 'Sessions',
+      description: filterSubjectId ? 'Session log for the selected subject' : 'Session log',
+      file: 'sessions',
+      build: () => sessionsCsv(filteredSessions, subjectMap),
+    },
+    { label: 'Subject totals', description: 'Study breakdown', file: 'subject-totals', build: () => subjectTotalsCsv(subjectStats) },
+    {
+      label: 'Daily minutes',
+      description: 'Minutes per day',
+      file: 'daily-minutes',
+      build: () => dailyMinutesCsv(eachDayOfInterval(periodInterval), dailyMinutes),
+    },
+    { label: 'Hourly minutes', description: 'Minutes per hour of day', file: 'hourly-minutes', build: () => hourlyMinutesCsv(hourlyMinutes) },
+  ]
+
+  const handleExport = (option: typeof exportOptions[number]) => {
+    const period = `${timePeriod}-${format(periodInterval.start, 'yyyy-MM-dd')}`
+    // The BOM lets Excel detect UTF-8 in subject names
+    downloadFile(`study-${option.file}-${period}.csv`, '\uFEFF' + option.build(), 'text/csv;charset=utf-8')
+    setIsExportOpen(false)
+  }
+
   const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
   const periodOptions: { value: TimePeriod; label: string }[] = [
     { value: 'daily', label: 'Daily' },
@@ -270,7 +349,43 @@ export default function StatsView() {
             </button>
           )}
         </div>
-        <div className="text-xs text-star-white/60 text-right">{periodLabel}</div>
+        <div className="flex items-center gap-3">
+          <div className="text-xs text-star-white/60 text-right">{periodLabel}</div>
+          <div className="relative" ref={exportMenuRef}>
+            <button
+              type="button"
+              onClick={() => setIsExportOpen(!isExportOpen)}
+              className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-glass border border-glass-border text-star-white/80 text-xs hover:bg-glass-hover hover:text-star-white transition-colors"
+            >
+              <Download size={12} />
+              CSV
+            </button>
+            <div
+              className="absolute top-full right-0 mt-1 min-w-[200px] rounded-lg border border-glass-border z-50 overflow-hidden cosmic-glow shadow-2xl transition-all duration-150 origin-top"
+              style={{
+                background: '#060B18',
+                backdropFilter: 'blur(16px)',
+                opacity: isExportOpen ? 1 : 0,
+                transform: isExportOpen ? 'scaleY(1)' : 'scaleY(0.98)',
+                pointerEvents: isExportOpen ? 'auto' : 'none',
+              }}
+            >
+              <div className="py-1">
+                {exportOptions.map(option => (
+                  <button
+                    key={option.file}
+                    type="button"
+                    onClick={() => handleExport(option)}
+                    className="w-full text-left px-3 py-1.5 text-xs text-star-white/70 hover:bg-glass-hover hover:text-star-white transition-colors"
+                  >
+                    <div>{option.label}</div>
+                    <div className="text-[10px] text-star-white/40">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
       </div>
 
       <div className="grid grid-cols-3 gap-4">
@@ -428,6 +543,47 @@ export default function StatsView() {
                   )
                 })}
               </div>
+
+              {taskStats.length > 0 && (
+                <>
+                  <h4 className="text-xs font-medium text-star-white/60 mt-5 mb-2">By Task</h4>
+                  <div className="flex flex-col gap-1.5">
+                    {taskStats.map(stat => (
+                      <div key={stat.key} className="flex items-center gap-2 text-sm">
+                        <span className="text-star-white/80 flex-1 truncate">{stat.title}</span>
+                        <span className="text-star-white/40 w-20 text-right">{formatDuration(stat.seconds)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {segmentStats.length > 0 && (
+                <>
+                  <h4 className="text-xs font-medium text-star-white/60 mt-5 mb-2">Focus vs Breaks</h4>
+                  <div className="flex h-2 rounded-full overflow-hidden mb-2">
+                    {segmentStats.map(stat => (
+                      <div
+                        key={stat.kind}
+                        style={{ flexGrow: stat.seconds, backgroundColor: SEGMENT_COLORS[stat.kind] }}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex flex-col gap-1.5">
+                    {segmentStats.map(stat => (
+                      <div key={stat.kind} className="flex items-center gap-2 text-sm">
+                        <div
+                          className="w-3 h-3 rounded-full shrink-0"
+                          style={{ backgroundColor: SEGMENT_COLORS[stat.kind] }}
+                        />
+                        <span className="text-star-white/80 flex-1 truncate">{SEGMENT_LABELS[stat.kind]}</span>
+                        <span className="text-star-white/50 w-10 text-right">{stat.pct}%</span>
+                        <span className="text-star-white/40 w-20 text-right">{formatDuration(stat.seconds)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
             </>
           )}
         </div>
@@ -549,6 +705,8 @@ export default function StatsView() {
         </div>
       </div>
 
+      <PacerReportPanel runs={periodPacerRuns} />
+
       {editingSession && (
         <SessionEditDialog
           session={editingSession}
@@ -1,12 +1,14 @@
 import React, { memo } from 'react'
 import { format, isSameMonth, isToday } from 'date-fns'
-import { Repeat } from 'lucide-react'
+import { Repeat, Timer } from 'lucide-react'
 import { useDroppable } from '@dnd-kit/core'
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 
 import type { VirtualOccurrence } from '../../lib/recurrence'
+import type { Workload } from '../../lib/workload'
 import type { Todo, Assignment } from '../../types/database'
 import SortableTaskItem from './SortableTaskItem'
+import WorkloadBar from './WorkloadBar'
 import { getStatusColor } from '../../lib/colors'
 
 type TaskItem = Todo | Assignment
@@ -18,12 +20,15 @@ interface CalendarDayProps {
     selectedItemId: string | null
     mode: 'todos' | 'assignments'
     dayOccurrences: VirtualOccurrence<TaskItem>[]
+    /** Estimated work due this day against its free time; only for days from today on */
+    workload?: Workload
 
     onDayClick: (day: Date) => void
     onDayDoubleClick: (day: Date) => void
     onItemClick: (id: string, e: React.MouseEvent) => void
     onItemDoubleClick: (occ: VirtualOccurrence<TaskItem>, e: React.MouseEvent) => void
     onToggleComplete: (occ: VirtualOccurrence<TaskItem>, e: React.ChangeEvent<HTMLInputElement>) => void
+    onFocusItem: (item: TaskItem) => void
     getCourseItemColor: (course: string | null) => string
     isOccurrenceCompleted: (occ: VirtualOccurrence<TaskItem>) => boolean
 }
@@ -35,11 +40,13 @@ function CalendarDayComponent({
     selectedItemId,
     mode,
     dayOccurrences,
+    workload,
     onDayClick,
     onDayDoubleClick,
     onItemClick,
     onItemDoubleClick,
     onToggleComplete,
+    onFocusItem,
     getCourseItemColor,
     isOccurrenceCompleted
 }: CalendarDayProps) {
@@ -73,6 +80,8 @@ function CalendarDayComponent({
                 {format(day, 'd')}
             </div>
 
+            {workload && workload.estimatedMinutes > 0 && <WorkloadBar workload={workload} className="mb-1" />}
+
             <SortableContext
                 items={dayOccurrences.map(occ => `${occ.data.id}-${occ.occurrenceDate}`)}
                 strategy={verticalListSortingStrategy}
@@ -87,7 +96,7 @@ function CalendarDayComponent({
                             <SortableTaskItem
                                 key={`${item.id}-${occ.occurrenceDate}`}
                                 id={`${item.id}-${occ.occurrenceDate}`}
-                                className={`text-[11px] px-1 py-0.5 rounded transition-colors cursor-pointer ${completed
+                                className={`group text-[11px] px-1 py-0.5 rounded transition-colors cursor-pointer ${completed
                                     ? 'text-star-white/30'
                                     : 'text-white'
                                     } ${selectedItemId === item.id ? 'ring-1 ring-gold' : ''}`}
@@ -118,6 +127,22 @@ function CalendarDayComponent({
 
                                     {isRec && <Repeat size={8} className="shrink-0 opacity-50" />}
 
+                                    {!completed && (
+                                        <button
+                                            type="button"
+                                            title="Focus on this"
+                                            onClick={e => {
+                                                e.stopPropagation()
+                                                onFocusItem(item)
+                                            }}
+                                            // Keep the press from starting a drag
+                                            onPointerDown={e => e.stopPropagation()}
+                                            className="hidden group-hover:block shrink-0 text-star-white/50 hover:text-gold"
+                                        >
+                                            <Timer size={9} />
+                                        </button>
+                                    )}
+
                                     {/* Right course dot */}
                                     {assignment.course && (
                                         <div
@@ -0,0 +1,136 @@
+import { motion } from 'framer-motion'
+import { AlertTriangle, X } from 'lucide-react'
+
+import { useUserSettings } from '../../hooks/useUserSettings'
+import { useStudyPlan } from '../../hooks/useStudyPlan'
+import { useAssignments } from '../../hooks/useAssignments'
+import { STUDY_PLAN_CALENDAR_NAME } from '../../lib/studyPlan'
+import { formatDuration, formatHour } from '../../lib/format'
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+const DAILY_LIMITS = [60, 90, 120, 180, 240, 300, 360, 480]
+
+interface StudyPlanSettingsModalProps {
+    onClose: () => void
+}
+
+export default function StudyPlanSettingsModal({ onClose }: StudyPlanSettingsModalProps) {
+    const { studyPlanSettings, updateSettings } = useUserSettings()
+    const { sleepStartHour, sleepEndHour, maxMinutesPerDay } = studyPlanSettings
+    const { calendar, changes, enable, disable } = useStudyPlan()
+    const { assignments } = useAssignments()
+
+    const unscheduled = changes
+        ? assignments.flatMap(assignment => {
+            const minutes = changes.unscheduled.get(assignment.id)
+            return minutes ? [{ assignment, minutes }] : []
+        })
+        : []
+
+    const selectClassName = 'px-3 py-1.5 rounded-lg bg-glass border border-glass-border text-star-white/80 focus:outline-none focus:border-stardust/50 text-xs transition-all cursor-pointer'
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50"
+            onClick={onClose}
+        >
+            <motion.div
+                className="glass-panel p-6 w-full max-w-sm cosmic-glow"
+                style={{ background: '#060B18' }}
+                onClick={e => e.stopPropagation()}
+                initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                transition={{ duration: 0.2 }}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium text-star-white">Study plan</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded hover:bg-glass-hover text-star-white/50"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex flex-col gap-4">
+                    <label className="flex items-center gap-2 text-sm text-star-white/70 cursor-pointer w-fit">
+                        <input
+                            type="checkbox"
+                            checked={!!calendar}
+                            onChange={e => void (e.target.checked ? enable() : disable())}
+                            className="w-3.5 h-3.5 rounded accent-gold"
+                        />
+                        Book time to work on assignments
+                    </label>
+
+                    <p className="text-xs text-star-white/40">
+                        Blocks go into the "{STUDY_PLAN_CALENDAR_NAME}" calendar around your events, for assignments
+                        with an estimate due in the next two weeks. Missed blocks and blocks an event lands on are
+                        moved automatically. Turning this off deletes the calendar.
+                    </p>
+
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-star-white/50">Asleep from</label>
+                        <div className="flex items-center gap-1.5">
+                            <select
+                                value={sleepStartHour}
+                                onChange={e => void updateSettings({ sleep_start_hour: Number(e.target.value) })}
+                                className={selectClassName}
+                            >
+                                {HOURS.map(h => (
+                                    <option key={h} value={h} className="bg-void">{formatHour(h)}</option>
+                                ))}
+                            </select>
+                            <span className="text-xs text-star-white/50">to</span>
+                            <select
+                                value={sleepEndHour}
+                                onChange={e => void updateSettings({ sleep_end_hour: Number(e.target.value) })}
+                                className={selectClassName}
+                            >
+                                {HOURS.map(h => (
+                                    <option key={h} value={h} className="bg-void">{formatHour(h)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-star-white/50">Most study per day</label>
+                        <select
+                            value={maxMinutesPerDay}
+                            onChange={e => void updateSettings({ max_study_minutes_per_day: Number(e.target.value) })}
+                            className={selectClassName}
+                        >
+                            {DAILY_LIMITS.map(minutes => (
+                                <option key={minutes} value={minutes} className="bg-void">
+                                    {formatDuration(minutes * 60)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {unscheduled.length > 0 && (
+                        <div className="flex flex-col gap-1.5 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20">
+                            {unscheduled.map(({ assignment, minutes }) => (
+                                <p key={assignment.id} className="flex items-start gap-1.5 text-xs text-red-300">
+                                    <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                                    <span>
+                                        {formatDuration(minutes * 60)} of {assignment.title} doesn't fit before it's due
+                                    </span>
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
+                    <button
+                        onClick={onClose}
+                        className="w-full py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 mt-1 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98]"
+                    >
+                        Done
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
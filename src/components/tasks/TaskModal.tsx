@@ -1,17 +1,23 @@
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { motion } from 'framer-motion'
-import { X, Trash2, ChevronDown } from 'lucide-react'
-import { format } from 'date-fns'
+import { X, Trash2, ChevronDown, Timer } from 'lucide-react'
+import { addDays, format, startOfDay } from 'date-fns'
 
 import type { VirtualOccurrence } from '../../lib/recurrence'
 import type { Todo, Assignment, TodoInsert, AssignmentInsert } from '../../types/database'
 import type { Recurrence } from '../../lib/recurrence'
-import { RECURRENCE_OPTIONS } from '../../lib/recurrence'
+import { RECURRENCE_OPTIONS, describeRecurrence, hasRecurrenceEnd } from '../../lib/recurrence'
 import { SUBJECT_COLORS } from '../../lib/colors'
+import { formatDuration } from '../../lib/format'
+import { focusSecondsByTask, taskKey } from '../../lib/taskFocus'
+import { createdRange } from '../../lib/tableRanges'
+import { remainingMinutes } from '../../lib/workload'
+import { useFocusSessions } from '../../hooks/useFocusSessions'
 
 import CreatableSelect from '../ui/CreatableSelect'
 import DatePicker from '../ui/DatePicker'
 import RecurrenceDialog from '../ui/RecurrenceDialog'
+import RecurrenceBuilder from '../ui/RecurrenceBuilder'
 
 type TaskMode = 'todos' | 'assignments'
 type TaskItem = Todo | Assignment
@@ -25,6 +31,8 @@ interface FormState {
     status: string
     recurrence: Recurrence
     recurrenceUntil: string
+    /** Minutes, as typed */
+    estimate: string
 }
 
 const INITIAL_FORM: FormState = {
@@ -36,6 +44,7 @@ const INITIAL_FORM: FormState = {
     status: 'Not Started',
     recurrence: 'once',
     recurrenceUntil: '',
+    estimate: '',
 }
 
 interface TaskModalProps {
@@ -49,12 +58,17 @@ interface TaskModalProps {
     statusOptions: string[]
     courseOptions: string[]
     courseColors: Record<string, string>
+    courseIds: Record<string, string>
 
     onAddTypeOption: (val: string) => void
     onDeleteTypeOption: (val: string) => void
+    onRenameTypeOption: (from: string, to: string) => void
     onAddStatusOption: (val: string) => void
+    onDeleteStatusOption: (val: string) => void
+    onRenameStatusOption: (from: string, to: string) => void
     onAddCourseOption: (val: string, color: string) => void
     onDeleteCourseOption: (val: string) => void
+    onRenameCourseOption: (from: string, to: string) => void
 
     createTodo: (todo: TodoInsert) => Promise<Todo>
     updateTodo: (id: string, updates: Partial<TodoInsert>) => Promise<Todo>
@@ -64,6 +78,7 @@ interface TaskModalProps {
     deleteAssignment: (id: string) => Promise<void>
     createException: (exception: any) => Promise<any>
     deleteExceptionsForParent: (parentType: string, parentId: string) => Promise<void>
+    onFocus: (item: TaskItem) => void
 }
 
 const MemoCreatableSelect = memo(CreatableSelect)
@@ -75,12 +90,14 @@ const TaskTypeRow = memo(function TaskTypeRow({
     onChange,
     onCreateOption,
     onDeleteOption,
+    onRenameOption,
 }: {
     value: string
     options: string[]
     onChange: (val: string) => void
     onCreateOption: (val: string) => void
     onDeleteOption: (val: string) => void
+    onRenameOption: (from: string, to: string) => void
 }) {
     return (
         <MemoCreatableSelect
@@ -89,6 +106,7 @@ const TaskTypeRow = memo(function TaskTypeRow({
             onChange={onChange}
             onCreateOption={onCreateOption}
             onDeleteOption={onDeleteOption}
+            onRenameOption={onRenameOption}
             placeholder="Select type..."
         />
     )
@@ -100,6 +118,7 @@ const TaskCourseRow = memo(function TaskCourseRow({
     onChange,
     onCreateOptionWithColor,
     onDeleteOption,
+    onRenameOption,
     colorPalette,
     colorMap,
 }: {
@@ -108,6 +127,7 @@ const TaskCourseRow = memo(function TaskCourseRow({
     onChange: (val: string) => void
     onCreateOptionWithColor: (val: string, color: string) => void
     onDeleteOption: (val: string) => void
+    onRenameOption: (from: string, to: string) => void
     colorPalette: string[]
     colorMap: Record<string, string>
 }) {
@@ -119,6 +139,7 @@ const TaskCourseRow = memo(function TaskCourseRow({
             onCreateOption={() => { }}
             onCreateOptionWithColor={onCreateOptionWithColor}
             onDeleteOption={onDeleteOption}
+            onRenameOption={onRenameOption}
             colorPalette={colorPalette}
             colorMap={colorMap}
             placeholder="Select course..."
@@ -157,7 +178,7 @@ const TaskRepeatsRow = memo(function TaskRepeatsRow({
                 className="w-full flex items-center justify-between px-3 py-2 rounded-lg bg-glass border border-glass-border text-star-white focus:outline-none focus:border-stardust/50 text-sm cursor-pointer transition-colors hover:bg-glass-hover hover:border-stardust/30"
             >
                 <span className="truncate">
-                    {RECURRENCE_OPTIONS.find(opt => opt.value === value)?.label}
+                    {describeRecurrence(value)}
                 </span>
                 <ChevronDown
                     size={14}
@@ -204,11 +225,15 @@ const TaskStatusRow = memo(function TaskStatusRow({
     options,
     onChange,
     onCreateOption,
+    onDeleteOption,
+    onRenameOption,
 }: {
     value: string
     options: string[]
     onChange: (val: string) => void
     onCreateOption: (val: string) => void
+    onDeleteOption: (val: string) => void
+    onRenameOption: (from: string, to: string) => void
 }) {
     return (
         <MemoCreatableSelect
@@ -216,6 +241,8 @@ const TaskStatusRow = memo(function TaskStatusRow({
             options={options}
             onChange={onChange}
             onCreateOption={onCreateOption}
+            onDeleteOption={onDeleteOption}
+            onRenameOption={onRenameOption}
             placeholder="Select status..."
         />
     )
@@ -232,12 +259,17 @@ export default function TaskModal({
     statusOptions,
     courseOptions,
     courseColors,
+    courseIds,
 
     onAddTypeOption,
     onDeleteTypeOption,
+    onRenameTypeOption,
     onAddStatusOption,
+    onDeleteStatusOption,
+    onRenameStatusOption,
     onAddCourseOption,
     onDeleteCourseOption,
+    onRenameCourseOption,
 
     createTodo,
     updateTodo,
@@ -247,7 +279,18 @@ export default function TaskModal({
     deleteAssignment,
     createException,
     deleteExceptionsForParent,
+    onFocus,
 }: TaskModalProps) {
+    // The sessions since this task was created, to total the time spent on it
+    const { sessions } = useFocusSessions(
+        initialItem ? createdRange([initialItem], addDays(startOfDay(new Date()), 1).toISOString()) : null
+    )
+    const focusedSeconds = useMemo(
+        () => initialItem
+            ? focusSecondsByTask(sessions).get(taskKey(mode === 'todos' ? 'todo' : 'assignment', initialItem.id)) ?? 0
+            : 0,
+        [sessions, initialItem, mode]
+    )
 
     const [form, setForm] = useState<FormState>(() => {
         if (initialItem) {
@@ -261,8 +304,9 @@ export default function TaskModal({
                 course: (initialItem as Record<string, unknown>).course as string || '',
                 type: (initialItem as Record<string, unknown>).type as string || '',
                 status: (initialItem as Record<string, unknown>).status as string || (initialItem.completed ? 'Completed' : 'Not Started'),
-                recurrence: (initialItem.recurrence || 'once') as Recurrence,
+                recurrence: initialItem.recurrence || 'once',
                 recurrenceUntil: initialItem.recurrence_until || '',
+                estimate: initialItem.estimated_minutes?.toString() ?? '',
             }
         }
         return {
@@ -276,6 +320,7 @@ export default function TaskModal({
     } | null>(null)
 
     const [isRepeatsOpen, setIsRepeatsOpen] = useState(false)
+    const [showRecurrenceBuilder, setShowRecurrenceBuilder] = useState(false)
     const repeatsRef = useRef<HTMLDivElement>(null)
 
     const filteredTypeOptions = useMemo(
@@ -300,9 +345,14 @@ export default function TaskModal({
         []
     )
     const handleRecurrenceChange = useCallback((value: Recurrence) => {
-        setForm(f => ({ ...f, recurrence: value }))
+        if (value === 'custom') setShowRecurrenceBuilder(true)
+        else setForm(f => ({ ...f, recurrence: value }))
         setIsRepeatsOpen(false)
     }, [])
+    const handleCustomRecurrenceSave = useCallback((value: Recurrence) => {
+        setForm(f => ({ ...f, recurrence: value }))
+        setShowRecurrenceBuilder(false)
+    }, [])
     const handleRecurrenceUntilChange = useCallback(
         (value: string) => setForm(f => ({ ...f, recurrenceUntil: value })),
         []
@@ -311,6 +361,10 @@ export default function TaskModal({
         (value: string) => setForm(f => ({ ...f, status: value })),
         []
     )
+    const handleEstimateChange = useCallback(
+        (value: string) => setForm(f => ({ ...f, estimate: value })),
+        []
+    )
     useEffect(() => {
         function handleClickOutside(event: MouseEvent) {
             if (repeatsRef.current && !repeatsRef.current.contains(event.target as Node)) {
@@ -327,11 +381,13 @@ export default function TaskModal({
 
     const isFormValid = useMemo(() => !!(form.title && form.dueDate), [form.title, form.dueDate])
     const isRecurring = initialItem?.recurrence && initialItem.recurrence !== 'once'
+    const estimatedMinutes = Number.parseInt(form.estimate, 10) > 0 ? Number.parseInt(form.estimate, 10) : null
+    const minutesLeft = remainingMinutes(estimatedMinutes, focusedSeconds)
 
     const buildPayload = () => {
         const completed = form.status === 'Completed'
         const recurrence = form.recurrence === 'once' ? null : form.recurrence
-        const recurrence_until = form.recurrence === 'once' ? null : form.recurrenceUntil
+        const recurrence_until = form.recurrence === 'once' ? null : form.recurrenceUntil || null
         const base = {
             title: form.title,
             description: form.description || null,
@@ -340,9 +396,15 @@ export default function TaskModal({
             status: form.status || null,
             recurrence,
             recurrence_until,
+            estimated_minutes: estimatedMinutes,
         }
         if (mode === 'todos') return { ...base, due_date: form.dueDate || null }
-        return { ...base, due_date: form.dueDate, course: form.course || null }
+        return {
+            ...base,
+            due_date: form.dueDate,
+            course: form.course || null,
+            course_id: courseIds[form.course] ?? null,
+        }
     }
 
     const saveItem = async (id: string | null, payload: ReturnType<typeof buildPayload>) => {
@@ -464,6 +526,7 @@ export default function TaskModal({
                             onChange={handleTypeChange}
                             onCreateOption={onAddTypeOption}
                             onDeleteOption={onDeleteTypeOption}
+                            onRenameOption={onRenameTypeOption}
                         />
 
                         <div className="text-sm text-star-white/50 flex items-center">Course</div>
@@ -473,6 +536,7 @@ export default function TaskModal({
                             onChange={handleCourseChange}
                             onCreateOptionWithColor={onAddCourseOption}
                             onDeleteOption={onDeleteCourseOption}
+                            onRenameOption={onRenameCourseOption}
                             colorPalette={SUBJECT_COLORS}
                             colorMap={courseColors}
                         />
@@ -493,7 +557,7 @@ export default function TaskModal({
                             />
                         </div>
 
-                        {form.recurrence !== 'once' && (
+                        {form.recurrence !== 'once' && !hasRecurrenceEnd(form.recurrence) && (
                             <>
                                 <div className="text-sm text-star-white/50 flex items-center">Repeat until</div>
                                 <TaskRepeatUntilRow
@@ -509,7 +573,38 @@ export default function TaskModal({
                             options={statusOptions}
                             onChange={handleStatusChange}
                             onCreateOption={onAddStatusOption}
+                            onDeleteOption={onDeleteStatusOption}
+                            onRenameOption={onRenameStatusOption}
                         />
+
+                        <div className="text-sm text-star-white/50 flex items-center">Estimate</div>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="number"
+                                min={0}
+                                step={15}
+                                placeholder="None"
+                                value={form.estimate}
+                                onChange={e => handleEstimateChange(e.target.value)}
+                                className="w-24 px-3 py-2 rounded-lg bg-glass border border-glass-border text-star-white text-sm focus:outline-none focus:border-stardust/50"
+                            />
+                            <span className="text-sm text-star-white/40">min</span>
+                        </div>
+
+                        {initialItem && (focusedSeconds > 0 || estimatedMinutes !== null) && (
+                            <>
+                                <div className="text-sm text-star-white/50 flex items-center">Focused</div>
+                                <div className="text-sm text-star-white/80 flex items-center gap-1.5 px-3 py-2">
+                                    {formatDuration(focusedSeconds)}
+                                    {estimatedMinutes !== null && (
+                                        <span className="text-star-white/40">
+                                            of {formatDuration(estimatedMinutes * 60)}
+                                            {minutesLeft ? ` · ${formatDuration(minutesLeft * 60)} left` : ' · done'}
+                                        </span>
+                                    )}
+                                </div>
+                            </>
+                        )}
                     </div>
                 </div>
 
@@ -524,6 +619,19 @@ export default function TaskModal({
                     >
                         {initialItem ? 'Update' : 'Create'}
                     </button>
+                    {initialItem && form.status !== 'Completed' && (
+                        <button
+                            onClick={() => {
+                                onFocus(initialItem)
+                                onClose()
+                            }}
+                            title="Focus on this"
+                            className="px-4 py-2 rounded-lg bg-glass border border-glass-border text-stardust text-sm hover:bg-glass-hover transition-colors flex items-center gap-1.5"
+                        >
+                            <Timer size={16} />
+                            Focus
+                        </button>
+                    )}
                     {initialItem && (
                         <button
                             onClick={handleDelete}
@@ -543,6 +651,15 @@ export default function TaskModal({
                     onCancel={() => setRecurrenceDialog(null)}
                 />
             )}
+
+            {showRecurrenceBuilder && (
+                <RecurrenceBuilder
+                    initialValue={form.recurrence}
+                    startDate={form.dueDate}
+                    onSave={handleCustomRecurrenceSave}
+                    onCancel={() => setShowRecurrenceBuilder(false)}
+                />
+            )}
         </div>
     )
 }
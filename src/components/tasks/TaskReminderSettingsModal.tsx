@@ -0,0 +1,143 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Check, X } from 'lucide-react'
+
+import { useUserSettings } from '../../hooks/useUserSettings'
+import { TASK_REMINDER_OPTIONS } from '../../lib/taskReminders'
+import { requestNotificationPermission } from '../../lib/notifications'
+import { formatHour } from '../../lib/format'
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+function getPermission(): NotificationPermission | 'unsupported' {
+    return 'Notification' in window ? Notification.permission : 'unsupported'
+}
+
+interface TaskReminderSettingsModalProps {
+    onClose: () => void
+}
+
+export default function TaskReminderSettingsModal({ onClose }: TaskReminderSettingsModalProps) {
+    const { taskReminderSettings, updateSettings } = useUserSettings()
+    const { daysBefore, hour, digest } = taskReminderSettings
+    const [permission, setPermission] = useState(getPermission)
+
+    const toggleDays = (days: number) => {
+        const next = daysBefore.includes(days) ? daysBefore.filter(d => d !== days) : [...daysBefore, days]
+        void updateSettings({ task_reminder_days: next.sort((a, b) => b - a) })
+    }
+
+    const enableNotifications = async () => {
+        await requestNotificationPermission()
+        setPermission(getPermission())
+    }
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50"
+            onClick={onClose}
+        >
+            <motion.div
+                className="glass-panel p-6 w-full max-w-sm cosmic-glow"
+                style={{ background: '#060B18' }}
+                onClick={e => e.stopPropagation()}
+                initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                transition={{ duration: 0.2 }}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-medium text-star-white">Due date reminders</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded hover:bg-glass-hover text-star-white/50"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="flex flex-col gap-4">
+                    {permission !== 'granted' && (
+                        <div className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-glass border border-glass-border">
+                            <p className="text-xs text-star-white/60">
+                                {permission === 'denied'
+                                    ? 'Notifications are blocked in your browser settings.'
+                                    : permission === 'unsupported'
+                                        ? 'This browser does not support notifications.'
+                                        : 'Notifications are off.'}
+                            </p>
+                            {permission === 'default' && (
+                                <button
+                                    onClick={enableNotifications}
+                                    className="shrink-0 px-2.5 py-1 rounded-lg bg-gold text-midnight text-xs font-medium hover:bg-gold/90 transition-colors"
+                                >
+                                    Enable
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="text-xs text-star-white/50 mb-1.5 block">
+                            Remind me about incomplete todos and assignments
+                        </label>
+                        <div className="flex flex-wrap gap-1.5">
+                            {TASK_REMINDER_OPTIONS.map(option => {
+                                const active = daysBefore.includes(option.value)
+                                return (
+                                    <button
+                                        key={option.value}
+                                        onClick={() => toggleDays(option.value)}
+                                        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors ${active
+                                            ? 'bg-gold/10 text-gold border border-gold/30'
+                                            : 'bg-glass border border-glass-border text-star-white/60 hover:text-star-white'
+                                            }`}
+                                    >
+                                        {active && <Check size={10} />}
+                                        {option.label}
+                                    </button>
+                                )
+                            })}
+                        </div>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm text-star-white/70 cursor-pointer w-fit">
+                        <input
+                            type="checkbox"
+                            checked={digest}
+                            onChange={e => void updateSettings({ task_digest_enabled: e.target.checked })}
+                            className="w-3.5 h-3.5 rounded accent-gold"
+                        />
+                        Daily digest of what's due today and overdue
+                    </label>
+
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs text-star-white/50">Send reminders at</label>
+                        <select
+                            value={hour}
+                            onChange={e => void updateSettings({ task_reminder_hour: Number(e.target.value) })}
+                            className="px-3 py-1.5 rounded-lg bg-glass border border-glass-border text-star-white/80 focus:outline-none focus:border-stardust/50 text-xs transition-all cursor-pointer"
+                        >
+                            {HOURS.map(h => (
+                                <option key={h} value={h} className="bg-void">{formatHour(h)}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {digest && daysBefore.includes(0) && (
+                        <p className="text-xs text-star-white/40">
+                            Items due today are listed in the digest instead of separate morning-of reminders.
+                        </p>
+                    )}
+
+                    <button
+                        onClick={onClose}
+                        className="w-full py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 mt-1 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98]"
+                    >
+                        Done
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    )
+}
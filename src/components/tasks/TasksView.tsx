@@ -1,44 +1,39 @@
 import { useState, useMemo, useEffect, useCallback, useRef, useDeferredValue } from 'react'
 import {
   format, startOfMonth, endOfMonth, startOfWeek, endOfWeek,
-  eachDayOfInterval, addMonths, subMonths, addDays,
+  eachDayOfInterval, addMonths, subMonths, addDays, startOfDay, parseISO,
 } from 'date-fns'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ChevronLeft, ChevronRight, Repeat } from 'lucide-react'
+import { AlertTriangle, Bell, CalendarClock, ChevronLeft, ChevronRight, Repeat } from 'lucide-react'
 import {
   DndContext, DragOverlay, closestCenter, KeyboardSensor, PointerSensor,
   useSensor, useSensors
 } from '@dnd-kit/core'
 import type { DragEndEvent, DragStartEvent } from '@dnd-kit/core'
 import { sortableKeyboardCoordinates } from '@dnd-kit/sortable'
-import { getStatusColor, loadCourseColors, saveCourseColors } from '../../lib/colors'
-import { loadJSON, saveJSON } from '../../lib/storage'
+import { getStatusColor } from '../../lib/colors'
+import type { TaskFieldKind } from '../../lib/taskOptions'
 
 import { useTodos } from '../../hooks/useTodos'
 import { useAssignments } from '../../hooks/useAssignments'
 import { useRecurrenceExceptions } from '../../hooks/useRecurrenceExceptions'
-import { expandItems } from '../../lib/recurrence'
+import { useTaskOptions } from '../../hooks/useTaskOptions'
+import { useCourses } from '../../hooks/useCourses'
+import { useFocusOnTask } from '../../hooks/useFocusOnTask'
+import { useEvents } from '../../hooks/useEvents'
+import { useCalendars } from '../../hooks/useCalendars'
+import { useFocusSessions } from '../../hooks/useFocusSessions'
+import { expandItems, isOccurrenceCompleted } from '../../lib/recurrence'
+import { focusSecondsByTask, taskKey, taskTypeOf } from '../../lib/taskFocus'
+import { createdRange } from '../../lib/tableRanges'
+import { busyIntervals, estimatedMinutesByDay, freeMinutesByDay, isOverloaded, type Workload } from '../../lib/workload'
 import type { VirtualOccurrence } from '../../lib/recurrence'
 import type { Todo, Assignment } from '../../types/database'
 import TaskModal from './TaskModal'
+import TaskReminderSettingsModal from './TaskReminderSettingsModal'
+import StudyPlanSettingsModal from './StudyPlanSettingsModal'
 import { CalendarDay } from './CalendarDay'
-
-const LS_TYPES_KEY = 'muffin-task-types'
-const LS_STATUSES_KEY = 'muffin-task-statuses'
-const LS_COURSES_KEY = 'muffin-task-courses'
-
-const DEFAULT_TYPES: string[] = []
-const DEFAULT_STATUSES = ['Not Started', 'In Progress', 'Completed']
-
-function loadOptions(key: string, defaults: string[]): string[] {
-  const stored = loadJSON<string[] | null>(key, null)
-  if (!stored) return [...defaults]
-  return [...new Set([...defaults, ...stored])]
-}
-
-function saveOptions(key: string, options: string[]) {
-  saveJSON(key, [...new Set(options)])
-}
+import WorkloadBar from './WorkloadBar'
 
 type TaskMode = 'todos' | 'assignments'
 type TaskItem = Todo | Assignment
@@ -62,56 +57,51 @@ export default function TasksView() {
   const [editingOccurrence, setEditingOccurrence] = useState<VirtualOccurrence<TaskItem> | null>(null)
   const [modalDefaultDate, setModalDefaultDate] = useState<string | undefined>(undefined)
   const [activeId, setActiveId] = useState<string | null>(null)
+  const [showReminderSettings, setShowReminderSettings] = useState(false)
+  const [showStudyPlanSettings, setShowStudyPlanSettings] = useState(false)
 
-  // Dropdown option lists (persisted to localStorage)
-  const [typeOptions, setTypeOptions] = useState(() => loadOptions(LS_TYPES_KEY, DEFAULT_TYPES))
-  const [statusOptions, setStatusOptions] = useState(() => loadOptions(LS_STATUSES_KEY, DEFAULT_STATUSES))
-  const [courseOptions, setCourseOptions] = useState<string[]>([])
-  const [courseColors, setCourseColors] = useState<Record<string, string>>(() => loadCourseColors())
-
-  // Seed course options from existing assignments
-  useEffect(() => {
-    const existingCourses = [...new Set(assignments.map(a => a.course).filter((c): c is string => !!c))]
-    const stored = loadOptions(LS_COURSES_KEY, [])
-    const merged = [...new Set([...existingCourses, ...stored])]
-    setCourseOptions(merged)
-  }, [assignments])
-
-  const addOption = useCallback((setter: (fn: (prev: string[]) => string[]) => void, key: string) =>
-    (val: string) => setter(prev => {
-      const next = [...new Set([...prev, val])]
-      saveOptions(key, next)
-      return next
-    }), [])
-
-  const removeOption = useCallback((setter: (fn: (prev: string[]) => string[]) => void, key: string) =>
-    (val: string) => setter(prev => {
-      const next = prev.filter(v => v !== val)
-      saveOptions(key, next)
-      return next
-    }), [])
-
-  const addTypeOption = useMemo(() => addOption(setTypeOptions, LS_TYPES_KEY), [addOption])
-  const addStatusOption = useMemo(() => addOption(setStatusOptions, LS_STATUSES_KEY), [addOption])
-  const deleteTypeOption = useMemo(() => removeOption(setTypeOptions, LS_TYPES_KEY), [removeOption])
+  // Dropdown option lists (stored per user)
+  const {
+    typeOptions, statusOptions, addOption, removeOption, renameOption,
+  } = useTaskOptions()
+  const { courses, createCourse, renameCourse, deleteCourse } = useCourses()
+  const focusOnTask = useFocusOnTask()
+
+  const handleFocusItem = useCallback((item: TaskItem) => {
+    void focusOnTask(item, mode === 'todos' ? 'todo' : 'assignment')
+  }, [focusOnTask, mode])
+
+  const optionHandlers = useCallback((kind: TaskFieldKind) => ({
+    add: (val: string) => { void addOption(kind, val) },
+    remove: (val: string) => { void removeOption(kind, val) },
+    rename: (from: string, to: string) => { void renameOption(kind, from, to) },
+  }), [addOption, removeOption, renameOption])
+
+  const typeHandlers = useMemo(() => optionHandlers('type'), [optionHandlers])
+  const statusHandlers = useMemo(() => optionHandlers('status'), [optionHandlers])
+
+  // Courses are picked by name; the modal links the assignment by id on save
+  const courseOptions = useMemo(() => courses.map(course => course.name), [courses])
+  const courseColors = useMemo(
+    () => Object.fromEntries(courses.map(course => [course.name, course.color])),
+    [courses]
+  )
+  const courseIds = useMemo(
+    () => Object.fromEntries(courses.map(course => [course.name, course.id])),
+    [courses]
+  )
 
   const addCourseOption = useCallback((val: string, color: string) => {
-    addOption(setCourseOptions, LS_COURSES_KEY)(val)
-    setCourseColors(prev => {
-      const next = { ...prev, [val]: color }
-      saveCourseColors(next)
-      return next
-    })
-  }, [addOption])
+    void createCourse(val, color)
+  }, [createCourse])
 
   const deleteCourseOption = useCallback((val: string) => {
-    removeOption(setCourseOptions, LS_COURSES_KEY)(val)
-    setCourseColors(prev => {
-      const { [val]: _, ...next } = prev
-      saveCourseColors(next)
-      return next
-    })
-  }, [removeOption])
+    if (courseIds[val]) void deleteCourse(courseIds[val])
+  }, [courseIds, deleteCourse])
+
+  const renameCourseOption = useCallback((from: string, to: string) => {
+    if (courseIds[from]) void renameCourse(courseIds[from], to)
+  }, [courseIds, renameCourse])
 
   const calendarDays = useMemo(() => {
     const monthStart = startOfMonth(currentMonth)
@@ -135,6 +125,68 @@ export default function TasksView() {
     return expandItems(items, 'due_date' as keyof TaskItem, rangeStart, rangeEnd, deferredExceptions)
   }, [mode, deferredTodos, deferredAssignments, rangeStart, rangeEnd, deferredExceptions])
 
+  // Workload covers todos and assignments alike, from today to the end of the grid
+  const eventRange = useMemo(() => ({
+    from: calendarDays[0].toISOString(),
+    to: addDays(calendarDays[calendarDays.length - 1], 1).toISOString(),
+  }), [calendarDays])
+  const { events } = useEvents(eventRange)
+  const { calendars } = useCalendars()
+
+  // What's due from today to the end of the grid, with the focus linked to it
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const workloadItems = useMemo(() => [
+    ...expandItems<TaskItem>(deferredTodos, 'due_date', today, rangeEnd, deferredExceptions),
+    ...expandItems<TaskItem>(deferredAssignments, 'due_date', today, rangeEnd, deferredExceptions),
+  ], [today, rangeEnd, deferredTodos, deferredAssignments, deferredExceptions])
+  const focusRange = useMemo(
+    () => createdRange(workloadItems.map(occ => occ.data), addDays(parseISO(today), 1).toISOString()),
+    [workloadItems, today]
+  )
+  const { sessions } = useFocusSessions(focusRange)
+  const deferredEvents = useDeferredValue(events)
+  const deferredSessions = useDeferredValue(sessions)
+
+  const workloadByDay = useMemo(() => {
+    const workloads = new Map<string, Workload>()
+    const now = new Date()
+    const days = calendarDays.filter(day => day >= startOfDay(now))
+    if (days.length === 0) return workloads
+
+    const from = startOfDay(now)
+    const to = addDays(days[days.length - 1], 1)
+    // Study plan blocks are the estimated work itself, not time it competes with
+    const planCalendarIds = new Set(calendars.filter(cal => cal.study_plan).map(cal => cal.id))
+    const others = deferredEvents.filter(event => !planCalendarIds.has(event.calendar_id))
+    const busy = busyIntervals(others, deferredExceptions, from, to)
+    const free = freeMinutesByDay(days, busy, now)
+    const focused = focusSecondsByTask(deferredSessions)
+    const estimated = estimatedMinutesByDay(
+      workloadItems,
+      item => focused.get(taskKey(taskTypeOf(item), item.id)) ?? 0
+    )
+    for (const [date, freeMinutes] of free) {
+      workloads.set(date, { estimatedMinutes: estimated.get(date) ?? 0, freeMinutes })
+    }
+    return workloads
+  }, [calendarDays, calendars, deferredEvents, deferredExceptions, deferredSessions, workloadItems])
+
+  const weeks = useMemo(() => {
+    const result: { days: Date[]; workload: Workload | null }[] = []
+    for (let i = 0; i < calendarDays.length; i += 7) {
+      const days = calendarDays.slice(i, i + 7)
+      const dayWorkloads = days.flatMap(day => workloadByDay.get(format(day, 'yyyy-MM-dd')) ?? [])
+      result.push({
+        days,
+        workload: dayWorkloads.length === 0 ? null : {
+          estimatedMinutes: dayWorkloads.reduce((sum, w) => sum + w.estimatedMinutes, 0),
+          freeMinutes: dayWorkloads.reduce((sum, w) => sum + w.freeMinutes, 0),
+        },
+      })
+    }
+    return result
+  }, [calendarDays, workloadByDay])
+
   const getCourseItemColor = useCallback((course: string | null) =>
     (course && courseColors[course]) || (course ? '#FF6B9D' : '#666'), [courseColors])
 
@@ -165,17 +217,6 @@ export default function TasksView() {
     return itemsByDay.get(dateStr) || []
   }, [itemsByDay])
 
-  /** Check if an item is completed for a specific occurrence */
-  const isOccurrenceCompleted = useCallback((occ: VirtualOccurrence<TaskItem>) => {
-    // Non-recurring: use the data's completed field
-    if (!occ.data.recurrence) return occ.data.completed
-    // Recurring: check for a 'completed' exception on this date
-    if (occ.exception?.exception_type === 'completed') return true
-    // Also check from the original data if it's the original date
-    if (!occ.isVirtual) return occ.data.completed
-    return false
-  }, [])
-
   const isRecurring = (item: TaskItem | null) =>
     item?.recurrence && item.recurrence !== 'once'
 
@@ -184,10 +225,12 @@ export default function TasksView() {
   const focusedDateRef = useRef(focusedDate)
   const modeRef = useRef(mode)
 
-  selectedItemIdRef.current = selectedItemId
-  copiedItemRef.current = copiedItem
-  focusedDateRef.current = focusedDate
-  modeRef.current = mode
+  useEffect(() => {
+    selectedItemIdRef.current = selectedItemId
+    copiedItemRef.current = copiedItem
+    focusedDateRef.current = focusedDate
+    modeRef.current = mode
+  })
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -214,6 +257,7 @@ export default function TasksView() {
             title: src.title,
             description: src.description,
             due_date: currentFocusedDate,
+            estimated_minutes: src.estimated_minutes,
           })
         } else {
           const src = currentCopiedItem as Assignment
@@ -222,6 +266,8 @@ export default function TasksView() {
             description: src.description,
             due_date: currentFocusedDate,
             course: src.course,
+            course_id: src.course_id,
+            estimated_minutes: src.estimated_minutes,
           })
         }
       }
@@ -295,7 +341,7 @@ export default function TasksView() {
         await updateAssignment(item.id, { completed: !item.completed })
       }
     }
-  }, [mode, createException, deleteException, isOccurrenceCompleted, updateTodo, updateAssignment])
+  }, [mode, createException, deleteException, updateTodo, updateAssignment])
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
@@ -421,6 +467,20 @@ export default function TasksView() {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowReminderSettings(true)}
+              title="Due date reminders"
+              className="p-1.5 rounded-lg hover:bg-cosmic-purple/30 text-star-white/70 hover:text-star-white transition-[color,background-color,transform] hover:scale-110 active:scale-95"
+            >
+              <Bell size={18} />
+            </button>
+            <button
+              onClick={() => setShowStudyPlanSettings(true)}
+              title="Study plan"
+              className="p-1.5 rounded-lg hover:bg-cosmic-purple/30 text-star-white/70 hover:text-star-white transition-[color,background-color,transform] hover:scale-110 active:scale-95"
+            >
+              <CalendarClock size={18} />
+            </button>
             <button
               onClick={() => setCurrentMonth(subMonths(currentMonth, 1))}
               className="p-1.5 rounded-lg hover:bg-cosmic-purple/30 text-star-white/70 hover:text-star-white transition-[color,background-color,transform] hover:scale-110 active:scale-95"
@@ -456,38 +516,55 @@ export default function TasksView() {
         )}
 
         <div className="flex-1 glass-panel p-4 flex flex-col min-h-0">
-          <div className="grid grid-cols-7 mb-1">
+          <div className="grid grid-cols-[repeat(7,minmax(0,1fr))_4rem] mb-1">
             {DAY_HEADERS.map(day => (
               <div key={day} className="text-center text-xs text-star-white/50 py-1 font-medium">
                 {day}
               </div>
             ))}
+            <div className="text-center text-xs text-star-white/50 py-1 font-medium">Week</div>
           </div>
 
-          <div className="grid grid-cols-7 flex-1 gap-px bg-glass-border/30 rounded-lg overflow-hidden">
-            {calendarDays.map(day => {
-              const dayOccurrences = getItemsForDay(day)
-              const dateStr = format(day, 'yyyy-MM-dd')
-
-              return (
-                <CalendarDay
-                  key={dateStr}
-                  day={day}
-                  currentMonth={currentMonth}
-                  focusedDate={focusedDate}
-                  selectedItemId={selectedItemId}
-                  mode={mode}
-                  dayOccurrences={dayOccurrences}
-                  onDayClick={handleDayClick}
-                  onDayDoubleClick={handleDayDoubleClick}
-                  onItemClick={handleItemClick}
-                  onItemDoubleClick={handleItemDoubleClick}
-                  onToggleComplete={handleToggleComplete}
-                  getCourseItemColor={getCourseItemColor}
-                  isOccurrenceCompleted={isOccurrenceCompleted}
-                />
-              )
-            })}
+          <div className="grid grid-cols-[repeat(7,minmax(0,1fr))_4rem] flex-1 gap-px bg-glass-border/30 rounded-lg overflow-hidden">
+            {weeks.flatMap(({ days, workload }) => [
+              ...days.map(day => {
+                const dayOccurrences = getItemsForDay(day)
+                const dateStr = format(day, 'yyyy-MM-dd')
+
+                return (
+                  <CalendarDay
+                    key={dateStr}
+                    day={day}
+                    currentMonth={currentMonth}
+                    focusedDate={focusedDate}
+                    selectedItemId={selectedItemId}
+                    mode={mode}
+                    dayOccurrences={dayOccurrences}
+                    workload={workloadByDay.get(dateStr)}
+                    onDayClick={handleDayClick}
+                    onDayDoubleClick={handleDayDoubleClick}
+                    onItemClick={handleItemClick}
+                    onItemDoubleClick={handleItemDoubleClick}
+                    onToggleComplete={handleToggleComplete}
+                    onFocusItem={handleFocusItem}
+                    getCourseItemColor={getCourseItemColor}
+                    isOccurrenceCompleted={isOccurrenceCompleted}
+                  />
+                )
+              }),
+              <div
+                key={`week-${format(days[0], 'yyyy-MM-dd')}`}
+                className="bg-void/50 p-1.5 flex flex-col items-center justify-center gap-1 text-[10px] text-star-white/50"
+              >
+                {workload && workload.estimatedMinutes > 0 && (
+                  <>
+                    {isOverloaded(workload) && <AlertTriangle size={12} className="text-red-400" />}
+                    <span>{Math.round(workload.estimatedMinutes / 60)}h / {Math.round(workload.freeMinutes / 60)}h</span>
+                    <WorkloadBar workload={workload} className="w-full" />
+                  </>
+                )}
+              </div>,
+            ])}
           </div>
         </div>
 
@@ -508,11 +585,16 @@ export default function TasksView() {
               statusOptions={statusOptions}
               courseOptions={courseOptions}
               courseColors={courseColors}
-              onAddTypeOption={addTypeOption}
-              onDeleteTypeOption={deleteTypeOption}
-              onAddStatusOption={addStatusOption}
+              courseIds={courseIds}
+              onAddTypeOption={typeHandlers.add}
+              onDeleteTypeOption={typeHandlers.remove}
+              onRenameTypeOption={typeHandlers.rename}
+              onAddStatusOption={statusHandlers.add}
+              onDeleteStatusOption={statusHandlers.remove}
+              onRenameStatusOption={statusHandlers.rename}
               onAddCourseOption={addCourseOption}
               onDeleteCourseOption={deleteCourseOption}
+              onRenameCourseOption={renameCourseOption}
               createTodo={createTodo}
               updateTodo={updateTodo}
               deleteTodo={deleteTodo}
@@ -521,9 +603,22 @@ export default function TasksView() {
               deleteAssignment={deleteAssignment}
               createException={createException}
               deleteExceptionsForParent={deleteExceptionsForParent}
+              onFocus={handleFocusItem}
             />
           )}
         </AnimatePresence>
+
+        <AnimatePresence>
+          {showReminderSettings && (
+            <TaskReminderSettingsModal onClose={() => setShowReminderSettings(false)} />
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {showStudyPlanSettings && (
+            <StudyPlanSettingsModal onClose={() => setShowStudyPlanSettings(false)} />
+          )}
+        </AnimatePresence>
       </div>
       <DragOverlay>
         {activeOccurrence ? (() => {
@@ -0,0 +1,29 @@
+import { memo } from 'react'
+
+import { formatDuration } from '../../lib/format'
+import { isOverloaded, type Workload } from '../../lib/workload'
+
+interface WorkloadBarProps {
+    workload: Workload
+    className?: string
+}
+
+/** How much of the free time the estimated work fills; red once it doesn't fit. */
+export default memo(function WorkloadBar({ workload, className = '' }: WorkloadBarProps) {
+    const overloaded = isOverloaded(workload)
+    const filled = workload.freeMinutes > 0
+        ? Math.min(1, workload.estimatedMinutes / workload.freeMinutes)
+        : 1
+
+    return (
+        <div
+            className={`h-1 rounded-full bg-white/10 overflow-hidden ${className}`}
+            title={`${formatDuration(workload.estimatedMinutes * 60)} of work, ${formatDuration(workload.freeMinutes * 60)} free${overloaded ? ' — more than fits' : ''}`}
+        >
+            <div
+                className={`h-full rounded-full ${overloaded ? 'bg-red-400' : 'bg-stardust/60'}`}
+                style={{ width: `${filled * 100}%` }}
+            />
+        </div>
+    )
+})
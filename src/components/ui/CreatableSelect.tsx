@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react'
-import { ChevronDown, Plus, Check, Trash2 } from 'lucide-react'
+import { ChevronDown, Plus, Check, Pencil, Trash2 } from 'lucide-react'
 
 interface CreatableSelectProps {
   value: string
@@ -11,6 +11,7 @@ interface CreatableSelectProps {
   colorMap?: Record<string, string>
   onCreateOptionWithColor?: (value: string, color: string) => void
   onDeleteOption?: (value: string) => void
+  onRenameOption?: (from: string, to: string) => void
 }
 
 export default function CreatableSelect({
@@ -23,13 +24,17 @@ export default function CreatableSelect({
   colorMap,
   onCreateOptionWithColor,
   onDeleteOption,
+  onRenameOption,
 }: CreatableSelectProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isCreating, setIsCreating] = useState(false)
   const [newValue, setNewValue] = useState('')
   const [selectedColor, setSelectedColor] = useState(colorPalette?.[0] || '')
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
   const containerRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const renameInputRef = useRef<HTMLInputElement>(null)
 
   // Ensure current value appears in options list even if not in stored list
   const allOptions = value && !options.includes(value)
@@ -43,6 +48,7 @@ export default function CreatableSelect({
         setIsOpen(false)
         setIsCreating(false)
         setNewValue('')
+        setRenaming(null)
       }
     }
     const handleEscape = (e: KeyboardEvent) => {
@@ -50,6 +56,7 @@ export default function CreatableSelect({
         setIsOpen(false)
         setIsCreating(false)
         setNewValue('')
+        setRenaming(null)
       }
     }
     document.addEventListener('mousedown', handleClickOutside)
@@ -66,6 +73,13 @@ export default function CreatableSelect({
     }
   }, [isCreating])
 
+  useEffect(() => {
+    if (renaming !== null && renameInputRef.current) {
+      renameInputRef.current.focus()
+      renameInputRef.current.select()
+    }
+  }, [renaming])
+
   const handleSelect = (option: string) => {
     onChange(option)
     setIsOpen(false)
@@ -87,6 +101,15 @@ export default function CreatableSelect({
     setIsOpen(false)
   }
 
+  const handleRename = () => {
+    const trimmed = renameValue.trim()
+    if (renaming !== null && trimmed && trimmed !== renaming) {
+      onRenameOption?.(renaming, trimmed)
+      if (renaming === value) onChange(trimmed)
+    }
+    setRenaming(null)
+  }
+
   return (
     <div ref={containerRef} className="relative">
       {/* Trigger pill */}
@@ -108,7 +131,26 @@ export default function CreatableSelect({
       >
         {/* Options */}
         <div className="max-h-[200px] overflow-y-auto py-1">
-          {allOptions.map(option => (
+          {allOptions.map(option => renaming === option ? (
+            <div key={option} className="px-2 py-1">
+              <input
+                ref={renameInputRef}
+                type="text"
+                value={renameValue}
+                onChange={e => setRenameValue(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleRename()
+                  if (e.key === 'Escape') {
+                    // Leave the dropdown open
+                    e.stopPropagation()
+                    setRenaming(null)
+                  }
+                }}
+                onBlur={() => setRenaming(null)}
+                className="w-full px-2 py-1 rounded bg-glass border border-glass-border text-star-white text-sm focus:outline-none focus:border-stardust/50"
+              />
+            </div>
+          ) : (
             <div key={option} className="group relative flex items-center">
               <button
                 type="button"
@@ -126,6 +168,19 @@ export default function CreatableSelect({
                   {option}
                 </span>
               </button>
+              {onRenameOption && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setRenaming(option)
+                    setRenameValue(option)
+                  }}
+                  className={`absolute ${onDeleteOption ? 'right-8' : 'right-2'} p-1 rounded hover:bg-cosmic-purple/30 text-star-white/20 hover:text-star-white opacity-0 group-hover:opacity-100 transition-all z-10`}
+                >
+                  <Pencil size={12} />
+                </button>
+              )}
               {onDeleteOption && (
                 <button
                   type="button"
@@ -6,6 +6,7 @@ import {
   nextSaturday, nextSunday,
 } from 'date-fns'
 import { ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react'
+import DatePicker from './DatePicker'
 
 interface EventDateTimePickerProps {
   startTime: string // "yyyy-MM-ddTHH:mm"
@@ -13,6 +14,8 @@ interface EventDateTimePickerProps {
   onStartTimeChange: (value: string) => void
   onEndTimeChange: (value: string) => void
   layout?: 'inline' | 'stacked'
+  /** Pick a start and (inclusive) end date instead of times; only the date parts are meaningful. */
+  allDay?: boolean
 }
 
 // Generate time options in 15-minute intervals
@@ -160,7 +163,7 @@ function parseDateInput(raw: string): string | null {
 type OpenDropdown = 'date' | 'startTime' | 'endTime' | null
 
 export default function EventDateTimePicker({
-  startTime, endTime, onStartTimeChange, onEndTimeChange, layout = 'inline',
+  startTime, endTime, onStartTimeChange, onEndTimeChange, layout = 'inline', allDay = false,
 }: EventDateTimePickerProps) {
   const [openDropdown, setOpenDropdown] = useState<OpenDropdown>(null)
   const [calendarMonth, setCalendarMonth] = useState(() => {
@@ -290,8 +293,19 @@ export default function EventDateTimePicker({
     return days
   }, [calendarMonth])
 
+  // All-day ranges keep their end date unless the new start passes it
+  const setAllDayStart = (newDateStr: string) => {
+    onStartTimeChange(`${newDateStr}T${currentStartTimeStr}`)
+    if (!endTime || endTime.split('T')[0] < newDateStr) onEndTimeChange(`${newDateStr}T${currentEndTimeStr}`)
+  }
+
   const handleDateSelect = (day: Date) => {
     const newDateStr = format(day, 'yyyy-MM-dd')
+    if (allDay) {
+      setAllDayStart(newDateStr)
+      setOpenDropdown(null)
+      return
+    }
     const newStartISO = `${newDateStr}T${currentStartTimeStr}`
     const newEndISO = `${newDateStr}T${currentEndTimeStr}`
     onStartTimeChange(newStartISO)
@@ -318,20 +332,23 @@ export default function EventDateTimePicker({
     const parsed = parseDateInput(text ?? dateText)
     if (parsed) {
       onStartTimeChange(`${parsed}T${currentStartTimeStr}`)
-      onEndTimeChange(`${parsed}T${currentEndTimeStr}`)
+      if (!allDay || !endTime || endTime.split('T')[0] < parsed) {
+        onEndTimeChange(`${parsed}T${currentEndTimeStr}`)
+      }
     }
     setIsEditingDate(false)
-  }, [dateText, currentStartTimeStr, currentEndTimeStr, onStartTimeChange, onEndTimeChange])
+  }, [dateText, currentStartTimeStr, currentEndTimeStr, allDay, endTime, onStartTimeChange, onEndTimeChange])
 
   const focusNextAfterDate = useCallback(() => {
     commitDateText()
+    if (allDay) return
     // Auto-focus start time input
     setTimeout(() => {
       setStartTimeText(formattedStartTimeRef.current)
       setIsEditingStartTime(true)
       setOpenDropdown(null)
     }, 0)
-  }, [commitDateText])
+  }, [commitDateText, allDay])
 
   const commitStartTimeText = useCallback((text?: string) => {
     const parsed = parseTimeInput(text ?? startTimeText)
@@ -416,7 +433,7 @@ export default function EventDateTimePicker({
 
   return (
     <div ref={containerRef}>
-      <label className="text-xs text-star-white/50 mb-1.5 block">Date & Time</label>
+      <label className="text-xs text-star-white/50 mb-1.5 block">{allDay ? 'Dates' : 'Date & Time'}</label>
       <div className={layout === 'stacked' ? 'flex flex-col gap-2 min-w-0' : 'flex items-center gap-2 min-w-0'}>
         {/* Date button / input */}
         <div className="relative flex-1 min-w-0">
@@ -537,6 +554,18 @@ export default function EventDateTimePicker({
           </div>
         </div>
 
+        {allDay ? (
+          <>
+            <span className="text-star-white/40 text-sm select-none">–</span>
+            {/* Inclusive end date */}
+            <div className="flex-1 min-w-0 [&>div]:w-full">
+              <DatePicker
+                value={endTime ? endTime.split('T')[0] : currentDateStr}
+                onChange={date => onEndTimeChange(`${date < currentDateStr ? currentDateStr : date}T${currentEndTimeStr}`)}
+              />
+            </div>
+          </>
+        ) : (
         <div className={layout === 'stacked' ? 'flex items-center gap-2' : 'contents'}>
           {/* Start time button / input */}
           <div className="relative">
@@ -704,6 +733,7 @@ export default function EventDateTimePicker({
           </div>
         </div>
         </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,276 @@
+import { useMemo, useState } from 'react'
+import { getDaysInMonth, parseISO } from 'date-fns'
+import { X } from 'lucide-react'
+import type { Frequency, RRule } from '../../lib/recurrence'
+import { describeRecurrence, formatRRule, parseRecurrence } from '../../lib/recurrence'
+
+interface RecurrenceBuilderProps {
+  initialValue: string | null
+  startDate: string // YYYY-MM-DD, anchors weekday and month-day defaults
+  onSave: (recurrence: string) => void
+  onCancel: () => void
+}
+
+type MonthlyMode = 'day' | 'weekday' | 'last-weekday'
+type DayPattern = Pick<RRule, 'byDay' | 'byMonthDay' | 'bySetPos'>
+type EndMode = 'date' | 'count'
+
+const FREQ_LABELS: { value: Frequency; singular: string; plural: string }[] = [
+  { value: 'DAILY', singular: 'day', plural: 'days' },
+  { value: 'WEEKLY', singular: 'week', plural: 'weeks' },
+  { value: 'MONTHLY', singular: 'month', plural: 'months' },
+  { value: 'YEARLY', singular: 'year', plural: 'years' },
+]
+const WEEKDAY_BUTTONS = [1, 2, 3, 4, 5, 6, 0]
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth']
+const WEEKDAY_LONG = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+/**
+ * The day parts of an existing rule when the builder has no control that
+ * produces them (e.g. an imported "last weekday of the month"), so they
+ * survive editing its other fields; null when the controls cover them.
+ */
+function importedPattern(rule: RRule | null, anchor: Date): DayPattern | null {
+  if (!rule) return null
+  const { byDay, byMonthDay, bySetPos } = rule
+  if (byDay.length === 0 && byMonthDay.length === 0 && bySetPos.length === 0) return null
+  if (rule.freq === 'WEEKLY' && byMonthDay.length === 0 && bySetPos.length === 0
+    && byDay.every(d => d.ordinal === null)) return null
+  if (rule.freq === 'MONTHLY') {
+    const weekOfMonth = Math.ceil(anchor.getDate() / 7)
+    const isLastWeek = anchor.getDate() + 7 > getDaysInMonth(anchor)
+    const day = byDay.length === 1 && byDay[0].weekday === anchor.getDay() ? byDay[0] : null
+    if (byDay.length === 0 && bySetPos.length === 0
+      && byMonthDay.length === 1 && byMonthDay[0] === anchor.getDate()) return null
+    if (day && byMonthDay.length === 0) {
+      const last = (day.ordinal === -1 && bySetPos.length === 0)
+        || (day.ordinal === null && bySetPos.length === 1 && bySetPos[0] === -1)
+      if (last && isLastWeek) return null
+      if (day.ordinal === weekOfMonth && weekOfMonth <= 4 && bySetPos.length === 0) return null
+    }
+  }
+  return { byDay, byMonthDay, bySetPos }
+}
+
+function initialMonthlyMode(rule: RRule | null): MonthlyMode {
+  const byDay = rule?.byDay[0]
+  if (rule?.freq !== 'MONTHLY' || !byDay) return 'day'
+  return byDay.ordinal === -1 || rule.bySetPos[0] === -1 ? 'last-weekday' : 'weekday'
+}
+
+export default function RecurrenceBuilder({ initialValue, startDate, onSave, onCancel }: RecurrenceBuilderProps) {
+  const anchor = useMemo(() => parseISO(startDate || new Date().toISOString().slice(0, 10)), [startDate])
+  const initialRule = useMemo(() => parseRecurrence(initialValue), [initialValue])
+  const [pattern] = useState(() => importedPattern(initialRule, anchor))
+
+  const [freq, setFreq] = useState<Frequency>(initialRule?.freq ?? 'WEEKLY')
+  const [every, setEvery] = useState(initialRule?.interval ?? 1)
+  const [weekdays, setWeekdays] = useState<number[]>(() => {
+    const days = initialRule?.freq === 'WEEKLY' ? initialRule.byDay.map(d => d.weekday) : []
+    return days.length > 0 ? days : [anchor.getDay()]
+  })
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>(() => initialMonthlyMode(initialRule))
+  // Kept until the user picks days the builder can express
+  const [keepPattern, setKeepPattern] = useState(pattern !== null)
+  const [endMode, setEndMode] = useState<EndMode>(initialRule?.count ? 'count' : 'date')
+  const [count, setCount] = useState(initialRule?.count ?? 10)
+
+  const weekOfMonth = Math.ceil(anchor.getDate() / 7)
+  const isLastWeek = anchor.getDate() + 7 > getDaysInMonth(anchor)
+  const keepsPattern = pattern !== null && keepPattern && freq === initialRule?.freq
+  // UNTIL has no control here either; it stays while the rule ends on a date
+  const until = endMode === 'date' ? initialRule?.until ?? null : null
+
+  const rule = useMemo<RRule>(() => {
+    const next: RRule = {
+      freq,
+      interval: Math.max(1, every),
+      byDay: [],
+      byMonthDay: [],
+      bySetPos: [],
+      count: endMode === 'count' ? Math.max(1, count) : null,
+      until,
+    }
+    if (keepsPattern) {
+      Object.assign(next, pattern)
+    } else if (freq === 'WEEKLY') {
+      next.byDay = [...weekdays]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map(weekday => ({ weekday, ordinal: null }))
+    } else if (freq === 'MONTHLY') {
+      if (monthlyMode === 'day') next.byMonthDay = [anchor.getDate()]
+      else if (monthlyMode === 'weekday') next.byDay = [{ weekday: anchor.getDay(), ordinal: weekOfMonth }]
+      else next.byDay = [{ weekday: anchor.getDay(), ordinal: -1 }]
+    }
+    return next
+  }, [freq, every, weekdays, monthlyMode, endMode, count, until, keepsPattern, pattern, anchor, weekOfMonth])
+
+  const value = formatRRule(rule)
+
+  const toggleWeekday = (day: number) => {
+    setKeepPattern(false)
+    setWeekdays(prev => {
+      if (prev.includes(day)) return prev.length > 1 ? prev.filter(d => d !== day) : prev
+      return [...prev, day]
+    })
+  }
+
+  const inputClass = 'px-3 py-2 rounded-lg bg-glass border border-glass-border text-star-white focus:outline-none focus:border-stardust/50 text-sm'
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60]"
+      onClick={onCancel}
+    >
+      <div
+        className="glass-panel p-6 w-full max-w-sm cosmic-glow"
+        style={{ background: '#060B18' }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-star-white">Custom recurrence</h3>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded hover:bg-glass-hover text-star-white/50"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center gap-2 text-sm text-star-white/70">
+            <span>Repeat every</span>
+            <input
+              type="number"
+              min={1}
+              value={every}
+              onChange={e => setEvery(parseInt(e.target.value, 10) || 1)}
+              className={`${inputClass} w-16`}
+            />
+            <select
+              value={freq}
+              onChange={e => setFreq(e.target.value as Frequency)}
+              className={`${inputClass} flex-1 cursor-pointer`}
+            >
+              {FREQ_LABELS.map(f => (
+                <option key={f.value} value={f.value} className="bg-void">
+                  {every === 1 ? f.singular : f.plural}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {freq === 'WEEKLY' && (
+            <div>
+              <label className="text-xs text-star-white/50 mb-1.5 block">Repeat on</label>
+              <div className="flex gap-1.5">
+                {WEEKDAY_BUTTONS.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`w-8 h-8 rounded-full text-xs font-medium transition-colors ${weekdays.includes(day)
+                      ? 'bg-gold text-midnight'
+                      : 'bg-glass border border-glass-border text-star-white/60 hover:text-star-white'
+                      }`}
+                  >
+                    {WEEKDAY_LETTERS[day]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {freq === 'MONTHLY' && (
+            <select
+              value={keepsPattern ? 'imported' : monthlyMode}
+              onChange={e => {
+                setKeepPattern(e.target.value === 'imported')
+                if (e.target.value !== 'imported') setMonthlyMode(e.target.value as MonthlyMode)
+              }}
+              className={`${inputClass} cursor-pointer`}
+            >
+              {pattern && initialRule?.freq === 'MONTHLY' && (
+                <option value="imported" className="bg-void">As before (custom days)</option>
+              )}
+              <option value="day" className="bg-void">Monthly on day {anchor.getDate()}</option>
+              {weekOfMonth <= 4 && (
+                <option value="weekday" className="bg-void">
+                  Monthly on the {ORDINALS[weekOfMonth - 1]} {WEEKDAY_LONG[anchor.getDay()]}
+                </option>
+              )}
+              {isLastWeek && (
+                <option value="last-weekday" className="bg-void">
+                  Monthly on the last {WEEKDAY_LONG[anchor.getDay()]}
+                </option>
+              )}
+            </select>
+          )}
+
+          {keepsPattern && freq !== 'MONTHLY' && (
+            <p className="text-xs text-star-white/50">
+              Keeps this rule's custom days.{' '}
+              <button type="button" onClick={() => setKeepPattern(false)} className="text-stardust hover:underline">
+                Reset
+              </button>
+            </p>
+          )}
+
+          <div>
+            <label className="text-xs text-star-white/50 mb-1.5 block">Ends</label>
+            <div className="flex flex-col gap-2 text-sm text-star-white/70">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={endMode === 'date'}
+                  onChange={() => setEndMode('date')}
+                  className="accent-gold"
+                />
+                On a date
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={endMode === 'count'}
+                  onChange={() => setEndMode('count')}
+                  className="accent-gold"
+                />
+                After
+                <input
+                  type="number"
+                  min={1}
+                  value={count}
+                  disabled={endMode !== 'count'}
+                  onChange={e => setCount(parseInt(e.target.value, 10) || 1)}
+                  className={`${inputClass} w-16 disabled:opacity-40`}
+                />
+                occurrences
+              </label>
+            </div>
+          </div>
+
+          <p className="text-xs text-star-white/50">
+            {describeRecurrence(value)}
+            {endMode === 'date' && !until && ' (pick the end date below)'}
+          </p>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onSave(value)}
+              className="flex-1 py-2 rounded-lg bg-gold text-midnight font-medium text-sm hover:bg-gold/90 transition-all duration-200 hover:scale-[1.03] hover:shadow-[0_0_20px_rgba(245,224,80,0.3)] active:scale-[0.98]"
+            >
+              Done
+            </button>
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg bg-glass border border-glass-border text-star-white/60 text-sm hover:text-star-white transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
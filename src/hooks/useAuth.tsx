@@ -2,6 +2,10 @@ import { createContext, useCallback, useContext, useEffect, useMemo, useState, t
 import type { User, Session } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
 import { clearTableCache } from '../lib/tableCache'
+import { loadJSON, removeKey, saveJSON } from '../lib/storage'
+
+// Guest mode survives reloads; its rows are kept on this device (see localStore)
+const GUEST_MODE_KEY = 'muffin-time:guest-mode:v1'
 
 interface AuthContextType {
   user: User | null
@@ -20,7 +24,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
-  const [isGuest, setIsGuest] = useState(false)
+  const [isGuest, setIsGuest] = useState(() => loadJSON(GUEST_MODE_KEY, false))
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -57,6 +61,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = useCallback(async () => {
     clearTableCache()
     if (isGuest) {
+      // Guest rows stay on the device so they can be uploaded after signing in
+      removeKey(GUEST_MODE_KEY)
       setIsGuest(false)
       return
     }
@@ -65,6 +71,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const continueAsGuest = useCallback(() => {
     clearTableCache()
+    saveJSON(GUEST_MODE_KEY, true)
     setIsGuest(true)
   }, [])
 
@@ -0,0 +1,55 @@
+import { useCallback } from 'react'
+import { format } from 'date-fns'
+import {
+  LOCAL_BACKUP_KEYS, createBackup, planRestore, restoreLocalValue,
+  type Backup, type RestoreMode,
+} from '../lib/backup'
+import { downloadFile } from '../lib/download'
+import { loadJSON, saveJSON } from '../lib/storage'
+import { LEGACY_TASK_OPTION_KEYS } from '../lib/taskOptions'
+import { GUEST_SCOPE } from '../lib/tableCache'
+import { readUserData, writeUserData } from '../lib/userDataSync'
+import { useAuth } from './useAuth'
+import { useUserSettings } from './useUserSettings'
+
+/** Download a JSON backup of the current account (or guest data) and restore one. */
+export function useBackup() {
+  const { user, isGuest } = useAuth()
+  const scope = isGuest ? GUEST_SCOPE : user?.id ?? null
+  const { settings, updateSettings } = useUserSettings()
+
+  const exportBackup = useCallback(async () => {
+    if (!scope) return
+    const data = await readUserData(scope)
+    const local = Object.fromEntries(
+      LOCAL_BACKUP_KEYS
+        .map(key => [key, loadJSON<unknown>(key, null)] as const)
+        .filter(([, value]) => value !== null)
+    )
+    // Guests have no settings row
+    const backup = createBackup(data, settings.id ? settings : null, local)
+    downloadFile(
+      `muffin-time-backup-${format(new Date(), 'yyyy-MM-dd')}.json`,
+      JSON.stringify(backup, null, 2),
+      'application/json;charset=utf-8'
+    )
+  }, [scope, settings])
+
+  const restoreBackup = useCallback(async (backup: Backup, mode: RestoreMode) => {
+    if (!scope) return
+    const current = await readUserData(scope)
+    const plan = planRestore(backup, current, user?.id ?? '', mode)
+    await writeUserData(scope, plan.mutations)
+
+    // Merging keeps the current preferences; replacing takes the backup's
+    if (plan.settings && settings.id) await updateSettings(plan.settings)
+    // Older backups still carry the task option lists, which useTaskOptions moves into
+    // the account; useFocusTimer does the same with pacing settings
+    for (const key of [...LOCAL_BACKUP_KEYS, ...LEGACY_TASK_OPTION_KEYS]) {
+      if (!(key in backup.local)) continue
+      saveJSON(key, restoreLocalValue(loadJSON<unknown>(key, null), backup.local[key], mode))
+    }
+  }, [scope, user?.id, settings.id, updateSettings])
+
+  return { exportBackup, restoreBackup }
+}
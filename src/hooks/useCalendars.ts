@@ -1,23 +1,22 @@
 import { useCallback } from 'react'
-import { supabase } from '../lib/supabase'
 import type { Calendar, CalendarInsert } from '../types/database'
 import { useSupabaseTable } from './useSupabaseTable'
 
 export function useCalendars() {
-  const { rows: calendars, setRows: setCalendars, loading, refetch, create, remove } =
+  const { rows: calendars, loading, refetch, create, update, remove } =
     useSupabaseTable<Calendar, CalendarInsert>('calendars', 'created_at')
 
   const toggleVisibility = useCallback(async (id: string) => {
     const cal = calendars.find(c => c.id === id)
     if (!cal) return
-    await supabase.from('calendars').update({ visible: !cal.visible }).eq('id', id)
-    setCalendars(prev => prev.map(c => c.id === id ? { ...c, visible: !c.visible } : c))
-  }, [calendars, setCalendars])
+    await update(id, { visible: !cal.visible })
+  }, [calendars, update])
 
   return {
     calendars,
     loading,
     createCalendar: create,
+    updateCalendar: update,
     toggleVisibility,
     deleteCalendar: remove,
     refetch,
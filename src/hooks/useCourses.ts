@@ -0,0 +1,117 @@
+import { useCallback, useEffect } from 'react'
+import type { Course, CourseInsert, TaskOption, TaskOptionInsert } from '../types/database'
+import { planCourseMigration } from '../lib/courses'
+import { useSupabaseTable } from './useSupabaseTable'
+import { useAssignments } from './useAssignments'
+import { useCalendars } from './useCalendars'
+import { useSubjects } from './useSubjects'
+
+// Set while free-text courses are being turned into rows, so a second mount can't repeat it
+let migratingCourses = false
+
+/**
+ * Courses and the assignments, subjects and calendars linked to them.
+ * Linking a subject or calendar gives it the course color, and recoloring a
+ * course recolors everything linked, so a course looks the same everywhere.
+ */
+export function useCourses() {
+  const { rows: courses, loading, create, update, remove } =
+    useSupabaseTable<Course, CourseInsert>('courses', 'name')
+  const { rows: options, loading: optionsLoading, remove: removeOption } =
+    useSupabaseTable<TaskOption, TaskOptionInsert>('task_options', 'position')
+  const { assignments, loading: assignmentsLoading, updateAssignment } = useAssignments()
+  const { subjects, updateSubject } = useSubjects()
+  const { calendars, updateCalendar } = useCalendars()
+
+  useEffect(() => {
+    if (loading || optionsLoading || assignmentsLoading || migratingCourses) return
+    const plan = planCourseMigration(courses, options, assignments)
+    if (plan.courses.length === 0 && plan.links.length === 0 && plan.optionIds.length === 0) return
+    migratingCourses = true
+    // Courses first, so links never point at a row the server hasn't seen
+    Promise.all(plan.courses.map(course => create(course)))
+      .then(() => Promise.all([
+        ...plan.links.map(link => updateAssignment(link.id, { course_id: link.course_id })),
+        ...plan.optionIds.map(id => removeOption(id)),
+      ]))
+      .catch(err => console.error('Failed to move courses:', err))
+      .finally(() => { migratingCourses = false })
+  }, [
+    loading, optionsLoading, assignmentsLoading, courses, options, assignments,
+    create, updateAssignment, removeOption,
+  ])
+
+  /** Move everything linked to `fromId` onto `to`, or unlink it. */
+  const relink = useCallback(async (fromId: string, to: Course | null) => {
+    await Promise.all([
+      ...assignments
+        .filter(assignment => assignment.course_id === fromId)
+        .map(assignment => updateAssignment(assignment.id, { course_id: to?.id ?? null, course: to?.name ?? null })),
+      ...subjects
+        .filter(subject => subject.course_id === fromId)
+        .map(subject => updateSubject(subject.id, to ? { course_id: to.id, color: to.color } : { course_id: null })),
+      ...calendars
+        .filter(calendar => calendar.course_id === fromId)
+        .map(calendar => updateCalendar(calendar.id, to ? { course_id: to.id, color: to.color } : { course_id: null })),
+    ])
+  }, [assignments, subjects, calendars, updateAssignment, updateSubject, updateCalendar])
+
+  /** The course called `name`, created with `color` if there isn't one. */
+  const createCourse = useCallback(async (name: string, color: string) => {
+    const trimmed = name.trim()
+    if (!trimmed) return null
+    return courses.find(course => course.name === trimmed) ?? create({ name: trimmed, color })
+  }, [courses, create])
+
+  /** Rename a course and the assignments that print its name. Taking another course's name merges into it. */
+  const renameCourse = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim()
+    const course = courses.find(c => c.id === id)
+    if (!course || !trimmed || trimmed === course.name) return
+    const target = courses.find(c => c.name === trimmed)
+    if (target) {
+      await relink(id, target)
+      await remove(id)
+      return
+    }
+    await update(id, { name: trimmed })
+    await Promise.all(assignments
+      .filter(assignment => assignment.course_id === id)
+      .map(assignment => updateAssignment(assignment.id, { course: trimmed })))
+  }, [courses, assignments, relink, update, remove, updateAssignment])
+
+  const setCourseColor = useCallback(async (id: string, color: string) => {
+    await update(id, { color })
+    await Promise.all([
+      ...subjects.filter(subject => subject.course_id === id).map(subject => updateSubject(subject.id, { color })),
+      ...calendars.filter(calendar => calendar.course_id === id).map(calendar => updateCalendar(calendar.id, { color })),
+    ])
+  }, [subjects, calendars, update, updateSubject, updateCalendar])
+
+  /** Delete a course. Its assignments, subjects and calendars stay, unlinked. */
+  const deleteCourse = useCallback(async (id: string) => {
+    await relink(id, null)
+    await remove(id)
+  }, [relink, remove])
+
+  const setSubjectCourse = useCallback(async (subjectId: string, courseId: string | null) => {
+    const course = courses.find(c => c.id === courseId)
+    await updateSubject(subjectId, course ? { course_id: course.id, color: course.color } : { course_id: null })
+  }, [courses, updateSubject])
+
+  const setCalendarCourse = useCallback(async (calendarId: string, courseId: string | null) => {
+    const course = courses.find(c => c.id === courseId)
+    await updateCalendar(calendarId, course ? { course_id: course.id, color: course.color } : { course_id: null })
+  }, [courses, updateCalendar])
+
+  return {
+    courses,
+    loading,
+    createCourse,
+    renameCourse,
+    setCourseColor,
+    deleteCourse,
+    setSubjectCourse,
+    setCalendarCourse,
+  }
+}
@@ -0,0 +1,59 @@
+import { useCallback, useMemo, useState } from 'react'
+import { addDays, format, startOfDay } from 'date-fns'
+import { useEvents } from './useEvents'
+import { useRecurrenceExceptions } from './useRecurrenceExceptions'
+import { useUserSettings } from './useUserSettings'
+import { useReminderScheduler, type ScheduledNotification } from './useReminderScheduler'
+import { describeReminder, getUpcomingReminders, type EventReminder } from '../lib/reminders'
+import { toZonedDate } from '../lib/timezone'
+
+// Reminders missed while the app was closed still fire if they are this recent
+const MISSED_GRACE_MS = 15 * 60 * 1000
+const SNOOZE_MINUTES = 5
+// Events loaded around today: the scheduler looks a day back and ahead, and
+// reminders can come up to a week before an event
+const LOAD_DAYS = 10
+
+function loadWindowStart(now: Date): string {
+  return startOfDay(addDays(now, -1)).toISOString()
+}
+
+function reminderBody(reminder: EventReminder, timeZone: string): string {
+  const when = reminder.allDay
+    ? 'All day'
+    : format(toZonedDate(reminder.startTime, timeZone), 'h:mm a')
+  return reminder.minutesBefore === 0 ? `Starting now · ${when}` : `${describeReminder(reminder.minutesBefore)} · ${when}`
+}
+
+/** Schedules notifications for upcoming event reminders. */
+export function useEventReminders() {
+  const [windowStart, setWindowStart] = useState(() => loadWindowStart(new Date()))
+  const range = useMemo(
+    () => ({ from: windowStart, to: addDays(new Date(windowStart), LOAD_DAYS).toISOString() }),
+    [windowStart]
+  )
+  const { events, refetch: refetchEvents } = useEvents(range)
+  const { exceptions, refetch: refetchExceptions } = useRecurrenceExceptions()
+  const { displayTimeZone } = useUserSettings()
+
+  const getNotifications = useCallback((from: Date, to: Date): ScheduledNotification[] =>
+    getUpcomingReminders(events, exceptions, from, to, displayTimeZone).map(reminder => ({
+      key: `reminder:${reminder.key}`,
+      fireAt: reminder.fireAt,
+      expiresAt: reminder.fireAt + MISSED_GRACE_MS,
+      title: reminder.title,
+      body: reminderBody(reminder, displayTimeZone),
+      url: `/events?view=day&date=${reminder.occurrenceDate}`,
+      snoozeMinutes: SNOOZE_MINUTES,
+    })),
+  [events, exceptions, displayTimeZone])
+
+  const refresh = useCallback(() => {
+    // Move the loaded window along when the tab stays open past midnight
+    setWindowStart(loadWindowStart(new Date()))
+    void refetchEvents()
+    void refetchExceptions()
+  }, [refetchEvents, refetchExceptions])
+
+  useReminderScheduler(getNotifications, refresh)
+}
@@ -1,9 +1,14 @@
 import type { CalendarEvent, CalendarEventInsert } from '../types/database'
+import type { TimeRange } from '../lib/tableRanges'
 import { useSupabaseTable } from './useSupabaseTable'
 
-export function useEvents() {
+/**
+ * Events overlapping `range` (recurring ones included), every event without
+ * one, or none with `null`.
+ */
+export function useEvents(range?: TimeRange | null) {
   const { rows: events, loading, refetch, create, update, remove } =
-    useSupabaseTable<CalendarEvent, CalendarEventInsert>('events', 'start_time')
+    useSupabaseTable<CalendarEvent, CalendarEventInsert>('events', 'start_time', true, range)
 
   return {
     events,
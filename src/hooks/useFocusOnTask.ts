@@ -0,0 +1,26 @@
+import { useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import type { Assignment, Todo } from '../types/database'
+import { subjectForTask, type FocusTaskType } from '../lib/taskFocus'
+import { useFocusTimer } from './useFocusTimer'
+import { useSubjects } from './useSubjects'
+
+/**
+ * "Focus on this" for a todo or assignment: starts a session linked to the
+ * task and opens FocusView. With no subject to log under, or a session
+ * already running, it only opens FocusView (with the task linked if idle).
+ */
+export function useFocusOnTask() {
+  const navigate = useNavigate()
+  const { selectedSubjectId, timerState, pomodoroWaiting, setLinkedTask, startTaskFocus } = useFocusTimer()
+  const { subjects } = useSubjects()
+
+  return useCallback(async (task: Todo | Assignment, type: FocusTaskType) => {
+    const link = { type, id: task.id, title: task.title }
+    const idle = timerState === 'idle' && pomodoroWaiting === 'none'
+    const subject = subjectForTask(task, subjects, selectedSubjectId)
+    if (idle && subject) await startTaskFocus(link, subject.id, subject.color)
+    else if (idle) setLinkedTask(link)
+    navigate('/focus')
+  }, [navigate, timerState, pomodoroWaiting, subjects, selectedSubjectId, setLinkedTask, startTaskFocus])
+}
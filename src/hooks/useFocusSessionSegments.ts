@@ -0,0 +1,46 @@
+import { useCallback } from 'react'
+import type { FocusSessionSegment, FocusSessionSegmentInsert } from '../types/database'
+import type { TimeRange } from '../lib/tableRanges'
+import type { SegmentKind } from '../lib/sessionSegments'
+import { useSupabaseTable } from './useSupabaseTable'
+
+/** Segments overlapping `range`, every segment without one, or none with `null`. */
+export function useFocusSessionSegments(range?: TimeRange | null) {
+  const { rows: segments, loading, create, update, removeWhere } =
+    useSupabaseTable<FocusSessionSegment, FocusSessionSegmentInsert>('focus_session_segments', 'start_time', true, range)
+
+  /** Opens a segment and returns its id, so it can be closed later. */
+  const startSegment = useCallback((sessionId: string, kind: SegmentKind, at: number) => {
+    const id = crypto.randomUUID()
+    void create({ id, session_id: sessionId, kind, start_time: new Date(at).toISOString(), end_time: null })
+    return id
+  }, [create])
+
+  const endSegment = useCallback(async (id: string, at: number) => {
+    await update(id, { end_time: new Date(at).toISOString() })
+  }, [update])
+
+  /** Records a segment that has already ended. */
+  const addSegment = useCallback(async (sessionId: string, kind: SegmentKind, start: number, end: number) => {
+    await create({
+      session_id: sessionId,
+      kind,
+      start_time: new Date(start).toISOString(),
+      end_time: new Date(end).toISOString(),
+    })
+  }, [create])
+
+  const deleteSegmentsForSession = useCallback(
+    (sessionId: string) => removeWhere({ session_id: sessionId }),
+    [removeWhere]
+  )
+
+  return {
+    segments,
+    loading,
+    startSegment,
+    endSegment,
+    addSegment,
+    deleteSegmentsForSession,
+  }
+}
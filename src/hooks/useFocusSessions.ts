@@ -1,147 +1,53 @@
-import { useEffect } from 'react'
-import { supabase } from '../lib/supabase'
+import { useCallback } from 'react'
 import type { FocusSession } from '../types/database'
+import type { TimeRange } from '../lib/tableRanges'
+import type { LinkedTask } from '../lib/taskFocus'
 import { useSupabaseTable } from './useSupabaseTable'
-import { useAuth } from './useAuth'
+import { useFocusSessionSegments } from './useFocusSessionSegments'
+import { usePacerRuns } from './usePacerRuns'
 
-const SESSIONS_UPDATED_EVENT = 'focus-sessions-updated'
-
-export function useFocusSessions() {
-  const { isGuest } = useAuth()
-  const { rows: sessions, setRows: setSessions, loading, refetch } =
-    useSupabaseTable<FocusSession>('focus_sessions', 'start_time', false)
-
-  useEffect(() => {
-    const handler = () => { refetch() }
-    window.addEventListener(SESSIONS_UPDATED_EVENT, handler)
-    return () => window.removeEventListener(SESSIONS_UPDATED_EVENT, handler)
-  }, [refetch])
-
-  const notifyUpdated = () => {
-    window.dispatchEvent(new Event(SESSIONS_UPDATED_EVENT))
-  }
-
-  const sortByStartDesc = (items: FocusSession[]) =>
-    [...items].sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime())
-
-  const createManualSession = async (subjectId: string, startTime: string, durationSeconds: number) => {
-    if (isGuest) {
-      const endTime = new Date(new Date(startTime).getTime() + durationSeconds * 1000).toISOString()
-      const newSession: FocusSession = {
-        id: crypto.randomUUID(),
-        user_id: '',
-        subject_id: subjectId,
-        start_time: startTime,
-        end_time: endTime,
-        duration_seconds: durationSeconds,
-        created_at: new Date().toISOString(),
-      }
-      setSessions(prev => sortByStartDesc([newSession, ...prev]))
-      notifyUpdated()
-      return newSession
-    }
+/** Sessions overlapping `range`, every session without one, or none with `null`. */
+export function useFocusSessions(range?: TimeRange | null) {
+  const { rows: sessions, loading, refetch, create, update, remove } =
+    useSupabaseTable<FocusSession>('focus_sessions', 'start_time', false, range)
+  const { deleteSegmentsForSession } = useFocusSessionSegments(null)
+  const { deleteRunsForSession } = usePacerRuns(null)
 
+  const createManualSession = useCallback(async (subjectId: string, startTime: string, durationSeconds: number) => {
     const endTime = new Date(new Date(startTime).getTime() + durationSeconds * 1000).toISOString()
-    const { data, error } = await supabase
-      .from('focus_sessions')
-      .insert({
-        subject_id: subjectId,
-        start_time: startTime,
-        end_time: endTime,
-        duration_seconds: durationSeconds,
-      })
-      .select()
-      .single()
-    if (error) throw error
-    if (data) {
-      setSessions(prev => sortByStartDesc([data, ...prev]))
-      notifyUpdated()
-    }
-    return data
-  }
-
-  const startSession = async (subjectId: string) => {
-    if (isGuest) {
-      const newSession: FocusSession = {
-        id: crypto.randomUUID(),
-        user_id: '',
-        subject_id: subjectId,
-        start_time: new Date().toISOString(),
-        end_time: null,
-        duration_seconds: null,
-        created_at: new Date().toISOString(),
-      }
-      setSessions(prev => sortByStartDesc([newSession, ...prev]))
-      notifyUpdated()
-      return newSession
-    }
-
-    const { data, error } = await supabase
-      .from('focus_sessions')
-      .insert({ subject_id: subjectId, start_time: new Date().toISOString() })
-      .select()
-      .single()
-    if (error) throw error
-    if (data) {
-      setSessions(prev => sortByStartDesc([data, ...prev]))
-      notifyUpdated()
-    }
-    return data
-  }
-
-  const endSession = async (id: string, durationSeconds: number) => {
-    if (isGuest) {
-      const updated: Partial<FocusSession> = {
-        end_time: new Date().toISOString(),
-        duration_seconds: durationSeconds,
-      }
-      setSessions(prev => prev.map(s => s.id === id ? { ...s, ...updated } : s))
-      notifyUpdated()
-      return sessions.find(s => s.id === id) ?? null
-    }
-
-    const { data, error } = await supabase
-      .from('focus_sessions')
-      .update({ end_time: new Date().toISOString(), duration_seconds: durationSeconds })
-      .eq('id', id)
-      .select()
-      .single()
-    if (error) throw error
-    if (data) {
-      setSessions(prev => prev.map(s => s.id === id ? data : s))
-      notifyUpdated()
-    }
-    return data
-  }
-
-  const updateSession = async (id: string, updates: Partial<FocusSession>) => {
-    if (isGuest) {
-      setSessions(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s))
-      notifyUpdated()
-      return sessions.find(s => s.id === id) ?? null
-    }
-
-    const { data, error } = await supabase
-      .from('focus_sessions')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single()
-    if (error) throw error
-    if (data) {
-      setSessions(prev => prev.map(s => s.id === id ? data : s))
-      notifyUpdated()
-    }
-    return data
-  }
-
-  const deleteSession = async (id: string) => {
-    setSessions(prev => prev.filter(s => s.id !== id))
-    if (!isGuest) {
-      await supabase.from('focus_sessions').delete().eq('id', id)
-    }
-    notifyUpdated()
-  }
+    return create({
+      subject_id: subjectId,
+      start_time: startTime,
+      end_time: endTime,
+      duration_seconds: durationSeconds,
+    })
+  }, [create])
+
+  const startSession = useCallback(async (subjectId: string, task: LinkedTask | null = null) => {
+    return create({
+      subject_id: subjectId,
+      start_time: new Date().toISOString(),
+      end_time: null,
+      duration_seconds: null,
+      task_type: task?.type ?? null,
+      task_id: task?.id ?? null,
+    })
+  }, [create])
+
+  const endSession = useCallback(async (id: string, durationSeconds: number) => {
+    return update(id, { end_time: new Date().toISOString(), duration_seconds: durationSeconds })
+  }, [update])
+
+  const updateSession = useCallback(async (id: string, updates: Partial<FocusSession>) => {
+    await update(id, updates)
+  }, [update])
+
+  // Its segments and pacer runs go with it
+  const deleteSession = useCallback(async (id: string) => {
+    await deleteSegmentsForSession(id)
+    await deleteRunsForSession(id)
+    await remove(id)
+  }, [deleteSegmentsForSession, deleteRunsForSession, remove])
 
   return {
     sessions,
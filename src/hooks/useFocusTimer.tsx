@@ -1,37 +1,40 @@
 import { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, type ReactNode } from 'react'
 import { useAuth } from './useAuth'
-import { useUserSettings, type TimerMode, type PomodoroSettings } from './useUserSettings'
+import { useUserSettings, type TimerMode } from './useUserSettings'
 import { useFocusSessions } from './useFocusSessions'
+import { useTimerPresets } from './useTimerPresets'
+import { useFocusSessionSegments } from './useFocusSessionSegments'
+import { usePacerRuns } from './usePacerRuns'
+import { useTimerTabs } from './useTimerTabs'
 import { sendNotification, requestNotificationPermission } from '../lib/notifications'
 import { loadJSON, saveJSON, removeKey } from '../lib/storage'
-
-export type PomodoroPhase = 'focus' | 'short_break' | 'long_break'
+import type { LinkedTask } from '../lib/taskFocus'
+import {
+  advanceRun, autoStartsAfter, classicPhases, countFocusPhases, focusOrdinal, nextStep, phaseIndexOf, presetAutoStart,
+  presetPhases, type AutoStart, type NextStep, type PomodoroPhase, type PomodoroSettings, type RunState, type TimerPhase,
+} from '../lib/timerPresets'
+import { segmentKindOf, type SegmentKind } from '../lib/sessionSegments'
+import {
+  DEFAULT_PACING_SETTINGS, clearLocalPacingSettings, loadLocalPacingSettings, pacingBaseSeconds, pacingSettingsColumns,
+  readLocalPacingSettings, saveLocalPacingSettings,
+  type PacerQuestion, type PacingSettings,
+} from '../lib/pacer'
+import type { TimerCommand } from '../lib/timerTabs'
+import type { TimerPreset } from '../types/database'
+
+export type { PomodoroPhase, PacingSettings }
 export type PomodoroWaiting = 'none' | 'break' | 'focus'
 
 const FOCUS_SNAPSHOT_KEY = 'muffin-time:focus-snapshot:v1'
 const SNAPSHOT_MAX_AGE_MS = 2 * 60 * 60 * 1000
 
-export type TimeUnit = 'minutes' | 'seconds'
-
-export interface PacingSettings {
-  timePerQuestion: number
-  timeUnit: TimeUnit
-  questionCount: number
-  shortcutKey: string // KeyboardEvent.code, e.g. 'Space'
-}
-
-const PACING_SETTINGS_KEY = 'muffin-time:pacing-settings:v1'
-const DEFAULT_PACING_SETTINGS: PacingSettings = {
-  timePerQuestion: 1.4,
-  timeUnit: 'minutes',
-  questionCount: 25,
-  shortcutKey: 'Space',
-}
-
-/** Seconds budget for one question, floored at 1. */
-function pacingBaseSeconds(s: PacingSettings): number {
-  const seconds = s.timeUnit === 'seconds' ? s.timePerQuestion : s.timePerQuestion * 60
-  return Math.max(1, Math.round(seconds))
+/** Notification for the end of a phase, given what happens next. */
+function phaseEndNotice(step: NextStep, autoStart: AutoStart): [string, string] {
+  const auto = autoStartsAfter(step, autoStart)
+  const when = autoStart.delaySeconds > 0 ? `in ${autoStart.delaySeconds}s` : 'now'
+  if (step === 'wait_break') return ['Focus Complete!', auto ? `Break starts ${when}.` : 'Time for a break.']
+  if (step === 'wait_focus') return ['Break Over!', auto ? `Focus starts ${when}.` : 'Ready to focus?']
+  return ['Pomodoro Complete!', 'All cycles finished. Great work!']
 }
 
 interface FocusSnapshot {
@@ -39,20 +42,66 @@ interface FocusSnapshot {
   sessionId: string
   subjectId: string
   subjectColor: string | null
+  task?: LinkedTask | null
   timerMode: TimerMode
   elapsed: number
   closedAt: number
   pomodoroWaiting: PomodoroWaiting
+  /** Whether the timer was going, for a tab taking over to carry on with */
+  running?: boolean
+  /** The session segment still going when the tab closed */
+  segment?: { id: string; kind: SegmentKind } | null
+  /** The pacer run still going when the tab closed; the pacer itself isn't restored */
+  pacerRunId?: string | null
+  /** Written by a guest, whose session only a guest can pick up (and an account only its own) */
+  guest?: boolean
   pomodoro?: {
     phase: PomodoroPhase
     cycle: number
     remainingMs: number
     accumulatedFocus: number
-    completedCycles: number
     intervalElapsed: number
+    /** The run's sequence and position in it (older snapshots only have `completedCycles`) */
+    phases?: TimerPhase[]
+    phaseIndex?: number
+    completedCycles?: number
+    /** Whether the countdown was going, so it can be played forward on restore */
+    running?: boolean
+    autoStart?: AutoStart
+    autoStartAt?: number | null
   }
 }
 
+/**
+ * Where a snapshot's Pomodoro run has got to by `now`. A countdown runs on
+ * the clock, so a run left going when the tab closed carries on as if the tab
+ * had stayed open, through any phases that auto-started in the meantime.
+ */
+function restoredRun(
+  snap: FocusSnapshot,
+  pomodoro: NonNullable<FocusSnapshot['pomodoro']>,
+  fallbackPhases: TimerPhase[],
+  fallbackAutoStart: AutoStart,
+  now: number,
+  onPhaseEnd?: (phase: TimerPhase, end: number) => void,
+) {
+  // Snapshots from before presets only know the classic sequence and the cycle
+  const saved = presetPhases({ phases: pomodoro.phases ?? [] })
+  const phases = saved.length > 0 ? saved : fallbackPhases
+  const autoStart = pomodoro.autoStart ?? fallbackAutoStart
+  const waiting = snap.pomodoroWaiting !== 'none'
+  const index = Math.min(pomodoro.phaseIndex ?? phaseIndexOf(phases, pomodoro.phase, pomodoro.cycle), phases.length - 1)
+  const start: RunState = {
+    index,
+    waiting,
+    until: waiting ? pomodoro.autoStartAt ?? null : pomodoro.running ? snap.closedAt + pomodoro.remainingMs : null,
+    focusSeconds: pomodoro.accumulatedFocus,
+    finished: false,
+  }
+  const run = advanceRun(phases, start, autoStart, now, (i, end) => onPhaseEnd?.(phases[i], end))
+  return { phases, autoStart, run }
+}
+
 function readFocusSnapshot(): FocusSnapshot | null {
   const parsed = loadJSON<{ version?: number } | null>(FOCUS_SNAPSHOT_KEY, null)
   return parsed?.version === 1 ? (parsed as FocusSnapshot) : null
@@ -68,6 +117,11 @@ interface FocusTimerState {
   selectedSubjectColor: string | null
   pausedAtElapsed: number | null
   setSelectedSubject: (id: string | null, color?: string | null) => void
+  /** Task the next (or current) session is recorded against */
+  linkedTask: LinkedTask | null
+  setLinkedTask: (task: LinkedTask | null) => void
+  /** Start a session for `task` under the given subject; false if one is already running. */
+  startTaskFocus: (task: LinkedTask, subjectId: string, subjectColor: string) => Promise<boolean>
   handleStart: () => Promise<void>
   handlePause: () => void
   handleResume: () => void
@@ -77,6 +131,18 @@ interface FocusTimerState {
   setTimerMode: (mode: TimerMode) => void
   pomodoroSettings: PomodoroSettings
   setPomodoroSettings: (s: PomodoroSettings) => void
+  /** Auto-start for the classic sequence */
+  pomodoroAutoStart: AutoStart
+  setPomodoroAutoStart: (a: AutoStart) => void
+  /** Named sequences; null picks the classic one built from pomodoroSettings */
+  timerPresets: TimerPreset[]
+  activePresetId: string | null
+  setActivePreset: (id: string | null) => void
+  /** The sequence of the current run, or the one the next run will use */
+  pomodoroPhases: TimerPhase[]
+  /** When a waiting phase starts by itself, or null if it waits for the user */
+  pomodoroAutoStartAt: number | null
+  cancelAutoStart: () => void
   pomodoroPhase: PomodoroPhase | null
   pomodoroWaiting: PomodoroWaiting
   pomodoroCycle: number
@@ -93,6 +159,8 @@ interface FocusTimerState {
   handleStartPacer: () => void
   handleStopPacer: () => void
   handleAdvanceQuestion: (rollover: boolean) => void
+  /** The session on show belongs to another tab, which the controls are sent to */
+  inOtherTab: boolean
 }
 
 interface PomodoroDisplayState {
@@ -100,6 +168,27 @@ interface PomodoroDisplayState {
   totalFocusSeconds: number
 }
 
+/** What the tab that owns the session going shows in the others (see useTimerTabs) */
+interface MirroredTimer {
+  timerMode: TimerMode
+  timerState: 'idle' | 'running' | 'paused'
+  selectedSubjectId: string | null
+  selectedSubjectColor: string | null
+  linkedTask: LinkedTask | null
+  pausedAtElapsed: number | null
+  elapsed: number
+  pauseElapsed: number
+  pomodoroDisplay: PomodoroDisplayState
+  pomodoroPhases: TimerPhase[]
+  pomodoroAutoStartAt: number | null
+  pomodoroPhase: PomodoroPhase | null
+  pomodoroWaiting: PomodoroWaiting
+  pomodoroCycle: number
+  pacerActive: boolean
+  pacerQuestion: number
+  pacerSecondsRemaining: number
+}
+
 const FocusTimerContext = createContext<FocusTimerState | null>(null)
 const FocusTimerElapsedContext = createContext<number | null>(null)
 const PauseElapsedContext = createContext<number | null>(null)
@@ -107,11 +196,31 @@ const PomodoroDisplayContext = createContext<PomodoroDisplayState>({ secondsRema
 
 export function FocusTimerProvider({ children }: { children: ReactNode }) {
   const { isGuest } = useAuth()
-  const { timerMode: savedTimerMode, pomodoroSettings: savedPomodoroSettings, updateSettings, loading: settingsLoading } = useUserSettings()
-  const { startSession, endSession, updateSession } = useFocusSessions()
+  const {
+    settings, timerMode: savedTimerMode, pomodoroSettings: savedPomodoroSettings, pomodoroAutoStart,
+    pacingSettings: accountPacingSettings, updateSettings, loading: settingsLoading,
+  } = useUserSettings()
+  // Guests have no settings row; theirs stay in localStorage
+  const [guestPacingSettings, setGuestPacingSettings] = useState(loadLocalPacingSettings)
+  const pacingSettings = isGuest ? guestPacingSettings : accountPacingSettings
+  const { startSession, endSession, updateSession } = useFocusSessions(null)
+  const { presets: timerPresets } = useTimerPresets()
+  const { startSegment, endSegment, addSegment } = useFocusSessionSegments(null)
+  const { startRun, recordQuestions, endRun } = usePacerRuns(null)
+
+  // A preset that has since been deleted falls back to the classic sequence
+  const activePreset = timerPresets.find(preset => preset.id === settings.timer_preset_id) ?? null
+  const activePresetId = activePreset?.id ?? null
+  const { nextPhases, nextAutoStart } = useMemo(() => {
+    const phases = activePreset ? presetPhases(activePreset) : []
+    return activePreset && phases.length > 0
+      ? { nextPhases: phases, nextAutoStart: presetAutoStart(activePreset) }
+      : { nextPhases: classicPhases(savedPomodoroSettings), nextAutoStart: pomodoroAutoStart }
+  }, [activePreset, savedPomodoroSettings, pomodoroAutoStart])
 
   const [selectedSubjectId, setSelectedSubjectId] = useState<string | null>(null)
   const [selectedSubjectColor, setSelectedSubjectColor] = useState<string | null>(null)
+  const [linkedTask, setLinkedTask] = useState<LinkedTask | null>(null)
   const [timerState, setTimerState] = useState<'idle' | 'running' | 'paused'>('idle')
   const [elapsed, setElapsed] = useState(0)
   const [pauseSessionElapsed, setPauseSessionElapsed] = useState(0)
@@ -123,9 +232,11 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
   const [pomodoroCycle, setPomodoroCycle] = useState(1)
   const [pomodoroSecondsRemaining, setPomodoroSecondsRemaining] = useState(0)
   const [pomodoroTotalFocus, setPomodoroTotalFocus] = useState(0)
+  // Fixed for the length of a run, so editing the preset doesn't upset one in progress
+  const [runPhases, setRunPhases] = useState<TimerPhase[] | null>(null)
+  const [pomodoroAutoStartAt, setPomodoroAutoStartAt] = useState<number | null>(null)
 
   // Question pacer state
-  const [pacingSettings, setPacingSettingsState] = useState<PacingSettings>(() => ({ ...DEFAULT_PACING_SETTINGS, ...loadJSON<Partial<PacingSettings>>(PACING_SETTINGS_KEY, {}) }))
   const [pacerActive, setPacerActive] = useState(false)
   const [pacerQuestion, setPacerQuestion] = useState(1)
   const [pacerSecondsRemaining, setPacerSecondsRemaining] = useState(0)
@@ -135,14 +246,18 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
   const accumulatedRef = useRef(0)
   const pauseStartTimeRef = useRef(0)
   const activeSessionId = useRef<string | null>(null)
+  const openSegmentRef = useRef<{ id: string; kind: SegmentKind } | null>(null)
 
   // Pomodoro refs
   const countdownEndRef = useRef(0) // timestamp when current interval ends
   const pomodoroRemainingOnPauseRef = useRef(0) // ms remaining when paused
   const accumulatedFocusRef = useRef(0) // total focus seconds from completed intervals
-  const completedCyclesRef = useRef(0)
+  const phaseIndexRef = useRef(0) // position of the current (or just-finished) phase in runPhasesRef
+  const runPhasesRef = useRef<TimerPhase[]>([])
+  const nextPhasesRef = useRef(nextPhases)
+  const runAutoStartRef = useRef(nextAutoStart)
+  const nextAutoStartRef = useRef(nextAutoStart)
   const pomodoroPhaseRef = useRef<PomodoroPhase | null>(null)
-  const pomodoroSettingsRef = useRef(savedPomodoroSettings)
 
   // Question pacer refs
   const pacerEndRef = useRef(0) // timestamp when current question's time ends
@@ -150,27 +265,44 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
   const pacerActiveRef = useRef(false)
   const pacerQuestionRef = useRef(1)
   const pacingSettingsRef = useRef(pacingSettings)
+  // The run being saved: its finished questions and the current one's budget
+  const pacerRunRef = useRef<{ id: string; questions: PacerQuestion[]; allowed: number; rollover: number } | null>(null)
   const timerModeRef = useRef(savedTimerMode)
   const timerStateRef = useRef<'idle' | 'running' | 'paused'>('idle')
   const handleFinishRef = useRef<(() => Promise<void>) | null>(null)
+  // Set once the tab coordination below exists; starting a session needs it
+  const claimSessionRef = useRef<() => boolean>(() => true)
 
   // Refs for snapshot serialization (kept in sync with state below)
   const selectedSubjectIdRef = useRef<string | null>(null)
   const selectedSubjectColorRef = useRef<string | null>(null)
+  const linkedTaskRef = useRef<LinkedTask | null>(null)
   const pomodoroWaitingRef = useRef<PomodoroWaiting>('none')
   const pomodoroCycleRef = useRef(1)
+  const pomodoroAutoStartAtRef = useRef<number | null>(null)
   const updateSessionRef = useRef(updateSession)
+  const segmentWritersRef = useRef({ startSegment, endSegment, addSegment })
+  const pacerWritersRef = useRef({ startRun, recordQuestions, endRun })
 
   // Keep refs in sync
-  useEffect(() => { pomodoroSettingsRef.current = savedPomodoroSettings }, [savedPomodoroSettings])
+  useEffect(() => { nextPhasesRef.current = nextPhases }, [nextPhases])
+  useEffect(() => { nextAutoStartRef.current = nextAutoStart }, [nextAutoStart])
   useEffect(() => { timerModeRef.current = savedTimerMode }, [savedTimerMode])
   useEffect(() => { timerStateRef.current = timerState }, [timerState])
   useEffect(() => { pomodoroPhaseRef.current = pomodoroPhase }, [pomodoroPhase])
   useEffect(() => { selectedSubjectIdRef.current = selectedSubjectId }, [selectedSubjectId])
   useEffect(() => { selectedSubjectColorRef.current = selectedSubjectColor }, [selectedSubjectColor])
+  useEffect(() => { linkedTaskRef.current = linkedTask }, [linkedTask])
   useEffect(() => { pomodoroWaitingRef.current = pomodoroWaiting }, [pomodoroWaiting])
   useEffect(() => { pomodoroCycleRef.current = pomodoroCycle }, [pomodoroCycle])
+  useEffect(() => { pomodoroAutoStartAtRef.current = pomodoroAutoStartAt }, [pomodoroAutoStartAt])
   useEffect(() => { updateSessionRef.current = updateSession }, [updateSession])
+  useEffect(() => {
+    segmentWritersRef.current = { startSegment, endSegment, addSegment }
+  }, [startSegment, endSegment, addSegment])
+  useEffect(() => {
+    pacerWritersRef.current = { startRun, recordQuestions, endRun }
+  }, [startRun, recordQuestions, endRun])
   useEffect(() => { pacingSettingsRef.current = pacingSettings }, [pacingSettings])
   useEffect(() => { pacerActiveRef.current = pacerActive }, [pacerActive])
   useEffect(() => { pacerQuestionRef.current = pacerQuestion }, [pacerQuestion])
@@ -185,6 +317,31 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(interval)
   }, [timerState, savedTimerMode])
 
+  /** End the session segment that's going at `at` and start one of `kind`, if given. */
+  const switchSegment = useCallback((kind: SegmentKind | null, at = Date.now()) => {
+    const { startSegment: start, endSegment: end } = segmentWritersRef.current
+    const sessionId = activeSessionId.current
+    if (openSegmentRef.current) void end(openSegmentRef.current.id, at)
+    openSegmentRef.current = kind && sessionId ? { id: start(sessionId, kind, at), kind } : null
+  }, [])
+
+  /** Start the countdown for the phase at `index` of the current run. */
+  const enterPhase = useCallback((index: number) => {
+    const phase = runPhasesRef.current[index]
+    const now = Date.now()
+    switchSegment(segmentKindOf(phase.type), now)
+    phaseIndexRef.current = index
+    startTimeRef.current = now
+    accumulatedRef.current = 0
+    countdownEndRef.current = now + phase.minutes * 60 * 1000
+    setPomodoroPhase(phase.type)
+    pomodoroPhaseRef.current = phase.type
+    setPomodoroCycle(focusOrdinal(runPhasesRef.current, index))
+    setPomodoroWaiting('none')
+    setPomodoroAutoStartAt(null)
+    setPomodoroSecondsRemaining(phase.minutes * 60)
+  }, [switchSegment])
+
   // Pomodoro tick
   useEffect(() => {
     if (timerState !== 'running' || savedTimerMode !== 'pomodoro') return
@@ -202,65 +359,48 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
 
       if (remaining <= 0) {
         // Interval complete
+        const phases = runPhasesRef.current
+        const index = phaseIndexRef.current
         if (pomodoroPhaseRef.current === 'focus') {
           // Focus complete — bank the time
-          const settings = pomodoroSettingsRef.current
-          const focusDuration = settings.focusMinutes * 60
-          accumulatedFocusRef.current += focusDuration
-          completedCyclesRef.current += 1
+          accumulatedFocusRef.current += phases[index].minutes * 60
           setPomodoroTotalFocus(accumulatedFocusRef.current)
+        }
 
-          // cycles=0 ends after a single focus interval; otherwise check the count.
-          const cyclesDone =
-            settings.cycles === 0 || completedCyclesRef.current >= settings.cycles
-
-          if (cyclesDone) {
-            clearInterval(interval)
-            if (settings.cycles === 0 || settings.longBreakMinutes === 0) {
-              // The just-finished interval is already banked in accumulatedFocusRef.
-              // Clear phase/state refs so handleFinish's elapsed calc doesn't double-count it.
-              pomodoroPhaseRef.current = null
-              timerStateRef.current = 'idle'
-              void sendNotification('Pomodoro Complete!', 'All cycles finished. Great work!')
-              void handleFinishRef.current?.()
-            } else {
-              setTimerState('idle')
-              setPomodoroWaiting('break')
-              void sendNotification('Focus Complete!', 'Time for a break.')
-            }
-          } else if (settings.shortBreakMinutes === 0) {
-            // Skip the break and chain directly into the next focus interval.
-            const nextCycle = completedCyclesRef.current + 1
-            startTimeRef.current = Date.now()
-            accumulatedRef.current = 0
-            countdownEndRef.current = Date.now() + focusDuration * 1000
-            setPomodoroCycle(nextCycle)
-            setPomodoroSecondsRemaining(focusDuration)
-            // Phase, timerState and interval keep running.
-          } else {
-            clearInterval(interval)
-            setTimerState('idle')
-            setPomodoroWaiting('break')
-            void sendNotification('Focus Complete!', 'Time for a break.')
-          }
-        } else {
-          // Break complete
-          clearInterval(interval)
-          setTimerState('idle')
-          // Check if all cycles are done
-          if (completedCyclesRef.current >= pomodoroSettingsRef.current.cycles) {
-            // Pomodoro set complete — auto-finish will be handled by the waiting state
-            setPomodoroWaiting('focus')
-            void sendNotification('Pomodoro Complete!', 'All cycles finished. Great work!')
-          } else {
-            setPomodoroWaiting('focus')
-            void sendNotification('Break Over!', 'Ready to focus?')
-          }
+        const step = nextStep(phases, index)
+        const autoStart = runAutoStartRef.current
+        const startsNow = step === 'chain' || (autoStartsAfter(step, autoStart) && autoStart.delaySeconds === 0)
+        if (startsNow && step !== 'wait_finish' && step !== 'finish') {
+          // Back-to-back focus phases and auto-started ones without a grace period run
+          // straight on; timerState and interval keep running.
+          if (step !== 'chain') void sendNotification(...phaseEndNotice(step, autoStart))
+          enterPhase(index + 1)
+          return
         }
+
+        clearInterval(interval)
+        // Waiting for the next phase isn't part of any segment
+        switchSegment(null, countdownEndRef.current)
+        if (step === 'finish' || startsNow) {
+          // The just-finished interval is already banked in accumulatedFocusRef.
+          // Clear phase/state refs so handleFinish's elapsed calc doesn't double-count it.
+          pomodoroPhaseRef.current = null
+          timerStateRef.current = 'idle'
+          void sendNotification(...phaseEndNotice('finish', autoStart))
+          void handleFinishRef.current?.()
+          return
+        }
+
+        // Wait for the user, or for the grace period; a sequence that ends on a
+        // break finishes from the waiting state
+        setTimerState('idle')
+        setPomodoroWaiting(step === 'wait_break' ? 'break' : 'focus')
+        if (autoStartsAfter(step, autoStart)) setPomodoroAutoStartAt(Date.now() + autoStart.delaySeconds * 1000)
+        void sendNotification(...phaseEndNotice(step, autoStart))
       }
     }, 1000)
     return () => clearInterval(interval)
-  }, [timerState, savedTimerMode])
+  }, [timerState, savedTimerMode, enterPhase, switchSegment])
 
   // Pause timer tick (works for both modes)
   useEffect(() => {
@@ -278,6 +418,10 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     }
   }, [updateSettings])
 
+  const setActivePreset = useCallback((id: string | null) => {
+    updateSettings({ timer_preset_id: id })
+  }, [updateSettings])
+
   const setPomodoroSettings = useCallback((s: PomodoroSettings) => {
     updateSettings({
       pomodoro_focus_minutes: s.focusMinutes,
@@ -287,10 +431,19 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     })
   }, [updateSettings])
 
-  const handleStart = useCallback(async () => {
-    if (!selectedSubjectId) return
+  const setPomodoroAutoStart = useCallback((a: AutoStart) => {
+    updateSettings({
+      pomodoro_auto_start_breaks: a.breaks,
+      pomodoro_auto_start_focus: a.focus,
+      pomodoro_auto_start_delay_seconds: a.delaySeconds,
+    })
+  }, [updateSettings])
+
+  const startFor = useCallback(async (subjectId: string, task: LinkedTask | null) => {
+    // Another tab has a session going
+    if (!claimSessionRef.current()) return
     try {
-      const session = await startSession(selectedSubjectId)
+      const session = await startSession(subjectId, task)
       if (session) {
         clearFocusSnapshot()
         activeSessionId.current = session.id
@@ -302,19 +455,17 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
         setPausedAtElapsed(null)
 
         if (timerModeRef.current === 'pomodoro') {
-          // Initialize pomodoro
-          const settings = pomodoroSettingsRef.current
+          // Initialize pomodoro with the sequence picked right now
+          runPhasesRef.current = nextPhasesRef.current
+          runAutoStartRef.current = nextAutoStartRef.current
+          setRunPhases(nextPhasesRef.current)
           accumulatedFocusRef.current = 0
-          completedCyclesRef.current = 0
-          countdownEndRef.current = Date.now() + settings.focusMinutes * 60 * 1000
           pomodoroRemainingOnPauseRef.current = 0
-          setPomodoroPhase('focus')
-          pomodoroPhaseRef.current = 'focus'
-          setPomodoroCycle(1)
-          setPomodoroWaiting('none')
-          setPomodoroSecondsRemaining(settings.focusMinutes * 60)
+          enterPhase(0)
           setPomodoroTotalFocus(0)
           requestNotificationPermission()
+        } else {
+          switchSegment('focus')
         }
 
         setTimerState('running')
@@ -322,7 +473,21 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     } catch (err) {
       console.error('Failed to start session:', err)
     }
-  }, [selectedSubjectId, startSession])
+  }, [startSession, enterPhase, switchSegment])
+
+  const handleStart = useCallback(async () => {
+    if (!selectedSubjectId) return
+    await startFor(selectedSubjectId, linkedTask)
+  }, [selectedSubjectId, linkedTask, startFor])
+
+  const startTaskFocus = useCallback(async (task: LinkedTask, subjectId: string, subjectColor: string) => {
+    if (timerStateRef.current !== 'idle' || pomodoroWaitingRef.current !== 'none') return false
+    setSelectedSubjectId(subjectId)
+    setSelectedSubjectColor(subjectColor)
+    setLinkedTask(task)
+    await startFor(subjectId, task)
+    return true
+  }, [startFor])
 
   const handlePause = useCallback(() => {
     if (timerState !== 'running') return
@@ -349,12 +514,15 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
       pacerRemainingOnPauseRef.current = pacerEndRef.current - Date.now()
     }
 
+    switchSegment('pause')
     pauseStartTimeRef.current = Date.now()
     setPauseSessionElapsed(0)
     setTimerState('paused')
-  }, [timerState])
+  }, [timerState, switchSegment])
 
   const handleResume = useCallback(() => {
+    const phase = timerModeRef.current === 'pomodoro' ? pomodoroPhaseRef.current : null
+    switchSegment(phase ? segmentKindOf(phase) : 'focus')
     startTimeRef.current = Date.now()
     pauseStartTimeRef.current = 0
     setPauseSessionElapsed(0)
@@ -370,13 +538,34 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     }
 
     setTimerState('running')
-  }, [])
+  }, [switchSegment])
 
   // --- Question pacer ---
 
   const setPacingSettings = useCallback((s: PacingSettings) => {
-    setPacingSettingsState(s)
-    saveJSON(PACING_SETTINGS_KEY, s)
+    if (isGuest) {
+      setGuestPacingSettings(s)
+      saveLocalPacingSettings(s)
+    } else {
+      updateSettings(pacingSettingsColumns(s))
+    }
+  }, [isGuest, updateSettings])
+
+  // Settings kept in localStorage, by a guest or an older version, move into the account once
+  useEffect(() => {
+    if (settingsLoading || isGuest) return
+    const local = readLocalPacingSettings()
+    if (!local) return
+    void updateSettings(pacingSettingsColumns({ ...DEFAULT_PACING_SETTINGS, ...local }))
+    clearLocalPacingSettings()
+  }, [settingsLoading, isGuest, updateSettings])
+
+  /** Save the pacer run's finished questions and close it as of `at`. */
+  const endPacerRun = useCallback((at = Date.now()) => {
+    const run = pacerRunRef.current
+    if (!run) return
+    pacerRunRef.current = null
+    void pacerWritersRef.current.endRun(run.id, at)
   }, [])
 
   /** Move to the next question. rollover banks the remaining time; fromTimeout drives the auto-advance notification. */
@@ -384,8 +573,21 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     if (!pacerActiveRef.current) return
     const settings = pacingSettingsRef.current
     const current = pacerQuestionRef.current
+    const left = Math.max(0, Math.ceil((pacerEndRef.current - Date.now()) / 1000))
+
+    const run = pacerRunRef.current
+    if (run) {
+      run.questions = [...run.questions, {
+        seconds: Math.max(0, run.allowed - left),
+        allowed_seconds: run.allowed,
+        rollover_seconds: run.rollover,
+        overtime: fromTimeout,
+      }]
+      void pacerWritersRef.current.recordQuestions(run.id, run.questions)
+    }
 
     if (current >= settings.questionCount) {
+      endPacerRun()
       setPacerActive(false)
       pacerActiveRef.current = false
       setPacerSecondsRemaining(0)
@@ -394,15 +596,19 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     }
 
     const base = pacingBaseSeconds(settings)
-    const leftover = rollover ? Math.max(0, Math.ceil((pacerEndRef.current - Date.now()) / 1000)) : 0
+    const leftover = rollover ? left : 0
     const newRemaining = base + leftover
+    if (run) {
+      run.allowed = newRemaining
+      run.rollover = leftover
+    }
     pacerEndRef.current = Date.now() + newRemaining * 1000
     const next = current + 1
     setPacerQuestion(next)
     pacerQuestionRef.current = next
     setPacerSecondsRemaining(newRemaining)
     if (fromTimeout) void sendNotification('Time!', `Question ${next} of ${settings.questionCount}`)
-  }, [])
+  }, [endPacerRun])
 
   const handleAdvanceQuestion = useCallback((rollover: boolean) => {
     advanceQuestion(rollover, false)
@@ -410,8 +616,13 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
 
   const handleStartPacer = useCallback(() => {
     if (timerStateRef.current !== 'running') return
-    const base = pacingBaseSeconds(pacingSettingsRef.current)
-    pacerEndRef.current = Date.now() + base * 1000
+    const settings = pacingSettingsRef.current
+    const base = pacingBaseSeconds(settings)
+    const now = Date.now()
+    const sessionId = activeSessionId.current
+    const runId = sessionId ? pacerWritersRef.current.startRun(sessionId, base, settings.questionCount, now) : null
+    pacerRunRef.current = runId ? { id: runId, questions: [], allowed: base, rollover: 0 } : null
+    pacerEndRef.current = now + base * 1000
     setPacerQuestion(1)
     pacerQuestionRef.current = 1
     setPacerSecondsRemaining(base)
@@ -421,10 +632,11 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
   }, [])
 
   const handleStopPacer = useCallback(() => {
+    endPacerRun()
     setPacerActive(false)
     pacerActiveRef.current = false
     setPacerSecondsRemaining(0)
-  }, [])
+  }, [endPacerRun])
 
   // Pacer tick — counts down the current question; auto-advances on timeout.
   useEffect(() => {
@@ -466,9 +678,13 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
 
   const getElapsedSeconds = useCallback(computeElapsedSeconds, [])
 
-  const resetAll = useCallback(() => {
-    clearFocusSnapshot()
+  /** Back to no session in this tab, leaving the session itself and its snapshot alone. */
+  const resetTimerState = useCallback(() => {
     activeSessionId.current = null
+    openSegmentRef.current = null
+    pacerRunRef.current = null
+    // A task link covers one session
+    setLinkedTask(null)
     setTimerState('idle')
     setElapsed(0)
     setPauseSessionElapsed(0)
@@ -482,7 +698,10 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     setPomodoroSecondsRemaining(0)
     setPomodoroTotalFocus(0)
     accumulatedFocusRef.current = 0
-    completedCyclesRef.current = 0
+    phaseIndexRef.current = 0
+    runPhasesRef.current = []
+    setRunPhases(null)
+    setPomodoroAutoStartAt(null)
     countdownEndRef.current = 0
     pomodoroRemainingOnPauseRef.current = 0
     // Reset question pacer
@@ -495,186 +714,284 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     pacerRemainingOnPauseRef.current = 0
   }, [])
 
+  const resetAll = useCallback(() => {
+    clearFocusSnapshot()
+    resetTimerState()
+  }, [resetTimerState])
+
   const handleFinish = useCallback(async () => {
     if (!activeSessionId.current) return
     const finalElapsed = getElapsedSeconds()
+    switchSegment(null)
+    endPacerRun()
     await endSession(activeSessionId.current, finalElapsed)
     resetAll()
-  }, [getElapsedSeconds, resetAll, endSession])
+  }, [getElapsedSeconds, resetAll, endSession, switchSegment, endPacerRun])
 
   useEffect(() => { handleFinishRef.current = handleFinish }, [handleFinish])
 
   const handleStartBreak = useCallback(() => {
     if (pomodoroWaiting !== 'break') return
-    const settings = pomodoroSettingsRef.current
-    const isLongBreak = completedCyclesRef.current % settings.cycles === 0 && completedCyclesRef.current > 0
-    const breakMinutes = isLongBreak ? settings.longBreakMinutes : settings.shortBreakMinutes
-    const phase: PomodoroPhase = isLongBreak ? 'long_break' : 'short_break'
-
-    startTimeRef.current = Date.now()
-    accumulatedRef.current = 0
-    countdownEndRef.current = Date.now() + breakMinutes * 60 * 1000
-    setPomodoroPhase(phase)
-    pomodoroPhaseRef.current = phase
-    setPomodoroWaiting('none')
-    setPomodoroSecondsRemaining(breakMinutes * 60)
+    enterPhase(phaseIndexRef.current + 1)
     setTimerState('running')
-  }, [pomodoroWaiting])
+  }, [pomodoroWaiting, enterPhase])
 
   const handleStartNextFocus = useCallback(() => {
     if (pomodoroWaiting !== 'focus') return
 
-    // Check if all cycles completed
-    if (completedCyclesRef.current >= pomodoroSettingsRef.current.cycles) {
+    // Nothing left in the sequence
+    if (nextStep(runPhasesRef.current, phaseIndexRef.current) === 'wait_finish') {
       // Auto-finish
       handleFinish()
       return
     }
 
-    const settings = pomodoroSettingsRef.current
-    const nextCycle = completedCyclesRef.current + 1
-
-    startTimeRef.current = Date.now()
-    accumulatedRef.current = 0
-    countdownEndRef.current = Date.now() + settings.focusMinutes * 60 * 1000
-    setPomodoroPhase('focus')
-    pomodoroPhaseRef.current = 'focus'
-    setPomodoroCycle(nextCycle)
-    setPomodoroWaiting('none')
-    setPomodoroSecondsRemaining(settings.focusMinutes * 60)
+    enterPhase(phaseIndexRef.current + 1)
     setTimerState('running')
-  }, [pomodoroWaiting, handleFinish])
+  }, [pomodoroWaiting, handleFinish, enterPhase])
 
-  // Persist current timer state to localStorage when the tab is hidden/closed.
-  // Restoring later (within SNAPSHOT_MAX_AGE_MS) lets the user pick up from
-  // a paused state instead of losing the in-progress session.
+  // Auto-start the waiting phase once its grace period is over
   useEffect(() => {
-    if (isGuest) return
-
-    const writeSnapshot = () => {
-      const sessionId = activeSessionId.current
-      if (!sessionId) return
-      const subjectId = selectedSubjectIdRef.current
-      if (!subjectId) return
-
-      // Only snapshot when there's something to restore.
-      const isActive =
-        timerStateRef.current !== 'idle' || pomodoroWaitingRef.current !== 'none'
-      if (!isActive) return
-
-      const now = Date.now()
-      const isRunning = timerStateRef.current === 'running'
-      const mode = timerModeRef.current
-
-      let pomodoroData: FocusSnapshot['pomodoro']
-      if (mode === 'pomodoro') {
-        const phase = pomodoroPhaseRef.current
-        const intervalElapsed = isRunning
-          ? accumulatedRef.current + Math.floor((now - startTimeRef.current) / 1000)
-          : accumulatedRef.current
-        const remainingMs = isRunning
-          ? Math.max(0, countdownEndRef.current - now)
-          : pomodoroRemainingOnPauseRef.current
-        if (phase) {
-          pomodoroData = {
-            phase,
-            cycle: pomodoroCycleRef.current,
-            remainingMs,
-            accumulatedFocus: accumulatedFocusRef.current,
-            completedCycles: completedCyclesRef.current,
-            intervalElapsed,
-          }
+    if (pomodoroAutoStartAt === null || pomodoroWaiting === 'none') return
+    const start = pomodoroWaiting === 'break' ? handleStartBreak : handleStartNextFocus
+    const timeout = setTimeout(start, Math.max(0, pomodoroAutoStartAt - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [pomodoroAutoStartAt, pomodoroWaiting, handleStartBreak, handleStartNextFocus])
+
+  const cancelAutoStart = useCallback(() => setPomodoroAutoStartAt(null), [])
+
+  // Persist current timer state to localStorage when the tab is hidden/closed,
+  // and every so often while it owns a session in case it crashes. Restoring
+  // later (within SNAPSHOT_MAX_AGE_MS) lets the user pick up from a paused
+  // state instead of losing the in-progress session.
+  const writeSnapshot = useCallback(() => {
+    const sessionId = activeSessionId.current
+    if (!sessionId) return
+    const subjectId = selectedSubjectIdRef.current
+    if (!subjectId) return
+
+    // Only snapshot when there's something to restore.
+    const isActive =
+      timerStateRef.current !== 'idle' || pomodoroWaitingRef.current !== 'none'
+    if (!isActive) return
+
+    const now = Date.now()
+    const isRunning = timerStateRef.current === 'running'
+    const mode = timerModeRef.current
+
+    let pomodoroData: FocusSnapshot['pomodoro']
+    if (mode === 'pomodoro') {
+      const phase = pomodoroPhaseRef.current
+      const intervalElapsed = isRunning
+        ? accumulatedRef.current + Math.floor((now - startTimeRef.current) / 1000)
+        : accumulatedRef.current
+      const remainingMs = isRunning
+        ? Math.max(0, countdownEndRef.current - now)
+        : pomodoroRemainingOnPauseRef.current
+      if (phase) {
+        pomodoroData = {
+          phase,
+          cycle: pomodoroCycleRef.current,
+          remainingMs,
+          accumulatedFocus: accumulatedFocusRef.current,
+          intervalElapsed,
+          phases: runPhasesRef.current,
+          phaseIndex: phaseIndexRef.current,
+          running: isRunning,
+          autoStart: runAutoStartRef.current,
+          autoStartAt: pomodoroAutoStartAtRef.current,
         }
       }
-
-      const snap: FocusSnapshot = {
-        version: 1,
-        sessionId,
-        subjectId,
-        subjectColor: selectedSubjectColorRef.current,
-        timerMode: mode,
-        elapsed: computeElapsedSeconds(),
-        closedAt: now,
-        pomodoroWaiting: pomodoroWaitingRef.current,
-        pomodoro: pomodoroData,
-      }
-
-      saveJSON(FOCUS_SNAPSHOT_KEY, snap)
     }
 
-    window.addEventListener('beforeunload', writeSnapshot)
-    window.addEventListener('pagehide', writeSnapshot)
-    return () => {
-      window.removeEventListener('beforeunload', writeSnapshot)
-      window.removeEventListener('pagehide', writeSnapshot)
+    const snap: FocusSnapshot = {
+      version: 1,
+      sessionId,
+      subjectId,
+      subjectColor: selectedSubjectColorRef.current,
+      task: linkedTaskRef.current,
+      timerMode: mode,
+      elapsed: getElapsedSeconds(),
+      closedAt: now,
+      pomodoroWaiting: pomodoroWaitingRef.current,
+      running: isRunning,
+      segment: openSegmentRef.current,
+      pacerRunId: pacerRunRef.current?.id ?? null,
+      guest: isGuest,
+      pomodoro: pomodoroData,
     }
-  }, [isGuest])
 
-  // Restore (or auto-finalize) any snapshot from a previous tab close.
-  const restoredRef = useRef(false)
-  useEffect(() => {
-    if (settingsLoading || restoredRef.current) return
-    restoredRef.current = true
+    saveJSON(FOCUS_SNAPSHOT_KEY, snap)
+  }, [isGuest, getElapsedSeconds])
 
-    if (isGuest) {
-      clearFocusSnapshot()
-      return
+  /**
+   * Pick up (or auto-finalize) the session in the snapshot. After a tab close
+   * it comes back paused; a tab taking over from another (`handoff`) carries
+   * on as the owner left it. Returns whether a session was picked up.
+   */
+  const restoreSnapshot = useCallback((handoff: boolean) => {
+    const snap = readFocusSnapshot()
+    if (!snap || !!snap.guest !== isGuest) return false
+
+    const { startSegment: openSegment, endSegment: closeSegment, addSegment } = segmentWritersRef.current
+    // The pacer starts afresh, so a run that was going ended when the tab closed
+    if (snap.pacerRunId) void pacerWritersRef.current.endRun(snap.pacerRunId, snap.closedAt)
+    // The segment going at close ends with its phase; phases that ran while
+    // the tab was closed are recorded whole
+    let open = snap.segment ?? null
+    let lastPhaseEnd: number | null = null
+    const recordPhase = (phase: TimerPhase, end: number) => {
+      if (open) void closeSegment(open.id, end)
+      else void addSegment(snap.sessionId, segmentKindOf(phase.type), end - phase.minutes * 60 * 1000, end)
+      open = null
+      lastPhaseEnd = end
     }
 
-    const snap = readFocusSnapshot()
-    if (!snap) return
+    if (Date.now() - snap.closedAt > SNAPSHOT_MAX_AGE_MS) {
+      // Past the grace window — auto-finalize the session. A Pomodoro left
+      // counting down plays on until the window closed, like a restore then would have.
+      const cutoff = snap.closedAt + SNAPSHOT_MAX_AGE_MS
+      let endedAt = snap.closedAt
+      let duration = snap.elapsed
+      if (snap.timerMode === 'pomodoro' && snap.pomodoro) {
+        const { phases, run } = restoredRun(snap, snap.pomodoro, nextPhasesRef.current, nextAutoStartRef.current, cutoff, recordPhase)
+        if (!run.finished && !run.waiting && run.until !== null) {
+          // The phase going at the cutoff ran up to it
+          const phase = phases[run.index]
+          const phaseStart = run.until - phase.minutes * 60 * 1000
+          if (open) void closeSegment(open.id, cutoff)
+          else void addSegment(snap.sessionId, segmentKindOf(phase.type), phaseStart, cutoff)
+          open = null
+          endedAt = cutoff
+          duration = run.focusSeconds + (phase.type === 'focus' ? Math.floor((cutoff - phaseStart) / 1000) : 0)
+        } else if (lastPhaseEnd !== null) {
+          endedAt = run.finished ? run.until ?? lastPhaseEnd : lastPhaseEnd
+          duration = run.focusSeconds
+        }
+      }
+      if (open) void closeSegment(open.id, endedAt)
+      void updateSessionRef.current(snap.sessionId, {
+        end_time: new Date(endedAt).toISOString(),
+        duration_seconds: duration,
+      })
+      clearFocusSnapshot()
+      return false
+    }
 
-    const age = Date.now() - snap.closedAt
-    if (age > SNAPSHOT_MAX_AGE_MS) {
-      // Past the grace window — auto-finalize the session as of when the tab closed.
+    const now = Date.now()
+    const pomodoro = snap.timerMode === 'pomodoro' && snap.pomodoro
+      ? restoredRun(snap, snap.pomodoro, nextPhasesRef.current, nextAutoStartRef.current, now, recordPhase)
+      : null
+    if (pomodoro?.run.finished) {
+      // The run ran to its end while the tab was closed
       void updateSessionRef.current(snap.sessionId, {
-        end_time: new Date(snap.closedAt).toISOString(),
-        duration_seconds: snap.elapsed,
+        end_time: new Date(pomodoro.run.until ?? snap.closedAt).toISOString(),
+        duration_seconds: pomodoro.run.focusSeconds,
       })
       clearFocusSnapshot()
-      return
+      return false
     }
 
     // Restore in-memory timer state.
     activeSessionId.current = snap.sessionId
     setSelectedSubjectId(snap.subjectId)
     setSelectedSubjectColor(snap.subjectColor)
-    pauseStartTimeRef.current = Date.now()
+    setLinkedTask(snap.task ?? null)
+    pauseStartTimeRef.current = now
     setPauseSessionElapsed(0)
 
-    if (snap.timerMode === 'pomodoro' && snap.pomodoro) {
-      const p = snap.pomodoro
-      accumulatedFocusRef.current = p.accumulatedFocus
-      completedCyclesRef.current = p.completedCycles
-      accumulatedRef.current = p.intervalElapsed
-      pomodoroRemainingOnPauseRef.current = p.remainingMs
-      pomodoroPhaseRef.current = p.phase
-      setPomodoroPhase(p.phase)
-      setPomodoroCycle(p.cycle)
-      setPomodoroSecondsRemaining(Math.max(0, Math.ceil(p.remainingMs / 1000)))
-
-      const focusContribution = p.phase === 'focus' ? p.intervalElapsed : 0
-      setPomodoroTotalFocus(p.accumulatedFocus + focusContribution)
-      setElapsed(p.intervalElapsed)
-      setPausedAtElapsed(p.accumulatedFocus + focusContribution)
-
-      if (snap.pomodoroWaiting !== 'none') {
-        // Mid-cycle: bring back the "Start Break/Focus" prompt rather than a paused timer.
-        setPomodoroWaiting(snap.pomodoroWaiting)
+    if (pomodoro && snap.pomodoro) {
+      const { phases, autoStart, run } = pomodoro
+      const phase = phases[run.index]
+      runPhasesRef.current = phases
+      runAutoStartRef.current = autoStart
+      setRunPhases(phases)
+      phaseIndexRef.current = run.index
+      accumulatedFocusRef.current = run.focusSeconds
+      pomodoroPhaseRef.current = phase.type
+      setPomodoroPhase(phase.type)
+      setPomodoroCycle(focusOrdinal(phases, run.index))
+
+      // A countdown that was going stops where it has got to now; a paused one where it was left
+      let remainingMs = 0
+      let intervalElapsed = 0
+      if (!run.waiting) {
+        remainingMs = run.until === null ? snap.pomodoro.remainingMs : Math.max(0, run.until - now)
+        intervalElapsed = run.until === null
+          ? snap.pomodoro.intervalElapsed
+          : Math.floor((phase.minutes * 60 * 1000 - remainingMs) / 1000)
+      }
+      accumulatedRef.current = intervalElapsed
+      pomodoroRemainingOnPauseRef.current = remainingMs
+      setPomodoroSecondsRemaining(Math.ceil(remainingMs / 1000))
+
+      const focusContribution = phase.type === 'focus' ? intervalElapsed : 0
+      setPomodoroTotalFocus(run.focusSeconds + focusContribution)
+      setElapsed(intervalElapsed)
+      setPausedAtElapsed(run.focusSeconds + focusContribution)
+
+      // When the phase going ends, or null if it's paused or over
+      const until = run.waiting ? null : run.until
+      const carryOn = handoff && until !== null
+      if (handoff && until !== null) {
+        // Count down on from the phase's start; a phase that began after the
+        // owner left has no segment yet
+        const phaseStart = until - phase.minutes * 60 * 1000
+        const kind = segmentKindOf(phase.type)
+        if (!open) open = { id: openSegment(snap.sessionId, kind, phaseStart), kind }
+        countdownEndRef.current = until
+        startTimeRef.current = phaseStart
+        accumulatedRef.current = 0
+        setPausedAtElapsed(null)
+      } else if (until !== null) {
+        // The phase ran up to now and the pause starts here
+        if (open) void closeSegment(open.id, now)
+        else void addSegment(snap.sessionId, segmentKindOf(phase.type), until - phase.minutes * 60 * 1000, now)
+        open = { id: openSegment(snap.sessionId, 'pause', now), kind: 'pause' }
+      }
+      openSegmentRef.current = open
+
+      if (carryOn) {
+        setTimerState('running')
+        timerStateRef.current = 'running'
+      } else if (run.waiting) {
+        // Between phases: bring back the "Start Break/Focus" prompt (and any
+        // auto-start still pending) rather than a paused timer.
+        setPomodoroWaiting(nextStep(phases, run.index) === 'wait_break' ? 'break' : 'focus')
+        setPomodoroAutoStartAt(run.until)
         setTimerState('idle')
         timerStateRef.current = 'idle'
       } else {
         setTimerState('paused')
         timerStateRef.current = 'paused'
       }
+    } else if (handoff && snap.running) {
+      // The owner's tab only just went, so the session runs on
+      const elapsedNow = snap.elapsed + Math.floor((now - snap.closedAt) / 1000)
+      openSegmentRef.current = open
+      accumulatedRef.current = elapsedNow
+      startTimeRef.current = now
+      setElapsed(elapsedNow)
+      setPausedAtElapsed(null)
+      setTimerState('running')
+      timerStateRef.current = 'running'
     } else {
+      // Time closed isn't counted, so a session left running was paused from then
+      if (open && open.kind !== 'pause') {
+        void closeSegment(open.id, snap.closedAt)
+        open = { id: openSegment(snap.sessionId, 'pause', snap.closedAt), kind: 'pause' }
+      }
+      openSegmentRef.current = open
       accumulatedRef.current = snap.elapsed
       setElapsed(snap.elapsed)
       setPausedAtElapsed(snap.elapsed)
       setTimerState('paused')
       timerStateRef.current = 'paused'
     }
-  }, [settingsLoading, isGuest])
+    return true
+  }, [isGuest])
+
+  const pomodoroPhases = runPhases ?? nextPhases
 
   const setSelectedSubject = useCallback((id: string | null, color?: string | null) => {
     setSelectedSubjectId(id)
@@ -687,6 +1004,9 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     selectedSubjectColor,
     pausedAtElapsed,
     setSelectedSubject,
+    linkedTask,
+    setLinkedTask,
+    startTaskFocus,
     handleStart,
     handlePause,
     handleResume,
@@ -695,10 +1015,18 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     setTimerMode,
     pomodoroSettings: savedPomodoroSettings,
     setPomodoroSettings,
+    pomodoroAutoStart,
+    setPomodoroAutoStart,
+    timerPresets,
+    activePresetId,
+    setActivePreset,
+    pomodoroPhases,
+    pomodoroAutoStartAt,
+    cancelAutoStart,
     pomodoroPhase,
     pomodoroWaiting,
     pomodoroCycle,
-    pomodoroCycles: savedPomodoroSettings.cycles,
+    pomodoroCycles: countFocusPhases(pomodoroPhases),
     handleStartBreak,
     handleStartNextFocus,
     settingsLoading,
@@ -710,12 +1038,16 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     handleStartPacer,
     handleStopPacer,
     handleAdvanceQuestion,
+    inOtherTab: false,
   }), [
     timerState,
     selectedSubjectId,
     selectedSubjectColor,
     pausedAtElapsed,
     setSelectedSubject,
+    linkedTask,
+    setLinkedTask,
+    startTaskFocus,
     handleStart,
     handlePause,
     handleResume,
@@ -724,6 +1056,14 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     setTimerMode,
     savedPomodoroSettings,
     setPomodoroSettings,
+    pomodoroAutoStart,
+    setPomodoroAutoStart,
+    timerPresets,
+    activePresetId,
+    setActivePreset,
+    pomodoroPhases,
+    pomodoroAutoStartAt,
+    cancelAutoStart,
     pomodoroPhase,
     pomodoroWaiting,
     pomodoroCycle,
@@ -745,11 +1085,139 @@ export function FocusTimerProvider({ children }: { children: ReactNode }) {
     totalFocusSeconds: pomodoroTotalFocus,
   }), [pomodoroSecondsRemaining, pomodoroTotalFocus])
 
+  // --- Other tabs ---
+
+  const mirroredTimer: MirroredTimer = useMemo(() => ({
+    timerMode: savedTimerMode,
+    timerState,
+    selectedSubjectId,
+    selectedSubjectColor,
+    linkedTask,
+    pausedAtElapsed,
+    elapsed,
+    pauseElapsed: pauseSessionElapsed,
+    pomodoroDisplay,
+    pomodoroPhases,
+    pomodoroAutoStartAt,
+    pomodoroPhase,
+    pomodoroWaiting,
+    pomodoroCycle,
+    pacerActive,
+    pacerQuestion,
+    pacerSecondsRemaining,
+  }), [
+    savedTimerMode,
+    timerState,
+    selectedSubjectId,
+    selectedSubjectColor,
+    linkedTask,
+    pausedAtElapsed,
+    elapsed,
+    pauseSessionElapsed,
+    pomodoroDisplay,
+    pomodoroPhases,
+    pomodoroAutoStartAt,
+    pomodoroPhase,
+    pomodoroWaiting,
+    pomodoroCycle,
+    pacerActive,
+    pacerQuestion,
+    pacerSecondsRemaining,
+  ])
+
+  /** Controls pressed in a tab mirroring this one's session. */
+  const handleTabCommand = useCallback((command: TimerCommand) => {
+    switch (command.type) {
+      case 'pause': return handlePause()
+      case 'resume': return handleResume()
+      case 'finish': return void handleFinish()
+      case 'start_break': return handleStartBreak()
+      case 'start_next_focus': return handleStartNextFocus()
+      case 'cancel_auto_start': return cancelAutoStart()
+      case 'start_pacer': return handleStartPacer()
+      case 'stop_pacer': return handleStopPacer()
+      case 'advance_question': return handleAdvanceQuestion(command.rollover)
+    }
+  }, [
+    handlePause, handleResume, handleFinish, handleStartBreak, handleStartNextFocus, cancelAutoStart,
+    handleStartPacer, handleStopPacer, handleAdvanceQuestion,
+  ])
+
+  const takeOverSession = useCallback(() => restoreSnapshot(true), [restoreSnapshot])
+
+  const { mirror, forward, claim, release } = useTimerTabs({
+    active: timerState !== 'idle' || pomodoroWaiting !== 'none',
+    state: mirroredTimer,
+    onCommand: handleTabCommand,
+    onHeartbeat: writeSnapshot,
+    onTakeOver: takeOverSession,
+    onLoseLease: resetTimerState,
+  })
+
+  useEffect(() => { claimSessionRef.current = claim }, [claim])
+
+  // Restore (or auto-finalize) any snapshot from a previous tab close, unless
+  // another tab already has the session
+  const restoredRef = useRef(false)
+  useEffect(() => {
+    if (settingsLoading || restoredRef.current) return
+    restoredRef.current = true
+
+    if (!claim()) return
+    if (!restoreSnapshot(false)) release()
+  }, [settingsLoading, claim, release, restoreSnapshot])
+
+  // Write the snapshot before letting go, so the tab taking over finds it
+  useEffect(() => {
+    const onPageHide = () => {
+      writeSnapshot()
+      release()
+    }
+    window.addEventListener('beforeunload', writeSnapshot)
+    window.addEventListener('pagehide', onPageHide)
+    return () => {
+      window.removeEventListener('beforeunload', writeSnapshot)
+      window.removeEventListener('pagehide', onPageHide)
+    }
+  }, [writeSnapshot, release])
+
+  // A tab mirroring another's session shows that session and sends its controls there
+  const shownValue = useMemo(() => mirror ? {
+    ...value,
+    timerMode: mirror.timerMode,
+    timerState: mirror.timerState,
+    selectedSubjectId: mirror.selectedSubjectId,
+    selectedSubjectColor: mirror.selectedSubjectColor,
+    linkedTask: mirror.linkedTask,
+    pausedAtElapsed: mirror.pausedAtElapsed,
+    pomodoroPhases: mirror.pomodoroPhases,
+    pomodoroCycles: countFocusPhases(mirror.pomodoroPhases),
+    pomodoroAutoStartAt: mirror.pomodoroAutoStartAt,
+    pomodoroPhase: mirror.pomodoroPhase,
+    pomodoroWaiting: mirror.pomodoroWaiting,
+    pomodoroCycle: mirror.pomodoroCycle,
+    pacerActive: mirror.pacerActive,
+    pacerQuestion: mirror.pacerQuestion,
+    pacerSecondsRemaining: mirror.pacerSecondsRemaining,
+    startTaskFocus: async () => false,
+    handleStart: async () => {},
+    handlePause: () => forward({ type: 'pause' }),
+    handleResume: () => forward({ type: 'resume' }),
+    handleFinish: async () => forward({ type: 'finish' }),
+    handleStartBreak: () => forward({ type: 'start_break' }),
+    handleStartNextFocus: () => forward({ type: 'start_next_focus' }),
+    cancelAutoStart: () => forward({ type: 'cancel_auto_start' }),
+    handleStartPacer: () => forward({ type: 'start_pacer' }),
+    handleStopPacer: () => forward({ type: 'stop_pacer' }),
+    handleAdvanceQuestion: (rollover: boolean) => forward({ type: 'advance_question', rollover }),
+    inOtherTab: true,
+  } : value, [value, mirror, forward])
+
   return (
-    <PomodoroDisplayContext.Provider value={pomodoroDisplay}>
-      <FocusTimerElapsedContext.Provider value={elapsed}>
-        <PauseElapsedContext.Provider value={pauseSessionElapsed}>
-          <FocusTimerContext.Provider value={value}>
+    <PomodoroDisplayContext.Provider value={mirror?.pomodoroDisplay ?? pomodoroDisplay}>
+      <FocusTimerElapsedContext.Provider value={mirror?.elapsed ?? elapsed}>
+        <PauseElapsedContext.Provider value={mirror?.pauseElapsed ?? pauseSessionElapsed}>
+          <FocusTimerContext.Provider value={shownValue}>
             {children}
           </FocusTimerContext.Provider>
         </PauseElapsedContext.Provider>
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react'
+import { clearRows, loadRows } from '../lib/localStore'
+import { GUEST_SCOPE, tableKey } from '../lib/tableCache'
+import { writeUserData } from '../lib/userDataSync'
+import {
+  USER_TABLES, countUserRows, emptyUserData, remapUserData, type UserData,
+} from '../lib/userData'
+import { useAuth } from './useAuth'
+
+type Row = { id: string } & Record<string, unknown>
+
+export type GuestMigrationState = 'idle' | 'uploading' | 'error'
+
+async function loadGuestData(): Promise<UserData> {
+  const data = emptyUserData()
+  for (const table of USER_TABLES) {
+    data[table] = ((await loadRows(tableKey(GUEST_SCOPE, table))) ?? []) as Row[]
+  }
+  return data
+}
+
+/**
+ * Guest data left on this device, offered to the signed-in user. Uploading
+ * queues the remapped rows like any other write, so it also works offline
+ * and resumes after a reload.
+ */
+export function useGuestMigration() {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const [guestData, setGuestData] = useState<UserData | null>(null)
+  const [state, setState] = useState<GuestMigrationState>('idle')
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    loadGuestData().then(data => {
+      if (!cancelled) setGuestData(countUserRows(data) > 0 ? data : null)
+    })
+    return () => { cancelled = true }
+  }, [userId])
+
+  const migrate = useCallback(async () => {
+    if (!userId || !guestData) return
+    setState('uploading')
+    try {
+      const remapped = remapUserData(guestData, userId)
+      // Tables go in order so parents are queued (and replayed) before children
+      await writeUserData(userId, USER_TABLES.flatMap(table =>
+        remapped[table].map(values => ({ table, kind: 'insert' as const, values }))))
+      await clearRows(GUEST_SCOPE)
+      setGuestData(null)
+      setState('idle')
+    } catch (err) {
+      console.error('Failed to move guest data:', err)
+      setState('error')
+    }
+  }, [userId, guestData])
+
+  const discard = useCallback(async () => {
+    await clearRows(GUEST_SCOPE)
+    setGuestData(null)
+  }, [])
+
+  return { guestData, state, migrate, discard }
+}
@@ -0,0 +1,48 @@
+import { useCallback } from 'react'
+import type { PacerRun, PacerRunInsert } from '../types/database'
+import type { TimeRange } from '../lib/tableRanges'
+import type { PacerQuestion } from '../lib/pacer'
+import { useSupabaseTable } from './useSupabaseTable'
+
+/** Pacer runs overlapping `range`, every run without one, or none with `null`. */
+export function usePacerRuns(range?: TimeRange | null) {
+  const { rows: runs, loading, create, update, removeWhere } =
+    useSupabaseTable<PacerRun, PacerRunInsert>('pacer_runs', 'start_time', true, range)
+
+  /** Saves a new run and returns its id, so its questions can be added as they finish. */
+  const startRun = useCallback((sessionId: string, secondsPerQuestion: number, questionCount: number, at: number) => {
+    const id = crypto.randomUUID()
+    void create({
+      id,
+      session_id: sessionId,
+      seconds_per_question: secondsPerQuestion,
+      question_count: questionCount,
+      questions: [],
+      start_time: new Date(at).toISOString(),
+      end_time: null,
+    })
+    return id
+  }, [create])
+
+  const recordQuestions = useCallback(async (id: string, questions: PacerQuestion[]) => {
+    await update(id, { questions })
+  }, [update])
+
+  const endRun = useCallback(async (id: string, at: number) => {
+    await update(id, { end_time: new Date(at).toISOString() })
+  }, [update])
+
+  const deleteRunsForSession = useCallback(
+    (sessionId: string) => removeWhere({ session_id: sessionId }),
+    [removeWhere]
+  )
+
+  return {
+    runs,
+    loading,
+    startRun,
+    recordQuestions,
+    endRun,
+    deleteRunsForSession,
+  }
+}
@@ -0,0 +1,96 @@
+import { useEffect } from 'react'
+import { onNotificationSnooze, sendNotification } from '../lib/notifications'
+import { loadJSON, saveJSON } from '../lib/storage'
+
+export interface ScheduledNotification {
+  key: string // stable across reloads, used to deliver each notification once
+  fireAt: number // epoch ms
+  /** Still worth delivering until then if the app was closed at `fireAt` */
+  expiresAt: number
+  title: string
+  body: string
+  url: string
+  snoozeMinutes?: number
+}
+
+interface SnoozeEntry {
+  fireAt: number
+  title: string
+  body: string
+  url: string
+  snoozeMinutes: number
+}
+
+const DELIVERED_KEY = 'muffin-time:delivered-reminders:v1'
+const SNOOZED_KEY = 'muffin-time:snoozed-reminders:v1'
+// Re-check at least this often so edits made elsewhere and sleeping laptops are picked up
+const MAX_WAIT_MS = 60 * 1000
+// How far back and ahead `getNotifications` is asked to look
+const LOOKBACK_MS = 24 * 60 * 60 * 1000
+const HORIZON_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Delivers notifications returned by `getNotifications` when they come due.
+ * Delivered keys and snoozed notifications are kept in localStorage so
+ * reloads and other tabs neither repeat nor lose them. `refresh` is called
+ * before each re-check to pull rows other views have changed.
+ */
+export function useReminderScheduler(
+  getNotifications: (from: Date, to: Date) => ScheduledNotification[],
+  refresh: () => void,
+) {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const check = () => {
+      const now = Date.now()
+      const delivered = loadJSON<Record<string, number>>(DELIVERED_KEY, {})
+      const snoozed = loadJSON<Record<string, SnoozeEntry>>(SNOOZED_KEY, {})
+      const upcoming = getNotifications(new Date(now - LOOKBACK_MS), new Date(now + HORIZON_MS))
+
+      for (const item of upcoming) {
+        if (item.fireAt > now || item.expiresAt <= now || delivered[item.key]) continue
+        delivered[item.key] = item.expiresAt
+        void sendNotification(item.title, item.body, { tag: item.key, url: item.url, snoozeMinutes: item.snoozeMinutes })
+      }
+      for (const [key, entry] of Object.entries(snoozed)) {
+        if (entry.fireAt > now) continue
+        delete snoozed[key]
+        void sendNotification(entry.title, entry.body, { tag: key, url: entry.url, snoozeMinutes: entry.snoozeMinutes })
+      }
+
+      // Forget deliveries that can no longer come due again
+      for (const [key, expiresAt] of Object.entries(delivered)) {
+        if (expiresAt <= now) delete delivered[key]
+      }
+      saveJSON(DELIVERED_KEY, delivered)
+      saveJSON(SNOOZED_KEY, snoozed)
+
+      const nextTimes = [
+        ...upcoming.filter(item => item.fireAt > now).map(item => item.fireAt),
+        ...Object.values(snoozed).map(entry => entry.fireAt),
+      ]
+      const wait = Math.min(MAX_WAIT_MS, ...nextTimes.map(t => t - now))
+      timer = setTimeout(() => {
+        // If refreshed rows changed, this effect re-runs with them
+        refresh()
+        check()
+      }, wait)
+    }
+
+    const unsubscribe = onNotificationSnooze(({ title, body, tag, url, minutes }) => {
+      if (!minutes) return
+      const snoozed = loadJSON<Record<string, SnoozeEntry>>(SNOOZED_KEY, {})
+      snoozed[tag] = { fireAt: Date.now() + minutes * 60 * 1000, title, body, url, snoozeMinutes: minutes }
+      saveJSON(SNOOZED_KEY, snoozed)
+      clearTimeout(timer)
+      check()
+    })
+
+    check()
+    return () => {
+      clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [getNotifications, refresh])
+}
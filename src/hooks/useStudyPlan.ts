@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { addDays, startOfDay } from 'date-fns'
+import { busyIntervals } from '../lib/workload'
+import { PLAN_HORIZON_DAYS, STUDY_PLAN_CALENDAR_NAME, planStudyBlocks, studyTasks } from '../lib/studyPlan'
+import { focusSecondsByTask, taskKey } from '../lib/taskFocus'
+import { createdRange } from '../lib/tableRanges'
+import { getLocalTimeZone } from '../lib/timezone'
+import { useCalendars } from './useCalendars'
+import { useEvents } from './useEvents'
+import { useAssignments } from './useAssignments'
+import { useFocusSessions } from './useFocusSessions'
+import { useRecurrenceExceptions } from './useRecurrenceExceptions'
+import { useUserSettings } from './useUserSettings'
+
+// Missed blocks only show up as time passes, so the plan is re-checked this often
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+
+const STUDY_PLAN_COLOR = '#1ABC9C'
+
+/**
+ * The study plan calendar and the changes it needs right now (null while it
+ * is off or still loading). `apply` writes them; useStudyPlanScheduler does
+ * that whenever they appear.
+ */
+export function useStudyPlan() {
+  const { calendars, loading: calendarsLoading, createCalendar, deleteCalendar } = useCalendars()
+  const calendar = calendars.find(cal => cal.study_plan) ?? null
+
+  const [now, setNow] = useState(() => new Date())
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), CHECK_INTERVAL_MS)
+    return () => clearInterval(id)
+  }, [])
+
+  const today = startOfDay(now).getTime()
+  // From the day before, as blocks after midnight still count toward the evening's cap
+  const range = useMemo(() => ({
+    from: addDays(today, -1).toISOString(),
+    to: addDays(today, PLAN_HORIZON_DAYS + 1).toISOString(),
+  }), [today])
+  const { events, loading: eventsLoading, createEvent, deleteEvent } = useEvents(calendar ? range : null)
+  const { assignments, loading: assignmentsLoading } = useAssignments()
+  // Only the sessions since the earliest open assignment was created can count toward one
+  const focusRange = useMemo(
+    () => calendar
+      ? createdRange(assignments.filter(a => !a.completed && !a.recurrence), addDays(today, 1).toISOString())
+      : null,
+    [calendar, assignments, today]
+  )
+  const { sessions, loading: sessionsLoading } = useFocusSessions(focusRange)
+  const { exceptions, loading: exceptionsLoading } = useRecurrenceExceptions()
+  const { studyPlanSettings, loading: settingsLoading } = useUserSettings()
+
+  const loading = calendarsLoading || eventsLoading || assignmentsLoading || sessionsLoading
+    || exceptionsLoading || settingsLoading
+
+  const changes = useMemo(() => {
+    if (!calendar || loading) return null
+    const focused = focusSecondsByTask(sessions)
+    const tasks = studyTasks(assignments, assignment => focused.get(taskKey('assignment', assignment.id)) ?? 0, now)
+    const others = events.filter(event => event.calendar_id !== calendar.id)
+    const blocks = events.filter(event => event.calendar_id === calendar.id)
+    const busy = busyIntervals(others, exceptions, new Date(today), addDays(today, PLAN_HORIZON_DAYS + 1))
+    return planStudyBlocks(tasks, blocks, busy, studyPlanSettings, now.getTime())
+  }, [calendar, loading, sessions, assignments, events, exceptions, studyPlanSettings, now, today])
+
+  const apply = useCallback(async () => {
+    if (!calendar || !changes) return
+    const timeZone = getLocalTimeZone()
+    await Promise.all([
+      ...changes.remove.map(id => deleteEvent(id)),
+      ...changes.add.map(block => createEvent({
+        calendar_id: calendar.id,
+        title: block.title,
+        start_time: new Date(block.start).toISOString(),
+        end_time: new Date(block.end).toISOString(),
+        time_zone: timeZone,
+        assignment_id: block.assignmentId,
+      })),
+    ])
+  }, [calendar, changes, createEvent, deleteEvent])
+
+  const enable = useCallback(async () => {
+    if (calendar) return
+    await createCalendar({ name: STUDY_PLAN_CALENDAR_NAME, color: STUDY_PLAN_COLOR, study_plan: true })
+  }, [calendar, createCalendar])
+
+  /** Turns the plan off; deleting the calendar deletes its blocks with it. */
+  const disable = useCallback(async () => {
+    if (calendar) await deleteCalendar(calendar.id)
+  }, [calendar, deleteCalendar])
+
+  return { calendar, loading, changes, apply, enable, disable }
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react'
+import { useStudyPlan } from './useStudyPlan'
+
+// Every open tab plans the same changes, so only the tab holding this lock writes them
+const PLAN_LOCK = 'muffin-time:study-plan'
+
+// Set while changes are being written, so the next render can't queue them twice
+let applyingPlan = false
+
+/** Whether this tab is the one that keeps the plan; all of them without Web Locks. */
+function usePlanLock(): boolean {
+  const [held, setHeld] = useState(() => typeof navigator === 'undefined' || !navigator.locks)
+
+  useEffect(() => {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+    if (!locks) return
+    const controller = new AbortController()
+    let release: (() => void) | undefined
+    locks.request(PLAN_LOCK, { signal: controller.signal }, () => {
+      setHeld(true)
+      // Held until this tab closes or the scheduler unmounts
+      return new Promise<void>(resolve => { release = resolve })
+    }).catch(() => {}) // aborted while still waiting
+    return () => {
+      controller.abort()
+      release?.()
+      setHeld(false)
+    }
+  }, [])
+
+  return held
+}
+
+/** Keeps the study plan in step: replans when a block is missed or an event lands on it. */
+export function useStudyPlanScheduler() {
+  const { changes, apply } = useStudyPlan()
+  const held = usePlanLock()
+
+  useEffect(() => {
+    if (!held || !changes || applyingPlan) return
+    if (changes.remove.length === 0 && changes.add.length === 0) return
+    applyingPlan = true
+    apply()
+      .catch(err => console.error('Failed to update study plan:', err))
+      .finally(() => { applyingPlan = false })
+  }, [held, changes, apply])
+}
@@ -1,123 +1,148 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { supabase } from '../lib/supabase'
-import { queryCache, inflightQueries } from '../lib/tableCache'
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from 'react'
+import {
+  ALL_PARTS, GUEST_SCOPE, getTableRows, hydrateTable, isTableLoaded, markTableLoaded, setTableRows,
+  subscribeTable, tableKey,
+} from '../lib/tableCache'
+import { rangeChunks, rowsInRange, type TimeRange } from '../lib/tableRanges'
+import { fetchTable, flushQueue, queueMutation } from '../lib/syncQueue'
+import { watchTable } from '../lib/realtime'
+import { applyMutation, matchesRow, type Mutation } from '../lib/mutations'
 import { useAuth } from './useAuth'
 
+// Column defaults the database would fill in, so optimistic rows look like saved ones
+const INSERT_DEFAULTS: Record<string, Record<string, unknown>> = {
+  calendars: { visible: true },
+  events: { all_day: false },
+  todos: { completed: false },
+  assignments: { completed: false },
+}
+
+const EMPTY_ROWS: never[] = []
+const noopSubscribe = () => () => {}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return a < b ? -1 : 1
+}
+
+/**
+ * Rows of `table` for the signed-in user (or the guest), kept in a shared
+ * local store. Writes apply immediately and are queued for Supabase, so they
+ * survive going offline; changes from other devices stream in over realtime.
+ * Guests never leave the local store.
+ *
+ * For time-ranged tables (see tableRanges), pass `range` to load and return
+ * only rows overlapping it, or `null` when only writing. Without a range the
+ * whole table is loaded.
+ */
 export function useSupabaseTable<Row extends { id: string }, Insert = Partial<Row>>(
   table: string,
   orderBy: string,
   ascending = true,
+  range?: TimeRange | null,
 ) {
   const { user, isGuest } = useAuth()
-  const [rows, setRows] = useState<Row[]>([])
-  const [loading, setLoading] = useState(true)
-  const rowsRef = useRef<Row[]>(rows)
-  rowsRef.current = rows
-  const queryKey = `${table}:${orderBy}:${ascending ? 'asc' : 'desc'}`
-
-  const setRowsAndCache = useCallback((updater: Row[] | ((prev: Row[]) => Row[])) => {
-    setRows(prev => {
-      const nextRows = typeof updater === 'function'
-        ? (updater as (prevRows: Row[]) => Row[])(prev)
-        : updater
-      queryCache.set(queryKey, nextRows as unknown[])
-      return nextRows
-    })
-  }, [queryKey])
+  const scope = isGuest ? GUEST_SCOPE : user?.id ?? null
+  const key = scope ? tableKey(scope, table) : null
+
+  const subscribe = useCallback(
+    (listener: () => void) => key ? subscribeTable(key, listener) : noopSubscribe(),
+    [key]
+  )
+  const rangeFrom = range?.from
+  const rangeTo = range?.to
+  const readsRows = range !== null
+  const scopedRange = useMemo(
+    () => rangeFrom && rangeTo ? { from: rangeFrom, to: rangeTo } : undefined,
+    [rangeFrom, rangeTo]
+  )
+  const parts = useMemo(() => scopedRange ? rangeChunks(scopedRange) : [ALL_PARTS], [scopedRange])
+
+  const storedRows = useSyncExternalStore(subscribe, () => key ? getTableRows<Row>(key) : EMPTY_ROWS)
+  const loading = useSyncExternalStore(subscribe, () => key !== null && readsRows && !isTableLoaded(key, parts))
+  const rows = useMemo(() => {
+    if (!readsRows) return EMPTY_ROWS
+    const visible = scopedRange ? rowsInRange(storedRows, table, scopedRange) : storedRows
+    const sorted = [...visible].sort((a, b) =>
+      compareValues((a as Record<string, unknown>)[orderBy], (b as Record<string, unknown>)[orderBy]))
+    return ascending ? sorted : sorted.reverse()
+  }, [storedRows, table, scopedRange, readsRows, orderBy, ascending])
 
   const refetch = useCallback(async (force = false) => {
-    if (isGuest) {
-      const cached = (queryCache.get(queryKey) ?? []) as Row[]
-      if (cached !== rowsRef.current) setRows(cached)
-      setLoading(prev => (prev ? false : prev))
-      return
-    }
-
-    if (!user) {
-      setLoading(prev => (prev ? false : prev))
-      return
-    }
-
-    if (!force) {
-      const cachedRows = queryCache.get(queryKey)
-      if (cachedRows) {
-        const cached = cachedRows as Row[]
-        if (cached !== rowsRef.current) setRows(cached)
-        setLoading(prev => (prev ? false : prev))
-        return
-      }
+    if (!scope || !key) return
+    // Hydrate even when only writing, so writes land on top of the stored rows
+    await hydrateTable(key)
+    if (!readsRows) return
+    if (scope !== GUEST_SCOPE) {
+      void flushQueue(scope)
+      await fetchTable(scope, table, scopedRange, force)
     }
-
-    const inflight = inflightQueries.get(queryKey)
-    if (inflight) {
-      const sharedRows = await inflight
-      setRows(sharedRows as Row[])
-      setLoading(false)
-      return
-    }
-
-    const fetchPromise = (async () => {
-      const { data } = await supabase
-        .from(table)
-        .select('*')
-        .eq('user_id', user.id)
-        .order(orderBy, { ascending })
-        .limit(500)
-      return (data ?? []) as unknown[]
-    })()
-
-    inflightQueries.set(queryKey, fetchPromise)
-    try {
-      const nextRows = await fetchPromise
-      queryCache.set(queryKey, nextRows)
-      setRows(nextRows as Row[])
-      setLoading(false)
-    } finally {
-      inflightQueries.delete(queryKey)
-    }
-  }, [isGuest, user, table, orderBy, ascending])
+    markTableLoaded(key, parts)
+  }, [scope, key, table, readsRows, scopedRange, parts])
 
   useEffect(() => { refetch() }, [refetch])
 
-  const create = async (values: Insert) => {
-    if (isGuest) {
-      const newRow = {
-        id: crypto.randomUUID(),
-        created_at: new Date().toISOString(),
-        ...values,
-      } as unknown as Row
-      setRowsAndCache(prev => [...prev, newRow])
-      return newRow
-    }
+  // Guests have nothing on the server to listen to
+  useEffect(() => {
+    if (!scope || scope === GUEST_SCOPE || !readsRows) return
+    return watchTable(scope, table)
+  }, [scope, table, readsRows])
 
-    const { data, error } = await supabase.from(table).insert(values as never).select().single()
-    if (error) throw error
-    if (data) setRowsAndCache(prev => [...prev, data as Row])
-    return data as Row
-  }
-
-  const update = async (id: string, updates: Partial<Insert>) => {
-    if (isGuest) {
-      const updated = { ...rows.find(r => r.id === id)!, ...updates } as Row
-      setRowsAndCache(prev => prev.map(r => r.id === id ? updated : r))
-      return updated
-    }
+  /** Apply a write locally and, for signed-in users, queue it for the server. */
+  const write = useCallback((mutation: Omit<Mutation, 'scope' | 'table' | 'createdAt'>) => {
+    if (!scope || !key) throw new Error('Not signed in')
+    const full = { ...mutation, scope, table, createdAt: Date.now() }
+    setTableRows<Row>(key, prev => applyMutation(prev, full))
+    if (scope !== GUEST_SCOPE) void queueMutation(full)
+  }, [scope, key, table])
 
-    const { data, error } = await supabase.from(table).update(updates as never).eq('id', id).select().single()
-    if (error) throw error
-    if (data) setRowsAndCache(prev => prev.map(r => r.id === id ? data as Row : r))
-    return data as Row
-  }
-
-  const remove = async (id: string) => {
-    if (isGuest) {
-      setRowsAndCache(prev => prev.filter(r => r.id !== id))
-      return
-    }
-
-    await supabase.from(table).delete().eq('id', id)
-    setRowsAndCache(prev => prev.filter(r => r.id !== id))
-  }
-
-  return { rows, setRows: setRowsAndCache, loading, refetch, create, update, remove }
+  const setRowsAndCache = useCallback((updater: Row[] | ((prev: Row[]) => Row[])) => {
+    if (key) setTableRows<Row>(key, updater)
+  }, [key])
+
+  const create = useCallback(async (values: Insert) => {
+    const row = {
+      id: crypto.randomUUID(),
+      user_id: user?.id ?? '',
+      created_at: new Date().toISOString(),
+      ...INSERT_DEFAULTS[table],
+      ...values,
+    } as unknown as Row
+    write({ kind: 'insert', values: row as unknown as Record<string, unknown> })
+    return row
+  }, [table, user?.id, write])
+
+  const update = useCallback(async (id: string, updates: Partial<Insert>) => {
+    write({ kind: 'update', match: { id }, values: updates as Record<string, unknown> })
+    return (key ? getTableRows<Row>(key).find(r => r.id === id) : undefined) as Row
+  }, [key, write])
+
+  /** Insert or update the row matching `onConflict`, e.g. one exception per occurrence. */
+  const upsert = useCallback(async (values: Insert, onConflict: (keyof Row & string)[]) => {
+    const existing = key ? getTableRows<Row>(key) : []
+    const match = Object.fromEntries(onConflict.map(column => [column, (values as Record<string, unknown>)[column]]))
+    const current = existing.find(row => matchesRow(row, match))
+    const row = {
+      id: current?.id ?? crypto.randomUUID(),
+      user_id: user?.id ?? '',
+      created_at: new Date().toISOString(),
+      ...current,
+      ...values,
+    } as unknown as Row
+    write({ kind: 'upsert', values: row as unknown as Record<string, unknown>, onConflict })
+    return row
+  }, [key, user?.id, write])
+
+  const remove = useCallback(async (id: string) => {
+    write({ kind: 'delete', match: { id } })
+  }, [write])
+
+  /** Delete every row whose columns equal `match`. */
+  const removeWhere = useCallback(async (match: Partial<Row>) => {
+    write({ kind: 'delete', match: match as Record<string, unknown> })
+  }, [write])
+
+  return { rows, setRows: setRowsAndCache, loading, refetch, create, update, upsert, remove, removeWhere }
 }
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getSyncStatus, subscribeSyncStatus } from '../lib/syncQueue'
+
+/** Live state of the offline write queue. */
+export function useSyncStatus() {
+  return useSyncExternalStore(subscribeSyncStatus, getSyncStatus)
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import type { TaskOption, TaskOptionInsert } from '../types/database'
+import {
+  DEFAULT_STATUSES, clearLegacyTaskOptions, legacyOptionInserts, nextOptionPosition, optionNames,
+  readLegacyTaskOptions, type TaskFieldKind,
+} from '../lib/taskOptions'
+import { useSupabaseTable } from './useSupabaseTable'
+import { useTodos } from './useTodos'
+import { useAssignments } from './useAssignments'
+
+// Set while a legacy move is being written, so a second mount can't repeat it
+let movingLegacyOptions = false
+
+/**
+ * Type and status choices for tasks (courses have their own table, see
+ * useCourses). Lists left in localStorage by older versions are moved into
+ * the account the first time they load.
+ */
+export function useTaskOptions() {
+  const { rows: options, loading, create, update, remove } =
+    useSupabaseTable<TaskOption, TaskOptionInsert>('task_options', 'position')
+  const { todos, updateTodo } = useTodos()
+  const { assignments, updateAssignment } = useAssignments()
+
+  useEffect(() => {
+    if (loading || movingLegacyOptions) return
+    const legacy = readLegacyTaskOptions()
+    if (!legacy) return
+    movingLegacyOptions = true
+    Promise.all(legacyOptionInserts(options, legacy).map(values => create(values)))
+      .then(clearLegacyTaskOptions)
+      .catch(err => console.error('Failed to move task options:', err))
+      .finally(() => { movingLegacyOptions = false })
+  }, [loading, options, create])
+
+  const typeOptions = useMemo(() => optionNames(options, 'type'), [options])
+  const storedStatuses = useMemo(() => optionNames(options, 'status'), [options])
+  const statusOptions = storedStatuses.length > 0 ? storedStatuses : DEFAULT_STATUSES
+
+  /** Rows of `kind`, first saving the default statuses if they are still implicit. */
+  const rowsOf = useCallback(async (kind: TaskFieldKind) => {
+    const rows = options.filter(option => option.kind === kind)
+    if (kind !== 'status' || rows.length > 0) return rows
+    return Promise.all(DEFAULT_STATUSES.map((name, position) => create({ kind, name, position })))
+  }, [options, create])
+
+  const addOption = useCallback(async (kind: TaskFieldKind, name: string, color: string | null = null) => {
+    const trimmed = name.trim()
+    const rows = await rowsOf(kind)
+    if (!trimmed || rows.some(option => option.name === trimmed)) return
+    await create({ kind, name: trimmed, color, position: nextOptionPosition(rows, kind) })
+  }, [rowsOf, create])
+
+  const removeOption = useCallback(async (kind: TaskFieldKind, name: string) => {
+    const rows = await rowsOf(kind)
+    await Promise.all(rows.filter(option => option.name === name).map(option => remove(option.id)))
+  }, [rowsOf, remove])
+
+  /** Rename an option and every todo and assignment that uses it. */
+  const renameOption = useCallback(async (kind: TaskFieldKind, from: string, to: string) => {
+    const name = to.trim()
+    if (!name || name === from) return
+    const rows = await rowsOf(kind)
+    const option = rows.find(row => row.name === from)
+    // Renaming onto an existing name merges the two
+    if (rows.some(row => row.name === name)) {
+      if (option) await remove(option.id)
+    } else if (option) {
+      await update(option.id, { name })
+    } else {
+      await create({ kind, name, position: nextOptionPosition(rows, kind) })
+    }
+    await Promise.all([
+      ...todos.filter(todo => todo[kind] === from).map(todo => updateTodo(todo.id, { [kind]: name })),
+      ...assignments
+        .filter(assignment => assignment[kind] === from)
+        .map(assignment => updateAssignment(assignment.id, { [kind]: name })),
+    ])
+  }, [rowsOf, create, update, remove, todos, assignments, updateTodo, updateAssignment])
+
+  return {
+    typeOptions,
+    statusOptions,
+    loading,
+    addOption,
+    removeOption,
+    renameOption,
+  }
+}
@@ -0,0 +1,62 @@
+import { useCallback } from 'react'
+import { useTodos } from './useTodos'
+import { useAssignments } from './useAssignments'
+import { useRecurrenceExceptions } from './useRecurrenceExceptions'
+import { useUserSettings } from './useUserSettings'
+import { useReminderScheduler, type ScheduledNotification } from './useReminderScheduler'
+import {
+  describeDigest, describeDue, getDueDigest, getTaskReminders, taskLabel,
+} from '../lib/taskReminders'
+import { getZonedDateKey, zonedTimeToUtc } from '../lib/timezone'
+
+const SNOOZE_MINUTES = 60
+
+/** Schedules due-date reminders and the daily digest for todos and assignments. */
+export function useTaskReminders() {
+  const { todos, refetch: refetchTodos } = useTodos()
+  const { assignments, refetch: refetchAssignments } = useAssignments()
+  const { exceptions, refetch: refetchExceptions } = useRecurrenceExceptions()
+  const { displayTimeZone, taskReminderSettings } = useUserSettings()
+
+  const getNotifications = useCallback((from: Date, to: Date): ScheduledNotification[] => {
+    const notifications: ScheduledNotification[] = getTaskReminders(
+      todos, assignments, exceptions, from, to, taskReminderSettings, displayTimeZone
+    ).map(reminder => ({
+      key: `task:${reminder.key}`,
+      fireAt: reminder.fireAt,
+      expiresAt: reminder.expiresAt,
+      title: taskLabel(reminder),
+      body: describeDue(reminder.dueDate, getZonedDateKey(new Date(reminder.fireAt), displayTimeZone)),
+      url: '/tasks',
+      snoozeMinutes: SNOOZE_MINUTES,
+    }))
+
+    if (taskReminderSettings.digest) {
+      // Built fresh on every check so completed items drop out before it fires
+      const today = getZonedDateKey(new Date(), displayTimeZone)
+      const text = describeDigest(getDueDigest(todos, assignments, exceptions, today))
+      if (text) {
+        const [year, month, day] = today.split('-').map(Number)
+        const fireAt = zonedTimeToUtc({ year, month, day, hour: taskReminderSettings.hour, minute: 0, second: 0 }, displayTimeZone)
+        notifications.push({
+          key: `digest:${today}`,
+          fireAt: fireAt.getTime(),
+          expiresAt: zonedTimeToUtc({ year, month, day: day + 1, hour: 0, minute: 0, second: 0 }, displayTimeZone).getTime(),
+          title: text.title,
+          body: text.body,
+          url: '/tasks',
+          snoozeMinutes: SNOOZE_MINUTES,
+        })
+      }
+    }
+    return notifications
+  }, [todos, assignments, exceptions, taskReminderSettings, displayTimeZone])
+
+  const refresh = useCallback(() => {
+    void refetchTodos()
+    void refetchAssignments()
+    void refetchExceptions()
+  }, [refetchTodos, refetchAssignments, refetchExceptions])
+
+  useReminderScheduler(getNotifications, refresh)
+}
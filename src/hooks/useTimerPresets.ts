@@ -0,0 +1,43 @@
+import { useCallback } from 'react'
+import type { TimerPreset, TimerPresetInsert } from '../types/database'
+import type { AutoStart, TimerPhase } from '../lib/timerPresets'
+import { useSupabaseTable } from './useSupabaseTable'
+
+/** Named Pomodoro sequences, in the order they were added. */
+export function useTimerPresets() {
+  const { rows: presets, loading, create, update, remove } =
+    useSupabaseTable<TimerPreset, TimerPresetInsert>('timer_presets', 'position')
+
+  const createPreset = useCallback(async (name: string, phases: TimerPhase[]) => {
+    const position = presets.reduce((max, preset) => Math.max(max, (preset.position ?? 0) + 1), 0)
+    return create({
+      name: name.trim(),
+      phases,
+      position,
+      auto_start_breaks: false,
+      auto_start_focus: false,
+      auto_start_delay_seconds: 0,
+    })
+  }, [presets, create])
+
+  const updatePreset = useCallback(async (id: string, updates: { name?: string; phases?: TimerPhase[] }) => {
+    await update(id, updates)
+  }, [update])
+
+  const setPresetAutoStart = useCallback(async (id: string, autoStart: AutoStart) => {
+    await update(id, {
+      auto_start_breaks: autoStart.breaks,
+      auto_start_focus: autoStart.focus,
+      auto_start_delay_seconds: autoStart.delaySeconds,
+    })
+  }, [update])
+
+  return {
+    presets,
+    loading,
+    createPreset,
+    updatePreset,
+    setPresetAutoStart,
+    deletePreset: remove,
+  }
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  HEARTBEAT_MS, TIMER_OWNER_KEY, holdLease, leaseOwner, openTabChannel, readLease, releaseLease,
+  type TabChannel, type TimerCommand,
+} from '../lib/timerTabs'
+
+interface TimerTabsOptions<State> {
+  /** Whether this tab has a session going, and so owns it */
+  active: boolean
+  /** What other tabs show while this one owns the session */
+  state: State
+  onCommand: (command: TimerCommand) => void
+  /** Runs while this tab owns the session, e.g. to keep its snapshot fresh */
+  onHeartbeat: () => void
+  /** This tab now holds the lease of an owner that went away; true if it picked the session up */
+  onTakeOver: () => boolean
+  /** Another tab took the session over while this one couldn't renew its lease; drop it here without ending it */
+  onLoseLease: () => void
+}
+
+/**
+ * Coordinates the focus timer across tabs (see lib/timerTabs). Returns the
+ * state of another tab's session while there is one, how to send that tab a
+ * command, and how to claim ownership before starting a session here.
+ */
+export function useTimerTabs<State>({
+  active, state, onCommand, onHeartbeat, onTakeOver, onLoseLease,
+}: TimerTabsOptions<State>) {
+  const [tabId] = useState(() => crypto.randomUUID())
+  const [mirror, setMirror] = useState<State | null>(null)
+  const channelRef = useRef<TabChannel<State> | null>(null)
+  const ownerRef = useRef<string | null>(null)
+  const activeRef = useRef(active)
+  const stateRef = useRef(state)
+  const callbacksRef = useRef({ onCommand, onHeartbeat, onTakeOver, onLoseLease })
+
+  useEffect(() => { stateRef.current = state }, [state])
+  useEffect(() => {
+    callbacksRef.current = { onCommand, onHeartbeat, onTakeOver, onLoseLease }
+  }, [onCommand, onHeartbeat, onTakeOver, onLoseLease])
+
+  /** Take over a session whose owner went away, unless another tab gets there first. */
+  const tryTakeOver = useCallback(() => {
+    if (ownerRef.current === null || activeRef.current) return
+    if (leaseOwner(readLease(), Date.now()) !== null) return
+    // Staggered so tabs that noticed at the same moment don't both claim it
+    setTimeout(() => {
+      if (ownerRef.current === null || !holdLease(tabId, Date.now())) return
+      ownerRef.current = null
+      setMirror(null)
+      if (!callbacksRef.current.onTakeOver()) releaseLease(tabId)
+    }, Math.random() * 300)
+  }, [tabId])
+
+  useEffect(() => {
+    const channel = openTabChannel<State>(message => {
+      if (message.type === 'state') {
+        if (activeRef.current) return
+        if (message.state) {
+          ownerRef.current = message.from
+          setMirror(message.state)
+        } else if (message.from === ownerRef.current) {
+          ownerRef.current = null
+          setMirror(null)
+        }
+      } else if (message.type === 'hello') {
+        if (activeRef.current) channelRef.current?.post({ type: 'state', from: tabId, state: stateRef.current })
+      } else if (message.to === tabId && activeRef.current) {
+        callbacksRef.current.onCommand(message.command)
+      }
+    })
+    channelRef.current = channel
+    channel?.post({ type: 'hello', from: tabId })
+
+    // The owner removes its lease when its tab closes
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === TIMER_OWNER_KEY && e.newValue === null) tryTakeOver()
+    }
+    window.addEventListener('storage', onStorage)
+    return () => {
+      window.removeEventListener('storage', onStorage)
+      channel?.close()
+      channelRef.current = null
+    }
+  }, [tabId, tryTakeOver])
+
+  // While mirroring, watch for an owner that vanished without removing its lease
+  useEffect(() => {
+    if (mirror === null) return
+    const interval = setInterval(tryTakeOver, HEARTBEAT_MS)
+    return () => clearInterval(interval)
+  }, [mirror, tryTakeOver])
+
+  // The owner keeps its lease and tells the other tabs when its session ends
+  useEffect(() => {
+    const wasActive = activeRef.current
+    activeRef.current = active
+    if (!active) {
+      if (wasActive) {
+        releaseLease(tabId)
+        channelRef.current?.post({ type: 'state', from: tabId, state: null })
+      }
+      return
+    }
+    ownerRef.current = null
+    let interval: ReturnType<typeof setInterval> | undefined
+    const beat = () => {
+      if (holdLease(tabId, Date.now())) {
+        callbacksRef.current.onHeartbeat()
+        return
+      }
+      // Timers in a background tab can be throttled past the lease, and a tab
+      // that took over in the meantime owns the session now: mirror it instead
+      clearInterval(interval)
+      activeRef.current = false
+      callbacksRef.current.onLoseLease()
+      channelRef.current?.post({ type: 'hello', from: tabId })
+    }
+    beat()
+    if (activeRef.current) interval = setInterval(beat, HEARTBEAT_MS)
+    return () => clearInterval(interval)
+  }, [active, tabId])
+
+  useEffect(() => {
+    if (active) channelRef.current?.post({ type: 'state', from: tabId, state })
+  }, [active, state, tabId])
+
+  /** Claim the session for this tab before starting one; false while another tab owns one. */
+  const claim = useCallback(() => holdLease(tabId, Date.now()), [tabId])
+
+  /** Give up ownership, e.g. as this tab goes away, leaving the session to another. */
+  const release = useCallback(() => releaseLease(tabId), [tabId])
+
+  const forward = useCallback((command: TimerCommand) => {
+    const owner = ownerRef.current
+    if (owner) channelRef.current?.post({ type: 'command', to: owner, command })
+  }, [])
+
+  // A mirror left over from before this tab took a session on is stale
+  return { mirror: active ? null : mirror, forward, claim, release }
+}
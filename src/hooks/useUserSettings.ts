@@ -1,17 +1,15 @@
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from './useAuth'
+import { getLocalTimeZone, isValidTimeZone } from '../lib/timezone'
+import type { TaskReminderOptions } from '../lib/taskReminders'
+import type { StudyPlanSettings } from '../lib/studyPlan'
+import type { AutoStart, PomodoroSettings } from '../lib/timerPresets'
+import { DEFAULT_PACING_SETTINGS, type PacingSettings, type TimeUnit } from '../lib/pacer'
 import type { UserSettings } from '../types/database'
 
 export type TimerMode = 'stopwatch' | 'pomodoro' | 'pacing'
 
-export interface PomodoroSettings {
-  focusMinutes: number
-  shortBreakMinutes: number
-  longBreakMinutes: number
-  cycles: number
-}
-
 const DEFAULTS: PomodoroSettings & { timerMode: TimerMode } = {
   timerMode: 'stopwatch',
   focusMinutes: 25,
@@ -20,6 +18,24 @@ const DEFAULTS: PomodoroSettings & { timerMode: TimerMode } = {
   cycles: 4,
 }
 
+const DEFAULT_AUTO_START: AutoStart = {
+  breaks: false,
+  focus: false,
+  delaySeconds: 0,
+}
+
+const DEFAULT_TASK_REMINDERS: TaskReminderOptions = {
+  daysBefore: [1],
+  hour: 8,
+  digest: true,
+}
+
+const DEFAULT_STUDY_PLAN: StudyPlanSettings = {
+  sleepStartHour: 23,
+  sleepEndHour: 7,
+  maxMinutesPerDay: 240,
+}
+
 const DEFAULT_SETTINGS: UserSettings = {
   id: '',
   user_id: '',
@@ -28,6 +44,21 @@ const DEFAULT_SETTINGS: UserSettings = {
   pomodoro_short_break_minutes: DEFAULTS.shortBreakMinutes,
   pomodoro_long_break_minutes: DEFAULTS.longBreakMinutes,
   pomodoro_cycles: DEFAULTS.cycles,
+  pomodoro_auto_start_breaks: DEFAULT_AUTO_START.breaks,
+  pomodoro_auto_start_focus: DEFAULT_AUTO_START.focus,
+  pomodoro_auto_start_delay_seconds: DEFAULT_AUTO_START.delaySeconds,
+  display_time_zone: null,
+  task_reminder_days: DEFAULT_TASK_REMINDERS.daysBefore,
+  task_reminder_hour: DEFAULT_TASK_REMINDERS.hour,
+  task_digest_enabled: DEFAULT_TASK_REMINDERS.digest,
+  sleep_start_hour: DEFAULT_STUDY_PLAN.sleepStartHour,
+  sleep_end_hour: DEFAULT_STUDY_PLAN.sleepEndHour,
+  max_study_minutes_per_day: DEFAULT_STUDY_PLAN.maxMinutesPerDay,
+  timer_preset_id: null,
+  pacing_time_per_question: DEFAULT_PACING_SETTINGS.timePerQuestion,
+  pacing_time_unit: DEFAULT_PACING_SETTINGS.timeUnit,
+  pacing_question_count: DEFAULT_PACING_SETTINGS.questionCount,
+  pacing_shortcut_key: DEFAULT_PACING_SETTINGS.shortcutKey,
   created_at: '',
 }
 
@@ -37,77 +68,163 @@ type SettingsPartial = Partial<{
   pomodoro_short_break_minutes: number
   pomodoro_long_break_minutes: number
   pomodoro_cycles: number
+  pomodoro_auto_start_breaks: boolean
+  pomodoro_auto_start_focus: boolean
+  pomodoro_auto_start_delay_seconds: number
+  display_time_zone: string | null
+  task_reminder_days: number[]
+  task_reminder_hour: number
+  task_digest_enabled: boolean
+  sleep_start_hour: number
+  sleep_end_hour: number
+  max_study_minutes_per_day: number
+  timer_preset_id: string | null
+  pacing_time_per_question: number
+  pacing_time_unit: string
+  pacing_question_count: number
+  pacing_shortcut_key: string
 }>
 
+// Each consumer holds its own copy; updates are broadcast so they stay in step
+const settingsListeners = new Set<(partial: SettingsPartial) => void>()
+
+// The row is loaded, and created the first time, once per user and shared by
+// every consumer, so the many mounted at once don't each select and race to
+// insert defaults. `row` follows later updates for consumers that mount after.
+interface SharedSettings {
+  userId: string
+  load: Promise<UserSettings | null>
+  row: UserSettings | null
+}
+let shared: SharedSettings | null = null
+// Changes made before the row is known, written once it is
+const pendingChanges: SettingsPartial = {}
+
+function insertPayload(userId: string, pending: SettingsPartial) {
+  return {
+    user_id: userId,
+    timer_mode: (pending.timer_mode as string) ?? DEFAULTS.timerMode,
+    pomodoro_focus_minutes: pending.pomodoro_focus_minutes ?? DEFAULTS.focusMinutes,
+    pomodoro_short_break_minutes: pending.pomodoro_short_break_minutes ?? DEFAULTS.shortBreakMinutes,
+    pomodoro_long_break_minutes: pending.pomodoro_long_break_minutes ?? DEFAULTS.longBreakMinutes,
+    pomodoro_cycles: pending.pomodoro_cycles ?? DEFAULTS.cycles,
+    pomodoro_auto_start_breaks: pending.pomodoro_auto_start_breaks ?? DEFAULT_AUTO_START.breaks,
+    pomodoro_auto_start_focus: pending.pomodoro_auto_start_focus ?? DEFAULT_AUTO_START.focus,
+    pomodoro_auto_start_delay_seconds:
+      pending.pomodoro_auto_start_delay_seconds ?? DEFAULT_AUTO_START.delaySeconds,
+    display_time_zone: pending.display_time_zone ?? null,
+    task_reminder_days: pending.task_reminder_days ?? DEFAULT_TASK_REMINDERS.daysBefore,
+    task_reminder_hour: pending.task_reminder_hour ?? DEFAULT_TASK_REMINDERS.hour,
+    task_digest_enabled: pending.task_digest_enabled ?? DEFAULT_TASK_REMINDERS.digest,
+    sleep_start_hour: pending.sleep_start_hour ?? DEFAULT_STUDY_PLAN.sleepStartHour,
+    sleep_end_hour: pending.sleep_end_hour ?? DEFAULT_STUDY_PLAN.sleepEndHour,
+    max_study_minutes_per_day: pending.max_study_minutes_per_day ?? DEFAULT_STUDY_PLAN.maxMinutesPerDay,
+    timer_preset_id: pending.timer_preset_id ?? null,
+    pacing_time_per_question: pending.pacing_time_per_question ?? DEFAULT_PACING_SETTINGS.timePerQuestion,
+    pacing_time_unit: pending.pacing_time_unit ?? DEFAULT_PACING_SETTINGS.timeUnit,
+    pacing_question_count: pending.pacing_question_count ?? DEFAULT_PACING_SETTINGS.questionCount,
+    pacing_shortcut_key: pending.pacing_shortcut_key ?? DEFAULT_PACING_SETTINGS.shortcutKey,
+  }
+}
+
+/** Drop the pending changes in `written`, keeping any changed again since. */
+function clearWritten(written: SettingsPartial) {
+  for (const key of Object.keys(written) as (keyof SettingsPartial)[]) {
+    if (pendingChanges[key] === written[key]) delete pendingChanges[key]
+  }
+}
+
+async function fetchSettings(entry: SharedSettings): Promise<UserSettings | null> {
+  const select = () => supabase
+    .from('user_settings')
+    .select()
+    .eq('user_id', entry.userId)
+    .maybeSingle()
+
+  let { data } = await select()
+  if (!data) {
+    // No row yet -- insert defaults merged with any pending changes
+    const pending = { ...pendingChanges }
+    const { data: inserted } = await supabase
+      .from('user_settings')
+      .insert(insertPayload(entry.userId, pending))
+      .select()
+      .maybeSingle()
+    if (inserted) clearWritten(pending)
+    // Without a row of its own, another device may have created it first
+    data = inserted ?? (await select()).data
+  }
+  if (!data) return null
+
+  // Merge any changes the user made while the DB was loading
+  entry.row = { ...data, ...pendingChanges }
+  const pending = { ...pendingChanges }
+  if (Object.keys(pending).length > 0) {
+    const { error } = await supabase.from('user_settings').update(pending).eq('id', data.id)
+    if (!error) clearWritten(pending)
+  }
+  return entry.row
+}
+
+function startLoad(userId: string): SharedSettings {
+  const entry: SharedSettings = { userId, load: Promise.resolve(null), row: null }
+  entry.load = fetchSettings(entry).then(row => {
+    // Let the next consumer try again rather than keep a failed load
+    if (!row && shared === entry) shared = null
+    return row
+  })
+  return entry
+}
+
+/** The user's settings row, with any updates made since it loaded. */
+function loadSettings(userId: string): Promise<UserSettings | null> {
+  const entry = shared?.userId === userId ? shared : (shared = startLoad(userId))
+  return entry.load.then(() => entry.row)
+}
+
 export function useUserSettings() {
   const { user } = useAuth()
-  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS)
+  const userId = user?.id ?? null
+  const [settings, setSettings] = useState<UserSettings>(() =>
+    (shared?.userId === userId && shared.row) || DEFAULT_SETTINGS
+  )
   const [loading, setLoading] = useState(true)
-  // Queue changes made before the DB row is known so they can be persisted
-  const pendingChanges = useRef<SettingsPartial>({})
 
   useEffect(() => {
     let cancelled = false
     async function load() {
       if (!user) { setLoading(false); return }
-
-      const { data } = await supabase
-        .from('user_settings')
-        .select()
-        .eq('user_id', user.id)
-        .maybeSingle()
-
-      if (!data) {
-        // No row yet -- insert defaults merged with any pending changes
-        const pending = pendingChanges.current
-        const insertPayload = {
-          user_id: user.id,
-          timer_mode: (pending.timer_mode as string) ?? DEFAULTS.timerMode,
-          pomodoro_focus_minutes: pending.pomodoro_focus_minutes ?? DEFAULTS.focusMinutes,
-          pomodoro_short_break_minutes: pending.pomodoro_short_break_minutes ?? DEFAULTS.shortBreakMinutes,
-          pomodoro_long_break_minutes: pending.pomodoro_long_break_minutes ?? DEFAULTS.longBreakMinutes,
-          pomodoro_cycles: pending.pomodoro_cycles ?? DEFAULTS.cycles,
-        }
-        const { data: inserted } = await supabase
-          .from('user_settings')
-          .insert(insertPayload)
-          .select()
-          .maybeSingle()
-        if (!cancelled && inserted) setSettings(inserted)
-        pendingChanges.current = {}
-      } else if (!cancelled) {
-        const pending = pendingChanges.current
-        const hasPending = Object.keys(pending).length > 0
-        // Merge any changes the user made while the DB was loading
-        const merged = hasPending ? { ...data, ...pending } : data
-        setSettings(merged)
-        if (hasPending) {
-          supabase.from('user_settings').update(pending).eq('id', data.id)
-          pendingChanges.current = {}
-        }
-      }
-      if (!cancelled) setLoading(false)
+      const row = await loadSettings(user.id)
+      if (cancelled) return
+      if (row) setSettings(row)
+      setLoading(false)
     }
     load()
     return () => { cancelled = true }
   }, [user?.id])
 
-  const settingsId = settings.id || null
+  useEffect(() => {
+    const listener = (partial: SettingsPartial) => setSettings(prev => ({ ...prev, ...partial }))
+    settingsListeners.add(listener)
+    return () => { settingsListeners.delete(listener) }
+  }, [])
 
   const updateSettings = useCallback(async (partial: SettingsPartial) => {
     // Optimistic update — always works since settings is never null
-    setSettings(prev => ({ ...prev, ...partial }))
+    for (const listener of settingsListeners) listener(partial)
 
-    if (settingsId) {
+    const entry = shared?.userId === userId ? shared : null
+    if (entry?.row) {
+      entry.row = { ...entry.row, ...partial }
       await supabase
         .from('user_settings')
         .update(partial)
-        .eq('id', settingsId)
+        .eq('id', entry.row.id)
     } else {
       // DB row not loaded yet — queue for persistence
-      Object.assign(pendingChanges.current, partial)
+      Object.assign(pendingChanges, partial)
     }
-  }, [settingsId])
+  }, [userId])
 
   const timerMode: TimerMode = (settings.timer_mode as TimerMode) || DEFAULTS.timerMode
   const pomodoroSettings: PomodoroSettings = useMemo(() => ({
@@ -122,5 +239,56 @@ export function useUserSettings() {
     settings.pomodoro_cycles,
   ])
 
-  return { settings, loading, timerMode, pomodoroSettings, updateSettings }
+  // Auto-start for the classic sequence; named presets carry their own
+  const pomodoroAutoStart: AutoStart = useMemo(() => ({
+    breaks: settings.pomodoro_auto_start_breaks ?? DEFAULT_AUTO_START.breaks,
+    focus: settings.pomodoro_auto_start_focus ?? DEFAULT_AUTO_START.focus,
+    delaySeconds: settings.pomodoro_auto_start_delay_seconds ?? DEFAULT_AUTO_START.delaySeconds,
+  }), [
+    settings.pomodoro_auto_start_breaks,
+    settings.pomodoro_auto_start_focus,
+    settings.pomodoro_auto_start_delay_seconds,
+  ])
+
+  // null follows the browser, so the calendar moves with a travelling student
+  const displayTimeZone = isValidTimeZone(settings.display_time_zone)
+    ? settings.display_time_zone
+    : getLocalTimeZone()
+
+  const taskReminderSettings: TaskReminderOptions = useMemo(() => ({
+    daysBefore: settings.task_reminder_days ?? DEFAULT_TASK_REMINDERS.daysBefore,
+    hour: settings.task_reminder_hour ?? DEFAULT_TASK_REMINDERS.hour,
+    digest: settings.task_digest_enabled ?? DEFAULT_TASK_REMINDERS.digest,
+  }), [settings.task_reminder_days, settings.task_reminder_hour, settings.task_digest_enabled])
+
+  const studyPlanSettings: StudyPlanSettings = useMemo(() => ({
+    sleepStartHour: settings.sleep_start_hour ?? DEFAULT_STUDY_PLAN.sleepStartHour,
+    sleepEndHour: settings.sleep_end_hour ?? DEFAULT_STUDY_PLAN.sleepEndHour,
+    maxMinutesPerDay: settings.max_study_minutes_per_day ?? DEFAULT_STUDY_PLAN.maxMinutesPerDay,
+  }), [settings.sleep_start_hour, settings.sleep_end_hour, settings.max_study_minutes_per_day])
+
+  const pacingSettings: PacingSettings = useMemo(() => ({
+    timePerQuestion: settings.pacing_time_per_question ?? DEFAULT_PACING_SETTINGS.timePerQuestion,
+    timeUnit: (settings.pacing_time_unit as TimeUnit) || DEFAULT_PACING_SETTINGS.timeUnit,
+    questionCount: settings.pacing_question_count ?? DEFAULT_PACING_SETTINGS.questionCount,
+    shortcutKey: settings.pacing_shortcut_key || DEFAULT_PACING_SETTINGS.shortcutKey,
+  }), [
+    settings.pacing_time_per_question,
+    settings.pacing_time_unit,
+    settings.pacing_question_count,
+    settings.pacing_shortcut_key,
+  ])
+
+  return {
+    settings,
+    loading,
+    timerMode,
+    pomodoroSettings,
+    pomodoroAutoStart,
+    displayTimeZone,
+    taskReminderSettings,
+    studyPlanSettings,
+    pacingSettings,
+    updateSettings,
+  }
 }
@@ -0,0 +1,87 @@
+import { addDays, format, parseISO } from 'date-fns'
+import type { CalendarEvent } from '../types/database'
+import { getWallTime, isValidTimeZone, toZonedDate, zonedTimeToUtc } from './timezone'
+
+// All-day events are stored as UTC midnights with an exclusive end, like
+// iCalendar's VALUE=DATE: a Mon–Wed conference is 2026-03-02T00:00Z → 2026-03-05T00:00Z.
+// Their calendar dates are read straight off the ISO string, so they land on
+// the same days regardless of the viewer's time zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type EventTimes = Pick<CalendarEvent, 'start_time' | 'end_time' | 'all_day'> & { time_zone?: string | null }
+
+/** UTC-midnight timestamp for an all-day date ("yyyy-MM-dd"). */
+export function allDayToISO(date: string): string {
+  return `${date}T00:00:00.000Z`
+}
+
+/** Whether an event belongs in the all-day banner rather than the hour grid. */
+export function isBannerEvent(event: EventTimes): boolean {
+  if (event.all_day) return true
+  return new Date(event.end_time).getTime() - new Date(event.start_time).getTime() >= DAY_MS
+}
+
+/**
+ * First and last (inclusive) calendar dates an event covers, as "yyyy-MM-dd".
+ * Timed events are read in `timeZone`, or the browser's zone when omitted.
+ */
+export function getEventDateSpan(event: EventTimes, timeZone?: string): { startDate: string; endDate: string } {
+  if (event.all_day) {
+    const startDate = event.start_time.slice(0, 10)
+    const lastDay = addDays(parseISO(event.end_time.slice(0, 10)), -1)
+    const endDate = format(lastDay, 'yyyy-MM-dd')
+    return { startDate, endDate: endDate < startDate ? startDate : endDate }
+  }
+  const start = new Date(event.start_time)
+  // An event ending exactly at midnight does not spill into the next day
+  const end = new Date(Math.max(start.getTime(), new Date(event.end_time).getTime() - 1))
+  const local = (date: Date) => timeZone ? toZonedDate(date, timeZone) : date
+  return { startDate: format(local(start), 'yyyy-MM-dd'), endDate: format(local(end), 'yyyy-MM-dd') }
+}
+
+/** Every calendar date an event covers, as "yyyy-MM-dd". */
+export function getEventDates(event: EventTimes, timeZone?: string): string[] {
+  const { startDate, endDate } = getEventDateSpan(event, timeZone)
+  const dates: string[] = []
+  for (let day = parseISO(startDate); format(day, 'yyyy-MM-dd') <= endDate; day = addDays(day, 1)) {
+    dates.push(format(day, 'yyyy-MM-dd'))
+  }
+  return dates
+}
+
+/**
+ * Start/end of a recurring event's occurrence on `occurrenceDate`, keeping the
+ * series' wall-clock start time (or all-day-ness) and duration. Events with a
+ * time zone keep their wall time in that zone, so a 9am lecture stays at 9am
+ * across DST; older events without one use the browser's zone.
+ */
+export function getOccurrenceTimes(event: EventTimes, occurrenceDate: string): { start_time: string; end_time: string } {
+  const durationMs = new Date(event.end_time).getTime() - new Date(event.start_time).getTime()
+  let start: Date
+  if (event.all_day) {
+    start = new Date(allDayToISO(occurrenceDate))
+  } else if (isValidTimeZone(event.time_zone)) {
+    const wall = getWallTime(new Date(event.start_time), event.time_zone)
+    const [year, month, day] = occurrenceDate.split('-').map(Number)
+    start = zonedTimeToUtc({ ...wall, year, month, day }, event.time_zone)
+  } else {
+    const original = parseISO(event.start_time)
+    start = parseISO(occurrenceDate)
+    start.setHours(original.getHours(), original.getMinutes(), original.getSeconds())
+  }
+  return {
+    start_time: start.toISOString(),
+    end_time: new Date(start.getTime() + durationMs).toISOString(),
+  }
+}
+
+/** Longest span, in whole days, of any event; used to widen expansion windows. */
+export function getMaxEventSpanDays(events: EventTimes[]): number {
+  let max = 0
+  for (const event of events) {
+    const ms = new Date(event.end_time).getTime() - new Date(event.start_time).getTime()
+    max = Math.max(max, Math.ceil(ms / DAY_MS))
+  }
+  return max
+}
@@ -0,0 +1,261 @@
+import { z } from 'zod'
+import type { Database } from '../types/database'
+import {
+  EXCEPTION_PARENTS, USER_TABLES, emptyUserData, remapIds, remapUserData, type UserData, type UserTable,
+} from './userData'
+import type { BulkMutation } from './userDataSync'
+import { PACING_SETTINGS_KEY } from './pacer'
+
+// Versioned JSON archive of everything a user owns: every table plus any
+// preferences that only live in localStorage. Restoring validates the file,
+// gives rows fresh ids and either merges them into the account or replaces it.
+
+export const BACKUP_FORMAT = 'muffin-time-backup'
+export const BACKUP_VERSION = 1
+
+// localStorage entries that hold the user's own data rather than device state.
+// Only guests still have pacing settings there; an account moves them into user_settings.
+export const LOCAL_BACKUP_KEYS: string[] = [PACING_SETTINGS_KEY]
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupError'
+  }
+}
+
+const id = z.string().min(1)
+const nullableString = z.string().nullable()
+
+// Only the columns restore depends on are checked; the rest pass through
+const TABLE_SCHEMAS = {
+  courses: z.looseObject({ id, name: z.string(), color: z.string() }),
+  calendars: z.looseObject({ id, name: z.string(), color: z.string() }),
+  events: z.looseObject({ id, calendar_id: id, title: z.string(), start_time: z.string(), end_time: z.string() }),
+  subjects: z.looseObject({ id, name: z.string(), color: z.string() }),
+  focus_sessions: z.looseObject({ id, subject_id: id, start_time: z.string(), end_time: nullableString }),
+  focus_session_segments: z.looseObject({
+    id, session_id: id, kind: z.string(), start_time: z.string(), end_time: nullableString,
+  }),
+  todos: z.looseObject({ id, title: z.string(), due_date: nullableString }),
+  assignments: z.looseObject({ id, title: z.string(), due_date: z.string() }),
+  user_settings: z.looseObject({ id }),
+  task_options: z.looseObject({ id, kind: z.string(), name: z.string() }),
+  timer_presets: z.looseObject({ id, name: z.string(), phases: z.array(z.unknown()) }),
+  pacer_runs: z.looseObject({
+    id, session_id: id, questions: z.array(z.unknown()), start_time: z.string(), end_time: nullableString,
+  }),
+  recurrence_exceptions: z.looseObject({
+    id, parent_type: z.string(), parent_id: id, exception_date: z.string(), exception_type: z.string(),
+  }),
+} satisfies Record<keyof Database['public']['Tables'], z.ZodType>
+
+export const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string(),
+  tables: z.object({
+    calendars: z.array(TABLE_SCHEMAS.calendars),
+    events: z.array(TABLE_SCHEMAS.events),
+    subjects: z.array(TABLE_SCHEMAS.subjects),
+    focus_sessions: z.array(TABLE_SCHEMAS.focus_sessions),
+    todos: z.array(TABLE_SCHEMAS.todos),
+    assignments: z.array(TABLE_SCHEMAS.assignments),
+    user_settings: z.array(TABLE_SCHEMAS.user_settings).max(1),
+    recurrence_exceptions: z.array(TABLE_SCHEMAS.recurrence_exceptions),
+    // Added after version 1 shipped; older backups simply don't have them
+    task_options: z.array(TABLE_SCHEMAS.task_options).default([]),
+    courses: z.array(TABLE_SCHEMAS.courses).default([]),
+    timer_presets: z.array(TABLE_SCHEMAS.timer_presets).default([]),
+    focus_session_segments: z.array(TABLE_SCHEMAS.focus_session_segments).default([]),
+    pacer_runs: z.array(TABLE_SCHEMAS.pacer_runs).default([]),
+  }),
+  local: z.record(z.string(), z.unknown()),
+})
+
+export type Backup = z.infer<typeof backupSchema>
+export type RestoreMode = 'merge' | 'replace'
+
+/** Settings columns a restore writes, without the row's identity */
+export type BackupSettings = Omit<Database['public']['Tables']['user_settings']['Update'], 'id' | 'user_id' | 'created_at'>
+
+export interface RestorePlan {
+  mutations: BulkMutation[]
+  /** Settings to write; a merge keeps the current ones */
+  settings: BackupSettings | null
+}
+
+type Row = { id: string } & Record<string, unknown>
+
+export function createBackup(
+  data: UserData,
+  settings: Row | null,
+  local: Record<string, unknown>,
+  now = new Date(),
+): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    tables: { ...data, user_settings: settings ? [settings] : [] } as Backup['tables'],
+    local,
+  }
+}
+
+/** Parse and validate a backup file, with a readable message for the first problem. */
+export function parseBackup(text: string): Backup {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new BackupError('This file is not valid JSON.')
+  }
+  const format = (json as { format?: unknown } | null)?.format
+  if (format !== BACKUP_FORMAT) throw new BackupError('This is not a Muffin Time backup.')
+  const version = (json as { version?: unknown }).version
+  if (typeof version === 'number' && version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of the app.')
+  }
+
+  const result = backupSchema.safeParse(json)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new BackupError(`This backup is damaged (${issue.path.join('.') || 'file'}: ${issue.message}).`)
+  }
+  return result.data
+}
+
+export function backupUserData(backup: Backup): UserData {
+  const data = emptyUserData()
+  for (const table of USER_TABLES) data[table] = backup.tables[table] as Row[]
+  return data
+}
+
+// What a row is apart from its id, so a merge into another account (where
+// every restored row got a new id) still finds the rows an earlier restore
+// added. `ref` gives the account's id for a parent row, if it has that row.
+type RefResolver = (table: UserTable, id: unknown) => string | undefined
+
+const instant = (value: unknown) => new Date(String(value)).getTime()
+
+const NATURAL_KEYS: Record<UserTable, (row: Row, ref: RefResolver) => unknown[] | null> = {
+  task_options: row => [row.kind, row.name],
+  timer_presets: row => [row.name],
+  courses: row => [row.name],
+  calendars: row => [row.name],
+  subjects: row => [row.name],
+  todos: row => [row.title, row.due_date],
+  assignments: row => [row.title, row.due_date],
+  events: row => row.ical_uid ? ['ical', row.ical_uid] : [row.title, instant(row.start_time)],
+  focus_sessions: row => [instant(row.start_time)],
+  focus_session_segments: (row, ref) => {
+    const session = ref('focus_sessions', row.session_id)
+    return session ? [session, row.kind, instant(row.start_time)] : null
+  },
+  pacer_runs: (row, ref) => {
+    const session = ref('focus_sessions', row.session_id)
+    return session ? [session, instant(row.start_time)] : null
+  },
+  recurrence_exceptions: (row, ref) => {
+    const parentTable = EXCEPTION_PARENTS[String(row.parent_type)]
+    const parent = parentTable && ref(parentTable, row.parent_id)
+    return parent ? [row.parent_type, parent, row.exception_date] : null
+  },
+}
+
+/**
+ * The backup's rows the account already has, from their backup id to their
+ * id in the account: the same id, or else the same natural key. Each row of
+ * the account stands in for at most one backup row.
+ */
+function matchExisting(data: UserData, current: UserData): Record<UserTable, Map<string, string>> {
+  const matches = Object.fromEntries(USER_TABLES.map(table => [table, new Map<string, string>()])) as
+    Record<UserTable, Map<string, string>>
+  const fromBackup: RefResolver = (table, id) => matches[table].get(String(id))
+  const fromAccount: RefResolver = (_table, id) => (typeof id === 'string' ? id : undefined)
+
+  for (const table of USER_TABLES) {
+    const keyOf = NATURAL_KEYS[table]
+    const unmatched = new Map(current[table].map(row => [row.id, row]))
+    for (const row of data[table]) {
+      if (unmatched.delete(row.id)) matches[table].set(row.id, row.id)
+    }
+
+    const byKey = new Map<string, string[]>()
+    for (const row of unmatched.values()) {
+      const key = keyOf(row, fromAccount)
+      if (!key) continue
+      const serialized = JSON.stringify(key)
+      byKey.set(serialized, [...byKey.get(serialized) ?? [], row.id])
+    }
+    for (const row of data[table]) {
+      if (matches[table].has(row.id)) continue
+      const key = keyOf(row, fromBackup)
+      const id = key ? byKey.get(JSON.stringify(key))?.shift() : undefined
+      if (id) matches[table].set(row.id, id)
+    }
+  }
+  return matches
+}
+
+/**
+ * Writes that restore `backup` for `userId`. Replace clears every table
+ * first (children before parents) and takes the backup's settings; merge
+ * only adds rows the account doesn't already have, matched by id or by what
+ * they are (see NATURAL_KEYS), so restoring the same backup twice adds
+ * nothing, into any account.
+ */
+export function planRestore(
+  backup: Backup,
+  current: UserData,
+  userId: string,
+  mode: RestoreMode,
+  newId?: () => string,
+): RestorePlan {
+  const data = backupUserData(backup)
+  const existing = mode === 'merge' ? matchExisting(data, current) : {}
+  const ids = remapIds(data, { newId, existing })
+  const rows = remapUserData(data, userId, { existing, ids })
+
+  const deletes: BulkMutation[] = mode === 'replace'
+    ? [...USER_TABLES].reverse().map(table => ({ table, kind: 'delete', match: { user_id: userId } }))
+    : []
+  const inserts: BulkMutation[] = USER_TABLES.flatMap(table =>
+    rows[table].map(values => ({ table, kind: 'insert' as const, values })))
+  return {
+    mutations: [...deletes, ...inserts],
+    settings: mode === 'replace' ? backupSettings(backup, ids.timer_presets) : null,
+  }
+}
+
+/**
+ * Settings columns from the backup, without the row's identity. The chosen
+ * timer preset follows it to its restored id, or is cleared if it wasn't kept.
+ */
+export function backupSettings(backup: Backup, presetIds: Map<string, string>): BackupSettings | null {
+  const row = backup.tables.user_settings[0]
+  if (!row) return null
+  const settings: BackupSettings & Partial<Pick<Row, 'id' | 'user_id' | 'created_at'>> = { ...row }
+  delete settings.id
+  delete settings.user_id
+  delete settings.created_at
+  if (typeof settings.timer_preset_id === 'string') {
+    settings.timer_preset_id = presetIds.get(settings.timer_preset_id) ?? null
+  }
+  return settings
+}
+
+/**
+ * The value to store for a localStorage entry on restore. Merging keeps
+ * what's already set, adding list items and map keys the backup has.
+ */
+export function restoreLocalValue(current: unknown, incoming: unknown, mode: RestoreMode): unknown {
+  if (mode === 'replace' || current === null || current === undefined) return incoming
+  if (Array.isArray(current) && Array.isArray(incoming)) return [...new Set([...current, ...incoming])]
+  if (isPlainObject(current) && isPlainObject(incoming)) return { ...incoming, ...current }
+  return current
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
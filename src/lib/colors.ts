@@ -1,12 +1,10 @@
-import { loadJSON, saveJSON } from './storage'
+import type { SegmentKind } from './sessionSegments'
 
 export const SUBJECT_COLORS = [
   '#4F9CF7', '#F57C4F', '#9B59B6', '#2ECC71',
   '#E74C3C', '#F5E050', '#1ABC9C', '#E91E63',
 ]
 
-const LS_COURSE_COLORS_KEY = 'muffin-course-colors'
-
 export function getStatusColor(status: string | null, completed: boolean): string {
   if (completed || status === 'Completed') return '#2ECC71'
   if (status === 'In Progress') return '#F5E050'
@@ -21,10 +19,8 @@ export function getHeatColor(minutes: number): string {
   return '#C4A0FF'
 }
 
-export function loadCourseColors(): Record<string, string> {
-  return loadJSON<Record<string, string>>(LS_COURSE_COLORS_KEY, {})
-}
-
-export function saveCourseColors(map: Record<string, string>) {
-  saveJSON(LS_COURSE_COLORS_KEY, map)
+export const SEGMENT_COLORS: Record<SegmentKind, string> = {
+  focus: '#F5E050',
+  break: '#C4A0FF',
+  pause: 'rgba(232, 232, 240, 0.2)',
 }
@@ -0,0 +1,97 @@
+import { addDays, format, parseISO } from 'date-fns'
+import type {
+  Assignment, CalendarEvent, Course, CourseInsert, FocusSession, RecurrenceException, TaskOption,
+} from '../types/database'
+import { getMaxEventSpanDays, getOccurrenceTimes } from './allDay'
+import { SUBJECT_COLORS } from './colors'
+import { expandItems, isOccurrenceCompleted, type VirtualOccurrence } from './recurrence'
+
+// A course ties together the assignments due for it, the subjects its focus
+// time is logged under and the calendars holding its lectures, so they share
+// one name and color. Assignments also keep the course name in `course`,
+// which reminders and exports print.
+
+export interface CourseMigration {
+  courses: (CourseInsert & { id: string })[]
+  /** Assignments to point at a course */
+  links: { id: string; course_id: string }[]
+  /** Course rows from task_options, which held courses before this table */
+  optionIds: string[]
+}
+
+/**
+ * Courses to create for names that only exist as task options or as the
+ * free-text course of an assignment, and the assignments to link to them.
+ */
+export function planCourseMigration(
+  courses: Course[],
+  options: TaskOption[],
+  assignments: Assignment[],
+  newId: () => string = () => crypto.randomUUID(),
+): CourseMigration {
+  const ids = new Map(courses.map(course => [course.name, course.id]))
+  const plan: CourseMigration = { courses: [], links: [], optionIds: [] }
+
+  const courseId = (name: string, color: string | null) => {
+    const existing = ids.get(name)
+    if (existing) return existing
+    const id = newId()
+    const index = courses.length + plan.courses.length
+    plan.courses.push({ id, name, color: color ?? SUBJECT_COLORS[index % SUBJECT_COLORS.length] })
+    ids.set(name, id)
+    return id
+  }
+
+  for (const option of options) {
+    if (option.kind !== 'course') continue
+    courseId(option.name, option.color)
+    plan.optionIds.push(option.id)
+  }
+  for (const assignment of assignments) {
+    if (!assignment.course || assignment.course_id) continue
+    plan.links.push({ id: assignment.id, course_id: courseId(assignment.course, null) })
+  }
+  return plan
+}
+
+export function courseFocusSeconds(sessions: FocusSession[], subjectIds: Set<string>): number {
+  return sessions.reduce(
+    (sum, session) => subjectIds.has(session.subject_id) ? sum + (session.duration_seconds ?? 0) : sum,
+    0
+  )
+}
+
+/** Unfinished assignment occurrences of a course due in [from, to), soonest first. */
+export function upcomingAssignments(
+  assignments: Assignment[],
+  exceptions: RecurrenceException[],
+  courseId: string,
+  from: string,
+  to: string,
+): VirtualOccurrence<Assignment>[] {
+  const ofCourse = assignments.filter(assignment => assignment.course_id === courseId)
+  return expandItems(ofCourse, 'due_date', from, to, exceptions)
+    .filter(occ => !isOccurrenceCompleted(occ))
+    .sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate))
+}
+
+/** Events in `calendarIds` that overlap [from, to), with recurring ones expanded, earliest first. */
+export function upcomingLectures(
+  events: CalendarEvent[],
+  exceptions: RecurrenceException[],
+  calendarIds: Set<string>,
+  from: Date,
+  to: Date,
+): CalendarEvent[] {
+  const inCalendars = events.filter(event => calendarIds.has(event.calendar_id))
+  // Reach back far enough to catch multi-day events that started earlier
+  const rangeStart = format(addDays(from, -getMaxEventSpanDays(inCalendars) - 1), 'yyyy-MM-dd')
+  const rangeEnd = format(addDays(to, 1), 'yyyy-MM-dd')
+  return expandItems(
+    inCalendars, 'start_time', rangeStart, rangeEnd, exceptions,
+    event => event.all_day ? null : event.time_zone
+  )
+    .map(occ => occ.isVirtual ? { ...occ.data, ...getOccurrenceTimes(occ.data, occ.occurrenceDate) } : occ.data)
+    .filter(event => parseISO(event.end_time) > from && parseISO(event.start_time) < to)
+    .sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime())
+}
@@ -0,0 +1,62 @@
+import { format, parseISO } from 'date-fns'
+import type { FocusSession, Subject } from '../types/database'
+
+// CSV files for spreadsheets (RFC 4180: CRLF rows, quoted fields). Times are
+// written in the browser's local zone, matching what StatsView shows.
+
+type Cell = string | number | null
+
+const LOCAL_TIME = 'yyyy-MM-dd HH:mm'
+
+function escapeCell(cell: Cell): string {
+  if (cell === null) return ''
+  if (typeof cell === 'number') return String(cell)
+  // Keep spreadsheets from evaluating names like "=SUM(...)" as formulas
+  const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(header: string[], rows: Cell[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function roundMinutes(minutes: number): number {
+  return Math.round(minutes * 10) / 10
+}
+
+/** One row per session, with subject names and local start/end times. */
+export function sessionsCsv(sessions: FocusSession[], subjects: Map<string, Subject>): string {
+  const rows = [...sessions]
+    .sort((a, b) => a.start_time.localeCompare(b.start_time))
+    .map(session => [
+      subjects.get(session.subject_id)?.name ?? 'Unknown',
+      format(parseISO(session.start_time), LOCAL_TIME),
+      session.end_time ? format(parseISO(session.end_time), LOCAL_TIME) : null,
+      roundMinutes((session.duration_seconds ?? 0) / 60),
+    ])
+  return toCsv(['Subject', 'Start', 'End', 'Duration (minutes)'], rows)
+}
+
+export function subjectTotalsCsv(stats: { name: string; seconds: number }[]): string {
+  const total = stats.reduce((sum, stat) => sum + stat.seconds, 0)
+  const rows = stats.map(stat => [
+    stat.name,
+    roundMinutes(stat.seconds / 60),
+    total > 0 ? Math.round((stat.seconds / total) * 1000) / 10 : 0,
+  ])
+  return toCsv(['Subject', 'Minutes', 'Share (%)'], rows)
+}
+
+/** Minutes per day for every day in `days`, including days with no study. */
+export function dailyMinutesCsv(days: Date[], dailyMinutes: Record<string, number>): string {
+  const rows = days.map(day => {
+    const key = format(day, 'yyyy-MM-dd')
+    return [key, roundMinutes(dailyMinutes[key] ?? 0)]
+  })
+  return toCsv(['Date', 'Minutes'], rows)
+}
+
+export function hourlyMinutesCsv(hourlyMinutes: number[]): string {
+  const rows = hourlyMinutes.map((minutes, hour) => [`${String(hour).padStart(2, '0')}:00`, roundMinutes(minutes)])
+  return toCsv(['Hour', 'Minutes'], rows)
+}
@@ -0,0 +1,72 @@
+export interface LayoutItem {
+  id: string
+  start: number
+  end: number
+}
+
+export interface LayoutSlot {
+  /** Lane the item was packed into, 0-based within its cluster. */
+  lane: number
+  /** Number of lanes in the item's overlap cluster. */
+  lanes: number
+  /** Horizontal offset as a fraction of the column width. */
+  left: number
+  /** Width as a fraction of the column width. */
+  width: number
+}
+
+function overlaps(a: LayoutItem, b: LayoutItem): boolean {
+  return a.start < b.end && b.start < a.end
+}
+
+/**
+ * Pack overlapping items side by side, Google Calendar style.
+ *
+ * Items that transitively overlap form a cluster; each item goes into the first
+ * lane whose previous item has ended, and every item in a cluster shares the
+ * cluster's lane count. An item then stretches right over any following lanes
+ * that stay free for its whole duration. Items that touch (end === start) do
+ * not overlap.
+ */
+export function layoutOverlaps(items: LayoutItem[]): Map<string, LayoutSlot> {
+  const sorted = [...items].sort((a, b) =>
+    a.start - b.start || b.end - a.end || a.id.localeCompare(b.id)
+  )
+  const result = new Map<string, LayoutSlot>()
+
+  let cluster: { item: LayoutItem; lane: number }[] = []
+  let laneEnds: number[] = []
+  let clusterEnd = -Infinity
+
+  const flush = () => {
+    const lanes = laneEnds.length
+    for (const { item, lane } of cluster) {
+      let span = 1
+      while (
+        lane + span < lanes &&
+        !cluster.some(other => other.lane === lane + span && overlaps(other.item, item))
+      ) {
+        span++
+      }
+      result.set(item.id, { lane, lanes, left: lane / lanes, width: span / lanes })
+    }
+    cluster = []
+    laneEnds = []
+  }
+
+  for (const item of sorted) {
+    if (item.start >= clusterEnd) flush()
+    let lane = laneEnds.findIndex(end => end <= item.start)
+    if (lane === -1) {
+      lane = laneEnds.length
+      laneEnds.push(item.end)
+    } else {
+      laneEnds[lane] = item.end
+    }
+    cluster.push({ item, lane })
+    clusterEnd = cluster.length === 1 ? item.end : Math.max(clusterEnd, item.end)
+  }
+  flush()
+
+  return result
+}
@@ -11,3 +11,16 @@ export function formatDuration(totalSeconds: number): string {
   if (hours > 0) return `${hours}h ${minutes}m`
   return `${minutes}m`
 }
+
+/** "1m 24s", or "45s" under a minute, for times where seconds matter. */
+export function formatSeconds(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`
+}
+
+/** "9:00 AM" for an hour of the day (0–23). */
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM'
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`
+}
@@ -0,0 +1,329 @@
+import { addDays, format, getDaysInMonth, parseISO } from 'date-fns'
+import type { Assignment, Calendar, CalendarEvent, RecurrenceException, Todo } from '../types/database'
+import { formatRRule, parseRecurrence } from './recurrence'
+import { getOccurrenceTimes } from './allDay'
+import { getTimeZoneOffset, getWallTime, isValidTimeZone, zonedTimeToUtc } from './timezone'
+import { ALL_DAY_REMINDER_HOUR, normalizeReminders } from './reminders'
+
+export type TaskExportFormat = 'vtodo' | 'all-day'
+
+export interface IcsExportInput {
+  calendar: Pick<Calendar, 'name'>
+  events: CalendarEvent[]
+  exceptions: RecurrenceException[]
+  todos?: Todo[]
+  assignments?: Assignment[]
+  taskFormat?: TaskExportFormat
+  now?: Date
+}
+
+const PRODID = '-//Muffin Time//Calendar Export//EN'
+const encoder = new TextEncoder()
+const DAY_MS = 24 * 60 * 60 * 1000
+const BYDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/** Fold a content line to 75 octets per RFC 5545 §3.1, without splitting characters. */
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= 75) return line
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const ch of line) {
+    const bytes = encoder.encode(ch).length
+    const limit = parts.length === 0 ? 75 : 74 // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += ch
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function formatUtc(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '')
+}
+
+/** Local date-time in a zone, for TZID-qualified properties. */
+function formatZoned(iso: string, timeZone: string): string {
+  const wall = getWallTime(new Date(iso), timeZone)
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0')
+  return `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`
+}
+
+/** Zone to export an event's times in, or null to export them in UTC. */
+function exportZone(event: CalendarEvent): string | null {
+  if (event.all_day || !isValidTimeZone(event.time_zone) || event.time_zone === 'UTC') return null
+  return event.time_zone
+}
+
+/** Instant of the occurrence a recurrence exception refers to. */
+function occurrenceInstant(event: CalendarEvent, exceptionDate: string): string {
+  if (isValidTimeZone(event.time_zone)) return getOccurrenceTimes(event, exceptionDate).start_time
+  return `${exceptionDate}${new Date(event.start_time).toISOString().slice(10)}`
+}
+
+/**
+ * `recurrence` as an RRULE, ending with the earlier of its own UNTIL and
+ * `recurrenceUntil`. Timed events end with the until day in `timeZone`.
+ */
+function buildRRule(
+  recurrence: string | null,
+  recurrenceUntil: string | null,
+  allDay: boolean,
+  timeZone = 'UTC',
+): string | null {
+  const rule = parseRecurrence(recurrence)
+  if (!rule) return null
+  const until = [rule.until, recurrenceUntil?.slice(0, 10) || null]
+    .filter((u): u is string => !!u)
+    .sort()[0] ?? null
+  const base = formatRRule({ ...rule, until: null })
+  if (!until) return base
+  // UNTIL must match the value type of DTSTART, and be in UTC for a zoned one
+  if (allDay) return `${base};UNTIL=${formatDate(until)}`
+  const [year, month, day] = until.split('-').map(Number)
+  const end = zonedTimeToUtc({ year, month, day, hour: 23, minute: 59, second: 59 }, timeZone)
+  return `${base};UNTIL=${formatUtc(end.toISOString())}`
+}
+
+function formatOffset(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60000)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${ms < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`
+}
+
+/** Instants in `year` at which the zone's UTC offset changes, to the minute. */
+function offsetChanges(timeZone: string, year: number): { at: number; from: number; to: number }[] {
+  const offsetAt = (t: number) => getTimeZoneOffset(new Date(t), timeZone)
+  const changes: { at: number; from: number; to: number }[] = []
+  const end = Date.UTC(year + 1, 0, 1)
+  for (let t = Date.UTC(year, 0, 1); t < end; t += DAY_MS) {
+    const from = offsetAt(t)
+    const to = offsetAt(t + DAY_MS)
+    if (from === to) continue
+    let before = t
+    let after = t + DAY_MS
+    while (after - before > 60000) {
+      const mid = before + Math.floor((after - before) / 120000) * 60000
+      if (offsetAt(mid) === from) before = mid
+      else after = mid
+    }
+    changes.push({ at: after, from, to })
+  }
+  return changes
+}
+
+/**
+ * A VTIMEZONE for `timeZone`, which RFC 5545 requires for every TZID used.
+ * Its offset changes in the year before `since` become yearly rules (e.g. the
+ * second Sunday of March), which cover the events from then on.
+ */
+function vtimezoneLines(timeZone: string, since: Date): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`]
+  const changes = offsetChanges(timeZone, since.getUTCFullYear() - 1)
+  if (changes.length === 0) {
+    const offset = formatOffset(getTimeZoneOffset(since, timeZone))
+    lines.push(
+      'BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD',
+    )
+  }
+  for (const { at, from, to } of changes) {
+    // Onsets are written in the local time they happen at, before the change
+    const local = new Date(at + from)
+    const day = local.getUTCDate()
+    const ordinal = day + 7 > getDaysInMonth(new Date(local.getUTCFullYear(), local.getUTCMonth())) ? -1 : Math.ceil(day / 7)
+    const kind = to > from ? 'DAYLIGHT' : 'STANDARD'
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtc(local.toISOString()).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${ordinal}${BYDAY_CODES[local.getUTCDay()]}`,
+      `END:${kind}`,
+    )
+  }
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+/**
+ * DTSTART/DTEND-style property for an event time: a DATE for all-day events,
+ * local time with a TZID for zoned events, UTC otherwise.
+ */
+function timeProperty(name: string, iso: string, allDay: boolean, timeZone: string | null = null): string {
+  if (allDay) return `${name};VALUE=DATE:${formatDate(iso)}`
+  if (timeZone) return `${name};TZID=${timeZone}:${formatZoned(iso, timeZone)}`
+  return `${name}:${formatUtc(iso)}`
+}
+
+/** VALARMs for an event's reminders; all-day triggers are shifted to our 9am convention. */
+function alarmLines(event: Pick<CalendarEvent, 'title' | 'all_day' | 'reminders'>): string[] {
+  return normalizeReminders(event.reminders).flatMap(minutesBefore => {
+    const offset = event.all_day ? ALL_DAY_REMINDER_HOUR * 60 - minutesBefore : -minutesBefore
+    return [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:${offset < 0 ? '-' : ''}PT${Math.abs(offset)}M`,
+      'END:VALARM',
+    ]
+  })
+}
+
+function eventLines(event: CalendarEvent, exceptions: RecurrenceException[], dtstamp: string): string[][] {
+  const uid = event.ical_uid || `${event.id}@muffin-time`
+  const allDay = event.all_day
+  const zone = exportZone(event)
+  const rrule = buildRRule(
+    event.recurrence, event.recurrence_until, allDay, isValidTimeZone(event.time_zone) ? event.time_zone : 'UTC'
+  )
+  const own = exceptions.filter(e => e.parent_type === 'event' && e.parent_id === event.id)
+
+  const master = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${dtstamp}`,
+    timeProperty('DTSTART', event.start_time, allDay, zone),
+    timeProperty('DTEND', event.end_time, allDay, zone),
+    `SUMMARY:${escapeText(event.title)}`,
+  ]
+  if (event.description) master.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (rrule) {
+    master.push(`RRULE:${rrule}`)
+    const skipped = own.filter(e => e.exception_type === 'skipped')
+    if (skipped.length > 0) {
+      const instants = skipped.map(e => occurrenceInstant(event, e.exception_date))
+      if (allDay) master.push(`EXDATE;VALUE=DATE:${skipped.map(e => formatDate(e.exception_date)).join(',')}`)
+      else if (zone) master.push(`EXDATE;TZID=${zone}:${instants.map(i => formatZoned(i, zone)).join(',')}`)
+      else master.push(`EXDATE:${instants.map(formatUtc).join(',')}`)
+    }
+  }
+  master.push(...alarmLines(event), 'END:VEVENT')
+
+  const overrides = rrule
+    ? own
+      .filter(e => e.exception_type === 'modified' && e.overrides)
+      .map(e => {
+        const merged = { ...event, ...(e.overrides as Partial<CalendarEvent>) }
+        const lines = [
+          'BEGIN:VEVENT',
+          `UID:${uid}`,
+          `DTSTAMP:${dtstamp}`,
+          allDay
+            ? `RECURRENCE-ID;VALUE=DATE:${formatDate(e.exception_date)}`
+            : timeProperty('RECURRENCE-ID', occurrenceInstant(event, e.exception_date), false, zone),
+          timeProperty('DTSTART', merged.start_time, merged.all_day, zone),
+          timeProperty('DTEND', merged.end_time, merged.all_day, zone),
+          `SUMMARY:${escapeText(merged.title)}`,
+        ]
+        if (merged.description) lines.push(`DESCRIPTION:${escapeText(merged.description)}`)
+        lines.push(...alarmLines(merged), 'END:VEVENT')
+        return lines
+      })
+    : []
+
+  return [master, ...overrides]
+}
+
+function taskLines(
+  item: Todo | Assignment,
+  kind: 'todo' | 'assignment',
+  exceptions: RecurrenceException[],
+  taskFormat: TaskExportFormat,
+  dtstamp: string,
+): string[] | null {
+  if (!item.due_date) return null
+  const uid = `${kind}-${item.id}@muffin-time`
+  const rrule = buildRRule(item.recurrence, item.recurrence_until, true)
+  const course = 'course' in item ? item.course : null
+  const summary = course ? `${course}: ${item.title}` : item.title
+  const skipped = exceptions.filter(
+    e => e.parent_type === kind && e.parent_id === item.id && e.exception_type === 'skipped'
+  )
+
+  const lines = [taskFormat === 'vtodo' ? 'BEGIN:VTODO' : 'BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${dtstamp}`]
+  const nextDay = formatDate(format(addDays(parseISO(item.due_date.slice(0, 10)), 1), 'yyyy-MM-dd'))
+  if (taskFormat === 'vtodo') {
+    // RRULE needs a DTSTART, and DUE must then come after it
+    if (rrule) lines.push(`DTSTART;VALUE=DATE:${formatDate(item.due_date)}`, `DUE;VALUE=DATE:${nextDay}`)
+    else lines.push(`DUE;VALUE=DATE:${formatDate(item.due_date)}`)
+    lines.push(`STATUS:${item.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`)
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(item.due_date)}`,
+      `DTEND;VALUE=DATE:${nextDay}`,
+      'TRANSP:TRANSPARENT',
+    )
+  }
+  lines.push(`SUMMARY:${escapeText(summary)}`)
+  if (item.description) lines.push(`DESCRIPTION:${escapeText(item.description)}`)
+  if (rrule) {
+    lines.push(`RRULE:${rrule}`)
+    if (skipped.length > 0) {
+      lines.push(`EXDATE;VALUE=DATE:${skipped.map(e => formatDate(e.exception_date)).join(',')}`)
+    }
+  }
+  lines.push(taskFormat === 'vtodo' ? 'END:VTODO' : 'END:VEVENT')
+  return lines
+}
+
+/** Serialize a calendar (and optionally tasks) to an iCalendar document. */
+export function serializeIcs({
+  calendar,
+  events,
+  exceptions,
+  todos = [],
+  assignments = [],
+  taskFormat = 'vtodo',
+  now = new Date(),
+}: IcsExportInput): string {
+  const dtstamp = formatUtc(now.toISOString())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ]
+
+  // Each zone a TZID names, from its earliest event
+  const zones = new Map<string, Date>()
+  for (const event of events) {
+    const zone = exportZone(event)
+    if (!zone) continue
+    const start = new Date(event.start_time)
+    const earliest = zones.get(zone)
+    if (!earliest || start < earliest) zones.set(zone, start)
+  }
+  for (const [zone, since] of zones) lines.push(...vtimezoneLines(zone, since))
+
+  for (const event of events) {
+    for (const component of eventLines(event, exceptions, dtstamp)) lines.push(...component)
+  }
+  for (const todo of todos) {
+    lines.push(...(taskLines(todo, 'todo', exceptions, taskFormat, dtstamp) ?? []))
+  }
+  for (const assignment of assignments) {
+    lines.push(...(taskLines(assignment, 'assignment', exceptions, taskFormat, dtstamp) ?? []))
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,302 @@
+import type { CalendarEvent, CalendarEventInsert, RecurrenceExceptionInsert } from '../types/database'
+import { parseRecurrence } from './recurrence'
+import { getZonedDateKey, isValidTimeZone, zonedTimeToUtc } from './timezone'
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+export interface IcsEvent {
+  uid: string
+  title: string
+  description: string | null
+  start: string // ISO instant
+  end: string // ISO instant
+  allDay: boolean
+  timeZone: string | null // IANA zone the event recurs in; null for floating times
+  rrule: string | null
+  exdates: string[] // ISO instants
+  recurrenceId: string | null // ISO instant of the overridden occurrence
+  cancelled: boolean
+}
+
+export interface IcsImportItem {
+  uid: string
+  event: CalendarEventInsert | null // null: only exceptions for an existing series
+  existingId: string | null
+  exceptions: Omit<RecurrenceExceptionInsert, 'parent_id'>[]
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IcsParseError'
+  }
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (ch === '"') inQuotes = !inQuotes
+    else if (ch === ':' && !inQuotes) { colon = i; break }
+  }
+  if (colon < 0) return null
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const eq = param.indexOf('=')
+    if (eq < 0) continue
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '')
+  }
+  return { name: rawName.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch))
+}
+
+/** Resolve an iCalendar DATE or DATE-TIME value to an instant. */
+function parseDateValue(value: string, params: Record<string, string>): { date: Date; allDay: boolean; timeZone: string | null } | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim())
+  if (!m) return null
+  const [, y, mo, d, h, mi, s, utc] = m
+  const wall = {
+    year: +y, month: +mo, day: +d,
+    hour: h ? +h : 0, minute: mi ? +mi : 0, second: s ? +s : 0,
+  }
+
+  if (!h || params.VALUE === 'DATE') {
+    // Dates are stored as UTC midnights, like all-day events (see lib/allDay)
+    return { date: new Date(Date.UTC(wall.year, wall.month - 1, wall.day)), allDay: true, timeZone: null }
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)), allDay: false, timeZone: 'UTC' }
+  }
+  if (isValidTimeZone(params.TZID)) {
+    return { date: zonedTimeToUtc(wall, params.TZID), allDay: false, timeZone: params.TZID }
+  }
+  // Floating time, or a TZID we can't resolve: read as local time
+  return { date: new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second), allDay: false, timeZone: null }
+}
+
+function parseDuration(value: string): number | null {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!m) return null
+  const [, sign, w, d, h, mi, s] = m
+  const seconds = (+(w ?? 0)) * 604800 + (+(d ?? 0)) * 86400 + (+(h ?? 0)) * 3600 + (+(mi ?? 0)) * 60 + (+(s ?? 0))
+  return (sign === '-' ? -seconds : seconds) * 1000
+}
+
+function buildEvent(lines: ContentLine[]): IcsEvent | null {
+  let uid = ''
+  let title = ''
+  let description: string | null = null
+  let location: string | null = null
+  let start: { date: Date; allDay: boolean; timeZone: string | null } | null = null
+  let end: Date | null = null
+  let durationMs: number | null = null
+  let rrule: string | null = null
+  let recurrenceId: string | null = null
+  let cancelled = false
+  const exdates: string[] = []
+
+  for (const line of lines) {
+    switch (line.name) {
+      case 'UID': uid = line.value.trim(); break
+      case 'SUMMARY': title = unescapeText(line.value); break
+      case 'DESCRIPTION': description = unescapeText(line.value); break
+      case 'LOCATION': location = unescapeText(line.value); break
+      case 'DTSTART': start = parseDateValue(line.value, line.params); break
+      case 'DTEND': end = parseDateValue(line.value, line.params)?.date ?? null; break
+      case 'DURATION': durationMs = parseDuration(line.value); break
+      case 'RRULE': rrule = line.value.trim(); break
+      case 'STATUS': cancelled = line.value.trim().toUpperCase() === 'CANCELLED'; break
+      case 'RECURRENCE-ID':
+        recurrenceId = parseDateValue(line.value, line.params)?.date.toISOString() ?? null
+        break
+      case 'EXDATE':
+        for (const value of line.value.split(',')) {
+          const parsed = parseDateValue(value, line.params)
+          if (parsed) exdates.push(parsed.date.toISOString())
+        }
+        break
+    }
+  }
+
+  if (!start) return null
+
+  let endDate: Date
+  if (end) endDate = end
+  else if (durationMs !== null) endDate = new Date(start.date.getTime() + durationMs)
+  else if (start.allDay) endDate = new Date(start.date.getTime() + 24 * 60 * 60 * 1000)
+  else endDate = new Date(start.date)
+
+  if (location) description = description ? `${description}\n\nLocation: ${location}` : `Location: ${location}`
+
+  return {
+    uid: uid || `${title}-${start.date.toISOString()}`,
+    title: title || 'Untitled event',
+    description,
+    start: start.date.toISOString(),
+    end: endDate.toISOString(),
+    allDay: start.allDay,
+    timeZone: start.timeZone,
+    rrule: rrule && parseRecurrence(rrule) ? rrule.replace(/^RRULE:/i, '') : null,
+    exdates,
+    recurrenceId,
+    cancelled,
+  }
+}
+
+/** Parse the VEVENTs of an iCalendar document. Nested components such as VALARM are ignored. */
+export function parseIcs(text: string): IcsEvent[] {
+  const lines = unfoldLines(text)
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new IcsParseError('This file is not an iCalendar (.ics) file.')
+  }
+
+  const events: IcsEvent[] = []
+  let current: ContentLine[] | null = null
+  let nestedDepth = 0
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw)
+    if (!line) continue
+    const value = line.value.trim().toUpperCase()
+
+    if (line.name === 'BEGIN') {
+      if (value === 'VEVENT' && !current) current = []
+      else if (current) nestedDepth++
+      continue
+    }
+    if (line.name === 'END') {
+      if (current && nestedDepth > 0) nestedDepth--
+      else if (current && value === 'VEVENT') {
+        const event = buildEvent(current)
+        if (event) events.push(event)
+        current = null
+      }
+      continue
+    }
+    if (current && nestedDepth === 0) current.push(line)
+  }
+
+  return events
+}
+
+/** Date key used by recurrence expansion for the occurrence starting at `iso`. */
+function occurrenceKey(iso: string, timeZone: string | null | undefined): string {
+  return isValidTimeZone(timeZone) ? getZonedDateKey(iso, timeZone) : iso.slice(0, 10)
+}
+
+/**
+ * Turn parsed VEVENTs into rows for a calendar. Overrides (RECURRENCE-ID) are
+ * folded into their series as exceptions, and events whose UID was imported
+ * into the calendar before are matched so re-importing updates them in place.
+ */
+export function buildIcsImport(
+  parsed: IcsEvent[],
+  existing: CalendarEvent[],
+  calendarId: string,
+): IcsImportItem[] {
+  const existingByUid = new Map(
+    existing
+      .filter(e => e.calendar_id === calendarId && e.ical_uid)
+      .map(e => [e.ical_uid as string, e])
+  )
+  const masters = new Map<string, IcsImportItem>()
+  const items: IcsImportItem[] = []
+
+  const toInsert = (ev: IcsEvent): CalendarEventInsert => ({
+    calendar_id: calendarId,
+    title: ev.title,
+    description: ev.description,
+    start_time: ev.start,
+    end_time: ev.end,
+    all_day: ev.allDay,
+    time_zone: ev.timeZone,
+    recurrence: ev.rrule,
+    recurrence_until: null,
+    ical_uid: ev.uid,
+  })
+
+  for (const ev of parsed) {
+    if (ev.recurrenceId || masters.has(ev.uid)) continue
+    const item: IcsImportItem = {
+      uid: ev.uid,
+      event: toInsert(ev),
+      existingId: existingByUid.get(ev.uid)?.id ?? null,
+      exceptions: ev.rrule
+        ? ev.exdates.map(date => ({
+          parent_type: 'event',
+          exception_date: occurrenceKey(date, ev.timeZone),
+          exception_type: 'skipped',
+        }))
+        : [],
+    }
+    masters.set(ev.uid, item)
+    items.push(item)
+  }
+
+  for (const ev of parsed) {
+    if (!ev.recurrenceId) continue
+    const master = masters.get(ev.uid)
+    const existingMaster = existingByUid.get(ev.uid)
+
+    if (!master?.event?.recurrence && !existingMaster?.recurrence) {
+      // An override without a recurring series to attach to stands on its own
+      if (ev.cancelled) continue
+      items.push({
+        uid: `${ev.uid}:${ev.recurrenceId}`,
+        event: { ...toInsert(ev), ical_uid: `${ev.uid}:${ev.recurrenceId}` },
+        existingId: existingByUid.get(`${ev.uid}:${ev.recurrenceId}`)?.id ?? null,
+        exceptions: [],
+      })
+      continue
+    }
+
+    // Exceptions are keyed by the occurrence date in the series' own zone
+    const seriesZone = master?.event ? master.event.time_zone : existingMaster?.time_zone
+    const exceptionDate = occurrenceKey(ev.recurrenceId, seriesZone)
+    const exception: Omit<RecurrenceExceptionInsert, 'parent_id'> = ev.cancelled
+      ? { parent_type: 'event', exception_date: exceptionDate, exception_type: 'skipped' }
+      : {
+        parent_type: 'event',
+        exception_date: exceptionDate,
+        exception_type: 'modified',
+        overrides: {
+          title: ev.title,
+          description: ev.description,
+          start_time: ev.start,
+          end_time: ev.end,
+          all_day: ev.allDay,
+          time_zone: ev.timeZone,
+        },
+      }
+
+    if (master) {
+      master.exceptions.push(exception)
+    } else {
+      const pending = items.find(item => item.event === null && item.uid === ev.uid)
+      if (pending) pending.exceptions.push(exception)
+      else items.push({ uid: ev.uid, event: null, existingId: existingMaster!.id, exceptions: [exception] })
+    }
+  }
+
+  return items
+}
@@ -0,0 +1,117 @@
+import type { Mutation } from './mutations'
+
+// IndexedDB persistence for table rows and the mutation queue. Browsers
+// without IndexedDB (or with it blocked, as in some private modes) fall back
+// to memory, which keeps the app working but loses offline data on reload.
+
+const DB_NAME = 'muffin-time'
+const DB_VERSION = 1
+const ROWS_STORE = 'rows' // `${scope}:${table}` -> rows
+const QUEUE_STORE = 'mutations' // auto-increment id -> Mutation
+
+const memoryRows = new Map<string, unknown[]>()
+let memoryQueue: Mutation[] = []
+let nextMemoryId = 1
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') { resolve(null); return }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(ROWS_STORE)) db.createObjectStore(ROWS_STORE)
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => resolve(null)
+      request.onblocked = () => resolve(null)
+    } catch {
+      resolve(null)
+    }
+  })
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> {
+  const db = await openDb()
+  if (!db) return undefined
+  try {
+    return await promisify(run(db.transaction(name, mode).objectStore(name)))
+  } catch {
+    return undefined
+  }
+}
+
+export async function loadRows(key: string): Promise<unknown[] | undefined> {
+  const db = await openDb()
+  if (!db) return memoryRows.get(key)
+  return withStore<unknown[] | undefined>(ROWS_STORE, 'readonly', store => store.get(key))
+}
+
+export async function saveRows(key: string, rows: unknown[]): Promise<void> {
+  const db = await openDb()
+  if (!db) { memoryRows.set(key, rows); return }
+  await withStore(ROWS_STORE, 'readwrite', store => store.put(rows, key))
+}
+
+/** Drop every table stored for `scope`, e.g. after migrating guest data. */
+export async function clearRows(scope: string): Promise<void> {
+  const prefix = `${scope}:`
+  const db = await openDb()
+  if (!db) {
+    for (const key of [...memoryRows.keys()]) if (key.startsWith(prefix)) memoryRows.delete(key)
+    return
+  }
+  // Keys sort lexically, so the scope's tables form one contiguous range
+  await withStore(ROWS_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))
+}
+
+export async function enqueueMutation(mutation: Mutation): Promise<Mutation> {
+  const db = await openDb()
+  if (!db) {
+    const stored = { ...mutation, id: nextMemoryId++ }
+    memoryQueue.push(stored)
+    return stored
+  }
+  const id = await withStore(QUEUE_STORE, 'readwrite', store => store.add(mutation))
+  return { ...mutation, id: id as number }
+}
+
+/** Queued mutations for `scope`, oldest first. */
+export async function loadQueue(scope: string): Promise<Mutation[]> {
+  const db = await openDb()
+  const all = db
+    ? (await withStore<Mutation[]>(QUEUE_STORE, 'readonly', store => store.getAll())) ?? []
+    : memoryQueue
+  return all.filter(m => m.scope === scope).sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+}
+
+/** Overwrite a queued mutation, keeping its place in the queue. */
+export async function replaceMutation(mutation: Mutation): Promise<void> {
+  const db = await openDb()
+  if (!db) { memoryQueue = memoryQueue.map(m => m.id === mutation.id ? mutation : m); return }
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(mutation))
+}
+
+export async function removeMutation(id: number): Promise<void> {
+  const db = await openDb()
+  if (!db) { memoryQueue = memoryQueue.filter(m => m.id !== id); return }
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(id))
+}
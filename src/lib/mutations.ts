@@ -0,0 +1,159 @@
+// Writes are recorded as mutations so they can be applied to local rows
+// immediately and replayed against Supabase later, in order, once online.
+
+export type MutationKind = 'insert' | 'update' | 'upsert' | 'delete'
+
+export interface Mutation {
+  id?: number // assigned by the queue, increasing in write order
+  scope: string // id of the user the write belongs to
+  table: string
+  kind: MutationKind
+  /** Full row for insert/upsert (including the local id), changed fields for update */
+  values?: Record<string, unknown>
+  /** Column filter for update/delete, e.g. { id } */
+  match?: Record<string, unknown>
+  /** Unique columns an upsert resolves on */
+  onConflict?: string[]
+  createdAt: number
+}
+
+export type ReplayOutcome = 'applied' | 'retry' | 'conflict' | 'rejected'
+
+type Row = { id: string }
+
+export function matchesRow(row: object, match: Record<string, unknown>): boolean {
+  const record = row as Record<string, unknown>
+  return Object.entries(match).every(([column, value]) => record[column] === value)
+}
+
+function conflictMatch(mutation: Mutation): Record<string, unknown> {
+  const values = mutation.values ?? {}
+  const columns = mutation.onConflict?.length ? mutation.onConflict : ['id']
+  return Object.fromEntries(columns.map(column => [column, values[column]]))
+}
+
+/** Rows after `mutation`, without touching the input array. */
+export function applyMutation<T extends Row>(rows: T[], mutation: Mutation): T[] {
+  const values = mutation.values ?? {}
+  switch (mutation.kind) {
+    case 'insert':
+      return rows.some(row => row.id === values.id) ? rows : [...rows, values as T]
+    case 'update':
+      return rows.map(row => matchesRow(row, mutation.match ?? {}) ? { ...row, ...values } : row)
+    case 'upsert': {
+      const match = conflictMatch(mutation)
+      const index = rows.findIndex(row => matchesRow(row, match))
+      if (index < 0) return [...rows, values as T]
+      const next = [...rows]
+      // Keep the existing id; the server resolves the upsert on the unique columns
+      next[index] = { ...rows[index], ...values, id: rows[index].id }
+      return next
+    }
+    case 'delete':
+      return rows.filter(row => !matchesRow(row, mutation.match ?? {}))
+  }
+}
+
+/** Re-apply still-queued writes for `table` on top of rows fetched from the server. */
+export function applyPending<T extends Row>(rows: T[], table: string, pending: Mutation[]): T[] {
+  return pending.filter(m => m.table === table).reduce(applyMutation, rows)
+}
+
+/**
+ * Put a row the server returned for `mutation` in place of its optimistic
+ * copy: by id for inserts/updates, by the unique columns for upserts (whose
+ * server id may differ from the local one).
+ */
+export function reconcileRow<T extends Row>(rows: T[], mutation: Mutation, serverRow: T): T[] {
+  const match = mutation.kind === 'upsert' ? conflictMatch(mutation) : { id: serverRow.id }
+  const index = rows.findIndex(row => matchesRow(row, match))
+  if (index < 0) return rows
+  const next = [...rows]
+  next[index] = serverRow
+  return next
+}
+
+/**
+ * `mutation` with the `table` row it names by id `from` renamed to `to`, or
+ * null if it doesn't name that row. An upsert that resolves to an existing
+ * server row keeps the server's id, and later writes still use the local one.
+ */
+export function renameRowId(mutation: Mutation, table: string, from: string, to: string): Mutation | null {
+  if (mutation.table !== table) return null
+  const inMatch = mutation.match?.id === from
+  const inValues = mutation.values?.id === from
+  if (!inMatch && !inValues) return null
+  return {
+    ...mutation,
+    match: inMatch ? { ...mutation.match, id: to } : mutation.match,
+    values: inValues ? { ...mutation.values, id: to } : mutation.values,
+  }
+}
+
+interface ReplayError {
+  code?: string
+  message?: string
+}
+
+/**
+ * How to treat a failed replay. Network failures and server hiccups are
+ * retried; a duplicate insert means an earlier replay landed but its
+ * response was lost; anything else is a rejection the server won't accept.
+ */
+export function classifyReplayError(mutation: Mutation, error: ReplayError, status: number): ReplayOutcome {
+  const message = error.message ?? ''
+  if (status === 0 || /failed to fetch|networkerror|load failed|network request failed/i.test(message)) return 'retry'
+  if (status === 408 || status === 429 || status >= 500) return 'retry'
+  if (mutation.kind === 'insert' && error.code === '23505') return 'applied'
+  return 'rejected'
+}
+
+export type RemoteChange<T extends Row> =
+  | { type: 'INSERT' | 'UPDATE'; row: T }
+  | { type: 'DELETE'; id: string }
+
+function sameRow(a: object, b: object): boolean {
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  for (const key of keys) {
+    if (JSON.stringify(left[key]) !== JSON.stringify(right[key])) return false
+  }
+  return true
+}
+
+/**
+ * Merge a change another client (or our own replay) made on the server.
+ * Still-queued writes are re-applied on top so they aren't clobbered, and
+ * echoes of our own optimistic writes leave `rows` untouched.
+ */
+export function applyRemoteChange<T extends Row>(
+  rows: T[],
+  table: string,
+  change: RemoteChange<T>,
+  pending: Mutation[],
+): T[] {
+  const queued = pending.filter(m => m.table === table)
+  let base: T[]
+  if (change.type === 'DELETE') {
+    base = rows.filter(row => row.id !== change.id)
+  } else {
+    const serverRow = change.row
+    // A queued upsert's local row stands in for this server row under a different id
+    const replaced = queued.filter(m => m.kind === 'upsert' && matchesRow(serverRow, conflictMatch(m)))
+    base = rows.filter(row =>
+      row.id === serverRow.id || !replaced.some(m => matchesRow(row, conflictMatch(m))))
+    const index = base.findIndex(row => row.id === serverRow.id)
+    if (index < 0) base.push(serverRow)
+    else base[index] = serverRow
+  }
+  const next = queued.reduce(applyMutation, base)
+
+  if (next.length !== rows.length) return next
+  const byId = new Map(rows.map(row => [row.id, row]))
+  const unchanged = next.every(row => {
+    const current = byId.get(row.id)
+    return current !== undefined && sameRow(current, row)
+  })
+  return unchanged ? rows : next
+}
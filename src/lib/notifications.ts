@@ -26,13 +26,72 @@ export async function requestNotificationPermission(): Promise<boolean> {
   return false
 }
 
-export async function sendNotification(title: string, body?: string) {
+export interface NotifyOptions {
+  /** Replaces an earlier notification with the same tag instead of stacking */
+  tag?: string
+  /** Page to open when the notification is clicked */
+  url?: string
+  /** Offer a "Snooze" action that brings the notification back after this many minutes */
+  snoozeMinutes?: number
+}
+
+// Notification actions aren't in lib.dom yet; only service-worker notifications support them
+type ActionNotificationOptions = NotificationOptions & { actions?: { action: string; title: string }[] }
+
+export async function sendNotification(title: string, body?: string, options: NotifyOptions = {}) {
   if (!('Notification' in window) || Notification.permission !== 'granted') return
 
+  const { tag, url = '/', snoozeMinutes } = options
   const reg = await getSwRegistration()
   if (reg) {
-    reg.showNotification(title, { body, icon: '/favicon.ico' })
+    const swOptions: ActionNotificationOptions = {
+      body,
+      tag,
+      icon: '/favicon.ico',
+      data: { url, snoozeMinutes },
+      actions: snoozeMinutes ? [{ action: 'snooze', title: `Snooze ${formatSnooze(snoozeMinutes)}` }] : undefined,
+    }
+    reg.showNotification(title, swOptions)
   } else {
-    new Notification(title, { body })
+    new Notification(title, { body, tag })
+  }
+}
+
+function formatSnooze(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`
+}
+
+export interface SnoozedNotification {
+  title: string
+  body: string
+  tag: string
+  url: string
+  minutes: number
+}
+
+/**
+ * Listen for "Snooze" clicks, which the service worker forwards to every open
+ * tab. Returns an unsubscribe function.
+ */
+export function onNotificationSnooze(callback: (snoozed: SnoozedNotification) => void): () => void {
+  if (!('serviceWorker' in navigator)) return () => {}
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === 'snooze-notification') callback(event.data as SnoozedNotification)
+  }
+  navigator.serviceWorker.addEventListener('message', handler)
+  return () => navigator.serviceWorker.removeEventListener('message', handler)
+}
+
+/**
+ * Listen for notification clicks that the service worker hands to an already
+ * open tab, with the page the notification links to. Returns an unsubscribe
+ * function.
+ */
+export function onNotificationOpen(callback: (url: string) => void): () => void {
+  if (!('serviceWorker' in navigator)) return () => {}
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === 'open-notification') callback(event.data.url as string)
   }
+  navigator.serviceWorker.addEventListener('message', handler)
+  return () => navigator.serviceWorker.removeEventListener('message', handler)
 }
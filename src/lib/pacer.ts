@@ -0,0 +1,138 @@
+import { parseISO } from 'date-fns'
+import type { PacerRun, UserSettings } from '../types/database'
+import { loadJSON, removeKey, saveJSON } from './storage'
+
+// The question pacer gives each exam question a time budget. Moving on early
+// can roll the time left into the next question; a question whose time runs
+// out moves on by itself and is marked overtime. Each run is saved in
+// `pacer_runs` against its focus session, one entry per finished question.
+
+export type TimeUnit = 'minutes' | 'seconds'
+
+export interface PacingSettings {
+  timePerQuestion: number
+  timeUnit: TimeUnit
+  questionCount: number
+  shortcutKey: string // KeyboardEvent.code, e.g. 'Space'
+}
+
+export interface PacerQuestion {
+  /** Time spent on it, pauses left out */
+  seconds: number
+  /** Its budget: the base time plus any rollover */
+  allowed_seconds: number
+  /** Time carried in from the question before */
+  rollover_seconds: number
+  overtime: boolean
+}
+
+export interface PacerReport {
+  questionCount: number
+  averageSeconds: number
+  overtimeCount: number
+  rolloverCount: number
+  slowest: { runId: string; question: number; seconds: number; start: number }[]
+  /** Average time per question for each run, oldest first */
+  trend: { runId: string; start: number; averageSeconds: number; targetSeconds: number }[]
+}
+
+// Guests keep their settings here, as everyone did before they moved to
+// user_settings; an account takes them over once and removes the key
+export const PACING_SETTINGS_KEY = 'muffin-time:pacing-settings:v1'
+
+export const DEFAULT_PACING_SETTINGS: PacingSettings = {
+  timePerQuestion: 1.4,
+  timeUnit: 'minutes',
+  questionCount: 25,
+  shortcutKey: 'Space',
+}
+
+/** Seconds budget for one question, floored at 1. */
+export function pacingBaseSeconds(s: PacingSettings): number {
+  const seconds = s.timeUnit === 'seconds' ? s.timePerQuestion : s.timePerQuestion * 60
+  return Math.max(1, Math.round(seconds))
+}
+
+/** The columns of user_settings that hold `settings`. */
+export function pacingSettingsColumns(settings: PacingSettings): Pick<
+  UserSettings,
+  'pacing_time_per_question' | 'pacing_time_unit' | 'pacing_question_count' | 'pacing_shortcut_key'
+> {
+  return {
+    pacing_time_per_question: settings.timePerQuestion,
+    pacing_time_unit: settings.timeUnit,
+    pacing_question_count: settings.questionCount,
+    pacing_shortcut_key: settings.shortcutKey,
+  }
+}
+
+/** Settings this browser keeps in localStorage, or null if there are none. */
+export function readLocalPacingSettings(): Partial<PacingSettings> | null {
+  return loadJSON<Partial<PacingSettings> | null>(PACING_SETTINGS_KEY, null)
+}
+
+/** A guest's settings, defaults filling in anything missing. */
+export function loadLocalPacingSettings(): PacingSettings {
+  return { ...DEFAULT_PACING_SETTINGS, ...readLocalPacingSettings() }
+}
+
+export function saveLocalPacingSettings(settings: PacingSettings) {
+  saveJSON(PACING_SETTINGS_KEY, settings)
+}
+
+export function clearLocalPacingSettings() {
+  removeKey(PACING_SETTINGS_KEY)
+}
+
+/** A run's questions with anything malformed dropped (the column is free-form JSON). */
+export function pacerQuestions(run: Pick<PacerRun, 'questions'>): PacerQuestion[] {
+  if (!Array.isArray(run.questions)) return []
+  return run.questions.filter(question =>
+    Number.isFinite(question?.seconds) && Number.isFinite(question.allowed_seconds)
+  ).map(question => ({
+    seconds: question.seconds,
+    allowed_seconds: question.allowed_seconds,
+    rollover_seconds: question.rollover_seconds || 0,
+    overtime: !!question.overtime,
+  }))
+}
+
+/** Timing across `runs`: averages, the `slowestCount` slowest questions and the pace of each run. */
+export function pacerReport(runs: PacerRun[], slowestCount = 5): PacerReport {
+  let total = 0
+  let questionCount = 0
+  let overtimeCount = 0
+  let rolloverCount = 0
+  const all: PacerReport['slowest'] = []
+  const trend: PacerReport['trend'] = []
+
+  const ordered = [...runs].sort((a, b) => a.start_time.localeCompare(b.start_time))
+  for (const run of ordered) {
+    const questions = pacerQuestions(run)
+    if (questions.length === 0) continue
+    const start = parseISO(run.start_time).getTime()
+    const runTotal = questions.reduce((sum, question) => sum + question.seconds, 0)
+    questions.forEach((question, index) => {
+      if (question.overtime) overtimeCount++
+      if (question.rollover_seconds > 0) rolloverCount++
+      all.push({ runId: run.id, question: index + 1, seconds: question.seconds, start })
+    })
+    total += runTotal
+    questionCount += questions.length
+    trend.push({
+      runId: run.id,
+      start,
+      averageSeconds: Math.round(runTotal / questions.length),
+      targetSeconds: run.seconds_per_question,
+    })
+  }
+
+  return {
+    questionCount,
+    averageSeconds: questionCount > 0 ? Math.round(total / questionCount) : 0,
+    overtimeCount,
+    rolloverCount,
+    slowest: all.sort((a, b) => b.seconds - a.seconds).slice(0, slowestCount),
+    trend,
+  }
+}
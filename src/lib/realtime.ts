@@ -0,0 +1,74 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { loadQueue } from './localStore'
+import { applyRemoteChange, type RemoteChange } from './mutations'
+import { refreshTable } from './syncQueue'
+import { getTableRows, setTableRows, tableKey } from './tableCache'
+
+// One postgres_changes channel per (user, table), shared by every hook that
+// shows the table and closed when the last one unmounts. Changes from other
+// devices are merged into the table cache as they arrive.
+//
+// Realtime can't filter DELETE events (without REPLICA IDENTITY FULL their
+// old record holds only the primary key), so deletes are watched unfiltered
+// and kept only when the id is one of the cached rows.
+
+type Row = { id: string }
+
+interface Watch {
+  channel: RealtimeChannel
+  watchers: number
+}
+
+const watches = new Map<string, Watch>()
+
+function toChange(payload: RealtimePostgresChangesPayload<Row>): RemoteChange<Row> | null {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old.id
+    return id ? { type: 'DELETE', id } : null
+  }
+  return { type: payload.eventType, row: payload.new }
+}
+
+async function mergeChange(scope: string, table: string, change: RemoteChange<Row>) {
+  const pending = await loadQueue(scope)
+  setTableRows<Row>(tableKey(scope, table), rows => applyRemoteChange(rows, table, change, pending))
+}
+
+/** Keep `scope`'s copy of `table` live until the returned function is called. */
+export function watchTable(scope: string, table: string): () => void {
+  const key = tableKey(scope, table)
+  let watch = watches.get(key)
+  if (!watch) {
+    let subscribedBefore = false
+    const onChange = (payload: RealtimePostgresChangesPayload<Row>) => {
+      const change = toChange(payload)
+      if (!change) return
+      if (change.type === 'DELETE' && !getTableRows<Row>(key).some(row => row.id === change.id)) return
+      void mergeChange(scope, table, change)
+    }
+    const owned = { schema: 'public', table, filter: `user_id=eq.${scope}` }
+    const channel = supabase
+      .channel(`sync:${key}`)
+      .on<Row>('postgres_changes', { event: 'INSERT', ...owned }, onChange)
+      .on<Row>('postgres_changes', { event: 'UPDATE', ...owned }, onChange)
+      .on<Row>('postgres_changes', { event: 'DELETE', schema: 'public', table }, onChange)
+      .subscribe(state => {
+        if (state !== 'SUBSCRIBED') return
+        // Changes made while the socket was down were never delivered
+        if (subscribedBefore) void refreshTable(scope, table)
+        subscribedBefore = true
+      })
+    watch = { channel, watchers: 0 }
+    watches.set(key, watch)
+  }
+  watch.watchers++
+
+  const current = watch
+  return () => {
+    current.watchers--
+    if (current.watchers > 0) return
+    watches.delete(key)
+    void supabase.removeChannel(current.channel)
+  }
+}
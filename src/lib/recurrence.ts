@@ -1,8 +1,35 @@
-import { addDays, addWeeks, addMonths, format, parseISO } from 'date-fns'
+import {
+  addDays, addWeeks, addMonths, addYears, format, parseISO,
+  startOfWeek, startOfMonth, startOfYear, getDaysInMonth,
+  differenceInCalendarDays, differenceInCalendarWeeks,
+  differenceInCalendarMonths, differenceInCalendarYears,
+} from 'date-fns'
 import type { RecurrenceException } from '../types/database'
+import { getZonedDateKey, isValidTimeZone } from './timezone'
 
-type RecurrenceRule = 'daily' | 'weekly' | 'biweekly' | 'monthly' | null
-export type Recurrence = 'once' | 'daily' | 'weekly' | 'biweekly' | 'monthly'
+/**
+ * A stored recurrence value: 'once', one of the legacy keywords
+ * ('daily' | 'weekly' | 'biweekly' | 'monthly') or an RFC 5545 RRULE
+ * such as "FREQ=WEEKLY;BYDAY=MO,WE,FR".
+ */
+export type Recurrence = string
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface ByDay {
+  weekday: number // 0 = Sunday, matches Date#getDay
+  ordinal: number | null // e.g. 2 = second, -1 = last; null = every
+}
+
+export interface RRule {
+  freq: Frequency
+  interval: number
+  byDay: ByDay[]
+  byMonthDay: number[]
+  bySetPos: number[]
+  count: number | null
+  until: string | null // YYYY-MM-DD, inclusive
+}
 
 export const RECURRENCE_OPTIONS: { value: Recurrence; label: string }[] = [
   { value: 'once', label: 'One time' },
@@ -10,8 +37,26 @@ export const RECURRENCE_OPTIONS: { value: Recurrence; label: string }[] = [
   { value: 'weekly', label: 'Weekly' },
   { value: 'biweekly', label: 'Biweekly' },
   { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom…' },
 ]
 
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const ORDINAL_NAMES: Record<number, string> = {
+  1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last',
+}
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+
+const LEGACY_RULES: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+}
+
+// Safety: cap the number of periods walked per item
+const MAX_PERIODS = 1000
+
 export interface VirtualOccurrence<T> {
   data: T
   occurrenceDate: string // YYYY-MM-DD
@@ -19,45 +64,267 @@ export interface VirtualOccurrence<T> {
   exception: RecurrenceException | null
 }
 
-function advanceDate(date: Date, rule: RecurrenceRule): Date {
-  switch (rule) {
-    case 'daily': return addDays(date, 1)
-    case 'weekly': return addWeeks(date, 1)
-    case 'biweekly': return addWeeks(date, 2)
-    case 'monthly': return addMonths(date, 1)
-    default: return date
+function parseIntList(value: string): number[] {
+  return value.split(',').map(v => parseInt(v, 10)).filter(n => Number.isFinite(n) && n !== 0)
+}
+
+function parseUntil(value: string): string | null {
+  const m = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value)
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null
+}
+
+/** Parse a stored recurrence value. Returns null for one-time or unrecognised values. */
+export function parseRecurrence(value: string | null | undefined): RRule | null {
+  if (!value || value === 'once') return null
+  const source = LEGACY_RULES[value] ?? value.trim().replace(/^RRULE:/i, '')
+
+  const rule: RRule = {
+    freq: 'DAILY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    bySetPos: [],
+    count: null,
+    until: null,
+  }
+  let hasFreq = false
+
+  for (const part of source.split(';')) {
+    const [rawKey, rawValue = ''] = part.split('=')
+    const key = rawKey.trim().toUpperCase()
+    const val = rawValue.trim().toUpperCase()
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as Frequency)) return null
+        rule.freq = val as Frequency
+        hasFreq = true
+        break
+      case 'INTERVAL': {
+        const n = parseInt(val, 10)
+        if (n > 0) rule.interval = n
+        break
+      }
+      case 'BYDAY':
+        for (const token of val.split(',')) {
+          const m = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token.trim())
+          if (!m) continue
+          rule.byDay.push({
+            weekday: WEEKDAY_CODES.indexOf(m[2]),
+            ordinal: m[1] ? parseInt(m[1], 10) || null : null,
+          })
+        }
+        break
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(val).filter(n => Math.abs(n) <= 31)
+        break
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(val)
+        break
+      case 'COUNT': {
+        const n = parseInt(val, 10)
+        if (n > 0) rule.count = n
+        break
+      }
+      case 'UNTIL':
+        rule.until = parseUntil(val)
+        break
+    }
+  }
+
+  return hasFreq ? rule : null
+}
+
+/** Serialize a rule to the RRULE value stored in the `recurrence` columns. */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`)
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`)
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  return parts.join(';')
+}
+
+/** Whether the recurrence value carries its own end (COUNT or UNTIL). */
+export function hasRecurrenceEnd(value: string | null | undefined): boolean {
+  const rule = parseRecurrence(value)
+  return !!rule && (rule.count !== null || rule.until !== null)
+}
+
+function describeByDay(d: ByDay): string {
+  const name = WEEKDAY_NAMES[d.weekday]
+  return d.ordinal ? `the ${ORDINAL_NAMES[d.ordinal] ?? `${d.ordinal}th`} ${name}` : name
+}
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times". */
+export function describeRecurrence(value: string | null | undefined): string {
+  const preset = RECURRENCE_OPTIONS.find(opt => opt.value === (value || 'once'))
+  if (preset && preset.value !== 'custom') return preset.label
+
+  const rule = parseRecurrence(value)
+  if (!rule) return 'One time'
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq]
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map(describeByDay)
+    const setPos = rule.bySetPos.length === 1 ? ORDINAL_NAMES[rule.bySetPos[0]] : null
+    text += setPos ? ` on the ${setPos} of ${days.join(', ')}` : ` on ${days.join(', ')}`
+  } else if (rule.byMonthDay.length > 0) {
+    text += ` on day ${rule.byMonthDay.map(d => (d === -1 ? 'last' : String(d))).join(', ')}`
+  }
+  if (rule.count !== null) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+  if (rule.until) text += `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`
+  return text
+}
+
+function periodStart(rule: RRule, dtstart: Date, index: number): Date {
+  const step = index * rule.interval
+  switch (rule.freq) {
+    case 'DAILY': return addDays(dtstart, step)
+    case 'WEEKLY': return addWeeks(startOfWeek(dtstart, { weekStartsOn: 1 }), step)
+    case 'MONTHLY': return addMonths(startOfMonth(dtstart), step)
+    case 'YEARLY': return addYears(startOfYear(dtstart), step)
   }
 }
 
-function getOccurrenceDates(
+/** First period worth walking when no COUNT forces us to start at DTSTART. */
+function firstPeriodIndex(rule: RRule, dtstart: Date, rangeStart: Date): number {
+  if (rangeStart <= dtstart) return 0
+  let diff: number
+  switch (rule.freq) {
+    case 'DAILY': diff = differenceInCalendarDays(rangeStart, dtstart); break
+    case 'WEEKLY': diff = differenceInCalendarWeeks(rangeStart, dtstart, { weekStartsOn: 1 }); break
+    case 'MONTHLY': diff = differenceInCalendarMonths(rangeStart, dtstart); break
+    case 'YEARLY': diff = differenceInCalendarYears(rangeStart, dtstart); break
+  }
+  return Math.max(0, Math.floor(diff / rule.interval) - 1)
+}
+
+function resolveMonthDays(rule: RRule, monthStart: Date, dtstart: Date): number[] {
+  const daysInMonth = getDaysInMonth(monthStart)
+  const firstWeekday = monthStart.getDay()
+
+  const fromMonthDay = rule.byMonthDay
+    .map(d => (d > 0 ? d : daysInMonth + d + 1))
+    .filter(d => d >= 1 && d <= daysInMonth)
+
+  const fromByDay: number[] = []
+  for (const { weekday, ordinal } of rule.byDay) {
+    const first = ((weekday - firstWeekday + 7) % 7) + 1
+    const matches: number[] = []
+    for (let d = first; d <= daysInMonth; d += 7) matches.push(d)
+    if (ordinal === null) fromByDay.push(...matches)
+    else {
+      const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]
+      if (pick !== undefined) fromByDay.push(pick)
+    }
+  }
+
+  if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) {
+    return fromMonthDay.filter(d => fromByDay.includes(d))
+  }
+  if (rule.byMonthDay.length > 0) return fromMonthDay
+  if (rule.byDay.length > 0) return fromByDay
+  return dtstart.getDate() <= daysInMonth ? [dtstart.getDate()] : []
+}
+
+function candidatesForPeriod(rule: RRule, start: Date, dtstart: Date): Date[] {
+  const weekdays = new Set(rule.byDay.map(d => d.weekday))
+  let candidates: Date[]
+
+  switch (rule.freq) {
+    case 'DAILY':
+      candidates = [start]
+      break
+    case 'WEEKLY': {
+      const days = Array.from({ length: 7 }, (_, i) => addDays(start, i))
+      candidates = weekdays.size > 0
+        ? days.filter(d => weekdays.has(d.getDay()))
+        : days.filter(d => d.getDay() === dtstart.getDay())
+      break
+    }
+    case 'MONTHLY':
+      candidates = resolveMonthDays(rule, start, dtstart)
+        .map(d => new Date(start.getFullYear(), start.getMonth(), d))
+      break
+    case 'YEARLY': {
+      // BYMONTH is not supported, so the month is taken from DTSTART
+      const month = new Date(start.getFullYear(), dtstart.getMonth(), 1)
+      candidates = resolveMonthDays(rule, month, dtstart)
+        .map(d => new Date(month.getFullYear(), month.getMonth(), d))
+      break
+    }
+  }
+
+  if (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') {
+    if (rule.freq === 'DAILY' && weekdays.size > 0) {
+      candidates = candidates.filter(d => weekdays.has(d.getDay()))
+    }
+    if (rule.byMonthDay.length > 0) {
+      candidates = candidates.filter(d => {
+        const dim = getDaysInMonth(d)
+        return rule.byMonthDay.some(md => (md > 0 ? md : dim + md + 1) === d.getDate())
+      })
+    }
+  }
+
+  candidates.sort((a, b) => a.getTime() - b.getTime())
+  candidates = candidates.filter((d, i) => i === 0 || d.getTime() !== candidates[i - 1].getTime())
+
+  if (rule.bySetPos.length > 0) {
+    const n = candidates.length
+    candidates = rule.bySetPos
+      .map(pos => candidates[pos > 0 ? pos - 1 : n + pos])
+      .filter((d): d is Date => !!d)
+      .sort((a, b) => a.getTime() - b.getTime())
+  }
+
+  return candidates
+}
+
+export function getOccurrenceDates(
   startDate: string,
   recurrence: string | null,
   recurrenceUntil: string | null,
   rangeStart: string,
   rangeEnd: string,
 ): string[] {
-  const rule = recurrence as RecurrenceRule
+  const rule = parseRecurrence(recurrence)
+  const firstDate = startDate.slice(0, 10)
   if (!rule) {
-    const date = startDate.slice(0, 10)
-    return date >= rangeStart && date < rangeEnd ? [date] : []
+    return firstDate >= rangeStart && firstDate < rangeEnd ? [firstDate] : []
   }
 
+  // The earlier of the rule's UNTIL and the recurrence_until column wins
+  const untilCandidates = [rule.until, recurrenceUntil?.slice(0, 10) || null]
+    .filter((u): u is string => !!u)
+  const until = untilCandidates.length > 0 ? untilCandidates.sort()[0] : null
+
+  const dtstart = parseISO(firstDate)
+  const startIndex = rule.count === null ? firstPeriodIndex(rule, dtstart, parseISO(rangeStart)) : 0
+
   const dates: string[] = []
-  let current = parseISO(startDate.slice(0, 10))
-  const until = recurrenceUntil ? parseISO(recurrenceUntil) : null
-  const rStart = parseISO(rangeStart)
-  const rEnd = parseISO(rangeEnd)
-
-  // Safety: cap at 1000 iterations
-  for (let i = 0; i < 1000; i++) {
-    if (until && current > until) break
-    if (current >= rEnd) break
-
-    if (current >= rStart) {
-      dates.push(format(current, 'yyyy-MM-dd'))
-    }
+  let emitted = 0
 
-    current = advanceDate(current, rule)
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    const start = periodStart(rule, dtstart, startIndex + i)
+    const startStr = format(start, 'yyyy-MM-dd')
+    if (startStr >= rangeEnd) break
+    if (until && startStr > until) break
+
+    for (const candidate of candidatesForPeriod(rule, start, dtstart)) {
+      const date = format(candidate, 'yyyy-MM-dd')
+      if (date < firstDate) continue
+      if (until && date > until) return dates
+      if (date >= rangeEnd) return dates
+      if (rule.count !== null && emitted >= rule.count) return dates
+      emitted++
+      if (date >= rangeStart) dates.push(date)
+    }
   }
 
   return dates
@@ -69,10 +336,15 @@ function expandItem<T extends { id: string }>(
   rangeStart: string,
   rangeEnd: string,
   exceptions: RecurrenceException[],
+  timeZone: string | null,
 ): VirtualOccurrence<T>[] {
   const recurrence = (item as Record<string, unknown>)['recurrence'] as string | null
   const recurrenceUntil = (item as Record<string, unknown>)['recurrence_until'] as string | null
-  const startDate = String(item[dateField])
+  // Zoned items recur on calendar dates in their own zone; others use the
+  // date prefix of the stored value
+  const toDateKey = (value: string) =>
+    timeZone && value.length > 10 ? getZonedDateKey(value, timeZone) : value.slice(0, 10)
+  const startDate = toDateKey(String(item[dateField]))
 
   const itemExceptions = exceptions.filter(e => e.parent_id === item.id)
   const exceptionMap = new Map(itemExceptions.map(e => [e.exception_date, e]))
@@ -90,7 +362,7 @@ function expandItem<T extends { id: string }>(
     if (exc?.exception_type === 'modified' && exc.overrides) {
       const dateFieldKey = String(dateField)
       const overriddenDateRaw = exc.overrides[dateFieldKey] as string | undefined
-      const effectiveDate = overriddenDateRaw ? overriddenDateRaw.slice(0, 10) : date
+      const effectiveDate = overriddenDateRaw ? toDateKey(overriddenDateRaw) : date
       results.push({
         data: { ...item, ...exc.overrides as Partial<T> },
         occurrenceDate: effectiveDate,
@@ -110,14 +382,35 @@ function expandItem<T extends { id: string }>(
   return results
 }
 
+/**
+ * Expand items into their occurrences within [rangeStart, rangeEnd).
+ * `getTimeZone` lets timestamped items recur in an IANA zone, so occurrence
+ * dates (and exception keys) follow that zone's calendar across DST changes.
+ */
 export function expandItems<T extends { id: string }>(
   items: T[],
   dateField: keyof T,
   rangeStart: string,
   rangeEnd: string,
   exceptions: RecurrenceException[],
+  getTimeZone?: (item: T) => string | null | undefined,
 ): VirtualOccurrence<T>[] {
-  return items.flatMap(item =>
-    expandItem(item, dateField, rangeStart, rangeEnd, exceptions)
-  )
+  return items.flatMap(item => {
+    const timeZone = getTimeZone?.(item)
+    return expandItem(item, dateField, rangeStart, rangeEnd, exceptions, isValidTimeZone(timeZone) ? timeZone : null)
+  })
+}
+
+/**
+ * Whether a task occurrence is done. Recurring tasks are completed one
+ * occurrence at a time through 'completed' exceptions; the item's own flag
+ * only covers its original date.
+ */
+export function isOccurrenceCompleted<T extends { completed: boolean; recurrence: string | null }>(
+  occ: VirtualOccurrence<T>,
+): boolean {
+  if (!occ.data.recurrence) return occ.data.completed
+  if (occ.exception?.exception_type === 'completed') return true
+  if (!occ.isVirtual) return occ.data.completed
+  return false
 }
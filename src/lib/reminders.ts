@@ -0,0 +1,107 @@
+import { addDays, format } from 'date-fns'
+import type { CalendarEvent, RecurrenceException } from '../types/database'
+import { getOccurrenceTimes } from './allDay'
+import { expandItems } from './recurrence'
+import { zonedTimeToUtc } from './timezone'
+
+// Reminders are stored on events as offsets in minutes before the start.
+// All-day events have no start time, so their offsets count back from
+// ALL_DAY_REMINDER_HOUR on the day in the viewer's zone ("1 day before" fires
+// at 9am the day before).
+
+const MINUTE_MS = 60 * 1000
+export const ALL_DAY_REMINDER_HOUR = 9
+
+export const REMINDER_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'At start' },
+  { value: 5, label: '5 min' },
+  { value: 10, label: '10 min' },
+  { value: 30, label: '30 min' },
+  { value: 60, label: '1 hour' },
+  { value: 1440, label: '1 day' },
+  { value: 10080, label: '1 week' },
+]
+
+export interface EventReminder {
+  key: string // eventId:occurrenceDate:minutesBefore, stable across reloads
+  eventId: string
+  occurrenceDate: string
+  title: string
+  startTime: string
+  allDay: boolean
+  minutesBefore: number
+  fireAt: number // epoch ms
+}
+
+/** Sorted, de-duplicated, non-negative whole-minute offsets. */
+export function normalizeReminders(value: readonly number[] | null | undefined): number[] {
+  if (!value) return []
+  const minutes = value.filter(n => Number.isFinite(n) && n >= 0).map(n => Math.round(n))
+  return [...new Set(minutes)].sort((a, b) => a - b)
+}
+
+/** Human-readable offset, e.g. "10 minutes before" or "At start". */
+export function describeReminder(minutesBefore: number): string {
+  if (minutesBefore === 0) return 'At start'
+  const units: [number, string][] = [[10080, 'week'], [1440, 'day'], [60, 'hour'], [1, 'minute']]
+  for (const [size, unit] of units) {
+    if (minutesBefore % size === 0) {
+      const count = minutesBefore / size
+      return `${count} ${unit}${count === 1 ? '' : 's'} before`
+    }
+  }
+  return `${minutesBefore} minutes before`
+}
+
+function reminderBase(startTime: string, allDay: boolean, timeZone: string): number {
+  if (!allDay) return new Date(startTime).getTime()
+  const [year, month, day] = startTime.slice(0, 10).split('-').map(Number)
+  return zonedTimeToUtc({ year, month, day, hour: ALL_DAY_REMINDER_HOUR, minute: 0, second: 0 }, timeZone).getTime()
+}
+
+/**
+ * Reminders firing in [from, to), earliest first. Recurring events are
+ * expanded so each occurrence gets its own reminders; skipped occurrences
+ * produce none and modified ones use their overridden times.
+ */
+export function getUpcomingReminders(
+  events: CalendarEvent[],
+  exceptions: RecurrenceException[],
+  from: Date,
+  to: Date,
+  timeZone: string,
+): EventReminder[] {
+  const withReminders = events.filter(event => normalizeReminders(event.reminders).length > 0)
+  if (withReminders.length === 0) return []
+
+  // Occurrences can start up to the longest offset after `to`
+  const maxOffset = Math.max(...withReminders.flatMap(event => normalizeReminders(event.reminders)))
+  const rangeStart = format(addDays(from, -1), 'yyyy-MM-dd')
+  const rangeEnd = format(addDays(new Date(to.getTime() + maxOffset * MINUTE_MS), 2), 'yyyy-MM-dd')
+
+  const occurrences = expandItems(
+    withReminders, 'start_time', rangeStart, rangeEnd, exceptions,
+    event => event.all_day ? null : event.time_zone
+  )
+
+  const results: EventReminder[] = []
+  for (const occ of occurrences) {
+    const event = occ.isVirtual ? { ...occ.data, ...getOccurrenceTimes(occ.data, occ.occurrenceDate) } : occ.data
+    const base = reminderBase(event.start_time, event.all_day, timeZone)
+    for (const minutesBefore of normalizeReminders(event.reminders)) {
+      const fireAt = base - minutesBefore * MINUTE_MS
+      if (fireAt < from.getTime() || fireAt >= to.getTime()) continue
+      results.push({
+        key: `${event.id}:${occ.occurrenceDate}:${minutesBefore}`,
+        eventId: event.id,
+        occurrenceDate: occ.occurrenceDate,
+        title: event.title,
+        startTime: event.start_time,
+        allDay: event.all_day,
+        minutesBefore,
+        fireAt,
+      })
+    }
+  }
+  return results.sort((a, b) => a.fireAt - b.fireAt || a.key.localeCompare(b.key))
+}
@@ -0,0 +1,74 @@
+import { parseISO } from 'date-fns'
+import type { FocusSessionSegment } from '../types/database'
+import type { PomodoroPhase } from './timerPresets'
+
+// A focus session is recorded as segments: time spent focusing, on a
+// Pomodoro break, or paused. Waiting to start the next Pomodoro phase belongs
+// to none of them. A segment's end stays null while it's still going.
+
+export type SegmentKind = 'focus' | 'break' | 'pause'
+
+export const SEGMENT_KINDS: readonly SegmentKind[] = ['focus', 'break', 'pause']
+
+export const SEGMENT_LABELS: Record<SegmentKind, string> = {
+  focus: 'Focus',
+  break: 'Break',
+  pause: 'Pause',
+}
+
+export interface TimelineSpan {
+  id: string
+  kind: SegmentKind
+  /** Offset and length as percentages of the session */
+  left: number
+  width: number
+}
+
+type Segment = Pick<FocusSessionSegment, 'kind' | 'start_time' | 'end_time'>
+
+function isSegmentKind(kind: string): kind is SegmentKind {
+  return (SEGMENT_KINDS as readonly string[]).includes(kind)
+}
+
+export function segmentKindOf(phase: PomodoroPhase): SegmentKind {
+  return phase === 'focus' ? 'focus' : 'break'
+}
+
+/** Seconds a segment covers; one still going runs to `now`. */
+export function segmentSeconds(segment: Segment, now: number): number {
+  const end = segment.end_time ? parseISO(segment.end_time).getTime() : now
+  return Math.max(0, Math.round((end - parseISO(segment.start_time).getTime()) / 1000))
+}
+
+export function segmentTotals(segments: Segment[], now: number): Record<SegmentKind, number> {
+  const totals: Record<SegmentKind, number> = { focus: 0, break: 0, pause: 0 }
+  for (const segment of segments) {
+    if (isSegmentKind(segment.kind)) totals[segment.kind] += segmentSeconds(segment, now)
+  }
+  return totals
+}
+
+/** Segments placed along [start, end), clipped to it, earliest first. */
+export function timelineSpans(
+  segments: (Segment & { id: string })[],
+  start: number,
+  end: number,
+  now: number,
+): TimelineSpan[] {
+  const length = end - start
+  if (length <= 0) return []
+  return segments
+    .flatMap(segment => {
+      if (!isSegmentKind(segment.kind)) return []
+      const from = Math.max(start, parseISO(segment.start_time).getTime())
+      const to = Math.min(end, segment.end_time ? parseISO(segment.end_time).getTime() : now)
+      if (to <= from) return []
+      return [{
+        id: segment.id,
+        kind: segment.kind,
+        left: ((from - start) / length) * 100,
+        width: ((to - from) / length) * 100,
+      }]
+    })
+    .sort((a, b) => a.left - b.left)
+}
@@ -0,0 +1,188 @@
+import { addDays, format, parseISO, set, startOfDay } from 'date-fns'
+import type { Assignment, CalendarEvent } from '../types/database'
+import { freeIntervals, mergeIntervals, remainingMinutes, type Interval } from './workload'
+
+// The study plan books time to work on assignments as events in a calendar of
+// its own (calendars.study_plan), each linked to its assignment. Blocks go
+// earliest deadline first into the time between other events, outside sleep
+// hours and under a daily cap. Replanning keeps every upcoming block that
+// still fits and only adds or drops the difference, so the plan doesn't
+// shuffle each time it's checked. A missed block simply isn't counted (only
+// logged focus time is), so its work is booked again later.
+
+export const STUDY_PLAN_CALENDAR_NAME = 'Study plan'
+
+/** How far ahead assignments are planned */
+export const PLAN_HORIZON_DAYS = 14
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const SLOT_MINUTES = 15
+const MIN_BLOCK_MINUTES = 30
+const MAX_BLOCK_MINUTES = 90
+/** Room left after each block before the next one */
+const BREAK_MINUTES = 15
+
+export interface StudyPlanSettings {
+  /** Hour (0–23) sleep starts; before sleepEndHour means after midnight */
+  sleepStartHour: number
+  sleepEndHour: number
+  maxMinutesPerDay: number
+}
+
+export interface StudyTask {
+  assignmentId: string
+  title: string
+  /** Work has to end by this instant (epoch ms) */
+  deadline: number
+  minutes: number
+}
+
+export interface StudyBlock {
+  assignmentId: string
+  title: string
+  start: number
+  end: number
+}
+
+export interface StudyPlanChanges {
+  /** Block events to delete */
+  remove: string[]
+  add: StudyBlock[]
+  /** Minutes per assignment id that found no room before the deadline */
+  unscheduled: Map<string, number>
+}
+
+const roundUpToSlot = (minutes: number) => Math.ceil(minutes / SLOT_MINUTES) * SLOT_MINUTES
+const roundDownToSlot = (minutes: number) => Math.floor(minutes / SLOT_MINUTES) * SLOT_MINUTES
+const nextSlot = (time: number) => Math.ceil(time / (SLOT_MINUTES * MINUTE_MS)) * SLOT_MINUTES * MINUTE_MS
+
+/** The waking hours that begin on `day` (local time); they run past midnight if sleep starts after it. */
+export function wakingWindow(day: Date, settings: StudyPlanSettings): Interval {
+  const atHour = (date: Date, hours: number) =>
+    set(date, { hours, minutes: 0, seconds: 0, milliseconds: 0 }).getTime()
+  const endDay = settings.sleepStartHour > settings.sleepEndHour ? day : addDays(day, 1)
+  return { start: atHour(day, settings.sleepEndHour), end: atHour(endDay, settings.sleepStartHour) }
+}
+
+/** The day whose waking hours `time` falls in or after, so 1 AM still counts toward the evening before. */
+function wakingDay(time: number, settings: StudyPlanSettings): Date {
+  return startOfDay(time - settings.sleepEndHour * HOUR_MS)
+}
+
+/**
+ * Unfinished assignments due within the horizon that still have estimated
+ * work left. Work on an assignment has to be done by the start of its due
+ * date; overdue ones and those due today get until the end of today.
+ * Repeating assignments are left out, as focus time can't be told apart
+ * between their occurrences.
+ */
+export function studyTasks(
+  assignments: Assignment[],
+  focusedSeconds: (assignment: Assignment) => number,
+  now: Date,
+): StudyTask[] {
+  const today = startOfDay(now)
+  const horizon = addDays(today, PLAN_HORIZON_DAYS).getTime()
+  return assignments.flatMap(assignment => {
+    if (assignment.completed || assignment.recurrence) return []
+    const minutes = remainingMinutes(assignment.estimated_minutes, focusedSeconds(assignment))
+    const due = parseISO(assignment.due_date).getTime()
+    if (!minutes || minutes < SLOT_MINUTES || due > horizon) return []
+    const deadline = due > today.getTime() ? due : addDays(today, 1).getTime()
+    return [{ assignmentId: assignment.id, title: assignment.title, deadline, minutes }]
+  })
+}
+
+/**
+ * What to change in the study plan calendar: which of its `blocks` to drop
+ * and which to add. `busy` is the time taken by every other event.
+ */
+export function planStudyBlocks(
+  tasks: StudyTask[],
+  blocks: CalendarEvent[],
+  busy: Interval[],
+  settings: StudyPlanSettings,
+  now: number,
+): StudyPlanChanges {
+  const need = new Map(tasks.map(task => [task.assignmentId, task.minutes]))
+  const deadlines = new Map(tasks.map(task => [task.assignmentId, task.deadline]))
+  const usedByDay = new Map<string, number>()
+  const bookDay = (day: Date, minutes: number) => {
+    const key = format(day, 'yyyy-MM-dd')
+    usedByDay.set(key, (usedByDay.get(key) ?? 0) + minutes)
+  }
+  const dayRoom = (day: Date) => settings.maxMinutesPerDay - (usedByDay.get(format(day, 'yyyy-MM-dd')) ?? 0)
+
+  const remove: string[] = []
+  const taken: Interval[] = [...busy]
+
+  const timed = blocks
+    .map(block => ({ block, start: parseISO(block.start_time).getTime(), end: parseISO(block.end_time).getTime() }))
+  // Past blocks are history, but the ones earlier today still count toward its cap
+  const today = format(wakingDay(now, settings), 'yyyy-MM-dd')
+  for (const { start, end } of timed) {
+    const day = wakingDay(start, settings)
+    if (end <= now && format(day, 'yyyy-MM-dd') === today) bookDay(day, (end - start) / MINUTE_MS)
+  }
+
+  // Keep upcoming blocks that still fit
+  const upcoming = timed
+    .filter(({ end }) => end > now)
+    .sort((a, b) => a.start - b.start)
+  for (const { block, start, end } of upcoming) {
+    const minutes = (end - start) / MINUTE_MS
+    const day = wakingDay(start, settings)
+    const window = wakingWindow(day, settings)
+    const id = block.assignment_id ?? ''
+    const left = need.get(id)
+    // One already under way stays put whatever happens
+    const fits = start < now || (
+      left !== undefined && left > 0
+      && end <= (deadlines.get(id) ?? 0)
+      && start >= window.start && end <= window.end
+      && minutes <= dayRoom(day)
+      && !busy.some(interval => interval.start < end && interval.end > start)
+    )
+    if (!fits) {
+      remove.push(block.id)
+      continue
+    }
+    if (left !== undefined) need.set(id, left - minutes)
+    bookDay(day, minutes)
+    taken.push({ start, end: end + BREAK_MINUTES * MINUTE_MS })
+  }
+
+  // Book what's still missing, earliest deadline first
+  const add: StudyBlock[] = []
+  const unscheduled = new Map<string, number>()
+  const ordered = [...tasks].sort((a, b) => a.deadline - b.deadline || a.assignmentId.localeCompare(b.assignmentId))
+  for (const task of ordered) {
+    let left = need.get(task.assignmentId) ?? 0
+    for (let day = wakingDay(now, settings); left >= SLOT_MINUTES; day = addDays(day, 1)) {
+      const window = wakingWindow(day, settings)
+      if (window.start >= task.deadline) break
+      window.start = Math.max(window.start, nextSlot(now))
+      window.end = Math.min(window.end, task.deadline)
+      if (window.start >= window.end) continue
+
+      for (const gap of freeIntervals(window, mergeIntervals(taken))) {
+        let cursor = nextSlot(gap.start)
+        while (left >= SLOT_MINUTES) {
+          const wanted = roundUpToSlot(left)
+          const length = roundDownToSlot(Math.min(wanted, MAX_BLOCK_MINUTES, (gap.end - cursor) / MINUTE_MS, dayRoom(day)))
+          if (length < Math.min(MIN_BLOCK_MINUTES, wanted)) break
+          const block = { assignmentId: task.assignmentId, title: task.title, start: cursor, end: cursor + length * MINUTE_MS }
+          add.push(block)
+          taken.push({ start: block.start, end: block.end + BREAK_MINUTES * MINUTE_MS })
+          bookDay(day, length)
+          left -= length
+          cursor = block.end + BREAK_MINUTES * MINUTE_MS
+        }
+      }
+    }
+    if (left >= SLOT_MINUTES) unscheduled.set(task.assignmentId, left)
+  }
+
+  return { remove, add, unscheduled }
+}
@@ -0,0 +1,287 @@
+import { supabase } from './supabase'
+import { enqueueMutation, loadQueue, removeMutation, replaceMutation } from './localStore'
+import {
+  applyPending, classifyReplayError, reconcileRow, renameRowId, type Mutation, type ReplayOutcome,
+} from './mutations'
+import {
+  ALL_PARTS, inflightQueries, isTableFresh, markTableFresh, markTableStale, setTableRows, tableKey,
+} from './tableCache'
+import {
+  RANGED_TABLES, chunkRuns, isRangedTable, rangeChunks, replaceRange, type TimeRange,
+} from './tableRanges'
+
+// Replays queued writes against Supabase in order. Each write is already
+// applied locally, so replay only has to make the server agree:
+// - network failures and 5xx stop the run and retry later;
+// - an update that matches nothing means the row was deleted elsewhere, and
+//   the delete wins;
+// - an upsert can land on an existing server row with another id, so later
+//   writes to the local id are pointed at the server's;
+// - a rejected write (RLS, constraint) is dropped and the table is re-read
+//   so the local copy goes back to what the server holds.
+// Updates only send changed fields, so edits to different fields of the same
+// row on two devices both survive.
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error'
+
+export interface SyncStatus {
+  state: SyncState
+  pending: number
+  /** Writes dropped because the server rejected them or the row was gone */
+  dropped: number
+  lastError: string | null
+}
+
+type Row = { id: string }
+
+const RETRY_DELAY_MS = 30 * 1000
+const SYNC_LOCK = 'muffin-time:sync'
+
+let status: SyncStatus = { state: 'synced', pending: 0, dropped: 0, lastError: null }
+const statusListeners = new Set<() => void>()
+
+let activeScope: string | null = null
+let running: Promise<void> | null = null
+let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+export function getSyncStatus(): SyncStatus {
+  return status
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener)
+  return () => { statusListeners.delete(listener) }
+}
+
+function setStatus(partial: Partial<SyncStatus>) {
+  status = { ...status, ...partial }
+  for (const listener of statusListeners) listener()
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { if (activeScope) void flushQueue(activeScope) })
+  window.addEventListener('offline', () => setStatus({ state: 'offline' }))
+}
+
+/** Record a write for `mutation.scope` and try to send it straight away. */
+export async function queueMutation(mutation: Omit<Mutation, 'id' | 'createdAt'>): Promise<void> {
+  await enqueueMutation({ ...mutation, createdAt: Date.now() })
+  setStatus({ pending: status.pending + 1 })
+  void flushQueue(mutation.scope)
+}
+
+const PAGE_SIZE = 1000
+
+/** All of the user's rows (within `range`), a page at a time so no table is silently capped. */
+async function selectAll(table: string, scope: string, range?: TimeRange): Promise<Row[]> {
+  const rows: Row[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase.from(table).select('*').eq('user_id', scope)
+    if (range) query = query.lt('start_time', range.to).or(RANGED_TABLES[table].endsAfter(range.from))
+    const { data, error } = await query.order('id').range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...((data ?? []) as Row[]))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+/** Run `load` once per cache key at a time; concurrent callers share the result. */
+async function dedupe(key: string, load: () => Promise<Row[]>): Promise<Row[]> {
+  const inflight = inflightQueries.get(key)
+  if (inflight) return inflight as Promise<Row[]>
+  const promise = load()
+  inflightQueries.set(key, promise)
+  try {
+    return await promise
+  } finally {
+    inflightQueries.delete(key)
+  }
+}
+
+/**
+ * Read a table from the server and layer still-queued writes on top, so
+ * optimistic changes survive the refresh. With a `range`, only the month
+ * chunks of it not read yet this session are fetched (all of them when
+ * `force` is set). Does nothing while offline.
+ */
+export async function fetchTable(scope: string, table: string, range?: TimeRange, force = false): Promise<void> {
+  if (!isOnline()) return
+  const key = tableKey(scope, table)
+
+  try {
+    if (!range || !isRangedTable(table)) {
+      if (!force && isTableFresh(key)) return
+      const serverRows = await dedupe(key, () => selectAll(table, scope))
+      const pending = await loadQueue(scope)
+      setTableRows(key, applyPending(serverRows, table, pending))
+      markTableFresh(key)
+      return
+    }
+
+    const missing = rangeChunks(range).filter(chunk => force || !isTableFresh(key, chunk))
+    await Promise.all(chunkRuns(missing).map(async run => {
+      const runKey = `${key}@${run.range.from}..${run.range.to}`
+      const serverRows = await dedupe(runKey, () => selectAll(table, scope, run.range))
+      const pending = await loadQueue(scope)
+      setTableRows<Row>(key, rows => applyPending(replaceRange(rows, serverRows, table, run.range), table, pending))
+      markTableFresh(key, run.chunks)
+    }))
+  } catch {
+    // Keep showing the local copy; the next refetch tries again
+  }
+}
+
+/** Read again whatever parts of a table were loaded, e.g. after missing realtime events. */
+export async function refreshTable(scope: string, table: string): Promise<void> {
+  const parts = markTableStale(tableKey(scope, table))
+  if (parts.includes(ALL_PARTS) || !isRangedTable(table)) {
+    await fetchTable(scope, table)
+    return
+  }
+  await Promise.all(chunkRuns(parts).map(run => fetchTable(scope, table, run.range)))
+}
+
+/** Point still-queued writes at `to` for the `table` row they know as `from`. */
+async function renameQueued(queue: Mutation[], scope: string, table: string, from: string, to: string): Promise<Mutation[]> {
+  // Writes queued while this run was busy aren't in `queue` yet
+  const renamed = new Map<number | undefined, Mutation>()
+  for (const mutation of await loadQueue(scope)) {
+    const next = renameRowId(mutation, table, from, to)
+    if (!next) continue
+    renamed.set(mutation.id, next)
+    await replaceMutation(next)
+  }
+  return queue.map(m => renamed.get(m.id) ?? renameRowId(m, table, from, to) ?? m)
+}
+
+/** `created` holds ids of rows this run has inserted or upserted so far. */
+async function replay(mutation: Mutation, created: Set<string>): Promise<{ outcome: ReplayOutcome; row?: Row; message?: string }> {
+  const values = mutation.values ?? {}
+  const match = mutation.match ?? {}
+
+  if (mutation.kind === 'insert') {
+    const { data, error, status: httpStatus } = await supabase.from(mutation.table).insert(values as never).select().single()
+    if (error) return { outcome: classifyReplayError(mutation, error, httpStatus), message: error.message }
+    return { outcome: 'applied', row: data as Row }
+  }
+
+  if (mutation.kind === 'upsert') {
+    // The server keeps its own id for an existing row
+    const payload = { ...values }
+    delete payload.id
+    const { data, error, status: httpStatus } = await supabase
+      .from(mutation.table)
+      .upsert(payload as never, { onConflict: mutation.onConflict?.join(',') })
+      .select()
+      .single()
+    if (error) return { outcome: classifyReplayError(mutation, error, httpStatus), message: error.message }
+    return { outcome: 'applied', row: data as Row }
+  }
+
+  if (mutation.kind === 'update') {
+    let query = supabase.from(mutation.table).update(values as never)
+    for (const [column, value] of Object.entries(match)) query = query.eq(column, value as never)
+    const { data, error, status: httpStatus } = await query.select()
+    if (error) return { outcome: classifyReplayError(mutation, error, httpStatus), message: error.message }
+    const rows = (data ?? []) as Row[]
+    if (rows.length === 0) return { outcome: 'conflict', message: 'Edited a row that was deleted on another device.' }
+    return { outcome: 'applied', row: rows.length === 1 ? rows[0] : undefined }
+  }
+
+  let query = supabase.from(mutation.table).delete()
+  for (const [column, value] of Object.entries(match)) query = query.eq(column, value as never)
+  const { data, error, status: httpStatus } = await query.select('id')
+  if (error) return { outcome: classifyReplayError(mutation, error, httpStatus), message: error.message }
+  // A row saved earlier in this run can't have gone yet; the delete missed it
+  if ((data ?? []).length === 0 && created.has(match.id as string)) {
+    return { outcome: 'conflict', message: 'Deleted a row the server could not find.' }
+  }
+  return { outcome: 'applied' }
+}
+
+async function runQueue(scope: string) {
+  let queue = await loadQueue(scope)
+  setStatus({ pending: queue.length })
+  if (queue.length === 0) {
+    setStatus({ state: status.lastError ? 'error' : 'synced' })
+    return
+  }
+  if (!isOnline()) {
+    setStatus({ state: 'offline' })
+    return
+  }
+
+  setStatus({ state: 'syncing' })
+  const staleTables = new Set<string>()
+  const replayed = new Set<number>()
+  const created = new Set<string>()
+
+  for (;;) {
+    if (queue.length === 0) {
+      // Pick up writes queued while this run was busy
+      queue = (await loadQueue(scope)).filter(m => m.id === undefined || !replayed.has(m.id))
+      if (queue.length === 0) break
+    }
+    const [mutation, ...rest] = queue
+    let result: Awaited<ReturnType<typeof replay>>
+    try {
+      result = await replay(mutation, created)
+    } catch {
+      result = { outcome: 'retry' }
+    }
+
+    if (result.outcome === 'retry') {
+      setStatus({ state: isOnline() ? 'error' : 'offline', pending: queue.length })
+      clearTimeout(retryTimer)
+      retryTimer = setTimeout(() => { void flushQueue(scope) }, RETRY_DELAY_MS)
+      return
+    }
+
+    if (mutation.id !== undefined) {
+      replayed.add(mutation.id)
+      await removeMutation(mutation.id)
+    }
+    queue = rest
+
+    const key = tableKey(scope, mutation.table)
+    if (result.outcome === 'applied' && result.row) {
+      const serverRow = result.row
+      if (mutation.kind !== 'update') created.add(serverRow.id)
+      const localId = mutation.values?.id
+      if (mutation.kind === 'upsert' && typeof localId === 'string' && localId !== serverRow.id) {
+        queue = await renameQueued(queue, scope, mutation.table, localId, serverRow.id)
+      }
+      setTableRows<Row>(key, rows => applyPending(reconcileRow(rows, mutation, serverRow), mutation.table, queue))
+    } else if (result.outcome === 'conflict' || result.outcome === 'rejected') {
+      staleTables.add(mutation.table)
+      setStatus({ dropped: status.dropped + 1, lastError: result.message ?? 'A change could not be saved.' })
+    }
+    setStatus({ pending: queue.length })
+  }
+
+  // Server wins for dropped writes: re-read the tables they touched
+  for (const table of staleTables) await refreshTable(scope, table)
+  setStatus({ state: staleTables.size > 0 ? 'error' : 'synced', pending: 0 })
+}
+
+/** Replay `scope`'s queue. Concurrent calls share one run; tabs take turns via a Web Lock. */
+export function flushQueue(scope: string): Promise<void> {
+  activeScope = scope
+  if (running) return running
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+  const run = locks
+    ? locks.request(SYNC_LOCK, () => runQueue(scope)).then(() => undefined)
+    : runQueue(scope)
+  const current = run.finally(() => { running = null })
+  running = current
+  return current
+}
+
+/** Clear the error badge once the user has seen it. */
+export function acknowledgeSyncErrors() {
+  setStatus({ dropped: 0, lastError: null, state: status.pending > 0 ? status.state : 'synced' })
+}
@@ -1,39 +1,120 @@
-const MAX_CACHE_ENTRIES = 32
+import { loadRows, saveRows } from './localStore'
 
-class LRUCache<V> {
-  private map = new Map<string, V>()
-  private max: number
-  constructor(max: number) {
-    this.max = max
-  }
+// In-memory table rows shared by every hook instance, mirrored to IndexedDB.
+// Keys are `${scope}:${table}` where scope is the user id or GUEST_SCOPE.
+// Range-loaded tables track freshness per part: ALL_PARTS for a full read,
+// or a month chunk such as '2026-03'.
+
+export const GUEST_SCOPE = 'guest'
+export const ALL_PARTS = '*'
+
+interface TableEntry {
+  rows: unknown[]
+  hydrated: boolean // loaded from IndexedDB
+  fresh: Set<string> // parts fetched from the server this session
+  loaded: Set<string> // parts ready to show: hydrated, and fetched if we could
+  listeners: Set<() => void>
+}
+
+const EMPTY_ROWS: unknown[] = []
+const entries = new Map<string, TableEntry>()
+const hydrating = new Map<string, Promise<void>>()
+
+export const inflightQueries = new Map<string, Promise<unknown[]>>()
 
-  get(key: string): V | undefined {
-    const value = this.map.get(key)
-    if (value !== undefined) {
-      this.map.delete(key)
-      this.map.set(key, value)
-    }
-    return value
+function getEntry(key: string): TableEntry {
+  let entry = entries.get(key)
+  if (!entry) {
+    entry = { rows: EMPTY_ROWS, hydrated: false, fresh: new Set(), loaded: new Set(), listeners: new Set() }
+    entries.set(key, entry)
   }
+  return entry
+}
+
+export function tableKey(scope: string, table: string): string {
+  return `${scope}:${table}`
+}
+
+export function getTableRows<T>(key: string): T[] {
+  return (entries.get(key)?.rows ?? EMPTY_ROWS) as T[]
+}
+
+export function subscribeTable(key: string, listener: () => void): () => void {
+  const entry = getEntry(key)
+  entry.listeners.add(listener)
+  return () => { entry.listeners.delete(listener) }
+}
+
+/** Replace a table's rows, notify subscribers and persist the result. */
+export function setTableRows<T>(key: string, updater: T[] | ((prev: T[]) => T[])): T[] {
+  const entry = getEntry(key)
+  const next = typeof updater === 'function' ? updater(entry.rows as T[]) : updater
+  if (next === entry.rows) return next
+  entry.rows = next
+  for (const listener of entry.listeners) listener()
+  void saveRows(key, next)
+  return next
+}
 
-  set(key: string, value: V) {
-    if (this.map.has(key)) this.map.delete(key)
-    else if (this.map.size >= this.max) {
-      const oldest = this.map.keys().next().value
-      if (oldest !== undefined) this.map.delete(oldest)
-    }
-    this.map.set(key, value)
+/** Load a table's persisted rows once per session. */
+export function hydrateTable(key: string): Promise<void> {
+  const entry = getEntry(key)
+  if (entry.hydrated) return Promise.resolve()
+  let pending = hydrating.get(key)
+  if (!pending) {
+    pending = loadRows(key).then(stored => {
+      // Rows written while IndexedDB was loading are newer than what it held
+      if (stored && entry.rows === EMPTY_ROWS) {
+        entry.rows = stored
+        for (const listener of entry.listeners) listener()
+      }
+      entry.hydrated = true
+      hydrating.delete(key)
+    })
+    hydrating.set(key, pending)
   }
+  return pending
+}
 
-  delete(key: string) { this.map.delete(key) }
-  has(key: string) { return this.map.has(key) }
-  clear() { this.map.clear() }
+/** Whether `part` was read from the server this session; a full read covers every part. */
+export function isTableFresh(key: string, part = ALL_PARTS): boolean {
+  const fresh = entries.get(key)?.fresh
+  return !!fresh && (fresh.has(ALL_PARTS) || fresh.has(part))
 }
 
-export const queryCache = new LRUCache<unknown[]>(MAX_CACHE_ENTRIES)
-export const inflightQueries = new Map<string, Promise<unknown[]>>()
+export function markTableFresh(key: string, parts: string[] = [ALL_PARTS]) {
+  const entry = getEntry(key)
+  for (const part of parts) entry.fresh.add(part)
+}
 
+/** Mark every part stale and return the ones that had been read, so they can be read again. */
+export function markTableStale(key: string): string[] {
+  const entry = getEntry(key)
+  const parts = [...entry.fresh]
+  entry.fresh.clear()
+  return parts
+}
+
+export function isTableLoaded(key: string, parts: string[] = [ALL_PARTS]): boolean {
+  const loaded = entries.get(key)?.loaded
+  return !!loaded && (loaded.has(ALL_PARTS) || parts.every(part => loaded.has(part)))
+}
+
+export function markTableLoaded(key: string, parts: string[] = [ALL_PARTS]) {
+  const entry = getEntry(key)
+  if (isTableLoaded(key, parts)) return
+  for (const part of parts) entry.loaded.add(part)
+  for (const listener of entry.listeners) listener()
+}
+
+/** Forget in-memory state, e.g. on sign-in/out. Persisted rows are kept. */
 export function clearTableCache() {
-  queryCache.clear()
+  for (const entry of entries.values()) {
+    entry.rows = EMPTY_ROWS
+    entry.hydrated = false
+    entry.fresh.clear()
+    entry.loaded.clear()
+    for (const listener of entry.listeners) listener()
+  }
   inflightQueries.clear()
 }
@@ -0,0 +1,129 @@
+// Tables that grow without bound (events, focus sessions, their segments and
+// pacer runs) are loaded by time range rather than all at once. Ranges are
+// split into UTC calendar months, so navigating to a new period only fetches
+// the months not seen yet and each month is cached under its own key.
+
+export interface TimeRange {
+  from: string // ISO instant, inclusive
+  to: string // ISO instant, exclusive
+}
+
+interface RangedTable {
+  /** PostgREST `or` filter for rows still relevant at `from` (start_time < to is applied separately) */
+  endsAfter: (from: string) => string
+  overlaps: (row: Record<string, unknown>, range: TimeRange) => boolean
+}
+
+function isoTime(value: unknown): number {
+  return typeof value === 'string' ? new Date(value).getTime() : NaN
+}
+
+function startsBefore(row: Record<string, unknown>, range: TimeRange): boolean {
+  return isoTime(row.start_time) < new Date(range.to).getTime()
+}
+
+// Rows with a start and an end that stays null while they're still going
+const openEndedRange: RangedTable = {
+  endsAfter: from => `end_time.gt."${from}",end_time.is.null`,
+  overlaps: (row, range) =>
+    startsBefore(row, range) && (row.end_time === null || isoTime(row.end_time) > new Date(range.from).getTime()),
+}
+
+export const RANGED_TABLES: Record<string, RangedTable> = {
+  // Recurring events can start long before the range and still occur in it
+  events: {
+    endsAfter: from =>
+      `end_time.gt."${from}",and(recurrence.not.is.null,or(recurrence_until.is.null,recurrence_until.gte."${from.slice(0, 10)}"))`,
+    overlaps: (row, range) => {
+      if (!startsBefore(row, range)) return false
+      if (row.recurrence) {
+        return !row.recurrence_until || String(row.recurrence_until) >= range.from.slice(0, 10)
+      }
+      return isoTime(row.end_time) > new Date(range.from).getTime()
+    },
+  },
+  // A running session has no end yet
+  focus_sessions: openEndedRange,
+  focus_session_segments: openEndedRange,
+  pacer_runs: openEndedRange,
+}
+
+export function isRangedTable(table: string): boolean {
+  return table in RANGED_TABLES
+}
+
+/** Month chunks ('2026-03') a range touches, in order. */
+export function rangeChunks(range: TimeRange): string[] {
+  const from = new Date(range.from)
+  const to = new Date(range.to)
+  const chunks: string[] = []
+  let year = from.getUTCFullYear()
+  let month = from.getUTCMonth()
+  while (Date.UTC(year, month, 1) < to.getTime()) {
+    chunks.push(`${year}-${String(month + 1).padStart(2, '0')}`)
+    month++
+    if (month === 12) { month = 0; year++ }
+  }
+  return chunks
+}
+
+export function chunkRange(chunk: string): TimeRange {
+  const [year, month] = chunk.split('-').map(Number)
+  return {
+    from: new Date(Date.UTC(year, month - 1, 1)).toISOString(),
+    to: new Date(Date.UTC(year, month, 1)).toISOString(),
+  }
+}
+
+/** Group chunks into runs of consecutive months, so each run is one query. */
+export function chunkRuns(chunks: string[]): { chunks: string[]; range: TimeRange }[] {
+  const runs: { chunks: string[]; range: TimeRange }[] = []
+  for (const chunk of [...chunks].sort()) {
+    const bounds = chunkRange(chunk)
+    const last = runs[runs.length - 1]
+    if (last && last.range.to === bounds.from) {
+      last.chunks.push(chunk)
+      last.range = { from: last.range.from, to: bounds.to }
+    } else {
+      runs.push({ chunks: [chunk], range: bounds })
+    }
+  }
+  return runs
+}
+
+/**
+ * Swap the rows a range covers for a fresh server read of that range. Rows
+ * outside it are kept, so months loaded earlier stay cached.
+ */
+export function replaceRange<T extends { id: string }>(
+  rows: T[],
+  fetched: T[],
+  table: string,
+  range: TimeRange,
+): T[] {
+  const spec = RANGED_TABLES[table]
+  const fetchedIds = new Set(fetched.map(row => row.id))
+  const kept = rows.filter(row =>
+    !fetchedIds.has(row.id) && !spec?.overlaps(row as unknown as Record<string, unknown>, range))
+  return [...kept, ...fetched]
+}
+
+/** Rows of `table` relevant to `range`. */
+export function rowsInRange<T>(rows: T[], table: string, range: TimeRange): T[] {
+  const spec = RANGED_TABLES[table]
+  if (!spec) return rows
+  return rows.filter(row => spec.overlaps(row as unknown as Record<string, unknown>, range))
+}
+
+/**
+ * From the earliest of `rows` being created up to `to`. A focus session is
+ * linked to a task, or filed under a subject, only once that exists, so this
+ * bounds the sessions that can count towards them without loading them all
+ * (one logged by hand can still be dated earlier, and is left out). Null
+ * without rows.
+ */
+export function createdRange(rows: { created_at: string }[], to: string): TimeRange | null {
+  if (rows.length === 0) return null
+  const from = Math.min(...rows.map(row => new Date(row.created_at).getTime()))
+  return { from: new Date(from).toISOString(), to }
+}
@@ -0,0 +1,48 @@
+import type { Assignment, FocusSession, Subject, Todo } from '../types/database'
+
+// Focus sessions started from a task record it in task_type/task_id (like a
+// recurrence exception's parent), so time can be totalled per task.
+
+export type FocusTaskType = 'todo' | 'assignment'
+
+export interface LinkedTask {
+  type: FocusTaskType
+  id: string
+  title: string
+}
+
+export function taskKey(type: string, id: string): string {
+  return `${type}:${id}`
+}
+
+export function taskTypeOf(task: Todo | Assignment): FocusTaskType {
+  return 'course_id' in task ? 'assignment' : 'todo'
+}
+
+/** Focused seconds per task, keyed by taskKey. Sessions without a task are skipped. */
+export function focusSecondsByTask(sessions: FocusSession[]): Map<string, number> {
+  const totals = new Map<string, number>()
+  for (const session of sessions) {
+    if (!session.task_type || !session.task_id || !session.duration_seconds) continue
+    const key = taskKey(session.task_type, session.task_id)
+    totals.set(key, (totals.get(key) ?? 0) + session.duration_seconds)
+  }
+  return totals
+}
+
+/**
+ * The subject to log a task's focus time under: one linked to the
+ * assignment's course, else the subject already picked, else the first one.
+ */
+export function subjectForTask(
+  task: Todo | Assignment,
+  subjects: Subject[],
+  currentSubjectId: string | null,
+): Subject | null {
+  const active = subjects.filter(subject => !subject.archived)
+  const courseId = 'course_id' in task ? task.course_id : null
+  return (courseId ? active.find(subject => subject.course_id === courseId) : undefined)
+    ?? active.find(subject => subject.id === currentSubjectId)
+    ?? active[0]
+    ?? null
+}
@@ -0,0 +1,89 @@
+import type { TaskOption, TaskOptionInsert } from '../types/database'
+import { loadJSON, removeKey } from './storage'
+
+// The choices offered for a task's type and status, stored per user in
+// `task_options` so they follow the account across browsers. Todos and
+// assignments keep the chosen name in the column of the same name. Course
+// rows predate the courses table; useCourses moves them there.
+
+export const TASK_OPTION_KINDS = ['type', 'status', 'course'] as const
+
+export type TaskOptionKind = typeof TASK_OPTION_KINDS[number]
+
+/** The kinds still chosen from task options */
+export type TaskFieldKind = Exclude<TaskOptionKind, 'course'>
+
+/** Offered until the user changes the status list */
+export const DEFAULT_STATUSES = ['Not Started', 'In Progress', 'Completed']
+
+// Where the lists lived before they moved to the database
+const LEGACY_OPTION_KEYS: Record<TaskOptionKind, string> = {
+  type: 'muffin-task-types',
+  status: 'muffin-task-statuses',
+  course: 'muffin-task-courses',
+}
+const LEGACY_COURSE_COLORS_KEY = 'muffin-course-colors'
+
+export const LEGACY_TASK_OPTION_KEYS = [...Object.values(LEGACY_OPTION_KEYS), LEGACY_COURSE_COLORS_KEY]
+
+export interface LegacyTaskOptions {
+  lists: Partial<Record<TaskOptionKind, string[]>>
+  courseColors: Record<string, string>
+}
+
+/** Names of one kind in list order. */
+export function optionNames(options: TaskOption[], kind: TaskOptionKind): string[] {
+  return options
+    .filter(option => option.kind === kind)
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+    .map(option => option.name)
+}
+
+export function nextOptionPosition(options: TaskOption[], kind: TaskOptionKind): number {
+  return options
+    .filter(option => option.kind === kind)
+    .reduce((max, option) => Math.max(max, (option.position ?? 0) + 1), 0)
+}
+
+/** The lists this browser still keeps in localStorage, or null once moved. */
+export function readLegacyTaskOptions(): LegacyTaskOptions | null {
+  const lists: LegacyTaskOptions['lists'] = {}
+  for (const kind of TASK_OPTION_KINDS) {
+    const stored = loadJSON<unknown>(LEGACY_OPTION_KEYS[kind], null)
+    if (Array.isArray(stored)) lists[kind] = stored.filter((name): name is string => typeof name === 'string')
+  }
+  const courseColors = loadJSON<Record<string, string> | null>(LEGACY_COURSE_COLORS_KEY, null)
+  if (Object.keys(lists).length === 0 && !courseColors) return null
+  return { lists, courseColors: courseColors ?? {} }
+}
+
+export function clearLegacyTaskOptions() {
+  for (const key of LEGACY_TASK_OPTION_KEYS) removeKey(key)
+}
+
+/**
+ * Rows to add so `options` includes everything from the legacy lists. Names
+ * already present are skipped, so moving the same lists twice adds nothing.
+ */
+export function legacyOptionInserts(options: TaskOption[], legacy: LegacyTaskOptions): TaskOptionInsert[] {
+  const inserts: TaskOptionInsert[] = []
+  for (const kind of TASK_OPTION_KINDS) {
+    const names = legacy.lists[kind] ?? []
+    // Colors were kept apart from the course list, so a colored course may be missing from it
+    const all = kind === 'course' ? [...names, ...Object.keys(legacy.courseColors)] : names
+    const present = new Set(optionNames(options, kind))
+    let position = nextOptionPosition(options, kind)
+    for (const name of all) {
+      const trimmed = name.trim()
+      if (!trimmed || present.has(trimmed)) continue
+      present.add(trimmed)
+      inserts.push({
+        kind,
+        name: trimmed,
+        color: kind === 'course' ? legacy.courseColors[name] ?? null : null,
+        position: position++,
+      })
+    }
+  }
+  return inserts
+}
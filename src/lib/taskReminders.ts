@@ -0,0 +1,178 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import type { Assignment, RecurrenceException, Todo } from '../types/database'
+import { expandItems, isOccurrenceCompleted } from './recurrence'
+import { getZonedDateKey, zonedTimeToUtc } from './timezone'
+
+// Todos and assignments are due on a date, not at a time, so their reminders
+// and the daily digest fire at a configurable hour in the viewer's zone.
+
+export type TaskKind = 'todo' | 'assignment'
+
+export interface DueTask {
+  kind: TaskKind
+  id: string
+  title: string
+  course: string | null
+  dueDate: string // yyyy-MM-dd
+}
+
+export interface TaskReminder extends DueTask {
+  key: string // kind:id:dueDate:daysBefore
+  daysBefore: number
+  fireAt: number // epoch ms
+  expiresAt: number // end of the day it fires on
+}
+
+export interface TaskReminderOptions {
+  daysBefore: number[] // 0 is the due date itself
+  hour: number // local hour reminders and the digest are sent at
+  digest: boolean
+}
+
+export interface DueDigest {
+  date: string
+  dueToday: DueTask[]
+  overdue: DueTask[]
+}
+
+export const TASK_REMINDER_OPTIONS: { value: number; label: string }[] = [
+  { value: 7, label: '1 week before' },
+  { value: 3, label: '3 days before' },
+  { value: 1, label: '1 day before' },
+  { value: 0, label: 'Morning of' },
+]
+
+// Recurring tasks are only searched this far back for missed occurrences
+export const OVERDUE_LOOKBACK_DAYS = 14
+
+const DIGEST_PREVIEW_COUNT = 3
+
+function shiftDate(date: string, days: number): string {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd')
+}
+
+function atHour(date: string, hour: number, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return zonedTimeToUtc({ year, month, day, hour, minute: 0, second: 0 }, timeZone).getTime()
+}
+
+/**
+ * Incomplete task occurrences due in [rangeStart, rangeEnd). Completion is
+ * read per occurrence, so a recurring task ticked off for one date stays
+ * quiet for that date only.
+ */
+export function getOpenTasks(
+  todos: Todo[],
+  assignments: Assignment[],
+  exceptions: RecurrenceException[],
+  rangeStart: string,
+  rangeEnd: string,
+): DueTask[] {
+  const expand = <T extends Todo | Assignment>(kind: TaskKind, items: T[]) => {
+    const own = exceptions.filter(e => e.parent_type === kind)
+    const dated = items.filter(item => !!item.due_date)
+    return expandItems(dated, 'due_date' as keyof T, rangeStart, rangeEnd, own)
+      .filter(occ => !isOccurrenceCompleted(occ))
+      .map((occ): DueTask => ({
+        kind,
+        id: occ.data.id,
+        title: occ.data.title,
+        course: occ.data.course,
+        dueDate: occ.occurrenceDate,
+      }))
+  }
+  return [...expand('todo', todos), ...expand('assignment', assignments)]
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.title.localeCompare(b.title))
+}
+
+/** Reminders firing in [from, to), earliest first. */
+export function getTaskReminders(
+  todos: Todo[],
+  assignments: Assignment[],
+  exceptions: RecurrenceException[],
+  from: Date,
+  to: Date,
+  options: TaskReminderOptions,
+  timeZone: string,
+): TaskReminder[] {
+  // The digest already lists everything due today
+  const offsets = [...new Set(options.daysBefore)].filter(days => days >= 0 && !(days === 0 && options.digest))
+  if (offsets.length === 0) return []
+
+  const firstDay = getZonedDateKey(from, timeZone)
+  const lastDay = getZonedDateKey(to, timeZone)
+  const tasks = getOpenTasks(todos, assignments, exceptions, firstDay, shiftDate(lastDay, Math.max(...offsets) + 1))
+
+  const results: TaskReminder[] = []
+  for (const task of tasks) {
+    for (const daysBefore of offsets) {
+      const day = shiftDate(task.dueDate, -daysBefore)
+      const fireAt = atHour(day, options.hour, timeZone)
+      if (fireAt < from.getTime() || fireAt >= to.getTime()) continue
+      results.push({
+        ...task,
+        key: `${task.kind}:${task.id}:${task.dueDate}:${daysBefore}`,
+        daysBefore,
+        fireAt,
+        expiresAt: atHour(shiftDate(day, 1), 0, timeZone),
+      })
+    }
+  }
+  return results.sort((a, b) => a.fireAt - b.fireAt || a.key.localeCompare(b.key))
+}
+
+/** What's due on `date` and what's still open from before it. */
+export function getDueDigest(
+  todos: Todo[],
+  assignments: Assignment[],
+  exceptions: RecurrenceException[],
+  date: string,
+): DueDigest {
+  const recent = getOpenTasks(todos, assignments, exceptions, shiftDate(date, -OVERDUE_LOOKBACK_DAYS), shiftDate(date, 1))
+  // One-off tasks can be overdue for longer than the recurring lookback
+  const older = getOpenTasks(
+    todos.filter(t => !t.recurrence),
+    assignments.filter(a => !a.recurrence),
+    exceptions,
+    '0000-01-01',
+    shiftDate(date, -OVERDUE_LOOKBACK_DAYS),
+  )
+  const all = [...older, ...recent]
+  return {
+    date,
+    dueToday: all.filter(task => task.dueDate === date),
+    overdue: all.filter(task => task.dueDate < date),
+  }
+}
+
+export function taskLabel(task: Pick<DueTask, 'title' | 'course'>): string {
+  return task.course ? `${task.course}: ${task.title}` : task.title
+}
+
+/** "Due today", "Due tomorrow" or "Due in 3 days" relative to `today`. */
+export function describeDue(dueDate: string, today: string): string {
+  const days = differenceInCalendarDays(parseISO(dueDate), parseISO(today))
+  if (days < 0) return days === -1 ? 'Was due yesterday' : `Was due ${-days} days ago`
+  if (days === 0) return 'Due today'
+  if (days === 1) return 'Due tomorrow'
+  return `Due in ${days} days`
+}
+
+function previewList(tasks: DueTask[]): string {
+  const names = tasks.slice(0, DIGEST_PREVIEW_COUNT).map(taskLabel)
+  const more = tasks.length - names.length
+  return more > 0 ? `${names.join(', ')} +${more} more` : names.join(', ')
+}
+
+/** Notification text for a digest, or null when there is nothing to report. */
+export function describeDigest(digest: DueDigest): { title: string; body: string } | null {
+  const { dueToday, overdue } = digest
+  if (dueToday.length === 0 && overdue.length === 0) return null
+  const parts: string[] = []
+  if (dueToday.length > 0) parts.push(`${dueToday.length} due today`)
+  if (overdue.length > 0) parts.push(`${overdue.length} overdue`)
+  const lines: string[] = []
+  if (dueToday.length > 0) lines.push(`Today: ${previewList(dueToday)}`)
+  if (overdue.length > 0) lines.push(`Overdue: ${previewList(overdue)}`)
+  return { title: parts.join(' · '), body: lines.join('\n') }
+}
@@ -0,0 +1,191 @@
+import type { TimerPreset } from '../types/database'
+
+// A Pomodoro run is an ordered list of phases. The classic pattern (focus and
+// short breaks, a long break after the last cycle) is built from the
+// pomodoro_* settings; named presets in `timer_presets` can hold any list.
+// Consecutive focus phases run straight through; any other change of phase
+// waits for the user to start it, unless auto-start is on for it, in which
+// case it starts by itself after an optional grace period.
+
+export type PomodoroPhase = 'focus' | 'short_break' | 'long_break'
+
+export interface TimerPhase {
+  type: PomodoroPhase
+  minutes: number
+}
+
+export interface PomodoroSettings {
+  focusMinutes: number
+  shortBreakMinutes: number
+  longBreakMinutes: number
+  cycles: number
+}
+
+export interface AutoStart {
+  breaks: boolean
+  /** Also finishes a run that ends on a break */
+  focus: boolean
+  /** Grace period before an auto-started phase begins */
+  delaySeconds: number
+}
+
+export type NextStep = 'chain' | 'wait_break' | 'wait_focus' | 'finish' | 'wait_finish'
+
+/**
+ * Where a run is: in the phase at `index`, or waiting after it. `until` is
+ * when the phase ends, when the wait auto-starts the next one (null when it
+ * waits for the user), or once finished, when the run ended.
+ */
+export interface RunState {
+  index: number
+  waiting: boolean
+  until: number | null
+  /** Seconds banked from completed focus phases */
+  focusSeconds: number
+  finished: boolean
+}
+
+const PHASE_TYPES: readonly string[] = ['focus', 'short_break', 'long_break'] satisfies PomodoroPhase[]
+
+/** Ready-made sequences offered when adding a preset. */
+export const PRESET_TEMPLATES: { name: string; phases: TimerPhase[] }[] = [
+  {
+    name: '52/17',
+    phases: [
+      { type: 'focus', minutes: 52 }, { type: 'short_break', minutes: 17 },
+      { type: 'focus', minutes: 52 }, { type: 'short_break', minutes: 17 },
+      { type: 'focus', minutes: 52 },
+    ],
+  },
+  {
+    name: 'Exam sim 90/15',
+    phases: [{ type: 'focus', minutes: 90 }, { type: 'short_break', minutes: 15 }, { type: 'focus', minutes: 90 }],
+  },
+  {
+    name: 'Deep work',
+    phases: [
+      { type: 'focus', minutes: 90 }, { type: 'short_break', minutes: 20 },
+      { type: 'focus', minutes: 90 }, { type: 'long_break', minutes: 60 },
+      { type: 'focus', minutes: 90 },
+    ],
+  },
+]
+
+/**
+ * The classic sequence: `cycles` focus phases with a short break between
+ * them and a long break at the end. Zero-minute breaks are left out, and
+ * zero cycles means a single focus phase.
+ */
+export function classicPhases(settings: PomodoroSettings): TimerPhase[] {
+  const focus: TimerPhase = { type: 'focus', minutes: settings.focusMinutes }
+  if (settings.cycles === 0) return [focus]
+  const phases: TimerPhase[] = []
+  for (let cycle = 1; cycle <= settings.cycles; cycle++) {
+    phases.push(focus)
+    const last = cycle === settings.cycles
+    const minutes = last ? settings.longBreakMinutes : settings.shortBreakMinutes
+    if (minutes > 0) phases.push({ type: last ? 'long_break' : 'short_break', minutes })
+  }
+  return phases
+}
+
+/** A preset's phases with anything malformed dropped (the column is free-form JSON). */
+export function presetPhases(preset: Pick<TimerPreset, 'phases'>): TimerPhase[] {
+  if (!Array.isArray(preset.phases)) return []
+  return preset.phases.flatMap(phase =>
+    PHASE_TYPES.includes(phase?.type) && Number.isFinite(phase.minutes) && phase.minutes >= 1
+      ? [{ type: phase.type as PomodoroPhase, minutes: Math.round(phase.minutes) }]
+      : []
+  )
+}
+
+export function countFocusPhases(phases: TimerPhase[]): number {
+  return phases.filter(phase => phase.type === 'focus').length
+}
+
+/** Which focus phase (1-based) `index` is, or for a break the one before it. */
+export function focusOrdinal(phases: TimerPhase[], index: number): number {
+  return Math.max(1, countFocusPhases(phases.slice(0, index + 1)))
+}
+
+/**
+ * The index of a phase known only by its type and focus ordinal, as older
+ * saved timers recorded it: the `cycle`th focus phase, or the break after it.
+ */
+export function phaseIndexOf(phases: TimerPhase[], phase: PomodoroPhase, cycle: number): number {
+  let seen = 0
+  const focusIndex = phases.findIndex(p => p.type === 'focus' && ++seen === cycle)
+  if (focusIndex === -1) return Math.max(0, phases.length - 1)
+  return Math.min(focusIndex + (phase === 'focus' ? 0 : 1), phases.length - 1)
+}
+
+/** What follows the phase at `index`: run on, wait for the user, or finish. */
+export function nextStep(phases: TimerPhase[], index: number): NextStep {
+  const current = phases[index]
+  const next = phases[index + 1]
+  if (!next) return current?.type === 'focus' ? 'finish' : 'wait_finish'
+  if (next.type !== 'focus') return 'wait_break'
+  return current?.type === 'focus' ? 'chain' : 'wait_focus'
+}
+
+export function presetAutoStart(preset: Pick<TimerPreset, 'auto_start_breaks' | 'auto_start_focus' | 'auto_start_delay_seconds'>): AutoStart {
+  return {
+    breaks: !!preset.auto_start_breaks,
+    focus: !!preset.auto_start_focus,
+    delaySeconds: Math.max(0, preset.auto_start_delay_seconds ?? 0),
+  }
+}
+
+/** Whether a wait of the given kind ends by itself. */
+export function autoStartsAfter(step: NextStep, autoStart: AutoStart): boolean {
+  if (step === 'wait_break') return autoStart.breaks
+  if (step === 'wait_focus' || step === 'wait_finish') return autoStart.focus
+  return true
+}
+
+/**
+ * Plays a run forward to `now` the way the timer would have had it been
+ * watching: phases end on schedule, focus phases bank their full length, and
+ * auto-started waits move on after their grace period. It stops at a wait for
+ * the user or the end of the run. `onPhaseEnd` hears of each phase that ended.
+ */
+export function advanceRun(
+  phases: TimerPhase[],
+  state: RunState,
+  autoStart: AutoStart,
+  now: number,
+  onPhaseEnd?: (index: number, end: number) => void,
+): RunState {
+  const run = { ...state }
+  while (!run.finished && run.until !== null && run.until <= now) {
+    const at = run.until
+    const step = nextStep(phases, run.index)
+    if (run.waiting) {
+      if (step === 'wait_finish') {
+        run.finished = true
+        break
+      }
+      run.index += 1
+      run.waiting = false
+      run.until = at + phases[run.index].minutes * 60 * 1000
+      continue
+    }
+    onPhaseEnd?.(run.index, at)
+    if (phases[run.index].type === 'focus') run.focusSeconds += phases[run.index].minutes * 60
+    if (step === 'finish') {
+      run.finished = true
+    } else if (step === 'chain') {
+      run.index += 1
+      run.until = at + phases[run.index].minutes * 60 * 1000
+    } else {
+      run.waiting = true
+      run.until = autoStartsAfter(step, autoStart) ? at + autoStart.delaySeconds * 1000 : null
+    }
+  }
+  return run
+}
+
+/** "25 · 5 · 25 · 15" */
+export function describePhases(phases: TimerPhase[]): string {
+  return phases.map(phase => phase.minutes).join(' · ')
+}
@@ -0,0 +1,73 @@
+import { loadJSON, removeKey, saveJSON } from './storage'
+
+// Every open tab runs its own focus timer, but only one may own the session
+// that's going: the tab that started or restored it. The owner holds a lease
+// in localStorage, renewed while it lives, and broadcasts its state on a
+// BroadcastChannel; other tabs mirror that state and send it the controls
+// pressed in them. When the owner goes away (the lease is removed, or lapses
+// if the tab crashed) the first tab to notice takes over from its snapshot.
+
+export const TIMER_OWNER_KEY = 'muffin-time:focus-timer-owner:v1'
+const CHANNEL_NAME = 'muffin-time:focus-timer'
+
+export const LEASE_MS = 5000
+export const HEARTBEAT_MS = 1500
+
+export interface TimerLease {
+  tabId: string
+  expiresAt: number
+}
+
+export type TimerCommand =
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'finish' }
+  | { type: 'start_break' }
+  | { type: 'start_next_focus' }
+  | { type: 'cancel_auto_start' }
+  | { type: 'start_pacer' }
+  | { type: 'stop_pacer' }
+  | { type: 'advance_question'; rollover: boolean }
+
+export type TabMessage<State> =
+  | { type: 'state'; from: string; state: State | null }
+  /** A tab that just opened asks the owner for its state */
+  | { type: 'hello'; from: string }
+  | { type: 'command'; to: string; command: TimerCommand }
+
+export interface TabChannel<State> {
+  post: (message: TabMessage<State>) => void
+  close: () => void
+}
+
+/** The tab holding `lease`, or null once it has lapsed. */
+export function leaseOwner(lease: TimerLease | null, now: number): string | null {
+  return lease && lease.expiresAt > now ? lease.tabId : null
+}
+
+export function readLease(): TimerLease | null {
+  return loadJSON<TimerLease | null>(TIMER_OWNER_KEY, null)
+}
+
+/** Takes or renews the lease for `tabId` unless another tab holds it; true if `tabId` holds it now. */
+export function holdLease(tabId: string, now: number): boolean {
+  const owner = leaseOwner(readLease(), now)
+  if (owner !== null && owner !== tabId) return false
+  saveJSON(TIMER_OWNER_KEY, { tabId, expiresAt: now + LEASE_MS } satisfies TimerLease)
+  return leaseOwner(readLease(), now) === tabId
+}
+
+export function releaseLease(tabId: string) {
+  if (readLease()?.tabId === tabId) removeKey(TIMER_OWNER_KEY)
+}
+
+/** The channel between tabs, or null where BroadcastChannel isn't available (each tab then runs alone). */
+export function openTabChannel<State>(onMessage: (message: TabMessage<State>) => void): TabChannel<State> | null {
+  if (typeof BroadcastChannel === 'undefined') return null
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = event => onMessage(event.data as TabMessage<State>)
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  }
+}
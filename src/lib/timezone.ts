@@ -0,0 +1,116 @@
+export interface WallTime {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Wall-clock fields of an instant as seen in the given IANA time zone. */
+export function getWallTime(date: Date, timeZone: string): WallTime {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10)
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  }
+}
+
+/** Offset of the zone from UTC at the given instant, in milliseconds. */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wall = getWallTime(date, timeZone)
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * The instant at which the zone's clocks read the given wall time. Times that
+ * fall in a DST gap resolve forward, ambiguous times resolve to the first one.
+ */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone)
+  const candidate = guess - firstOffset
+  const secondOffset = getTimeZoneOffset(new Date(candidate), timeZone)
+  if (secondOffset === firstOffset) return new Date(candidate)
+  const earlier = guess - Math.max(firstOffset, secondOffset)
+  const earlierWall = getWallTime(new Date(earlier), timeZone)
+  return earlierWall.hour === wall.hour && earlierWall.minute === wall.minute
+    ? new Date(earlier)
+    : new Date(guess - Math.min(firstOffset, secondOffset))
+}
+
+/** The browser's own IANA time zone. */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/** All IANA zones the runtime knows about, for pickers. */
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+  return zones.includes('UTC') ? zones : ['UTC', ...zones]
+}
+
+/** Calendar date ("yyyy-MM-dd") of an instant in the given zone. */
+export function getZonedDateKey(date: Date | string, timeZone: string): string {
+  const wall = getWallTime(new Date(date), timeZone)
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`
+}
+
+/**
+ * A Date whose local fields show the instant's wall time in `timeZone`, so
+ * date-fns helpers (format, getHours, …) can be used for display in that zone.
+ */
+export function toZonedDate(date: Date | string, timeZone: string): Date {
+  const wall = getWallTime(new Date(date), timeZone)
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+}
+
+/** Inverse of toZonedDate: read a Date's local fields as wall time in `timeZone`. */
+export function fromZonedDate(date: Date, timeZone: string): Date {
+  return zonedTimeToUtc({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds(),
+  }, timeZone)
+}
@@ -0,0 +1,146 @@
+// A user's rows across every table, as moved between owners when guest data
+// is uploaded to an account or a backup is restored. Copied rows get fresh
+// ids (so they can never collide with rows already on the server) and the
+// foreign keys that pointed at the old ids are rewritten.
+
+/** Tables holding a user's rows, parents before the rows that reference them. */
+export const USER_TABLES = [
+  'task_options',
+  'timer_presets',
+  'courses',
+  'calendars',
+  'subjects',
+  'todos',
+  'assignments',
+  'events',
+  'focus_sessions',
+  'focus_session_segments',
+  'pacer_runs',
+  'recurrence_exceptions',
+] as const
+
+export type UserTable = typeof USER_TABLES[number]
+
+type Row = { id: string } & Record<string, unknown>
+
+export type UserData = Record<UserTable, Row[]>
+
+const TABLE_LABELS: Record<UserTable, [string, string]> = {
+  task_options: ['task option', 'task options'],
+  timer_presets: ['timer preset', 'timer presets'],
+  courses: ['course', 'courses'],
+  calendars: ['calendar', 'calendars'],
+  subjects: ['subject', 'subjects'],
+  todos: ['to-do', 'to-dos'],
+  assignments: ['assignment', 'assignments'],
+  events: ['event', 'events'],
+  focus_sessions: ['focus session', 'focus sessions'],
+  focus_session_segments: ['session segment', 'session segments'],
+  pacer_runs: ['pacer run', 'pacer runs'],
+  recurrence_exceptions: ['recurrence change', 'recurrence changes'],
+}
+
+// Which table a recurrence exception's parent_type points at
+export const EXCEPTION_PARENTS: Record<string, UserTable> = {
+  event: 'events',
+  todo: 'todos',
+  assignment: 'assignments',
+}
+
+export function emptyUserData(): UserData {
+  return Object.fromEntries(USER_TABLES.map(table => [table, []])) as unknown as UserData
+}
+
+export function countUserRows(data: UserData): number {
+  return USER_TABLES.reduce((sum, table) => sum + data[table].length, 0)
+}
+
+/** e.g. ['2 calendars', '14 events', '1 subject'], skipping empty tables */
+export function describeUserData(data: UserData): string[] {
+  return USER_TABLES
+    .filter(table => data[table].length > 0)
+    .map(table => {
+      const count = data[table].length
+      const [one, many] = TABLE_LABELS[table]
+      return `${count} ${count === 1 ? one : many}`
+    })
+}
+
+export interface RemapOptions {
+  newId?: () => string
+  /**
+   * Rows the destination already has, from their id in `data` to their id
+   * there. Those rows are left out of the result, and references to them
+   * point at the destination's row.
+   */
+  existing?: Partial<Record<UserTable, Map<string, string>>>
+  /** Ids from remapIds, for a caller that needs them as well */
+  ids?: Record<UserTable, Map<string, string>>
+}
+
+/** The id each row of `data` gets in the destination, by table and its id in `data`. */
+export function remapIds(data: UserData, options: RemapOptions = {}): Record<UserTable, Map<string, string>> {
+  const { newId = () => crypto.randomUUID(), existing = {} } = options
+  return Object.fromEntries(
+    USER_TABLES.map(table => [
+      table,
+      new Map(data[table].map(row => [row.id, existing[table]?.get(row.id) ?? newId()])),
+    ])
+  ) as Record<UserTable, Map<string, string>>
+}
+
+/**
+ * Copy `data` for `userId` with new ids and foreign keys rewritten to match.
+ * Rows whose parent isn't part of the data (e.g. a session for a deleted
+ * subject) are left out, since the server would reject them.
+ */
+export function remapUserData(data: UserData, userId: string, options: RemapOptions = {}): UserData {
+  const { existing = {} } = options
+  const ids = options.ids ?? remapIds(data, options)
+
+  const remap = (table: UserTable, rewrite: (row: Row) => Row | null = row => row): Row[] =>
+    data[table].flatMap(row => {
+      if (existing[table]?.has(row.id)) return []
+      const rewritten = rewrite(row)
+      return rewritten ? [{ ...rewritten, id: ids[table].get(row.id)!, user_id: userId }] : []
+    })
+
+  const foreignKey = (row: Row, column: string, parent: UserTable): Row | null => {
+    const parentId = ids[parent].get(String(row[column]))
+    return parentId ? { ...row, [column]: parentId } : null
+  }
+
+  // A link that may be empty: a missing parent clears it rather than dropping the row
+  const optionalForeignKey = (row: Row, column: string, parent: UserTable): Row => {
+    if (row[column] === null || row[column] === undefined) return row
+    return { ...row, [column]: ids[parent].get(String(row[column])) ?? null }
+  }
+
+  return {
+    task_options: remap('task_options'),
+    timer_presets: remap('timer_presets'),
+    courses: remap('courses'),
+    calendars: remap('calendars', row => optionalForeignKey(row, 'course_id', 'courses')),
+    subjects: remap('subjects', row => optionalForeignKey(row, 'course_id', 'courses')),
+    todos: remap('todos'),
+    assignments: remap('assignments', row => optionalForeignKey(row, 'course_id', 'courses')),
+    events: remap('events', row => {
+      const event = foreignKey(row, 'calendar_id', 'calendars')
+      return event && optionalForeignKey(event, 'assignment_id', 'assignments')
+    }),
+    focus_sessions: remap('focus_sessions', row => {
+      const session = foreignKey(row, 'subject_id', 'subjects')
+      const task = EXCEPTION_PARENTS[String(row.task_type)]
+      if (!session || !task || row.task_id === null || row.task_id === undefined) return session
+      // A session outlives its task; it just stops counting toward it
+      const linked = optionalForeignKey(session, 'task_id', task)
+      return linked.task_id === null ? { ...linked, task_type: null } : linked
+    }),
+    focus_session_segments: remap('focus_session_segments', row => foreignKey(row, 'session_id', 'focus_sessions')),
+    pacer_runs: remap('pacer_runs', row => foreignKey(row, 'session_id', 'focus_sessions')),
+    recurrence_exceptions: remap('recurrence_exceptions', row => {
+      const parent = EXCEPTION_PARENTS[String(row.parent_type)]
+      return parent ? foreignKey(row, 'parent_id', parent) : null
+    }),
+  }
+}
@@ -0,0 +1,46 @@
+import { applyMutation, type Mutation } from './mutations'
+import { fetchTable, queueMutation } from './syncQueue'
+import { GUEST_SCOPE, getTableRows, hydrateTable, setTableRows, tableKey } from './tableCache'
+import { USER_TABLES, emptyUserData, type UserData } from './userData'
+
+// Whole-account reads and writes (backups, guest uploads) on top of the
+// table store, so they go through the same local copy and queue as edits.
+
+type Row = { id: string } & Record<string, unknown>
+
+export type BulkMutation = Omit<Mutation, 'scope' | 'createdAt'>
+
+/** Every row of every user table: read in full from the server when possible, else the local copy. */
+export async function readUserData(scope: string): Promise<UserData> {
+  const data = emptyUserData()
+  for (const table of USER_TABLES) {
+    const key = tableKey(scope, table)
+    await hydrateTable(key)
+    if (scope !== GUEST_SCOPE) await fetchTable(scope, table)
+    data[table] = getTableRows<Row>(key)
+  }
+  return data
+}
+
+/**
+ * Apply `mutations` to the local copy and, when signed in, queue them in
+ * order. Consecutive writes to one table are applied together so a large
+ * restore doesn't re-save the table once per row.
+ */
+export async function writeUserData(scope: string, mutations: BulkMutation[]): Promise<void> {
+  let start = 0
+  while (start < mutations.length) {
+    const table = mutations[start].table
+    let end = start
+    while (end < mutations.length && mutations[end].table === table) end++
+    const batch = mutations.slice(start, end).map(m => ({ ...m, scope, createdAt: Date.now() }))
+
+    const key = tableKey(scope, table)
+    await hydrateTable(key)
+    setTableRows<Row>(key, rows => batch.reduce(applyMutation, rows))
+    if (scope !== GUEST_SCOPE) {
+      for (const mutation of batch) await queueMutation(mutation)
+    }
+    start = end
+  }
+}
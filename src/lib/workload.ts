@@ -0,0 +1,123 @@
+import { addDays, format, parseISO, set } from 'date-fns'
+import type { Assignment, CalendarEvent, RecurrenceException, Todo } from '../types/database'
+import { getMaxEventSpanDays, getOccurrenceTimes } from './allDay'
+import { expandItems, isOccurrenceCompleted, type VirtualOccurrence } from './recurrence'
+
+// Workload weighs the effort still estimated for unfinished tasks against the
+// time events leave free in each day's study window. Work is counted on the
+// day it's due; a week sums its days.
+
+export const STUDY_DAY_START_HOUR = 8
+export const STUDY_DAY_END_HOUR = 22
+
+export interface Interval {
+  start: number // epoch ms, inclusive
+  end: number // epoch ms, exclusive
+}
+
+export interface Workload {
+  estimatedMinutes: number
+  freeMinutes: number
+}
+
+export function isOverloaded(workload: Workload): boolean {
+  return workload.estimatedMinutes > workload.freeMinutes
+}
+
+/** Estimated minutes left on a task once its logged focus time is taken off, or null without an estimate. */
+export function remainingMinutes(estimate: number | null, focusedSeconds: number): number | null {
+  if (estimate === null) return null
+  return Math.max(0, Math.round(estimate - focusedSeconds / 60))
+}
+
+/** The part of `day` (local time) that counts as available for study. */
+export function studyWindow(day: Date): Interval {
+  const midnight = { minutes: 0, seconds: 0, milliseconds: 0 }
+  return {
+    start: set(day, { hours: STUDY_DAY_START_HOUR, ...midnight }).getTime(),
+    end: set(day, { hours: STUDY_DAY_END_HOUR, ...midnight }).getTime(),
+  }
+}
+
+/**
+ * Time taken by timed events within [from, to), with recurring ones expanded
+ * and overlaps merged, earliest first. All-day events don't block time.
+ */
+export function busyIntervals(
+  events: CalendarEvent[],
+  exceptions: RecurrenceException[],
+  from: Date,
+  to: Date,
+): Interval[] {
+  const timed = events.filter(event => !event.all_day)
+  // Reach back far enough to catch multi-day events that started earlier
+  const rangeStart = format(addDays(from, -getMaxEventSpanDays(timed) - 1), 'yyyy-MM-dd')
+  const rangeEnd = format(addDays(to, 1), 'yyyy-MM-dd')
+  const intervals = expandItems(timed, 'start_time', rangeStart, rangeEnd, exceptions, event => event.time_zone)
+    .map(occ => occ.isVirtual ? getOccurrenceTimes(occ.data, occ.occurrenceDate) : occ.data)
+    .map(times => ({
+      start: Math.max(parseISO(times.start_time).getTime(), from.getTime()),
+      end: Math.min(parseISO(times.end_time).getTime(), to.getTime()),
+    }))
+    .filter(interval => interval.end > interval.start)
+  return mergeIntervals(intervals)
+}
+
+/** `intervals` sorted, with overlapping and touching ones joined. */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const merged: Interval[] = []
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1]
+    if (last && interval.start <= last.end) last.end = Math.max(last.end, interval.end)
+    else merged.push({ ...interval })
+  }
+  return merged
+}
+
+/** Gaps in `window` not covered by the (merged, sorted) `busy` intervals. */
+export function freeIntervals(window: Interval, busy: Interval[]): Interval[] {
+  const free: Interval[] = []
+  let cursor = window.start
+  for (const interval of busy) {
+    if (interval.end <= cursor) continue
+    if (interval.start >= window.end) break
+    if (interval.start > cursor) free.push({ start: cursor, end: interval.start })
+    cursor = Math.max(cursor, interval.end)
+  }
+  if (cursor < window.end) free.push({ start: cursor, end: window.end })
+  return free
+}
+
+/** Free minutes in each day's study window, keyed "yyyy-MM-dd". Time before `now` isn't free. */
+export function freeMinutesByDay(days: Date[], busy: Interval[], now: Date): Map<string, number> {
+  const totals = new Map<string, number>()
+  for (const day of days) {
+    const window = studyWindow(day)
+    window.start = Math.max(window.start, now.getTime())
+    const ms = window.start < window.end
+      ? freeIntervals(window, busy).reduce((sum, gap) => sum + gap.end - gap.start, 0)
+      : 0
+    totals.set(format(day, 'yyyy-MM-dd'), Math.round(ms / 60000))
+  }
+  return totals
+}
+
+/**
+ * Estimated minutes still to do for unfinished occurrences, keyed by due
+ * date. Focus time is logged against a task as a whole, so it only reduces
+ * the estimate of tasks that don't repeat.
+ */
+export function estimatedMinutesByDay(
+  occurrences: VirtualOccurrence<Todo | Assignment>[],
+  focusedSeconds: (item: Todo | Assignment) => number,
+): Map<string, number> {
+  const totals = new Map<string, number>()
+  for (const occ of occurrences) {
+    if (occ.data.estimated_minutes === null || isOccurrenceCompleted(occ)) continue
+    const minutes = occ.data.recurrence
+      ? occ.data.estimated_minutes
+      : remainingMinutes(occ.data.estimated_minutes, focusedSeconds(occ.data)) ?? 0
+    totals.set(occ.occurrenceDate, (totals.get(occ.occurrenceDate) ?? 0) + minutes)
+  }
+  return totals
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+  allDayToISO, getEventDateSpan, getEventDates, getMaxEventSpanDays, getOccurrenceTimes, isBannerEvent,
+} from '../lib/allDay'
+
+const conference = {
+  start_time: allDayToISO('2026-03-02'),
+  end_time: allDayToISO('2026-03-05'),
+  all_day: true,
+}
+
+describe('all-day events', () => {
+  it('reads an inclusive date span off an exclusive UTC-midnight end', () => {
+    expect(getEventDateSpan(conference)).toEqual({ startDate: '2026-03-02', endDate: '2026-03-04' })
+    expect(getEventDates(conference)).toEqual(['2026-03-02', '2026-03-03', '2026-03-04'])
+  })
+
+  it('treats a single all-day event as one date', () => {
+    const holiday = { start_time: allDayToISO('2026-12-25'), end_time: allDayToISO('2026-12-26'), all_day: true }
+    expect(getEventDates(holiday)).toEqual(['2026-12-25'])
+  })
+
+  it('sends all-day and 24h+ timed events to the banner', () => {
+    expect(isBannerEvent(conference)).toBe(true)
+    expect(isBannerEvent({
+      start_time: new Date(2026, 2, 2, 9).toISOString(),
+      end_time: new Date(2026, 2, 4, 17).toISOString(),
+      all_day: false,
+    })).toBe(true)
+    expect(isBannerEvent({
+      start_time: new Date(2026, 2, 2, 22).toISOString(),
+      end_time: new Date(2026, 2, 3, 1).toISOString(),
+      all_day: false,
+    })).toBe(false)
+  })
+
+  it('does not count a timed event ending at midnight as covering the next day', () => {
+    const event = {
+      start_time: new Date(2026, 2, 2, 9).toISOString(),
+      end_time: new Date(2026, 2, 3, 0).toISOString(),
+      all_day: false,
+    }
+    expect(getEventDates(event)).toEqual(['2026-03-02'])
+  })
+
+  it('moves recurring occurrences while keeping their duration', () => {
+    expect(getOccurrenceTimes(conference, '2026-03-09')).toEqual({
+      start_time: '2026-03-09T00:00:00.000Z',
+      end_time: '2026-03-12T00:00:00.000Z',
+    })
+    const lecture = {
+      start_time: new Date(2026, 2, 2, 23).toISOString(),
+      end_time: new Date(2026, 2, 3, 1).toISOString(),
+      all_day: false,
+    }
+    const moved = getOccurrenceTimes(lecture, '2026-03-09')
+    expect(new Date(moved.start_time)).toEqual(new Date(2026, 2, 9, 23))
+    expect(new Date(moved.end_time)).toEqual(new Date(2026, 2, 10, 1))
+  })
+
+  it('measures the longest span in days', () => {
+    expect(getMaxEventSpanDays([conference, { ...conference, end_time: allDayToISO('2026-03-03') }])).toBe(3)
+    expect(getMaxEventSpanDays([])).toBe(0)
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BackupError, backupSettings, createBackup, parseBackup, planRestore, restoreLocalValue,
+} from '../lib/backup'
+import { emptyUserData, type UserData, type UserTable } from '../lib/userData'
+
+function sequentialIds() {
+  let next = 0
+  return () => `new-${++next}`
+}
+
+function makeBackup() {
+  const data = emptyUserData()
+  data.calendars = [{ id: 'cal', user_id: 'old-user', name: 'School', color: '#fff' }]
+  data.events = [{
+    id: 'ev', user_id: 'old-user', calendar_id: 'cal', title: 'Lecture',
+    start_time: '2026-03-02T10:00:00Z', end_time: '2026-03-02T11:00:00Z',
+  }]
+  const settings = { id: 'set', user_id: 'old-user', timer_mode: 'pomodoro', created_at: '' }
+  return createBackup(data, settings, { 'muffin-task-types': ['Essay'] }, new Date('2026-03-05T12:00:00Z'))
+}
+
+describe('parseBackup', () => {
+  it('round-trips a created backup', () => {
+    const backup = makeBackup()
+    expect(parseBackup(JSON.stringify(backup))).toEqual(backup)
+  })
+
+  it('reads backups made before task options and courses had tables', () => {
+    const backup = makeBackup()
+    const tables: Record<string, unknown> = { ...backup.tables }
+    delete tables.task_options
+    delete tables.courses
+    const parsed = parseBackup(JSON.stringify({ ...backup, tables }))
+    expect(parsed.tables.task_options).toEqual([])
+    expect(parsed.tables.courses).toEqual([])
+  })
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('not json')).toThrow(BackupError)
+    expect(() => parseBackup('{"hello": 1}')).toThrow('This is not a Muffin Time backup.')
+    expect(() => parseBackup(JSON.stringify({ ...makeBackup(), version: 99 }))).toThrow(/newer version/)
+  })
+
+  it('points at the first invalid row', () => {
+    const backup = makeBackup()
+    const broken = { ...backup, tables: { ...backup.tables, events: [{ id: 'ev', title: 'No calendar' }] } }
+    expect(() => parseBackup(JSON.stringify(broken))).toThrow(/tables\.events\.0\.calendar_id/)
+  })
+})
+
+describe('planRestore', () => {
+  it('merges as new rows with fresh ids for another account', () => {
+    const { mutations } = planRestore(makeBackup(), emptyUserData(), 'user-2', 'merge', sequentialIds())
+    expect(mutations.map(m => [m.table, m.kind])).toEqual([['calendars', 'insert'], ['events', 'insert']])
+    expect(mutations[0].values).toMatchObject({ id: 'new-1', user_id: 'user-2' })
+    expect(mutations[1].values).toMatchObject({ id: 'new-2', calendar_id: 'new-1' })
+  })
+
+  it('adds nothing when merging a backup of rows that are still there', () => {
+    const current = emptyUserData()
+    current.calendars = [{ id: 'cal' }]
+    current.events = [{ id: 'ev' }]
+    expect(planRestore(makeBackup(), current, 'old-user', 'merge').mutations).toEqual([])
+  })
+
+  it('adds nothing when merging the same backup into another account again', () => {
+    const backup = makeBackup()
+    backup.tables.todos = [{ id: 'todo', user_id: 'old-user', title: 'Read', due_date: '2026-03-03' }]
+    backup.tables.recurrence_exceptions = [{
+      id: 'exc', user_id: 'old-user', parent_type: 'event', parent_id: 'ev',
+      exception_date: '2026-03-09', exception_type: 'skip',
+    }]
+    const first = planRestore(backup, emptyUserData(), 'user-2', 'merge', sequentialIds()).mutations
+    const current = emptyUserData()
+    for (const m of first) current[m.table as UserTable].push(m.values as UserData[UserTable][number])
+    expect(first).toHaveLength(4)
+
+    expect(planRestore(backup, current, 'user-2', 'merge', sequentialIds()).mutations).toEqual([])
+  })
+
+  it('matches each existing row to one backup row only', () => {
+    const backup = makeBackup()
+    backup.tables.todos = [
+      { id: 'a', user_id: 'old-user', title: 'Read', due_date: '2026-03-03' },
+      { id: 'b', user_id: 'old-user', title: 'Read', due_date: '2026-03-03' },
+    ]
+    const current = emptyUserData()
+    current.todos = [{ id: 'mine', title: 'Read', due_date: '2026-03-03' }]
+    const todos = planRestore(backup, current, 'user-2', 'merge', sequentialIds()).mutations.filter(m => m.table === 'todos')
+    expect(todos).toHaveLength(1)
+  })
+
+  it('clears every table, children first, before replacing', () => {
+    const { mutations } = planRestore(makeBackup(), emptyUserData(), 'user-2', 'replace', sequentialIds())
+    const deletes = mutations.filter(m => m.kind === 'delete')
+    expect(deletes.map(m => m.table)).toEqual([
+      'recurrence_exceptions', 'pacer_runs', 'focus_session_segments', 'focus_sessions', 'events', 'assignments', 'todos', 'subjects', 'calendars',
+      'courses', 'timer_presets', 'task_options',
+    ])
+    expect(deletes[0].match).toEqual({ user_id: 'user-2' })
+    expect(mutations.slice(deletes.length).every(m => m.kind === 'insert')).toBe(true)
+  })
+})
+
+describe('backupSettings', () => {
+  it('drops the settings row identity', () => {
+    expect(backupSettings(makeBackup(), new Map())).toEqual({ timer_mode: 'pomodoro' })
+  })
+
+  it('points the chosen timer preset at its restored copy', () => {
+    const backup = makeBackup()
+    backup.tables.timer_presets = [{ id: 'preset', user_id: 'old-user', name: 'Exam', phases: [] }]
+    backup.tables.user_settings[0].timer_preset_id = 'preset'
+    const { mutations, settings } = planRestore(backup, emptyUserData(), 'user-2', 'replace', sequentialIds())
+    const preset = mutations.find(m => m.table === 'timer_presets' && m.kind === 'insert')
+    expect(settings?.timer_preset_id).toBe(preset?.values?.id)
+    expect(planRestore(backup, emptyUserData(), 'user-2', 'merge').settings).toBeNull()
+
+    backup.tables.timer_presets = []
+    expect(backupSettings(backup, new Map())?.timer_preset_id).toBeNull()
+  })
+})
+
+describe('restoreLocalValue', () => {
+  it('unions lists and keeps current map entries when merging', () => {
+    expect(restoreLocalValue(['Essay', 'Lab'], ['Lab', 'Quiz'], 'merge')).toEqual(['Essay', 'Lab', 'Quiz'])
+    expect(restoreLocalValue({ Math: '#111' }, { Math: '#222', Art: '#333' }, 'merge')).toEqual({ Math: '#111', Art: '#333' })
+    expect(restoreLocalValue(null, ['Quiz'], 'merge')).toEqual(['Quiz'])
+  })
+
+  it('takes the backup value when replacing', () => {
+    expect(restoreLocalValue(['Essay'], ['Quiz'], 'replace')).toEqual(['Quiz'])
+  })
+})
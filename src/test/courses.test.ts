@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { courseFocusSeconds, planCourseMigration, upcomingAssignments, upcomingLectures } from '../lib/courses'
+import type { Assignment, CalendarEvent, Course, FocusSession, TaskOption } from '../types/database'
+
+function sequentialIds() {
+  let next = 0
+  return () => `new-${++next}`
+}
+
+function makeAssignment(overrides: Partial<Assignment> = {}): Assignment {
+  return {
+    id: 'a1', user_id: 'u1', title: 'Essay', description: null, due_date: '2026-03-10',
+    course: null, course_id: null, completed: false, type: null, status: null,
+    recurrence: null, recurrence_until: null, position: null, estimated_minutes: null, created_at: '',
+    ...overrides,
+  }
+}
+
+function makeEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'e1', user_id: 'u1', calendar_id: 'lectures', title: 'Lecture', description: null,
+    start_time: '2026-03-02T10:00:00Z', end_time: '2026-03-02T11:00:00Z', all_day: false,
+    ...overrides,
+  } as CalendarEvent
+}
+
+const cs101: Course = { id: 'cs', user_id: 'u1', name: 'CS 101', color: '#4F9CF7', created_at: '' }
+
+describe('planCourseMigration', () => {
+  it('turns course options and free-text courses into courses once each', () => {
+    const options: TaskOption[] = [
+      { id: 'o1', user_id: 'u1', kind: 'course', name: 'MATH 200', color: '#E74C3C', position: 0, created_at: '' },
+      { id: 'o2', user_id: 'u1', kind: 'type', name: 'Essay', color: null, position: 0, created_at: '' },
+    ]
+    const plan = planCourseMigration([cs101], options, [
+      makeAssignment({ id: 'a1', course: 'CS 101' }),
+      makeAssignment({ id: 'a2', course: 'MATH 200' }),
+      makeAssignment({ id: 'a3', course: 'ART 110' }),
+      makeAssignment({ id: 'a4', course: 'CS 101', course_id: 'cs' }),
+    ], sequentialIds())
+
+    expect(plan.courses).toEqual([
+      { id: 'new-1', name: 'MATH 200', color: '#E74C3C' },
+      { id: 'new-2', name: 'ART 110', color: '#9B59B6' },
+    ])
+    expect(plan.links).toEqual([
+      { id: 'a1', course_id: 'cs' },
+      { id: 'a2', course_id: 'new-1' },
+      { id: 'a3', course_id: 'new-2' },
+    ])
+    expect(plan.optionIds).toEqual(['o1'])
+  })
+
+  it('has nothing to do once everything is linked', () => {
+    const plan = planCourseMigration([cs101], [], [makeAssignment({ course: 'CS 101', course_id: 'cs' })])
+    expect(plan).toEqual({ courses: [], links: [], optionIds: [] })
+  })
+})
+
+describe('course summaries', () => {
+  it('adds up focus time of linked subjects only', () => {
+    const sessions = [
+      { id: 's1', subject_id: 'algo', duration_seconds: 1800 },
+      { id: 's2', subject_id: 'algo', duration_seconds: null },
+      { id: 's3', subject_id: 'other', duration_seconds: 600 },
+    ] as FocusSession[]
+    expect(courseFocusSeconds(sessions, new Set(['algo']))).toBe(1800)
+  })
+
+  it('lists unfinished assignments of the course, soonest first', () => {
+    const assignments = [
+      makeAssignment({ id: 'late', course_id: 'cs', due_date: '2026-03-20' }),
+      makeAssignment({ id: 'done', course_id: 'cs', due_date: '2026-03-05', completed: true }),
+      makeAssignment({ id: 'soon', course_id: 'cs', due_date: '2026-03-04' }),
+      makeAssignment({ id: 'other', course_id: 'math', due_date: '2026-03-04' }),
+      makeAssignment({ id: 'past', course_id: 'cs', due_date: '2026-02-20' }),
+    ]
+    expect(upcomingAssignments(assignments, [], 'cs', '2026-03-01', '2026-04-01').map(occ => occ.data.id))
+      .toEqual(['soon', 'late'])
+  })
+
+  it('expands weekly lectures from linked calendars within the window', () => {
+    const events = [
+      makeEvent({ recurrence: 'FREQ=WEEKLY', time_zone: 'UTC' }),
+      makeEvent({ id: 'e2', calendar_id: 'personal', start_time: '2026-03-03T10:00:00Z', end_time: '2026-03-03T11:00:00Z' }),
+    ]
+    const lectures = upcomingLectures(
+      events, [], new Set(['lectures']), new Date('2026-03-05T00:00:00Z'), new Date('2026-03-19T00:00:00Z')
+    )
+    expect(lectures.map(lecture => lecture.start_time)).toEqual([
+      '2026-03-09T10:00:00.000Z', '2026-03-16T10:00:00.000Z',
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { dailyMinutesCsv, hourlyMinutesCsv, sessionsCsv, subjectTotalsCsv, toCsv } from '../lib/csvExport'
+import type { FocusSession, Subject } from '../types/database'
+
+function makeSession(overrides: Partial<FocusSession> = {}): FocusSession {
+  return {
+    id: 's1', user_id: 'u1', subject_id: 'math', start_time: '2026-03-02T10:00:00',
+    end_time: '2026-03-02T10:45:30', duration_seconds: 2730, task_type: null, task_id: null, created_at: '',
+    ...overrides,
+  }
+}
+
+const subjects = new Map<string, Subject>([
+  ['math', { id: 'math', user_id: 'u1', name: 'Math, Applied', color: '#fff', archived: false, course_id: null, created_at: '' }],
+])
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv(['A', 'B'], [['x, y', 'say "hi"'], ['line\nbreak', null]]))
+      .toBe('A,B\r\n"x, y","say ""hi"""\r\n"line\nbreak",\r\n')
+  })
+
+  it('defuses text that spreadsheets would run as a formula', () => {
+    expect(toCsv(['Name'], [['=SUM(A1)'], [-3]])).toBe("Name\r\n'=SUM(A1)\r\n-3\r\n")
+  })
+})
+
+describe('sessionsCsv', () => {
+  it('lists sessions oldest first with subject names and local times', () => {
+    const csv = sessionsCsv([
+      makeSession({ id: 's2', subject_id: 'gone', start_time: '2026-03-03T09:00:00', end_time: null, duration_seconds: null }),
+      makeSession(),
+    ], subjects)
+    expect(csv.split('\r\n')).toEqual([
+      'Subject,Start,End,Duration (minutes)',
+      '"Math, Applied",2026-03-02 10:00,2026-03-02 10:45,45.5',
+      'Unknown,2026-03-03 09:00,,0',
+      '',
+    ])
+  })
+})
+
+describe('aggregate exports', () => {
+  it('writes subject totals with their share', () => {
+    expect(subjectTotalsCsv([{ name: 'Math', seconds: 5400 }, { name: 'Art', seconds: 1800 }]))
+      .toBe('Subject,Minutes,Share (%)\r\nMath,90,75\r\nArt,30,25\r\n')
+  })
+
+  it('includes days without study', () => {
+    const days = [new Date(2026, 2, 1), new Date(2026, 2, 2)]
+    expect(dailyMinutesCsv(days, { '2026-03-02': 12.34 })).toBe('Date,Minutes\r\n2026-03-01,0\r\n2026-03-02,12.3\r\n')
+  })
+
+  it('labels every hour of the day', () => {
+    const hours = new Array(24).fill(0) as number[]
+    hours[9] = 30
+    const lines = hourlyMinutesCsv(hours).trim().split('\r\n')
+    expect(lines).toHaveLength(25)
+    expect(lines[10]).toBe('09:00,30')
+  })
+})
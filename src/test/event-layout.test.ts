@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { layoutOverlaps } from '../lib/eventLayout'
+
+describe('layoutOverlaps', () => {
+  it('gives non-overlapping items the full width', () => {
+    const layout = layoutOverlaps([
+      { id: 'a', start: 60, end: 120 },
+      { id: 'b', start: 120, end: 180 },
+    ])
+    expect(layout.get('a')).toEqual({ lane: 0, lanes: 1, left: 0, width: 1 })
+    expect(layout.get('b')).toEqual({ lane: 0, lanes: 1, left: 0, width: 1 })
+  })
+
+  it('splits identical-time items evenly in a stable order', () => {
+    const layout = layoutOverlaps([
+      { id: 'c', start: 60, end: 120 },
+      { id: 'a', start: 60, end: 120 },
+      { id: 'b', start: 60, end: 120 },
+    ])
+    expect(layout.get('a')).toMatchObject({ lane: 0, lanes: 3, left: 0 })
+    expect(layout.get('b')).toMatchObject({ lane: 1, lanes: 3, left: 1 / 3 })
+    expect(layout.get('c')).toMatchObject({ lane: 2, lanes: 3, left: 2 / 3 })
+    expect(layout.get('c')!.width).toBeCloseTo(1 / 3)
+  })
+
+  it('places a nested item beside its container', () => {
+    const layout = layoutOverlaps([
+      { id: 'inner', start: 90, end: 120 },
+      { id: 'outer', start: 60, end: 240 },
+    ])
+    expect(layout.get('outer')).toEqual({ lane: 0, lanes: 2, left: 0, width: 0.5 })
+    expect(layout.get('inner')).toEqual({ lane: 1, lanes: 2, left: 0.5, width: 0.5 })
+  })
+
+  it('reuses lanes across a chain and keeps the cluster lane count', () => {
+    // a overlaps b, b overlaps c, but a and c do not overlap
+    const layout = layoutOverlaps([
+      { id: 'a', start: 0, end: 60 },
+      { id: 'b', start: 30, end: 90 },
+      { id: 'c', start: 60, end: 120 },
+    ])
+    expect(layout.get('a')).toMatchObject({ lane: 0, lanes: 2, width: 0.5 })
+    expect(layout.get('b')).toMatchObject({ lane: 1, lanes: 2, left: 0.5 })
+    expect(layout.get('c')).toMatchObject({ lane: 0, lanes: 2, left: 0 })
+  })
+
+  it('stretches an item over lanes that stay free', () => {
+    const layout = layoutOverlaps([
+      { id: 'long', start: 0, end: 240 },
+      { id: 'x', start: 0, end: 60 },
+      { id: 'y', start: 30, end: 90 },
+      { id: 'late', start: 120, end: 180 },
+    ])
+    expect(layout.get('long')).toMatchObject({ lane: 0, lanes: 3, width: 1 / 3 })
+    expect(layout.get('late')).toMatchObject({ lane: 1, lanes: 3, left: 1 / 3, width: 2 / 3 })
+  })
+
+  it('starts a new cluster once every item has ended', () => {
+    const layout = layoutOverlaps([
+      { id: 'a', start: 0, end: 60 },
+      { id: 'b', start: 30, end: 60 },
+      { id: 'c', start: 60, end: 90 },
+    ])
+    expect(layout.get('c')).toEqual({ lane: 0, lanes: 1, left: 0, width: 1 })
+  })
+})
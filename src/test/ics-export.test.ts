@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest'
+import { serializeIcs } from '../lib/icsExport'
+import { parseIcs } from '../lib/icsImport'
+import type { Assignment, CalendarEvent, RecurrenceException } from '../types/database'
+
+const NOW = new Date('2026-02-01T12:00:00Z')
+
+function makeEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'ev1',
+    user_id: 'u1',
+    calendar_id: 'cal1',
+    title: 'Lecture',
+    description: null,
+    start_time: '2026-02-02T14:00:00.000Z',
+    end_time: '2026-02-02T15:00:00.000Z',
+    all_day: false,
+    time_zone: null,
+    reminders: null,
+    recurrence: null,
+    recurrence_until: null,
+    ical_uid: null,
+    assignment_id: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function makeException(overrides: Partial<RecurrenceException>): RecurrenceException {
+  return {
+    id: 'x1',
+    user_id: 'u1',
+    parent_type: 'event',
+    parent_id: 'ev1',
+    exception_date: '2026-02-09',
+    exception_type: 'skipped',
+    overrides: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('iCalendar export', () => {
+  it('wraps events in a VCALENDAR with CRLF line endings', () => {
+    const ics = serializeIcs({ calendar: { name: 'School' }, events: [makeEvent()], exceptions: [], now: NOW })
+    const lines = ics.split('\r\n')
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('X-WR-CALNAME:School')
+    expect(lines).toContain('UID:ev1@muffin-time')
+    expect(lines).toContain('DTSTAMP:20260201T120000Z')
+    expect(lines).toContain('DTSTART:20260202T140000Z')
+    expect(lines).toContain('DTEND:20260202T150000Z')
+    expect(lines[lines.length - 2]).toBe('END:VCALENDAR')
+  })
+
+  it('maps legacy recurrence and recurrence_until to an RRULE', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [makeEvent({ recurrence: 'biweekly', recurrence_until: '2026-05-01' })],
+      exceptions: [],
+      now: NOW,
+    })
+    expect(ics).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20260501T235959Z\r\n')
+  })
+
+  it('maps skipped exceptions to EXDATE and modified ones to RECURRENCE-ID overrides', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [makeEvent({ recurrence: 'weekly' })],
+      exceptions: [
+        makeException({ exception_date: '2026-02-09' }),
+        makeException({
+          id: 'x2',
+          exception_date: '2026-02-16',
+          exception_type: 'modified',
+          overrides: { title: 'Guest lecture', start_time: '2026-02-16T16:00:00.000Z', end_time: '2026-02-16T17:00:00.000Z' },
+        }),
+      ],
+      now: NOW,
+    })
+    expect(ics).toContain('EXDATE:20260209T140000Z\r\n')
+    expect(ics).toContain('RECURRENCE-ID:20260216T140000Z\r\n')
+    expect(ics).toContain('SUMMARY:Guest lecture\r\n')
+  })
+
+  it('exports all-day events with DATE values', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [makeEvent({
+        start_time: '2026-03-02T00:00:00.000Z',
+        end_time: '2026-03-05T00:00:00.000Z',
+        all_day: true,
+        recurrence: 'FREQ=YEARLY',
+      })],
+      exceptions: [makeException({ exception_date: '2027-03-02' })],
+      now: NOW,
+    })
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260302\r\n')
+    expect(ics).toContain('DTEND;VALUE=DATE:20260305\r\n')
+    expect(ics).toContain('EXDATE;VALUE=DATE:20270302\r\n')
+    const [parsed] = parseIcs(ics)
+    expect(parsed).toMatchObject({ allDay: true, start: '2026-03-02T00:00:00.000Z', end: '2026-03-05T00:00:00.000Z' })
+  })
+
+  it('exports zoned events in local time with a TZID', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [makeEvent({ time_zone: 'America/New_York', recurrence: 'weekly' })],
+      exceptions: [makeException({ exception_date: '2026-03-09' })],
+      now: NOW,
+    })
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20260202T090000\r\n')
+    expect(ics).toContain('EXDATE;TZID=America/New_York:20260309T090000\r\n')
+    const [parsed] = parseIcs(ics)
+    expect(parsed).toMatchObject({ timeZone: 'America/New_York', exdates: ['2026-03-09T13:00:00.000Z'] })
+  })
+
+  it('defines a VTIMEZONE for each TZID it uses', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [
+        makeEvent({ time_zone: 'America/New_York' }),
+        makeEvent({ id: 'ev2', time_zone: 'America/New_York', start_time: '2026-06-01T13:00:00.000Z' }),
+      ],
+      exceptions: [],
+      now: NOW,
+    })
+    expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1)
+    expect(ics).toContain([
+      'BEGIN:VTIMEZONE', 'TZID:America/New_York',
+      'BEGIN:DAYLIGHT', 'DTSTART:20250309T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU', 'END:DAYLIGHT',
+      'BEGIN:STANDARD', 'DTSTART:20251102T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU', 'END:STANDARD',
+      'END:VTIMEZONE',
+    ].join('\r\n'))
+    expect(ics.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(ics.indexOf('BEGIN:VEVENT'))
+  })
+
+  it('ends a zoned series with the until day in its own zone', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [makeEvent({
+        time_zone: 'America/New_York',
+        start_time: '2026-02-02T23:00:00.000Z',
+        end_time: '2026-02-03T00:00:00.000Z',
+        recurrence: 'weekly',
+        recurrence_until: '2026-04-27',
+      })],
+      exceptions: [],
+      now: NOW,
+    })
+    // The 6pm lecture on Apr 27 starts at 22:00 UTC, after the end of that day in UTC
+    expect(ics).toContain('RRULE:FREQ=WEEKLY;UNTIL=20260428T035959Z\r\n')
+  })
+
+  it('exports reminders as VALARMs', () => {
+    const ics = serializeIcs({ calendar: { name: 'School' }, events: [makeEvent({ reminders: [10, 1440] })], exceptions: [], now: NOW })
+    expect(ics).toContain('BEGIN:VALARM\r\nACTION:DISPLAY\r\nDESCRIPTION:Lecture\r\nTRIGGER:-PT10M\r\nEND:VALARM\r\n')
+    expect(ics).toContain('TRIGGER:-PT1440M\r\n')
+  })
+
+  it('escapes text and folds long lines', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [makeEvent({ title: 'Review; chapters 1, 2', description: 'x'.repeat(120) })],
+      exceptions: [],
+      now: NOW,
+    })
+    expect(ics).toContain('SUMMARY:Review\\; chapters 1\\, 2')
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true)
+  })
+
+  it('exports assignments as VTODO or all-day events', () => {
+    const assignment = {
+      id: 'a1', user_id: 'u1', title: 'Essay', description: null, due_date: '2026-02-10',
+      course: 'ENG 200', completed: false, type: null, status: null,
+      recurrence: null, recurrence_until: null, position: null, created_at: '',
+    } as Assignment
+    const asTodo = serializeIcs({ calendar: { name: 'School' }, events: [], exceptions: [], assignments: [assignment], now: NOW })
+    expect(asTodo).toContain('BEGIN:VTODO\r\n')
+    expect(asTodo).toContain('DUE;VALUE=DATE:20260210\r\n')
+    expect(asTodo).toContain('SUMMARY:ENG 200: Essay\r\n')
+
+    const asEvent = serializeIcs({
+      calendar: { name: 'School' }, events: [], exceptions: [], assignments: [assignment], taskFormat: 'all-day', now: NOW,
+    })
+    expect(asEvent).toContain('DTSTART;VALUE=DATE:20260210\r\n')
+    expect(asEvent).toContain('DTEND;VALUE=DATE:20260211\r\n')
+  })
+
+  it('round-trips through the importer', () => {
+    const ics = serializeIcs({
+      calendar: { name: 'School' },
+      events: [makeEvent({ recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE', description: 'Room 4\nBring notes' })],
+      exceptions: [makeException({ exception_date: '2026-02-04' })],
+      now: NOW,
+    })
+    const [parsed] = parseIcs(ics)
+    expect(parsed).toMatchObject({
+      uid: 'ev1@muffin-time',
+      title: 'Lecture',
+      description: 'Room 4\nBring notes',
+      start: '2026-02-02T14:00:00.000Z',
+      rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+      exdates: ['2026-02-04T14:00:00.000Z'],
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { parseIcs, buildIcsImport, IcsParseError } from '../lib/icsImport'
+import type { CalendarEvent } from '../types/database'
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//LMS//Course Calendar//EN',
+  'BEGIN:VEVENT',
+  'UID:lecture-1@lms',
+  'SUMMARY:CS 101 Lecture\\, Hall A',
+  'DESCRIPTION:Bring laptop\\nand notes',
+  'DTSTART;TZID=America/New_York:20260302T093000',
+  'DTEND;TZID=America/New_York:20260302T104500',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260430T235959Z',
+  'EXDATE;TZID=America/New_York:20260311T093000',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'DESCRIPTION:Reminder',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:lecture-1@lms',
+  'RECURRENCE-ID;TZID=America/New_York:20260316T093000',
+  'SUMMARY:CS 101 Midterm review',
+  'DTSTART;TZID=America/New_York:20260316T110000',
+  'DTEND;TZID=America/New_York:20260316T120000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:lecture-1@lms',
+  'RECURRENCE-ID;TZID=America/New_York:20260318T093000',
+  'STATUS:CANCELLED',
+  'DTSTART;TZID=America/New_York:20260318T093000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:exam@lms',
+  'SUMMARY:Final exam',
+  'DTSTART:20260505T140000Z',
+  'DURATION:PT2H',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n')
+
+describe('iCalendar import', () => {
+  it('rejects files that are not calendars', () => {
+    expect(() => parseIcs('hello')).toThrow(IcsParseError)
+  })
+
+  it('parses VEVENTs with TZID times, escapes and nested alarms', () => {
+    const events = parseIcs(ICS)
+    expect(events).toHaveLength(4)
+    const [lecture] = events
+    expect(lecture.title).toBe('CS 101 Lecture, Hall A')
+    expect(lecture.description).toBe('Bring laptop\nand notes')
+    // 09:30 EST, before the March 8 DST switch
+    expect(lecture.start).toBe('2026-03-02T14:30:00.000Z')
+    expect(lecture.end).toBe('2026-03-02T15:45:00.000Z')
+    expect(lecture.rrule).toBe('FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260430T235959Z')
+    // 09:30 EDT, after the switch
+    expect(lecture.exdates).toEqual(['2026-03-11T13:30:00.000Z'])
+  })
+
+  it('unfolds long lines and applies DURATION', () => {
+    const folded = ICS.replace('SUMMARY:Final exam', 'SUMMARY:Final\r\n  exam')
+    const exam = parseIcs(folded).find(e => e.uid === 'exam@lms')!
+    expect(exam.title).toBe('Final exam')
+    expect(exam.end).toBe('2026-05-05T16:00:00.000Z')
+  })
+
+  it('folds overrides into their series as exceptions', () => {
+    const plan = buildIcsImport(parseIcs(ICS), [], 'cal1')
+    expect(plan).toHaveLength(2)
+    const lecture = plan.find(p => p.uid === 'lecture-1@lms')!
+    expect(lecture.existingId).toBeNull()
+    expect(lecture.event).toMatchObject({ calendar_id: 'cal1', ical_uid: 'lecture-1@lms' })
+    expect(lecture.exceptions.map(e => [e.exception_date, e.exception_type])).toEqual([
+      ['2026-03-11', 'skipped'],
+      ['2026-03-16', 'modified'],
+      ['2026-03-18', 'skipped'],
+    ])
+    expect(lecture.exceptions[1].overrides).toMatchObject({
+      title: 'CS 101 Midterm review',
+      start_time: '2026-03-16T15:00:00.000Z',
+    })
+  })
+
+  it('matches previously imported events by UID within the calendar', () => {
+    const existing = [
+      { id: 'row-1', calendar_id: 'cal1', ical_uid: 'exam@lms' },
+      { id: 'row-2', calendar_id: 'cal2', ical_uid: 'lecture-1@lms' },
+    ] as CalendarEvent[]
+    const plan = buildIcsImport(parseIcs(ICS), existing, 'cal1')
+    expect(plan.find(p => p.uid === 'exam@lms')?.existingId).toBe('row-1')
+    expect(plan.find(p => p.uid === 'lecture-1@lms')?.existingId).toBeNull()
+  })
+})
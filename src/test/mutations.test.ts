@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyMutation, applyPending, applyRemoteChange, classifyReplayError, reconcileRow, renameRowId, type Mutation,
+} from '../lib/mutations'
+
+interface TestRow {
+  id: string
+  title: string
+  done?: boolean
+  parent?: string
+  date?: string
+}
+
+function mutation(overrides: Partial<Mutation>): Mutation {
+  return { scope: 'u1', table: 'todos', kind: 'insert', createdAt: 0, ...overrides }
+}
+
+const rows: TestRow[] = [
+  { id: 'a', title: 'First', done: false },
+  { id: 'b', title: 'Second', done: false },
+]
+
+describe('applyMutation', () => {
+  it('appends inserts once, ignoring a replayed id', () => {
+    const insert = mutation({ kind: 'insert', values: { id: 'c', title: 'Third' } })
+    const once = applyMutation(rows, insert)
+    expect(once.map(r => r.id)).toEqual(['a', 'b', 'c'])
+    expect(applyMutation(once, insert)).toBe(once)
+  })
+
+  it('patches only the changed fields of matching rows', () => {
+    const next = applyMutation(rows, mutation({ kind: 'update', match: { id: 'b' }, values: { done: true } }))
+    expect(next[1]).toEqual({ id: 'b', title: 'Second', done: true })
+    expect(next[0]).toBe(rows[0])
+  })
+
+  it('resolves upserts on the conflict columns and keeps the existing id', () => {
+    const existing: TestRow[] = [{ id: 'x1', title: 'Skip', parent: 'p', date: '2026-03-02' }]
+    const upsert = mutation({
+      kind: 'upsert',
+      values: { id: 'local', title: 'Moved', parent: 'p', date: '2026-03-02' },
+      onConflict: ['parent', 'date'],
+    })
+    expect(applyMutation(existing, upsert)).toEqual([{ id: 'x1', title: 'Moved', parent: 'p', date: '2026-03-02' }])
+    expect(applyMutation([], upsert)).toHaveLength(1)
+  })
+
+  it('deletes every matching row', () => {
+    const next = applyMutation(rows, mutation({ kind: 'delete', match: { done: false } }))
+    expect(next).toEqual([])
+  })
+})
+
+describe('applyPending', () => {
+  it('replays queued writes for the table on top of server rows', () => {
+    const pending = [
+      mutation({ kind: 'update', match: { id: 'a' }, values: { title: 'Edited offline' } }),
+      mutation({ kind: 'delete', table: 'events', match: { id: 'b' } }),
+      mutation({ kind: 'delete', match: { id: 'b' } }),
+    ]
+    expect(applyPending(rows, 'todos', pending)).toEqual([{ id: 'a', title: 'Edited offline', done: false }])
+  })
+})
+
+describe('reconcileRow', () => {
+  it('swaps the optimistic row for the server copy', () => {
+    const serverRow = { id: 'a', title: 'First', done: true }
+    const next = reconcileRow(rows, mutation({ kind: 'update', match: { id: 'a' } }), serverRow)
+    expect(next[0]).toBe(serverRow)
+  })
+
+  it('matches upserts by their unique columns since the server id may differ', () => {
+    const local: TestRow[] = [{ id: 'local', title: 'Skip', parent: 'p', date: '2026-03-02' }]
+    const upsert = mutation({ kind: 'upsert', values: { parent: 'p', date: '2026-03-02' }, onConflict: ['parent', 'date'] })
+    const serverRow = { id: 'server', title: 'Skip', parent: 'p', date: '2026-03-02' }
+    expect(reconcileRow(local, upsert, serverRow)).toEqual([serverRow])
+  })
+})
+
+describe('renameRowId', () => {
+  it('points later writes to an upserted row at the server id', () => {
+    const remove = mutation({ kind: 'delete', table: 'recurrence_exceptions', match: { id: 'local' } })
+    expect(renameRowId(remove, 'recurrence_exceptions', 'local', 'server')?.match).toEqual({ id: 'server' })
+    const upsert = mutation({ kind: 'upsert', table: 'recurrence_exceptions', values: { id: 'local', title: 'Again' } })
+    expect(renameRowId(upsert, 'recurrence_exceptions', 'local', 'server')?.values).toEqual({ id: 'server', title: 'Again' })
+  })
+
+  it('leaves writes to other rows and tables alone', () => {
+    expect(renameRowId(mutation({ kind: 'delete', match: { id: 'other' } }), 'todos', 'local', 'server')).toBeNull()
+    expect(renameRowId(mutation({ kind: 'delete', match: { id: 'local' } }), 'events', 'local', 'server')).toBeNull()
+  })
+})
+
+describe('applyRemoteChange', () => {
+  it('merges rows inserted, updated and deleted on another device', () => {
+    const inserted = applyRemoteChange(rows, 'todos', { type: 'INSERT', row: { id: 'c', title: 'From phone' } }, [])
+    expect(inserted.map(r => r.id)).toEqual(['a', 'b', 'c'])
+
+    const updated = applyRemoteChange(inserted, 'todos', { type: 'UPDATE', row: { id: 'a', title: 'Renamed', done: false } }, [])
+    expect(updated.find(r => r.id === 'a')?.title).toBe('Renamed')
+
+    const deleted = applyRemoteChange(updated, 'todos', { type: 'DELETE', id: 'b' }, [])
+    expect(deleted.map(r => r.id)).toEqual(['a', 'c'])
+  })
+
+  it('returns the same rows for echoes of our own writes', () => {
+    expect(applyRemoteChange(rows, 'todos', { type: 'UPDATE', row: { id: 'a', title: 'First', done: false } }, [])).toBe(rows)
+    expect(applyRemoteChange(rows, 'todos', { type: 'DELETE', id: 'gone' }, [])).toBe(rows)
+  })
+
+  it('keeps still-queued local edits on top of the server row', () => {
+    const pending = [mutation({ kind: 'update', match: { id: 'a' }, values: { done: true } })]
+    const local = applyPending(rows, 'todos', pending)
+    const next = applyRemoteChange(local, 'todos', { type: 'UPDATE', row: { id: 'a', title: 'Renamed', done: false } }, pending)
+    expect(next.find(r => r.id === 'a')).toEqual({ id: 'a', title: 'Renamed', done: true })
+  })
+
+  it('replaces the local copy of a queued upsert instead of duplicating it', () => {
+    const upsert = mutation({
+      kind: 'upsert',
+      values: { id: 'local', title: 'Skip', parent: 'p', date: '2026-03-02' },
+      onConflict: ['parent', 'date'],
+    })
+    const local = applyMutation<TestRow>([], upsert)
+    const serverRow = { id: 'server', title: 'Skip', parent: 'p', date: '2026-03-02' }
+    expect(applyRemoteChange(local, 'todos', { type: 'INSERT', row: serverRow }, [upsert])).toEqual([serverRow])
+  })
+})
+
+describe('classifyReplayError', () => {
+  const insert = mutation({ kind: 'insert' })
+  const update = mutation({ kind: 'update' })
+
+  it('retries network failures and server errors', () => {
+    expect(classifyReplayError(update, { message: 'TypeError: Failed to fetch' }, 0)).toBe('retry')
+    expect(classifyReplayError(update, { message: 'Bad gateway' }, 502)).toBe('retry')
+    expect(classifyReplayError(update, { message: 'Too many requests' }, 429)).toBe('retry')
+  })
+
+  it('treats a duplicate insert as already applied', () => {
+    expect(classifyReplayError(insert, { code: '23505', message: 'duplicate key' }, 409)).toBe('applied')
+  })
+
+  it('rejects writes the server refuses', () => {
+    expect(classifyReplayError(update, { code: '42501', message: 'permission denied' }, 403)).toBe('rejected')
+    expect(classifyReplayError(update, { code: '23505', message: 'duplicate key' }, 409)).toBe('rejected')
+  })
+})
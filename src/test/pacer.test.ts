@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  DEFAULT_PACING_SETTINGS, PACING_SETTINGS_KEY, loadLocalPacingSettings, pacerQuestions, pacerReport,
+  pacingBaseSeconds, saveLocalPacingSettings, type PacerQuestion,
+} from '../lib/pacer'
+import type { PacerRun } from '../types/database'
+
+const question = (seconds: number, overrides: Partial<PacerQuestion> = {}): PacerQuestion => ({
+  seconds, allowed_seconds: 60, rollover_seconds: 0, overtime: false, ...overrides,
+})
+
+function makeRun(id: string, start: string, questions: PacerQuestion[], secondsPerQuestion = 60): PacerRun {
+  return {
+    id, user_id: 'u', session_id: 's', seconds_per_question: secondsPerQuestion, question_count: 25,
+    questions, start_time: start, end_time: null, created_at: '',
+  }
+}
+
+describe('pacingBaseSeconds', () => {
+  it('converts minutes and floors the budget at one second', () => {
+    expect(pacingBaseSeconds({ timePerQuestion: 1.4, timeUnit: 'minutes', questionCount: 25, shortcutKey: 'Space' })).toBe(84)
+    expect(pacingBaseSeconds({ timePerQuestion: 0.2, timeUnit: 'seconds', questionCount: 25, shortcutKey: 'Space' })).toBe(1)
+  })
+})
+
+describe('pacerQuestions', () => {
+  it('drops malformed entries', () => {
+    const questions = [question(30), { seconds: 'slow' }, null, { seconds: 20, allowed_seconds: 60 }]
+    expect(pacerQuestions({ questions } as unknown as PacerRun)).toEqual([question(30), question(20)])
+  })
+})
+
+describe('pacerReport', () => {
+  const runs = [
+    makeRun('later', '2026-03-02T10:00:00Z', [question(90, { overtime: true }), question(30, { rollover_seconds: 30 })]),
+    makeRun('earlier', '2026-03-01T10:00:00Z', [question(40), question(50), question(60)]),
+    makeRun('empty', '2026-03-03T10:00:00Z', []),
+  ]
+
+  it('averages every timed question and counts overtime and rollover', () => {
+    expect(pacerReport(runs)).toMatchObject({
+      questionCount: 5, averageSeconds: 54, overtimeCount: 1, rolloverCount: 1,
+    })
+  })
+
+  it('lists the slowest questions with their run', () => {
+    expect(pacerReport(runs, 2).slowest.map(q => [q.runId, q.question, q.seconds])).toEqual([
+      ['later', 1, 90], ['earlier', 3, 60],
+    ])
+  })
+
+  it('gives the pace of each run oldest first, skipping runs without questions', () => {
+    expect(pacerReport(runs).trend.map(run => [run.runId, run.averageSeconds, run.targetSeconds])).toEqual([
+      ['earlier', 50, 60], ['later', 60, 60],
+    ])
+  })
+})
+
+describe('local pacing settings', () => {
+  beforeEach(() => localStorage.removeItem(PACING_SETTINGS_KEY))
+
+  it("keeps a guest's settings across reloads", () => {
+    const settings = { timePerQuestion: 90, timeUnit: 'seconds' as const, questionCount: 40, shortcutKey: 'Enter' }
+    saveLocalPacingSettings(settings)
+    expect(loadLocalPacingSettings()).toEqual(settings)
+  })
+
+  it('fills in defaults for anything not stored', () => {
+    expect(loadLocalPacingSettings()).toEqual(DEFAULT_PACING_SETTINGS)
+    localStorage.setItem(PACING_SETTINGS_KEY, JSON.stringify({ questionCount: 10 }))
+    expect(loadLocalPacingSettings()).toEqual({ ...DEFAULT_PACING_SETTINGS, questionCount: 10 })
+  })
+})
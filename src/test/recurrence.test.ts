@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseRecurrence, formatRRule, describeRecurrence, hasRecurrenceEnd,
+  getOccurrenceDates, expandItems,
+} from '../lib/recurrence'
+import type { RecurrenceException } from '../types/database'
+
+describe('Recurrence', () => {
+  describe('parseRecurrence', () => {
+    it('returns null for one-time values', () => {
+      expect(parseRecurrence(null)).toBeNull()
+      expect(parseRecurrence('once')).toBeNull()
+      expect(parseRecurrence('FREQ=HOURLY')).toBeNull()
+    })
+
+    it('maps legacy keywords to rules', () => {
+      expect(parseRecurrence('biweekly')).toMatchObject({ freq: 'WEEKLY', interval: 2 })
+      expect(parseRecurrence('monthly')).toMatchObject({ freq: 'MONTHLY', interval: 1 })
+    })
+
+    it('parses BYDAY ordinals, COUNT and UNTIL', () => {
+      const rule = parseRecurrence('RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=5;UNTIL=20261231T235959Z')
+      expect(rule).toMatchObject({
+        freq: 'MONTHLY',
+        byDay: [{ weekday: 5, ordinal: -1 }],
+        count: 5,
+        until: '2026-12-31',
+      })
+    })
+
+    it('round-trips through formatRRule', () => {
+      const value = 'FREQ=WEEKLY;INTERVAL=3;BYDAY=MO,WE,FR;COUNT=10'
+      expect(formatRRule(parseRecurrence(value)!)).toBe(value)
+    })
+  })
+
+  describe('getOccurrenceDates', () => {
+    it('keeps legacy weekly rows working', () => {
+      const dates = getOccurrenceDates('2026-02-02T09:00:00', 'weekly', '2026-02-20', '2026-02-01', '2026-03-01')
+      expect(dates).toEqual(['2026-02-02', '2026-02-09', '2026-02-16'])
+    })
+
+    it('expands every Mon/Wed/Fri', () => {
+      const dates = getOccurrenceDates('2026-02-02', 'FREQ=WEEKLY;BYDAY=MO,WE,FR', null, '2026-02-02', '2026-02-09')
+      expect(dates).toEqual(['2026-02-02', '2026-02-04', '2026-02-06'])
+    })
+
+    it('expands every 3 weeks', () => {
+      const dates = getOccurrenceDates('2026-01-05', 'FREQ=WEEKLY;INTERVAL=3', null, '2026-01-01', '2026-03-01')
+      expect(dates).toEqual(['2026-01-05', '2026-01-26', '2026-02-16'])
+    })
+
+    it('expands the last Friday of the month', () => {
+      const dates = getOccurrenceDates('2026-01-30', 'FREQ=MONTHLY;BYDAY=-1FR', null, '2026-01-01', '2026-04-01')
+      expect(dates).toEqual(['2026-01-30', '2026-02-27', '2026-03-27'])
+    })
+
+    it('supports BYSETPOS for the last weekday of the month', () => {
+      const dates = getOccurrenceDates('2026-01-30', 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', null, '2026-01-01', '2026-04-01')
+      expect(dates).toEqual(['2026-01-30', '2026-02-27', '2026-03-31'])
+    })
+
+    it('skips months without the requested day', () => {
+      const dates = getOccurrenceDates('2026-01-31', 'FREQ=MONTHLY;BYMONTHDAY=31', null, '2026-01-01', '2026-05-01')
+      expect(dates).toEqual(['2026-01-31', '2026-03-31'])
+    })
+
+    it('stops after COUNT occurrences counted from the start', () => {
+      const dates = getOccurrenceDates('2026-02-02', 'FREQ=DAILY;COUNT=10', null, '2026-02-08', '2026-03-01')
+      expect(dates).toEqual(['2026-02-08', '2026-02-09', '2026-02-10', '2026-02-11'])
+    })
+
+    it('uses the earlier of UNTIL and recurrence_until', () => {
+      const dates = getOccurrenceDates('2026-02-02', 'FREQ=DAILY;UNTIL=20260204', '2026-02-10', '2026-02-01', '2026-03-01')
+      expect(dates).toEqual(['2026-02-02', '2026-02-03', '2026-02-04'])
+    })
+
+    it('reaches ranges far beyond the start without a COUNT', () => {
+      const dates = getOccurrenceDates('2020-01-01', 'FREQ=DAILY', null, '2026-02-01', '2026-02-03')
+      expect(dates).toEqual(['2026-02-01', '2026-02-02'])
+    })
+  })
+
+  describe('expandItems', () => {
+    it('drops skipped occurrences of RRULE series', () => {
+      const item = { id: 'e1', start_time: '2026-02-02T09:00:00', recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE', recurrence_until: null }
+      const skipped = {
+        id: 'x1', user_id: 'u', parent_type: 'event', parent_id: 'e1',
+        exception_date: '2026-02-04', exception_type: 'skipped', overrides: null, created_at: '',
+      } as RecurrenceException
+      const occ = expandItems([item], 'start_time', '2026-02-01', '2026-02-08', [skipped])
+      expect(occ.map(o => o.occurrenceDate)).toEqual(['2026-02-02'])
+    })
+  })
+
+  describe('describeRecurrence', () => {
+    it('labels presets and custom rules', () => {
+      expect(describeRecurrence('biweekly')).toBe('Biweekly')
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,WE,FR')).toBe('Every week on Mon, Wed, Fri')
+      expect(describeRecurrence('FREQ=MONTHLY;BYDAY=-1FR;COUNT=6')).toBe('Every month on the last Fri, 6 times')
+    })
+
+    it('detects rules that carry their own end', () => {
+      expect(hasRecurrenceEnd('FREQ=DAILY;COUNT=3')).toBe(true)
+      expect(hasRecurrenceEnd('weekly')).toBe(false)
+    })
+  })
+})
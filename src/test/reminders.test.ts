@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { describeReminder, getUpcomingReminders, normalizeReminders } from '../lib/reminders'
+import type { CalendarEvent, RecurrenceException } from '../types/database'
+
+function makeEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'ev1',
+    user_id: 'u1',
+    calendar_id: 'cal1',
+    title: 'Lecture',
+    description: null,
+    start_time: '2026-03-02T14:00:00.000Z', // Mon 9:00 EST
+    end_time: '2026-03-02T15:00:00.000Z',
+    all_day: false,
+    time_zone: 'America/New_York',
+    reminders: [10],
+    recurrence: null,
+    recurrence_until: null,
+    ical_uid: null,
+    assignment_id: null,
+    created_at: '',
+    ...overrides,
+  }
+}
+
+function makeException(overrides: Partial<RecurrenceException>): RecurrenceException {
+  return {
+    id: 'x1',
+    user_id: 'u1',
+    parent_type: 'event',
+    parent_id: 'ev1',
+    exception_date: '2026-03-09',
+    exception_type: 'skipped',
+    overrides: null,
+    created_at: '',
+    ...overrides,
+  }
+}
+
+const ZONE = 'America/New_York'
+const iso = (ms: number) => new Date(ms).toISOString()
+
+describe('event reminders', () => {
+  it('normalizes and describes offsets', () => {
+    expect(normalizeReminders([60, 10, 10, -5, 1.6])).toEqual([2, 10, 60])
+    expect(normalizeReminders(null)).toEqual([])
+    expect(describeReminder(0)).toBe('At start')
+    expect(describeReminder(10)).toBe('10 minutes before')
+    expect(describeReminder(60)).toBe('1 hour before')
+    expect(describeReminder(2880)).toBe('2 days before')
+  })
+
+  it('fires each offset before the start, earliest first', () => {
+    const reminders = getUpcomingReminders(
+      [makeEvent({ reminders: [10, 1440] })], [],
+      new Date('2026-02-28T00:00:00Z'), new Date('2026-03-03T00:00:00Z'), ZONE
+    )
+    expect(reminders.map(r => [r.minutesBefore, iso(r.fireAt)])).toEqual([
+      [1440, '2026-03-01T14:00:00.000Z'],
+      [10, '2026-03-02T13:50:00.000Z'],
+    ])
+    expect(reminders[1].key).toBe('ev1:2026-03-02:10')
+  })
+
+  it('only returns reminders inside the window', () => {
+    const reminders = getUpcomingReminders(
+      [makeEvent()], [], new Date('2026-03-02T13:51:00Z'), new Date('2026-03-03T00:00:00Z'), ZONE
+    )
+    expect(reminders).toEqual([])
+  })
+
+  it('expands recurring events and skips skipped occurrences', () => {
+    const reminders = getUpcomingReminders(
+      [makeEvent({ recurrence: 'weekly' })],
+      [makeException({ exception_date: '2026-03-09' })],
+      new Date('2026-03-01T00:00:00Z'), new Date('2026-03-20T00:00:00Z'), ZONE
+    )
+    // The series keeps 9:00 local across the DST change on March 8
+    expect(reminders.map(r => [r.occurrenceDate, iso(r.fireAt)])).toEqual([
+      ['2026-03-02', '2026-03-02T13:50:00.000Z'],
+      ['2026-03-16', '2026-03-16T12:50:00.000Z'],
+    ])
+  })
+
+  it('uses the overridden time of a modified occurrence', () => {
+    const reminders = getUpcomingReminders(
+      [makeEvent({ recurrence: 'weekly' })],
+      [makeException({
+        exception_type: 'modified',
+        overrides: { start_time: '2026-03-09T17:00:00.000Z', end_time: '2026-03-09T18:00:00.000Z' },
+      })],
+      new Date('2026-03-05T00:00:00Z'), new Date('2026-03-12T00:00:00Z'), ZONE
+    )
+    expect(reminders.map(r => iso(r.fireAt))).toEqual(['2026-03-09T16:50:00.000Z'])
+  })
+
+  it('counts all-day reminders back from 9am on the day', () => {
+    const reminders = getUpcomingReminders(
+      [makeEvent({
+        start_time: '2026-03-04T00:00:00.000Z',
+        end_time: '2026-03-05T00:00:00.000Z',
+        all_day: true,
+        time_zone: null,
+        reminders: [0, 1440],
+      })],
+      [], new Date('2026-03-01T00:00:00Z'), new Date('2026-03-06T00:00:00Z'), ZONE
+    )
+    expect(reminders.map(r => iso(r.fireAt))).toEqual(['2026-03-03T14:00:00.000Z', '2026-03-04T14:00:00.000Z'])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { segmentTotals, timelineSpans } from '../lib/sessionSegments'
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 5, 10, minutes)).toISOString()
+const START = Date.parse(at(0))
+const END = Date.parse(at(60))
+
+function segment(id: string, kind: string, from: number, to: number | null) {
+  return { id, kind, start_time: at(from), end_time: to === null ? null : at(to) }
+}
+
+describe('segmentTotals', () => {
+  it('adds up each kind, running an open segment to now', () => {
+    const totals = segmentTotals([
+      segment('a', 'focus', 0, 25),
+      segment('b', 'break', 25, 30),
+      segment('c', 'focus', 30, 55),
+      segment('d', 'pause', 55, null),
+    ], END)
+    expect(totals).toEqual({ focus: 50 * 60, break: 5 * 60, pause: 5 * 60 })
+  })
+
+  it('ignores kinds it does not know', () => {
+    expect(segmentTotals([segment('a', 'nap', 0, 10)], END)).toEqual({ focus: 0, break: 0, pause: 0 })
+  })
+})
+
+describe('timelineSpans', () => {
+  it('places segments as percentages of the session, earliest first', () => {
+    const spans = timelineSpans([segment('b', 'break', 30, 45), segment('a', 'focus', 0, 30)], START, END, END)
+    expect(spans).toEqual([
+      { id: 'a', kind: 'focus', left: 0, width: 50 },
+      { id: 'b', kind: 'break', left: 50, width: 25 },
+    ])
+  })
+
+  it('clips segments to the session and drops those outside it', () => {
+    const spans = timelineSpans([
+      segment('a', 'focus', -10, 15),
+      segment('b', 'pause', 45, null),
+      segment('c', 'focus', 70, 80),
+    ], START, END, Date.parse(at(90)))
+    expect(spans).toEqual([
+      { id: 'a', kind: 'focus', left: 0, width: 25 },
+      { id: 'b', kind: 'pause', left: 75, width: 25 },
+    ])
+  })
+})
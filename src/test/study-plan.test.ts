@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { planStudyBlocks, studyTasks, wakingWindow, type StudyPlanSettings, type StudyTask } from '../lib/studyPlan'
+import type { Assignment, CalendarEvent } from '../types/database'
+
+const SETTINGS: StudyPlanSettings = { sleepStartHour: 23, sleepEndHour: 7, maxMinutesPerDay: 240 }
+
+// Local times on Monday 2026-03-02
+const at = (hour: number, minute = 0, date = 2) => new Date(2026, 2, date, hour, minute).getTime()
+
+function makeTask(overrides: Partial<StudyTask> = {}): StudyTask {
+  return { assignmentId: 'a1', title: 'Essay', deadline: new Date(2026, 2, 4).getTime(), minutes: 120, ...overrides }
+}
+
+function makeBlock(start: number, end: number, assignmentId = 'a1'): CalendarEvent {
+  return {
+    id: `block-${start}`, calendar_id: 'plan', title: 'Essay', all_day: false, assignment_id: assignmentId,
+    start_time: new Date(start).toISOString(), end_time: new Date(end).toISOString(),
+  } as CalendarEvent
+}
+
+function makeAssignment(overrides: Partial<Assignment> = {}): Assignment {
+  return {
+    id: 'a1', user_id: 'u1', title: 'Essay', description: null, due_date: '2026-03-04',
+    course: null, course_id: null, completed: false, type: null, status: null,
+    recurrence: null, recurrence_until: null, position: null, estimated_minutes: 120, created_at: '',
+    ...overrides,
+  }
+}
+
+describe('planStudyBlocks', () => {
+  it('books work into the gaps between events', () => {
+    const plan = planStudyBlocks([makeTask()], [], [{ start: at(10), end: at(12) }], SETTINGS, at(9))
+    expect(plan.add.map(block => [block.start, block.end])).toEqual([[at(9), at(10)], [at(12), at(13)]])
+    expect(plan.remove).toEqual([])
+    expect(plan.unscheduled.size).toBe(0)
+  })
+
+  it('keeps blocks that still fit', () => {
+    const plan = planStudyBlocks([makeTask({ minutes: 60 })], [makeBlock(at(14), at(15))], [], SETTINGS, at(9))
+    expect(plan).toEqual({ remove: [], add: [], unscheduled: new Map() })
+  })
+
+  it('moves a block an event now covers', () => {
+    const block = makeBlock(at(14), at(15))
+    const plan = planStudyBlocks([makeTask({ minutes: 60 })], [block], [{ start: at(14), end: at(16) }], SETTINGS, at(9))
+    expect(plan.remove).toEqual([block.id])
+    expect(plan.add.map(b => [b.start, b.end])).toEqual([[at(9), at(10)]])
+  })
+
+  it('drops blocks nothing needs any more and leaves past ones alone', () => {
+    const past = makeBlock(at(7), at(8))
+    const spare = makeBlock(at(14), at(15), 'deleted-assignment')
+    const plan = planStudyBlocks([], [past, spare], [], SETTINGS, at(9))
+    expect(plan.remove).toEqual([spare.id])
+  })
+
+  it('stays under the daily cap and reports what does not fit', () => {
+    const task = makeTask({ deadline: new Date(2026, 2, 3).getTime() })
+    const plan = planStudyBlocks([task], [], [], { ...SETTINGS, maxMinutesPerDay: 60 }, at(9))
+    expect(plan.add.map(b => [b.start, b.end])).toEqual([[at(9), at(10)]])
+    expect(plan.unscheduled.get('a1')).toBe(60)
+  })
+
+  it('counts blocks earlier today toward the daily cap', () => {
+    const task = makeTask({ minutes: 60, deadline: new Date(2026, 2, 3).getTime() })
+    const earlier = makeBlock(at(7), at(8), 'other')
+    const plan = planStudyBlocks([task], [earlier], [], { ...SETTINGS, maxMinutesPerDay: 60 }, at(9))
+    expect(plan.add).toEqual([])
+    expect(plan.unscheduled.get('a1')).toBe(60)
+  })
+
+  it('only books time while awake', () => {
+    const task = makeTask({ minutes: 60 })
+    const plan = planStudyBlocks([task], [], [], SETTINGS, at(22, 45))
+    expect(plan.add.map(b => [b.start, b.end])).toEqual([[at(7, 0, 3), at(8, 0, 3)]])
+  })
+})
+
+describe('studyTasks', () => {
+  it('plans what is left of unfinished assignments due soon', () => {
+    const tasks = studyTasks([
+      makeAssignment(),
+      makeAssignment({ id: 'done', completed: true }),
+      makeAssignment({ id: 'weekly', recurrence: 'FREQ=WEEKLY' }),
+      makeAssignment({ id: 'no-estimate', estimated_minutes: null }),
+      makeAssignment({ id: 'far', due_date: '2026-05-01' }),
+      makeAssignment({ id: 'late', due_date: '2026-02-20' }),
+    ], assignment => assignment.id === 'a1' ? 30 * 60 : 0, new Date(at(9)))
+    expect(tasks).toEqual([
+      { assignmentId: 'a1', title: 'Essay', deadline: new Date(2026, 2, 4).getTime(), minutes: 90 },
+      { assignmentId: 'late', title: 'Essay', deadline: new Date(2026, 2, 3).getTime(), minutes: 120 },
+    ])
+  })
+})
+
+describe('wakingWindow', () => {
+  it('runs past midnight when sleep starts after it', () => {
+    const window = wakingWindow(new Date(2026, 2, 2), { ...SETTINGS, sleepStartHour: 1, sleepEndHour: 8 })
+    expect(window).toEqual({ start: at(8), end: at(1, 0, 3) })
+  })
+})
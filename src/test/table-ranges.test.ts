@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { chunkRuns, createdRange, rangeChunks, replaceRange, rowsInRange } from '../lib/tableRanges'
+
+const MARCH = { from: '2026-03-01T00:00:00.000Z', to: '2026-04-01T00:00:00.000Z' }
+
+function event(id: string, start: string, end: string, recurrence: string | null = null, until: string | null = null) {
+  return { id, start_time: start, end_time: end, recurrence, recurrence_until: until }
+}
+
+describe('rangeChunks', () => {
+  it('lists every UTC month a range touches', () => {
+    expect(rangeChunks({ from: '2025-11-28T05:00:00.000Z', to: '2026-02-02T05:00:00.000Z' }))
+      .toEqual(['2025-11', '2025-12', '2026-01', '2026-02'])
+  })
+
+  it('excludes the month the range ends at', () => {
+    expect(rangeChunks(MARCH)).toEqual(['2026-03'])
+  })
+})
+
+describe('chunkRuns', () => {
+  it('merges consecutive months into one query range', () => {
+    expect(chunkRuns(['2026-04', '2026-01', '2026-03'])).toEqual([
+      { chunks: ['2026-01'], range: { from: '2026-01-01T00:00:00.000Z', to: '2026-02-01T00:00:00.000Z' } },
+      { chunks: ['2026-03', '2026-04'], range: { from: '2026-03-01T00:00:00.000Z', to: '2026-05-01T00:00:00.000Z' } },
+    ])
+  })
+})
+
+describe('rowsInRange', () => {
+  it('keeps events overlapping the range, including ones that started before it', () => {
+    const events = [
+      event('inside', '2026-03-10T10:00:00Z', '2026-03-10T11:00:00Z'),
+      event('spanning', '2026-02-27T00:00:00Z', '2026-03-02T00:00:00Z'),
+      event('before', '2026-02-10T10:00:00Z', '2026-02-10T11:00:00Z'),
+      event('ends-at-start', '2026-02-28T23:00:00Z', '2026-03-01T00:00:00Z'),
+      event('after', '2026-04-01T00:00:00Z', '2026-04-01T01:00:00Z'),
+    ]
+    expect(rowsInRange(events, 'events', MARCH).map(e => e.id)).toEqual(['inside', 'spanning'])
+  })
+
+  it('keeps recurring events whose series is still running', () => {
+    const events = [
+      event('weekly', '2025-09-01T10:00:00Z', '2025-09-01T11:00:00Z', 'weekly'),
+      event('ended', '2025-09-01T10:00:00Z', '2025-09-01T11:00:00Z', 'weekly', '2026-01-15'),
+      event('until-march', '2025-09-01T10:00:00Z', '2025-09-01T11:00:00Z', 'daily', '2026-03-01'),
+    ]
+    expect(rowsInRange(events, 'events', MARCH).map(e => e.id)).toEqual(['weekly', 'until-march'])
+  })
+
+  it('keeps a focus session that is still running', () => {
+    const sessions = [
+      { id: 'running', start_time: '2026-03-05T09:00:00Z', end_time: null },
+      { id: 'old', start_time: '2026-01-05T09:00:00Z', end_time: '2026-01-05T10:00:00Z' },
+    ]
+    expect(rowsInRange(sessions, 'focus_sessions', MARCH).map(s => s.id)).toEqual(['running'])
+  })
+
+  it('returns every row of tables that are not range-loaded', () => {
+    const todos = [{ id: 't1' }, { id: 't2' }]
+    expect(rowsInRange(todos, 'todos', MARCH)).toBe(todos)
+  })
+})
+
+describe('replaceRange', () => {
+  it('drops rows of the range the server no longer has and keeps other months', () => {
+    const cached = [
+      event('deleted-elsewhere', '2026-03-10T10:00:00Z', '2026-03-10T11:00:00Z'),
+      event('february', '2026-02-10T10:00:00Z', '2026-02-10T11:00:00Z'),
+      event('edited', '2026-03-12T10:00:00Z', '2026-03-12T11:00:00Z'),
+    ]
+    const fetched = [event('edited', '2026-03-20T10:00:00Z', '2026-03-20T11:00:00Z')]
+    const next = replaceRange(cached, fetched, 'events', MARCH)
+    expect(next.map(e => e.id)).toEqual(['february', 'edited'])
+    expect(next[1].start_time).toBe('2026-03-20T10:00:00Z')
+  })
+})
+
+describe('createdRange', () => {
+  it('starts when the earliest row was created', () => {
+    const rows = [
+      { created_at: '2026-02-14T09:30:00+00:00' },
+      { created_at: '2025-12-01T08:00:00+00:00' },
+    ]
+    expect(createdRange(rows, MARCH.to)).toEqual({ from: '2025-12-01T08:00:00.000Z', to: MARCH.to })
+  })
+
+  it('is null without rows, so nothing is loaded', () => {
+    expect(createdRange([], MARCH.to)).toBeNull()
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { focusSecondsByTask, subjectForTask, taskKey } from '../lib/taskFocus'
+import type { Assignment, FocusSession, Subject, Todo } from '../types/database'
+
+function makeSession(overrides: Partial<FocusSession>): FocusSession {
+  return {
+    id: 's', user_id: 'u', subject_id: 'sub', start_time: '2026-01-05T10:00:00Z', end_time: null,
+    duration_seconds: 600, created_at: '', task_type: null, task_id: null,
+    ...overrides,
+  }
+}
+
+function makeSubject(id: string, overrides: Partial<Subject> = {}): Subject {
+  return { id, user_id: 'u', name: id, color: '#fff', archived: false, course_id: null, created_at: '', ...overrides }
+}
+
+describe('focusSecondsByTask', () => {
+  it('totals linked sessions per task and skips the rest', () => {
+    const totals = focusSecondsByTask([
+      makeSession({ task_type: 'todo', task_id: 't1' }),
+      makeSession({ task_type: 'todo', task_id: 't1', duration_seconds: 300 }),
+      makeSession({ task_type: 'assignment', task_id: 't1' }),
+      makeSession({}),
+      makeSession({ task_type: 'todo', task_id: 't2', duration_seconds: null }),
+    ])
+    expect(totals.get(taskKey('todo', 't1'))).toBe(900)
+    expect(totals.get(taskKey('assignment', 't1'))).toBe(600)
+    expect(totals.size).toBe(2)
+  })
+})
+
+describe('subjectForTask', () => {
+  const assignment = { id: 'a', title: 'Essay', course_id: 'c1' } as Assignment
+  const todo = { id: 't', title: 'Read' } as Todo
+
+  it("prefers a subject linked to the assignment's course", () => {
+    const subjects = [makeSubject('math'), makeSubject('cs', { course_id: 'c1' })]
+    expect(subjectForTask(assignment, subjects, 'math')?.id).toBe('cs')
+  })
+
+  it('falls back to the current subject, then the first active one', () => {
+    const subjects = [makeSubject('old', { archived: true }), makeSubject('math'), makeSubject('cs')]
+    expect(subjectForTask(todo, subjects, 'cs')?.id).toBe('cs')
+    expect(subjectForTask(todo, subjects, 'old')?.id).toBe('math')
+    expect(subjectForTask(todo, [], null)).toBeNull()
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { legacyOptionInserts, nextOptionPosition, optionNames } from '../lib/taskOptions'
+import type { TaskOption } from '../types/database'
+
+function makeOption(overrides: Partial<TaskOption> = {}): TaskOption {
+  return {
+    id: 'o1', user_id: 'u1', kind: 'type', name: 'Essay', color: null, position: 0, created_at: '',
+    ...overrides,
+  }
+}
+
+describe('optionNames', () => {
+  it('lists one kind in position order', () => {
+    const options = [
+      makeOption({ id: 'o1', name: 'Lab', position: 2 }),
+      makeOption({ id: 'o2', name: 'Quiz', kind: 'status' }),
+      makeOption({ id: 'o3', name: 'Essay', position: 1 }),
+    ]
+    expect(optionNames(options, 'type')).toEqual(['Essay', 'Lab'])
+    expect(nextOptionPosition(options, 'type')).toBe(3)
+    expect(nextOptionPosition(options, 'course')).toBe(0)
+  })
+})
+
+describe('legacyOptionInserts', () => {
+  it('adds legacy names that are missing, after the existing ones', () => {
+    const inserts = legacyOptionInserts([makeOption()], {
+      lists: { type: ['Essay', 'Lab', ' Lab '], status: ['Not Started', 'Blocked'] },
+      courseColors: {},
+    })
+    expect(inserts).toEqual([
+      { kind: 'type', name: 'Lab', color: null, position: 1 },
+      { kind: 'status', name: 'Not Started', color: null, position: 0 },
+      { kind: 'status', name: 'Blocked', color: null, position: 1 },
+    ])
+  })
+
+  it('keeps course colors, including courses only the color map knew', () => {
+    const inserts = legacyOptionInserts([], {
+      lists: { course: ['CS 101'] },
+      courseColors: { 'CS 101': '#4F9CF7', 'MATH 200': '#E74C3C' },
+    })
+    expect(inserts.map(option => [option.name, option.color])).toEqual([
+      ['CS 101', '#4F9CF7'],
+      ['MATH 200', '#E74C3C'],
+    ])
+  })
+})
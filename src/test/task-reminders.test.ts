@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { describeDigest, describeDue, getDueDigest, getTaskReminders } from '../lib/taskReminders'
+import type { Assignment, RecurrenceException, Todo } from '../types/database'
+
+function makeTodo(overrides: Partial<Todo> = {}): Todo {
+  return {
+    id: 't1', user_id: 'u1', title: 'Laundry', description: null, due_date: '2026-03-10',
+    completed: false, type: null, status: null, course: null,
+    recurrence: null, recurrence_until: null, position: null, estimated_minutes: null, created_at: '',
+    ...overrides,
+  }
+}
+
+function makeAssignment(overrides: Partial<Assignment> = {}): Assignment {
+  return {
+    id: 'a1', user_id: 'u1', title: 'Essay', description: null, due_date: '2026-03-10',
+    course: 'ENG 200', course_id: null, completed: false, type: null, status: null,
+    recurrence: null, recurrence_until: null, position: null, estimated_minutes: null, created_at: '',
+    ...overrides,
+  }
+}
+
+function completed(parentId: string, date: string, parentType = 'todo'): RecurrenceException {
+  return {
+    id: `x-${date}`, user_id: 'u1', parent_type: parentType, parent_id: parentId,
+    exception_date: date, exception_type: 'completed', overrides: null, created_at: '',
+  }
+}
+
+const ZONE = 'America/New_York'
+const iso = (ms: number) => new Date(ms).toISOString()
+
+describe('task reminders', () => {
+  it('fires at the configured hour the given number of days before the due date', () => {
+    const reminders = getTaskReminders(
+      [], [makeAssignment()], [],
+      new Date('2026-03-01T00:00:00Z'), new Date('2026-03-11T00:00:00Z'),
+      { daysBefore: [3, 1], hour: 8, digest: true }, ZONE
+    )
+    // The DST change on March 8 moves 8am EST to 8am EDT
+    expect(reminders.map(r => [r.daysBefore, iso(r.fireAt)])).toEqual([
+      [3, '2026-03-07T13:00:00.000Z'],
+      [1, '2026-03-09T12:00:00.000Z'],
+    ])
+    expect(reminders[0]).toMatchObject({ key: 'assignment:a1:2026-03-10:3', expiresAt: Date.parse('2026-03-08T05:00:00Z') })
+  })
+
+  it('leaves morning-of reminders to the digest when it is on', () => {
+    const window = [new Date('2026-03-09T00:00:00Z'), new Date('2026-03-11T00:00:00Z')] as const
+    const options = { daysBefore: [0], hour: 8, digest: true }
+    expect(getTaskReminders([makeTodo()], [], [], ...window, options, ZONE)).toEqual([])
+    expect(getTaskReminders([makeTodo()], [], [], ...window, { ...options, digest: false }, ZONE)).toHaveLength(1)
+  })
+
+  it('skips completed items and completed occurrences of recurring ones', () => {
+    const reminders = getTaskReminders(
+      [makeTodo({ recurrence: 'daily' }), makeTodo({ id: 't2', completed: true })],
+      [],
+      [completed('t1', '2026-03-11')],
+      new Date('2026-03-10T00:00:00Z'), new Date('2026-03-13T00:00:00Z'),
+      { daysBefore: [0], hour: 8, digest: false }, ZONE
+    )
+    expect(reminders.map(r => r.dueDate)).toEqual(['2026-03-10', '2026-03-12'])
+  })
+
+  it('ignores completed exceptions that belong to the other task type', () => {
+    const reminders = getTaskReminders(
+      [makeTodo({ id: 'same', recurrence: 'daily' })],
+      [],
+      [completed('same', '2026-03-10', 'assignment')],
+      new Date('2026-03-10T00:00:00Z'), new Date('2026-03-11T00:00:00Z'),
+      { daysBefore: [0], hour: 8, digest: false }, ZONE
+    )
+    expect(reminders).toHaveLength(1)
+  })
+})
+
+describe('due digest', () => {
+  it('lists what is due today and what is overdue', () => {
+    const digest = getDueDigest(
+      [makeTodo({ recurrence: 'daily', due_date: '2026-03-08' }), makeTodo({ id: 't2', title: 'Old', due_date: '2025-12-01' })],
+      [makeAssignment()],
+      [completed('t1', '2026-03-08')],
+      '2026-03-10',
+    )
+    expect(digest.dueToday.map(t => [t.id, t.dueDate])).toEqual([['a1', '2026-03-10'], ['t1', '2026-03-10']])
+    expect(digest.overdue.map(t => [t.id, t.dueDate])).toEqual([['t2', '2025-12-01'], ['t1', '2026-03-09']])
+    expect(describeDigest(digest)).toEqual({
+      title: '2 due today · 2 overdue',
+      body: 'Today: ENG 200: Essay, Laundry\nOverdue: Old, Laundry',
+    })
+  })
+
+  it('stays quiet when nothing is due', () => {
+    expect(describeDigest(getDueDigest([], [makeAssignment({ completed: true })], [], '2026-03-10'))).toBeNull()
+  })
+
+  it('describes due dates relative to today', () => {
+    expect(describeDue('2026-03-10', '2026-03-10')).toBe('Due today')
+    expect(describeDue('2026-03-11', '2026-03-10')).toBe('Due tomorrow')
+    expect(describeDue('2026-03-13', '2026-03-10')).toBe('Due in 3 days')
+    expect(describeDue('2026-03-08', '2026-03-10')).toBe('Was due 2 days ago')
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  advanceRun, autoStartsAfter, classicPhases, countFocusPhases, focusOrdinal, nextStep, phaseIndexOf, presetPhases,
+  type AutoStart, type TimerPhase,
+} from '../lib/timerPresets'
+
+const focus = (minutes: number): TimerPhase => ({ type: 'focus', minutes })
+const short = (minutes: number): TimerPhase => ({ type: 'short_break', minutes })
+const long = (minutes: number): TimerPhase => ({ type: 'long_break', minutes })
+
+describe('classicPhases', () => {
+  it('puts short breaks between cycles and a long break at the end', () => {
+    expect(classicPhases({ focusMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, cycles: 3 })).toEqual([
+      focus(25), short(5), focus(25), short(5), focus(25), long(15),
+    ])
+  })
+
+  it('leaves out zero-minute breaks', () => {
+    expect(classicPhases({ focusMinutes: 25, shortBreakMinutes: 0, longBreakMinutes: 0, cycles: 2 })).toEqual([
+      focus(25), focus(25),
+    ])
+  })
+
+  it('is a single focus phase with zero cycles', () => {
+    expect(classicPhases({ focusMinutes: 50, shortBreakMinutes: 5, longBreakMinutes: 15, cycles: 0 })).toEqual([
+      focus(50),
+    ])
+  })
+})
+
+describe('presetPhases', () => {
+  it('drops malformed phases', () => {
+    const phases = [focus(52), { type: 'nap', minutes: 20 }, short(0), { type: 'focus', minutes: 30.4 }]
+    expect(presetPhases({ phases })).toEqual([focus(52), focus(30)])
+  })
+})
+
+describe('phase positions', () => {
+  const phases = [focus(52), short(17), focus(52), focus(52), long(30)]
+
+  it('counts focus phases', () => {
+    expect(countFocusPhases(phases)).toBe(3)
+  })
+
+  it('numbers a break after the focus phase before it', () => {
+    expect(focusOrdinal(phases, 0)).toBe(1)
+    expect(focusOrdinal(phases, 1)).toBe(1)
+    expect(focusOrdinal(phases, 3)).toBe(3)
+    expect(focusOrdinal([short(5), focus(25)], 0)).toBe(1)
+  })
+
+  it('finds a phase from its type and cycle', () => {
+    expect(phaseIndexOf(phases, 'focus', 2)).toBe(2)
+    expect(phaseIndexOf(phases, 'short_break', 1)).toBe(1)
+    expect(phaseIndexOf(phases, 'long_break', 3)).toBe(4)
+    expect(phaseIndexOf(phases, 'focus', 9)).toBe(4)
+  })
+})
+
+describe('nextStep', () => {
+  const phases = [focus(25), focus(25), short(5), short(5), focus(25), long(15)]
+
+  it('runs straight on between focus phases', () => {
+    expect(nextStep(phases, 0)).toBe('chain')
+  })
+
+  it('waits before every break and before focusing again', () => {
+    expect(nextStep(phases, 1)).toBe('wait_break')
+    expect(nextStep(phases, 2)).toBe('wait_break')
+    expect(nextStep(phases, 3)).toBe('wait_focus')
+  })
+
+  it('waits after a closing break but finishes on a closing focus phase', () => {
+    expect(nextStep(phases, 5)).toBe('wait_finish')
+    expect(nextStep([focus(25)], 0)).toBe('finish')
+  })
+})
+
+describe('autoStartsAfter', () => {
+  const autoStart: AutoStart = { breaks: true, focus: false, delaySeconds: 0 }
+
+  it('follows the setting for the kind of wait', () => {
+    expect(autoStartsAfter('wait_break', autoStart)).toBe(true)
+    expect(autoStartsAfter('wait_focus', autoStart)).toBe(false)
+    expect(autoStartsAfter('wait_finish', autoStart)).toBe(false)
+    expect(autoStartsAfter('chain', autoStart)).toBe(true)
+  })
+})
+
+describe('advanceRun', () => {
+  const MIN = 60 * 1000
+  const phases = [focus(25), short(5), focus(25), long(15)]
+  const running = { index: 0, waiting: false, until: 25 * MIN, focusSeconds: 0, finished: false }
+  const manual: AutoStart = { breaks: false, focus: false, delaySeconds: 0 }
+  const auto: AutoStart = { breaks: true, focus: true, delaySeconds: 10 }
+
+  it('leaves a run alone until its phase ends', () => {
+    expect(advanceRun(phases, running, auto, 10 * MIN)).toEqual(running)
+  })
+
+  it('stops at the first wait for the user', () => {
+    expect(advanceRun(phases, running, manual, 60 * MIN)).toEqual({
+      index: 0, waiting: true, until: null, focusSeconds: 25 * 60, finished: false,
+    })
+  })
+
+  it('carries on through auto-started phases after their grace period', () => {
+    // Focus ends at 25m, the break starts at 25m10s and ends at 30m10s
+    expect(advanceRun(phases, running, auto, 25 * MIN + 5000)).toMatchObject({ index: 0, waiting: true, until: 25 * MIN + 10000 })
+    expect(advanceRun(phases, running, auto, 28 * MIN)).toMatchObject({ index: 1, waiting: false, until: 30 * MIN + 10000 })
+    expect(advanceRun(phases, running, auto, 40 * MIN)).toMatchObject({
+      index: 2, waiting: false, until: 55 * MIN + 20000, focusSeconds: 25 * 60,
+    })
+  })
+
+  it('finishes a run that ran to its end, recording when', () => {
+    expect(advanceRun(phases, running, auto, 3 * 60 * MIN)).toEqual({
+      index: 3, waiting: true, until: 70 * MIN + 40000, focusSeconds: 50 * 60, finished: true,
+    })
+  })
+
+  it('does nothing for a paused run', () => {
+    const paused = { ...running, until: null }
+    expect(advanceRun(phases, paused, auto, 60 * MIN)).toEqual(paused)
+  })
+})
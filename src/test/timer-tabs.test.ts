@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { act, cleanup, renderHook } from '@testing-library/react'
+import {
+  HEARTBEAT_MS, LEASE_MS, TIMER_OWNER_KEY, holdLease, leaseOwner, readLease, releaseLease,
+} from '../lib/timerTabs'
+import { useTimerTabs } from '../hooks/useTimerTabs'
+
+describe('leaseOwner', () => {
+  it('is the holder until the lease lapses', () => {
+    const lease = { tabId: 'a', expiresAt: 1000 }
+    expect(leaseOwner(lease, 999)).toBe('a')
+    expect(leaseOwner(lease, 1000)).toBeNull()
+    expect(leaseOwner(null, 0)).toBeNull()
+  })
+})
+
+describe('holdLease', () => {
+  beforeEach(() => localStorage.removeItem(TIMER_OWNER_KEY))
+
+  it('takes a free lease and renews its own', () => {
+    expect(holdLease('a', 0)).toBe(true)
+    expect(holdLease('a', 4000)).toBe(true)
+    expect(readLease()).toEqual({ tabId: 'a', expiresAt: 4000 + LEASE_MS })
+  })
+
+  it('leaves a live lease to the tab holding it', () => {
+    holdLease('a', 0)
+    expect(holdLease('b', LEASE_MS - 1)).toBe(false)
+    expect(readLease()?.tabId).toBe('a')
+  })
+
+  it('takes over a lapsed lease', () => {
+    holdLease('a', 0)
+    expect(holdLease('b', LEASE_MS)).toBe(true)
+  })
+
+  it('only lets the holder release it', () => {
+    holdLease('a', 0)
+    releaseLease('b')
+    expect(readLease()?.tabId).toBe('a')
+    releaseLease('a')
+    expect(readLease()).toBeNull()
+  })
+})
+
+// Delivers to every other channel of the same name, as tabs of one origin do
+class FakeBroadcastChannel {
+  static open: FakeBroadcastChannel[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  name: string
+  constructor(name: string) {
+    this.name = name
+    FakeBroadcastChannel.open.push(this)
+  }
+  postMessage(data: unknown) {
+    for (const channel of FakeBroadcastChannel.open) {
+      if (channel !== this && channel.name === this.name) queueMicrotask(() => channel.onmessage?.({ data }))
+    }
+  }
+  close() {
+    FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter(channel => channel !== this)
+  }
+}
+
+// Tabs share the one localStorage, like tabs of an origin
+function openTab(active: boolean, state = { elapsed: 0 }) {
+  const onCommand = vi.fn()
+  const onHeartbeat = vi.fn()
+  const onTakeOver = vi.fn(() => true)
+  const onLoseLease = vi.fn()
+  const tab = renderHook(
+    props => useTimerTabs({ ...props, onCommand, onHeartbeat, onTakeOver, onLoseLease }),
+    { initialProps: { active, state } },
+  )
+  return { ...tab, onCommand, onHeartbeat, onTakeOver, onLoseLease }
+}
+
+const flush = () => act(async () => {})
+
+describe('useTimerTabs', () => {
+  beforeEach(() => {
+    localStorage.removeItem(TIMER_OWNER_KEY)
+    FakeBroadcastChannel.open = []
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('mirrors the owner and forwards commands to it', async () => {
+    const owner = openTab(true, { elapsed: 42 })
+    const other = openTab(false)
+    await flush()
+    expect(other.result.current.mirror).toEqual({ elapsed: 42 })
+    expect(owner.result.current.mirror).toBeNull()
+
+    other.result.current.forward({ type: 'pause' })
+    await flush()
+    expect(owner.onCommand).toHaveBeenCalledWith({ type: 'pause' })
+    expect(other.onCommand).not.toHaveBeenCalled()
+  })
+
+  it('keeps a second tab from starting a session while the owner has one', async () => {
+    const owner = openTab(true)
+    const other = openTab(false)
+    await flush()
+    expect(other.result.current.claim()).toBe(false)
+
+    owner.rerender({ active: false, state: { elapsed: 0 } })
+    await flush()
+    expect(other.result.current.mirror).toBeNull()
+    expect(other.result.current.claim()).toBe(true)
+  })
+
+  it('hands the session to another tab when the owner closes', async () => {
+    const owner = openTab(true)
+    const other = openTab(false)
+    await flush()
+
+    owner.result.current.release()
+    owner.unmount()
+    window.dispatchEvent(new StorageEvent('storage', { key: TIMER_OWNER_KEY, newValue: null }))
+    await act(async () => { vi.advanceTimersByTime(300) })
+    expect(other.onTakeOver).toHaveBeenCalledOnce()
+    expect(other.result.current.mirror).toBeNull()
+    expect(other.result.current.claim()).toBe(true)
+  })
+
+  it('takes over once the lease of a crashed owner lapses', async () => {
+    const owner = openTab(true)
+    const other = openTab(false)
+    await flush()
+
+    // Gone without a word: no release, no heartbeat
+    owner.unmount()
+    await act(async () => { vi.advanceTimersByTime(HEARTBEAT_MS) })
+    expect(other.onTakeOver).not.toHaveBeenCalled()
+    await act(async () => { vi.advanceTimersByTime(LEASE_MS + 300) })
+    expect(other.onTakeOver).toHaveBeenCalledOnce()
+  })
+
+  it('steps down when its lease lapsed and another tab took the session over', async () => {
+    const owner = openTab(true, { elapsed: 42 })
+    const other = openTab(false)
+    await flush()
+
+    // The owner's timers were throttled past its lease, and the other tab noticed
+    localStorage.removeItem(TIMER_OWNER_KEY)
+    window.dispatchEvent(new StorageEvent('storage', { key: TIMER_OWNER_KEY, newValue: null }))
+    await act(async () => { vi.advanceTimersByTime(300) })
+    expect(other.onTakeOver).toHaveBeenCalledOnce()
+    other.rerender({ active: true, state: { elapsed: 43 } })
+    await flush()
+
+    const beats = owner.onHeartbeat.mock.calls.length
+    await act(async () => { vi.advanceTimersByTime(HEARTBEAT_MS) })
+    expect(owner.onLoseLease).toHaveBeenCalledOnce()
+    expect(owner.onHeartbeat).toHaveBeenCalledTimes(beats)
+    expect(owner.result.current.claim()).toBe(false)
+
+    owner.rerender({ active: false, state: { elapsed: 42 } })
+    await flush()
+    expect(owner.result.current.mirror).toEqual({ elapsed: 43 })
+    await act(async () => { vi.advanceTimersByTime(HEARTBEAT_MS * 2) })
+    expect(owner.onHeartbeat).toHaveBeenCalledTimes(beats)
+  })
+})
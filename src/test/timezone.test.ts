@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { format } from 'date-fns'
+import { fromZonedDate, getZonedDateKey, toZonedDate, zonedTimeToUtc } from '../lib/timezone'
+import { expandItems } from '../lib/recurrence'
+import { getOccurrenceTimes } from '../lib/allDay'
+import type { CalendarEvent, RecurrenceException } from '../types/database'
+
+function makeEvent(overrides: Partial<CalendarEvent>): CalendarEvent {
+  return {
+    id: 'ev1',
+    user_id: 'u1',
+    calendar_id: 'cal1',
+    title: 'Lecture',
+    description: null,
+    start_time: '2026-03-02T14:00:00.000Z', // Mon 9:00 EST
+    end_time: '2026-03-02T15:15:00.000Z',
+    all_day: false,
+    time_zone: 'America/New_York',
+    reminders: null,
+    recurrence: 'weekly',
+    recurrence_until: null,
+    ical_uid: null,
+    assignment_id: null,
+    created_at: '',
+    ...overrides,
+  }
+}
+
+function expand(event: CalendarEvent, rangeStart: string, rangeEnd: string, exceptions: RecurrenceException[] = []) {
+  return expandItems([event], 'start_time', rangeStart, rangeEnd, exceptions, e => e.time_zone)
+    .map(occ => ({ date: occ.occurrenceDate, ...getOccurrenceTimes(occ.data, occ.occurrenceDate) }))
+}
+
+describe('Time zones', () => {
+  describe('zonedTimeToUtc', () => {
+    it('resolves wall times on both sides of a DST change', () => {
+      const wall = { year: 2026, month: 3, day: 6, hour: 9, minute: 0, second: 0 }
+      expect(zonedTimeToUtc(wall, 'America/New_York').toISOString()).toBe('2026-03-06T14:00:00.000Z')
+      expect(zonedTimeToUtc({ ...wall, day: 9 }, 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z')
+    })
+
+    it('moves times in a spring-forward gap forward', () => {
+      const wall = { year: 2026, month: 3, day: 8, hour: 2, minute: 30, second: 0 }
+      expect(zonedTimeToUtc(wall, 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z')
+    })
+
+    it('picks the first of two fall-back times', () => {
+      const wall = { year: 2026, month: 11, day: 1, hour: 1, minute: 30, second: 0 }
+      expect(zonedTimeToUtc(wall, 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z')
+    })
+  })
+
+  describe('zoned dates', () => {
+    it('reads calendar dates in the given zone', () => {
+      expect(getZonedDateKey('2026-03-03T03:00:00.000Z', 'America/Los_Angeles')).toBe('2026-03-02')
+      expect(getZonedDateKey('2026-03-03T03:00:00.000Z', 'Asia/Tokyo')).toBe('2026-03-03')
+    })
+
+    it('round-trips display dates through toZonedDate/fromZonedDate', () => {
+      const instant = new Date('2026-07-01T16:45:00.000Z')
+      const zoned = toZonedDate(instant, 'Europe/Berlin')
+      expect(format(zoned, 'yyyy-MM-dd HH:mm')).toBe('2026-07-01 18:45')
+      expect(fromZonedDate(zoned, 'Europe/Berlin').toISOString()).toBe(instant.toISOString())
+    })
+  })
+
+  describe('recurring events', () => {
+    it('keep their wall time across spring-forward', () => {
+      const occurrences = expand(makeEvent({}), '2026-03-02', '2026-03-17')
+      expect(occurrences).toEqual([
+        { date: '2026-03-02', start_time: '2026-03-02T14:00:00.000Z', end_time: '2026-03-02T15:15:00.000Z' },
+        { date: '2026-03-09', start_time: '2026-03-09T13:00:00.000Z', end_time: '2026-03-09T14:15:00.000Z' },
+        { date: '2026-03-16', start_time: '2026-03-16T13:00:00.000Z', end_time: '2026-03-16T14:15:00.000Z' },
+      ])
+    })
+
+    it('keep their wall time across fall-back', () => {
+      const event = makeEvent({ start_time: '2026-10-26T13:00:00.000Z', end_time: '2026-10-26T14:00:00.000Z' })
+      expect(expand(event, '2026-11-02', '2026-11-03')).toEqual([
+        { date: '2026-11-02', start_time: '2026-11-02T14:00:00.000Z', end_time: '2026-11-02T15:00:00.000Z' },
+      ])
+    })
+
+    it('recur on dates in their own zone, not UTC', () => {
+      // Mondays at 8pm in Los Angeles are Tuesdays in UTC
+      const event = makeEvent({
+        start_time: '2026-03-03T04:00:00.000Z',
+        end_time: '2026-03-03T05:00:00.000Z',
+        time_zone: 'America/Los_Angeles',
+      })
+      const skipped: RecurrenceException = {
+        id: 'x1', user_id: 'u1', parent_type: 'event', parent_id: 'ev1',
+        exception_date: '2026-03-09', exception_type: 'skipped', overrides: null, created_at: '',
+      }
+      expect(expand(event, '2026-03-02', '2026-03-24', [skipped]).map(o => o.date)).toEqual(['2026-03-02', '2026-03-16', '2026-03-23'])
+      expect(expand(event, '2026-03-16', '2026-03-17')[0].start_time).toBe('2026-03-17T03:00:00.000Z')
+    })
+
+    it('fall back to UTC date keys for events without a zone', () => {
+      const event = makeEvent({ time_zone: null, start_time: '2026-03-03T04:00:00.000Z', end_time: '2026-03-03T05:00:00.000Z' })
+      expect(expand(event, '2026-03-02', '2026-03-11').map(o => o.date)).toEqual(['2026-03-03', '2026-03-10'])
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { countUserRows, describeUserData, emptyUserData, remapUserData } from '../lib/userData'
+
+function sequentialIds() {
+  let next = 0
+  return () => `new-${++next}`
+}
+
+function makeGuestData() {
+  const data = emptyUserData()
+  data.calendars = [{ id: 'cal', user_id: '', name: 'School' }]
+  data.events = [{ id: 'ev', user_id: '', calendar_id: 'cal', title: 'Lecture' }]
+  data.subjects = [{ id: 'sub', user_id: '', name: 'Math' }]
+  data.focus_sessions = [
+    { id: 's1', user_id: '', subject_id: 'sub' },
+    { id: 's2', user_id: '', subject_id: 'deleted-subject' },
+  ]
+  data.todos = [{ id: 'todo', user_id: '', title: 'Laundry' }]
+  data.recurrence_exceptions = [
+    { id: 'x1', user_id: '', parent_type: 'event', parent_id: 'ev' },
+    { id: 'x2', user_id: '', parent_type: 'todo', parent_id: 'todo' },
+  ]
+  return data
+}
+
+describe('remapUserData', () => {
+  it('gives every row a new id and the new owner', () => {
+    const remapped = remapUserData(makeGuestData(), 'user-1', { newId: sequentialIds() })
+    expect(remapped.calendars[0]).toEqual({ id: 'new-1', user_id: 'user-1', name: 'School' })
+    expect(remapped.todos[0].id).not.toBe('todo')
+    expect(remapped.todos[0].user_id).toBe('user-1')
+  })
+
+  it('rewrites foreign keys to the new parent ids', () => {
+    const remapped = remapUserData(makeGuestData(), 'user-1', { newId: sequentialIds() })
+    expect(remapped.events[0].calendar_id).toBe(remapped.calendars[0].id)
+    expect(remapped.focus_sessions[0].subject_id).toBe(remapped.subjects[0].id)
+    expect(remapped.recurrence_exceptions.map(x => x.parent_id))
+      .toEqual([remapped.events[0].id, remapped.todos[0].id])
+  })
+
+  it('skips rows already present and keeps references to them', () => {
+    const existing = { calendars: new Map([['cal', 'cal']]), events: new Map([['ev', 'ev']]) }
+    const remapped = remapUserData(makeGuestData(), 'user-1', { newId: sequentialIds(), existing })
+    expect(remapped.calendars).toEqual([])
+    expect(remapped.events).toEqual([])
+    expect(remapped.recurrence_exceptions[0].parent_id).toBe('ev')
+  })
+
+  it('keeps rows whose optional parent is missing, without the link', () => {
+    const data = makeGuestData()
+    data.courses = [{ id: 'course', user_id: '', name: 'CS 101' }]
+    data.subjects = [{ id: 'sub', user_id: '', name: 'Math', course_id: 'course' }]
+    data.assignments = [{ id: 'hw', user_id: '', title: 'Essay', course_id: 'deleted-course' }]
+    const remapped = remapUserData(data, 'user-1', { newId: sequentialIds() })
+    expect(remapped.subjects[0].course_id).toBe(remapped.courses[0].id)
+    expect(remapped.assignments[0].course_id).toBeNull()
+  })
+
+  it('relinks study blocks to their assignment', () => {
+    const data = makeGuestData()
+    data.assignments = [{ id: 'hw', user_id: '', title: 'Essay' }]
+    data.events = [{ id: 'ev', user_id: '', calendar_id: 'cal', title: 'Essay', assignment_id: 'hw' }]
+    const remapped = remapUserData(data, 'user-1', { newId: sequentialIds() })
+    expect(remapped.events[0].assignment_id).toBe(remapped.assignments[0].id)
+  })
+
+  it('relinks focus sessions to their task, or unlinks them if it is gone', () => {
+    const data = makeGuestData()
+    data.focus_sessions = [
+      { id: 's1', user_id: '', subject_id: 'sub', task_type: 'todo', task_id: 'todo' },
+      { id: 's2', user_id: '', subject_id: 'sub', task_type: 'assignment', task_id: 'deleted-assignment' },
+    ]
+    const remapped = remapUserData(data, 'user-1', { newId: sequentialIds() })
+    expect(remapped.focus_sessions[0].task_id).toBe(remapped.todos[0].id)
+    expect(remapped.focus_sessions[1]).toMatchObject({ task_type: null, task_id: null })
+  })
+
+  it('relinks session segments to their session', () => {
+    const data = makeGuestData()
+    data.focus_session_segments = [{ id: 'seg', user_id: '', session_id: data.focus_sessions[0].id, kind: 'focus' }]
+    const remapped = remapUserData(data, 'user-1', { newId: sequentialIds() })
+    expect(remapped.focus_session_segments[0].session_id).toBe(remapped.focus_sessions[0].id)
+  })
+
+  it('relinks pacer runs to their session', () => {
+    const data = makeGuestData()
+    data.pacer_runs = [{ id: 'run', user_id: '', session_id: data.focus_sessions[0].id, questions: [] }]
+    const remapped = remapUserData(data, 'user-1', { newId: sequentialIds() })
+    expect(remapped.pacer_runs[0].session_id).toBe(remapped.focus_sessions[0].id)
+  })
+
+  it('leaves out rows whose parent is missing', () => {
+    const remapped = remapUserData(makeGuestData(), 'user-1', { newId: sequentialIds() })
+    expect(remapped.focus_sessions).toHaveLength(1)
+    expect(countUserRows(remapped)).toBe(countUserRows(makeGuestData()) - 1)
+  })
+})
+
+describe('describeUserData', () => {
+  it('summarises non-empty tables', () => {
+    expect(describeUserData(makeGuestData())).toEqual([
+      '1 calendar', '1 subject', '1 to-do', '1 event', '2 focus sessions', '2 recurrence changes',
+    ])
+  })
+})
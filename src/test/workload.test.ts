@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  busyIntervals, estimatedMinutesByDay, freeIntervals, freeMinutesByDay, isOverloaded, remainingMinutes,
+} from '../lib/workload'
+import type { VirtualOccurrence } from '../lib/recurrence'
+import type { CalendarEvent, Todo } from '../types/database'
+
+function makeEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'e1', user_id: 'u1', calendar_id: 'c1', title: 'Lecture', description: null,
+    start_time: new Date(2026, 2, 2, 10).toISOString(), end_time: new Date(2026, 2, 2, 12).toISOString(),
+    all_day: false, recurrence: null, recurrence_until: null, time_zone: null,
+    ...overrides,
+  } as CalendarEvent
+}
+
+function makeOccurrence(date: string, overrides: Partial<Todo> = {}): VirtualOccurrence<Todo> {
+  const data: Todo = {
+    id: 't1', user_id: 'u1', title: 'Read', description: null, due_date: date, completed: false,
+    type: null, status: null, course: null, recurrence: null, recurrence_until: null, position: null,
+    estimated_minutes: 120, created_at: '',
+    ...overrides,
+  }
+  return { data, occurrenceDate: date, isVirtual: false, exception: null } as VirtualOccurrence<Todo>
+}
+
+describe('remainingMinutes', () => {
+  it('takes focus time off the estimate without going below zero', () => {
+    expect(remainingMinutes(90, 30 * 60)).toBe(60)
+    expect(remainingMinutes(30, 45 * 60)).toBe(0)
+    expect(remainingMinutes(null, 0)).toBeNull()
+  })
+})
+
+describe('busyIntervals', () => {
+  it('merges overlapping timed events and ignores all-day ones', () => {
+    const busy = busyIntervals([
+      makeEvent(),
+      makeEvent({ id: 'e2', start_time: new Date(2026, 2, 2, 11).toISOString(), end_time: new Date(2026, 2, 2, 13).toISOString() }),
+      makeEvent({ id: 'e3', all_day: true, start_time: '2026-03-02T00:00:00.000Z', end_time: '2026-03-03T00:00:00.000Z' }),
+    ], [], new Date(2026, 2, 2), new Date(2026, 2, 3))
+    expect(busy).toEqual([{ start: new Date(2026, 2, 2, 10).getTime(), end: new Date(2026, 2, 2, 13).getTime() }])
+  })
+})
+
+describe('freeMinutesByDay', () => {
+  it("subtracts busy time from each day's study window", () => {
+    const busy = busyIntervals([makeEvent()], [], new Date(2026, 2, 2), new Date(2026, 2, 4))
+    const free = freeMinutesByDay([new Date(2026, 2, 2), new Date(2026, 2, 3)], busy, new Date(2026, 2, 1))
+    expect(free.get('2026-03-02')).toBe(12 * 60)
+    expect(free.get('2026-03-03')).toBe(14 * 60)
+  })
+
+  it("doesn't count time that has already passed", () => {
+    const free = freeMinutesByDay([new Date(2026, 2, 2)], [], new Date(2026, 2, 2, 20))
+    expect(free.get('2026-03-02')).toBe(120)
+  })
+
+  it('finds the gaps between busy intervals', () => {
+    expect(freeIntervals({ start: 0, end: 10 }, [{ start: 2, end: 4 }, { start: 8, end: 12 }]))
+      .toEqual([{ start: 0, end: 2 }, { start: 4, end: 8 }])
+  })
+})
+
+describe('estimatedMinutesByDay', () => {
+  it('sums what is left of unfinished tasks by due date', () => {
+    const estimated = estimatedMinutesByDay([
+      makeOccurrence('2026-03-02'),
+      makeOccurrence('2026-03-02', { id: 't2', estimated_minutes: 30 }),
+      makeOccurrence('2026-03-02', { id: 't3', completed: true }),
+      makeOccurrence('2026-03-03', { id: 't4', estimated_minutes: null }),
+    ], item => item.id === 't1' ? 60 * 60 : 0)
+    expect(estimated.get('2026-03-02')).toBe(90)
+    expect(estimated.has('2026-03-03')).toBe(false)
+  })
+
+  it('flags days whose work exceeds their free time', () => {
+    expect(isOverloaded({ estimatedMinutes: 300, freeMinutes: 240 })).toBe(true)
+    expect(isOverloaded({ estimatedMinutes: 240, freeMinutes: 240 })).toBe(false)
+  })
+})
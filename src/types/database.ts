@@ -1,6 +1,30 @@
 export interface Database {
   public: {
     Tables: {
+      courses: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          color: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          name: string
+          color: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          color?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
       calendars: {
         Row: {
           id: string
@@ -8,6 +32,8 @@ export interface Database {
           name: string
           color: string
           visible: boolean
+          course_id: string | null
+          study_plan: boolean
           created_at: string
         }
         Insert: {
@@ -16,6 +42,8 @@ export interface Database {
           name: string
           color: string
           visible?: boolean
+          course_id?: string | null
+          study_plan?: boolean
           created_at?: string
         }
         Update: {
@@ -24,6 +52,8 @@ export interface Database {
           name?: string
           color?: string
           visible?: boolean
+          course_id?: string | null
+          study_plan?: boolean
           created_at?: string
         }
         Relationships: []
@@ -37,8 +67,13 @@ export interface Database {
           description: string | null
           start_time: string
           end_time: string
+          all_day: boolean
+          time_zone: string | null
+          reminders: number[] | null
           recurrence: string | null
           recurrence_until: string | null
+          ical_uid: string | null
+          assignment_id: string | null
           created_at: string
         }
         Insert: {
@@ -49,8 +84,13 @@ export interface Database {
           description?: string | null
           start_time: string
           end_time: string
+          all_day?: boolean
+          time_zone?: string | null
+          reminders?: number[] | null
           recurrence?: string | null
           recurrence_until?: string | null
+          ical_uid?: string | null
+          assignment_id?: string | null
           created_at?: string
         }
         Update: {
@@ -61,8 +101,13 @@ export interface Database {
           description?: string | null
           start_time?: string
           end_time?: string
+          all_day?: boolean
+          time_zone?: string | null
+          reminders?: number[] | null
           recurrence?: string | null
           recurrence_until?: string | null
+          ical_uid?: string | null
+          assignment_id?: string | null
           created_at?: string
         }
         Relationships: []
@@ -74,6 +119,7 @@ export interface Database {
           name: string
           color: string
           archived: boolean
+          course_id: string | null
           created_at: string
         }
         Insert: {
@@ -82,6 +128,7 @@ export interface Database {
           name: string
           color: string
           archived?: boolean
+          course_id?: string | null
           created_at?: string
         }
         Update: {
@@ -90,6 +137,7 @@ export interface Database {
           name?: string
           color?: string
           archived?: boolean
+          course_id?: string | null
           created_at?: string
         }
         Relationships: []
@@ -102,6 +150,8 @@ export interface Database {
           start_time: string
           end_time: string | null
           duration_seconds: number | null
+          task_type: string | null
+          task_id: string | null
           created_at: string
         }
         Insert: {
@@ -111,6 +161,8 @@ export interface Database {
           start_time: string
           end_time?: string | null
           duration_seconds?: number | null
+          task_type?: string | null
+          task_id?: string | null
           created_at?: string
         }
         Update: {
@@ -120,6 +172,8 @@ export interface Database {
           start_time?: string
           end_time?: string | null
           duration_seconds?: number | null
+          task_type?: string | null
+          task_id?: string | null
           created_at?: string
         }
         Relationships: []
@@ -138,6 +192,7 @@ export interface Database {
           recurrence: string | null
           recurrence_until: string | null
           position: number | null
+          estimated_minutes: number | null
           created_at: string
         }
         Insert: {
@@ -153,6 +208,7 @@ export interface Database {
           recurrence?: string | null
           recurrence_until?: string | null
           position?: number | null
+          estimated_minutes?: number | null
           created_at?: string
         }
         Update: {
@@ -168,6 +224,7 @@ export interface Database {
           recurrence?: string | null
           recurrence_until?: string | null
           position?: number | null
+          estimated_minutes?: number | null
           created_at?: string
         }
         Relationships: []
@@ -180,12 +237,14 @@ export interface Database {
           description: string | null
           due_date: string
           course: string | null
+          course_id: string | null
           completed: boolean
           type: string | null
           status: string | null
           recurrence: string | null
           recurrence_until: string | null
           position: number | null
+          estimated_minutes: number | null
           created_at: string
         }
         Insert: {
@@ -195,12 +254,14 @@ export interface Database {
           description?: string | null
           due_date: string
           course?: string | null
+          course_id?: string | null
           completed?: boolean
           type?: string | null
           status?: string | null
           recurrence?: string | null
           recurrence_until?: string | null
           position?: number | null
+          estimated_minutes?: number | null
           created_at?: string
         }
         Update: {
@@ -210,12 +271,14 @@ export interface Database {
           description?: string | null
           due_date?: string
           course?: string | null
+          course_id?: string | null
           completed?: boolean
           type?: string | null
           status?: string | null
           recurrence?: string | null
           recurrence_until?: string | null
           position?: number | null
+          estimated_minutes?: number | null
           created_at?: string
         }
         Relationships: []
@@ -229,6 +292,21 @@ export interface Database {
           pomodoro_short_break_minutes: number
           pomodoro_long_break_minutes: number
           pomodoro_cycles: number
+          pomodoro_auto_start_breaks: boolean
+          pomodoro_auto_start_focus: boolean
+          pomodoro_auto_start_delay_seconds: number
+          display_time_zone: string | null
+          task_reminder_days: number[]
+          task_reminder_hour: number
+          task_digest_enabled: boolean
+          sleep_start_hour: number
+          sleep_end_hour: number
+          max_study_minutes_per_day: number
+          timer_preset_id: string | null
+          pacing_time_per_question: number
+          pacing_time_unit: string
+          pacing_question_count: number
+          pacing_shortcut_key: string
           created_at: string
         }
         Insert: {
@@ -239,6 +317,21 @@ export interface Database {
           pomodoro_short_break_minutes?: number
           pomodoro_long_break_minutes?: number
           pomodoro_cycles?: number
+          pomodoro_auto_start_breaks?: boolean
+          pomodoro_auto_start_focus?: boolean
+          pomodoro_auto_start_delay_seconds?: number
+          display_time_zone?: string | null
+          task_reminder_days?: number[]
+          task_reminder_hour?: number
+          task_digest_enabled?: boolean
+          sleep_start_hour?: number
+          sleep_end_hour?: number
+          max_study_minutes_per_day?: number
+          timer_preset_id?: string | null
+          pacing_time_per_question?: number
+          pacing_time_unit?: string
+          pacing_question_count?: number
+          pacing_shortcut_key?: string
           created_at?: string
         }
         Update: {
@@ -249,6 +342,21 @@ export interface Database {
           pomodoro_short_break_minutes?: number
           pomodoro_long_break_minutes?: number
           pomodoro_cycles?: number
+          pomodoro_auto_start_breaks?: boolean
+          pomodoro_auto_start_focus?: boolean
+          pomodoro_auto_start_delay_seconds?: number
+          display_time_zone?: string | null
+          task_reminder_days?: number[]
+          task_reminder_hour?: number
+          task_digest_enabled?: boolean
+          sleep_start_hour?: number
+          sleep_end_hour?: number
+          max_study_minutes_per_day?: number
+          timer_preset_id?: string | null
+          pacing_time_per_question?: number
+          pacing_time_unit?: string
+          pacing_question_count?: number
+          pacing_shortcut_key?: string
           created_at?: string
         }
         Relationships: []
@@ -286,6 +394,138 @@ export interface Database {
         }
         Relationships: []
       }
+      task_options: {
+        Row: {
+          id: string
+          user_id: string
+          kind: string
+          name: string
+          color: string | null
+          position: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          kind: string
+          name: string
+          color?: string | null
+          position?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          kind?: string
+          name?: string
+          color?: string | null
+          position?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      focus_session_segments: {
+        Row: {
+          id: string
+          user_id: string
+          session_id: string
+          kind: string
+          start_time: string
+          end_time: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          session_id: string
+          kind: string
+          start_time: string
+          end_time?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          session_id?: string
+          kind?: string
+          start_time?: string
+          end_time?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      pacer_runs: {
+        Row: {
+          id: string
+          user_id: string
+          session_id: string
+          seconds_per_question: number
+          question_count: number
+          questions: { seconds: number; allowed_seconds: number; rollover_seconds: number; overtime: boolean }[]
+          start_time: string
+          end_time: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          session_id: string
+          seconds_per_question: number
+          question_count: number
+          questions?: { seconds: number; allowed_seconds: number; rollover_seconds: number; overtime: boolean }[]
+          start_time: string
+          end_time?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          session_id?: string
+          seconds_per_question?: number
+          question_count?: number
+          questions?: { seconds: number; allowed_seconds: number; rollover_seconds: number; overtime: boolean }[]
+          start_time?: string
+          end_time?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      timer_presets: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          phases: { type: string; minutes: number }[]
+          position: number | null
+          auto_start_breaks: boolean
+          auto_start_focus: boolean
+          auto_start_delay_seconds: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          name: string
+          phases: { type: string; minutes: number }[]
+          position?: number | null
+          auto_start_breaks?: boolean
+          auto_start_focus?: boolean
+          auto_start_delay_seconds?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          phases?: { type: string; minutes: number }[]
+          position?: number | null
+          auto_start_breaks?: boolean
+          auto_start_focus?: boolean
+          auto_start_delay_seconds?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: Record<string, never>
     Functions: Record<string, never>
@@ -294,6 +534,8 @@ export interface Database {
   }
 }
 
+export type Course = Database['public']['Tables']['courses']['Row']
+export type CourseInsert = Database['public']['Tables']['courses']['Insert']
 export type Calendar = Database['public']['Tables']['calendars']['Row']
 export type CalendarInsert = Database['public']['Tables']['calendars']['Insert']
 export type CalendarEvent = Database['public']['Tables']['events']['Row']
@@ -301,10 +543,18 @@ export type CalendarEventInsert = Database['public']['Tables']['events']['Insert
 export type Subject = Database['public']['Tables']['subjects']['Row']
 export type SubjectInsert = Database['public']['Tables']['subjects']['Insert']
 export type FocusSession = Database['public']['Tables']['focus_sessions']['Row']
+export type FocusSessionSegment = Database['public']['Tables']['focus_session_segments']['Row']
+export type FocusSessionSegmentInsert = Database['public']['Tables']['focus_session_segments']['Insert']
+export type PacerRun = Database['public']['Tables']['pacer_runs']['Row']
+export type PacerRunInsert = Database['public']['Tables']['pacer_runs']['Insert']
 export type Todo = Database['public']['Tables']['todos']['Row']
 export type TodoInsert = Database['public']['Tables']['todos']['Insert']
 export type Assignment = Database['public']['Tables']['assignments']['Row']
 export type AssignmentInsert = Database['public']['Tables']['assignments']['Insert']
 export type RecurrenceException = Database['public']['Tables']['recurrence_exceptions']['Row']
 export type RecurrenceExceptionInsert = Database['public']['Tables']['recurrence_exceptions']['Insert']
+export type TaskOption = Database['public']['Tables']['task_options']['Row']
+export type TaskOptionInsert = Database['public']['Tables']['task_options']['Insert']
+export type TimerPreset = Database['public']['Tables']['timer_presets']['Row']
+export type TimerPresetInsert = Database['public']['Tables']['timer_presets']['Insert']
 export type UserSettings = Database['public']['Tables']['user_settings']['Row']